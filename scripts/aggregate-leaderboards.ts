@@ -0,0 +1,50 @@
+/**
+ * Verify new scores and rebuild the global leaderboards from the `scores` collection.
+ *
+ * Runs against the Firestore emulator:
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run leaderboards:aggregate [-- --date 2026-10-19]
+ *
+ * Exits with status 1 when any board fails to build. There is no production
+ * job yet; see LeaderboardAggregator.
+ */
+
+import { initializeApp } from 'firebase/app'
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore'
+import { LeaderboardAggregator, FirestoreLeaderboardStore } from '../src/systems/LeaderboardAggregator'
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST
+if (!emulatorHost) {
+  console.error('Set FIRESTORE_EMULATOR_HOST (e.g. localhost:8080) - this script only runs against the emulator')
+  process.exit(1)
+}
+
+const dateArg = process.argv.indexOf('--date')
+const date = dateArg > -1 ? new Date(`${process.argv[dateArg + 1]}T12:00:00Z`) : new Date()
+if (isNaN(date.getTime())) {
+  console.error('Invalid --date, expected YYYY-MM-DD')
+  process.exit(1)
+}
+
+const projectId = process.env.GCLOUD_PROJECT || process.env.VITE_FIREBASE_PROJECT_ID || 'paper-plane-c713f'
+const app = initializeApp({ projectId, apiKey: 'emulator' })
+const firestore = getFirestore(app)
+
+// The rules only let admins write leaderboards
+const [host, port] = emulatorHost.split(':')
+connectFirestoreEmulator(firestore, host, Number(port), {
+  mockUserToken: { user_id: 'leaderboard-aggregator', admin: true }
+})
+
+const aggregator = new LeaderboardAggregator(new FirestoreLeaderboardStore(firestore))
+aggregator.run(date)
+  .then(results => {
+    results.forEach(result => {
+      console.log(`${result.boardId}: ${result.entries} entries (${result.written} written, ${result.removed} removed, ${result.flagged.length} flagged)`)
+      result.flagged.forEach(score => console.log(`  flagged ${score.id} (${score.score}): ${score.reasons.join('; ')}`))
+    })
+    process.exit(0)
+  })
+  .catch(error => {
+    console.error('Leaderboard aggregation failed:', error)
+    process.exit(1)
+  })
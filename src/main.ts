@@ -3,6 +3,10 @@ import { BootScene } from '@scenes/BootScene'
 import { StartScene } from '@scenes/StartScene'
 import { GameScene } from '@scenes/GameScene'
 import { ScoresScene } from '@scenes/ScoresScene'
+import { SettingsScene } from '@scenes/SettingsScene'
+import { PauseScene } from '@scenes/PauseScene'
+import { AchievementsScene } from '@scenes/AchievementsScene'
+import { LeaderboardScene } from '@scenes/LeaderboardScene'
 // TEMPORARY: Login functionality temporarily disabled for frontend
 // TODO: Uncomment the following line to restore login functionality
 // import { LoginScene } from '@scenes/LoginScene'
@@ -39,7 +43,7 @@ const config: Phaser.Types.Core.GameConfig = {
   },
   // TEMPORARY: LoginScene temporarily disabled for frontend
   // TODO: Restore LoginScene by uncommenting it in the scene array below
-  scene: [BootScene, StartScene, GameScene, ScoresScene/*, LoginScene*/],
+  scene: [BootScene, StartScene, GameScene, ScoresScene, SettingsScene, PauseScene, AchievementsScene, LeaderboardScene/*, LoginScene*/],
   input: {
     activePointers: 3 // Support multi-touch
   },
@@ -0,0 +1,154 @@
+import Phaser from 'phaser'
+import { weatherColors } from '@ui/DesignTokens'
+import { SkyCycle, WEATHER_CONFIGS, type SkyColors, type WeatherType } from '@systems/SkyCycle'
+import { SettingsManager } from '@systems/SettingsManager'
+
+/**
+ * Atmosphere - Renders the sky cycle and the weather
+ *
+ * Features:
+ * - Screen-fixed sky gradient repainted as the time of day changes
+ * - Rain and snow particle emitters, switched per weather stretch (off with reduced motion)
+ * - Haze over the course that lowers visibility in bad weather
+ */
+export class Atmosphere {
+  private readonly scene: Phaser.Scene
+  private readonly cycle: SkyCycle
+  private readonly sky: Phaser.GameObjects.Graphics
+  private readonly haze: Phaser.GameObjects.Rectangle
+  private readonly emitters: Partial<Record<WeatherType, Phaser.GameObjects.Particles.ParticleEmitter>>
+  private colors?: SkyColors
+  private weather: WeatherType = 'clear'
+  private hazeTween?: Phaser.Tweens.Tween
+  private readonly reducedMotion: boolean
+
+  constructor(scene: Phaser.Scene, cycle: SkyCycle) {
+    this.scene = scene
+    this.cycle = cycle
+    this.reducedMotion = SettingsManager.getInstance().get().reducedMotion
+
+    const { width, height } = scene.cameras.main
+
+    // The sky never scrolls, so one screen-sized gradient is enough
+    this.sky = scene.add.graphics()
+    this.sky.setScrollFactor(0)
+    this.sky.setDepth(-100)
+
+    this.haze = scene.add.rectangle(0, 0, width, height, parseInt(weatherColors.fog.replace('#', ''), 16))
+    this.haze.setOrigin(0, 0)
+    this.haze.setScrollFactor(0)
+    this.haze.setDepth(7) // Over clouds and rings, behind the planes
+    this.haze.setAlpha(0)
+
+    this.emitters = {
+      rain: this.createRain(width, height),
+      snow: this.createSnow(width, height)
+    }
+
+    this.update(0)
+  }
+
+  /**
+   * Follow the cycle to a world x position
+   */
+  public update(x: number): void {
+    const colors = this.cycle.getSkyColors(x)
+    if (!this.colors || colors.top !== this.colors.top || colors.bottom !== this.colors.bottom) {
+      this.drawSky(colors)
+    }
+    this.colors = colors
+
+    const weather = this.cycle.getWeather(x)
+    if (weather !== this.weather) {
+      this.setWeather(weather)
+    }
+  }
+
+  /**
+   * Tint for the scenery layers at the current time of day
+   */
+  public getSceneryTint(): number {
+    return this.colors ? this.colors.scenery : 0xFFFFFF
+  }
+
+  public getWeather(): WeatherType {
+    return this.weather
+  }
+
+  private drawSky(colors: SkyColors): void {
+    const { width, height } = this.scene.cameras.main
+
+    this.sky.clear()
+    this.sky.fillGradientStyle(colors.top, colors.top, colors.bottom, colors.bottom)
+    this.sky.fillRect(0, 0, width, height)
+  }
+
+  /**
+   * Switch particles and fade the haze to the new weather
+   */
+  private setWeather(weather: WeatherType): void {
+    // With reduced motion the haze alone shows the weather
+    this.emitters[this.weather]?.stop()
+    if (!this.reducedMotion) {
+      this.emitters[weather]?.start()
+    }
+    this.weather = weather
+
+    this.hazeTween?.destroy()
+    this.hazeTween = this.scene.tweens.add({
+      targets: this.haze,
+      alpha: WEATHER_CONFIGS[weather].hazeAlpha,
+      duration: 1500,
+      ease: 'Sine.easeInOut'
+    })
+  }
+
+  private createRain(width: number, height: number): Phaser.GameObjects.Particles.ParticleEmitter {
+    const emitter = this.scene.add.particles(0, -20, this.getTextureKey('raindrop'), {
+      x: { min: 0, max: width + 100 },
+      speedX: { min: -140, max: -100 },
+      speedY: { min: 550, max: 700 },
+      rotate: 12,
+      lifespan: (height + 40) / 550 * 1000,
+      alpha: { start: 0.8, end: 0.5 },
+      tint: WEATHER_CONFIGS.rain.particleColor,
+      quantity: 2,
+      frequency: 15,
+      emitting: false
+    })
+    emitter.setScrollFactor(0)
+    emitter.setDepth(8)
+    return emitter
+  }
+
+  private createSnow(width: number, height: number): Phaser.GameObjects.Particles.ParticleEmitter {
+    const emitter = this.scene.add.particles(0, -10, this.getTextureKey('snowflake'), {
+      x: { min: 0, max: width + 100 },
+      speedX: { min: -70, max: -20 },
+      speedY: { min: 60, max: 110 },
+      scale: { min: 0.5, max: 1 },
+      lifespan: (height + 20) / 60 * 1000,
+      tint: WEATHER_CONFIGS.snow.particleColor,
+      quantity: 1,
+      frequency: 40,
+      emitting: false
+    })
+    emitter.setScrollFactor(0)
+    emitter.setDepth(8)
+    return emitter
+  }
+
+  /**
+   * Use sprite asset with fallback to generated texture
+   */
+  private getTextureKey(key: string): string {
+    return this.scene.textures.exists(key) ? key : key + '-fallback'
+  }
+
+  public destroy(): void {
+    this.hazeTween?.destroy()
+    Object.values(this.emitters).forEach(emitter => emitter?.destroy())
+    this.haze.destroy()
+    this.sky.destroy()
+  }
+}
@@ -1,34 +1,8 @@
 import Phaser from 'phaser'
+import { CloudType, CLOUD_CONFIGS, CLOUD_SCALE, type CloudBehavior, type CloudConfig } from '@systems/CourseItems'
+import type { CloudMotion } from '@systems/CourseGenerator'
 
-/**
- * Cloud Types - Available cloud variants
- */
-export enum CloudType {
-  CLOUD1 = 'cloud1',
-  CLOUD2 = 'cloud2'
-}
-
-/**
- * Cloud configuration for different variants
- */
-interface CloudConfig {
-  imageKey: string
-  opacity: number
-  collisionScale: number // Collision box scale relative to visual size (for forgiving gameplay)
-}
-
-const CLOUD_CONFIGS: Record<CloudType, CloudConfig> = {
-  [CloudType.CLOUD1]: {
-    imageKey: 'cloud1',
-    opacity: 0.85,
-    collisionScale: 0.6 // 60% of visual size for forgiving collision
-  },
-  [CloudType.CLOUD2]: {
-    imageKey: 'cloud2', 
-    opacity: 0.85,
-    collisionScale: 0.6
-  }
-}
+export { CloudType, type CloudBehavior }
 
 /**
  * Cloud - Obstacle that causes plane crash on collision
@@ -37,34 +11,87 @@ const CLOUD_CONFIGS: Record<CloudType, CloudConfig> = {
  * - Uses custom pixel art cloud images with automatic fallback
  * - Precise collision detection with forgiving hitboxes
  * - Gentle floating animation for visual appeal
- * - Impact effects on collision
+ * - Drifting clouds that sweep up and down across the lane
+ * - Storm clouds with periodic lightning strikes below them
+ * - Wind clouds that lift the plane instead of crashing it
+ * - Pooled: created asleep, then spawned and recycled repeatedly
  */
 export class Cloud extends Phaser.Physics.Arcade.Sprite {
-  private readonly cloudType: CloudType
+  private cloudType: CloudType = CloudType.CLOUD1
+  private config: CloudConfig = CLOUD_CONFIGS[CloudType.CLOUD1]
+  private spawnX: number = 0
+  private spawnY: number = 0
+  private motion!: CloudMotion
   private movementTween?: Phaser.Tweens.Tween
   private isDestroyed: boolean = false
+  private passed: boolean = false
+  
+  // Storm state
+  private lightningTimer: number = 0
+  private lightningActive: boolean = false
+  private lightningGraphics?: Phaser.GameObjects.Graphics
 
-  constructor(scene: Phaser.Scene, x: number, y: number, cloudType?: CloudType) {
-    const type = cloudType || Cloud.getRandomCloudType()
-    const config = CLOUD_CONFIGS[type]
+  constructor(scene: Phaser.Scene) {
+    super(scene, 0, 0, Cloud.getTextureKey(scene, CLOUD_CONFIGS[CloudType.CLOUD1]))
     
-    // Use cloud image asset with fallback to procedural if not available
-    const textureKey = scene.textures.exists(config.imageKey) ? config.imageKey : 'cloud-fallback'
-    super(scene, x, y, textureKey)
+    this.scene.add.existing(this)
+    this.scene.physics.add.existing(this)
+    this.setOrigin(0.5, 0.5)
+    this.setDepth(5) // Behind plane but above background
     
-    this.cloudType = type
+    // Asleep until spawned
+    this.disableBody(true, true)
+  }
+
+  /**
+   * Place the cloud in the world with a fresh state (new or reused from the pool)
+   */
+  public spawn(x: number, y: number, cloudType: CloudType, motion: CloudMotion): this {
+    const config = CLOUD_CONFIGS[cloudType]
+    
+    this.cloudType = cloudType
+    this.config = config
+    this.spawnX = x
+    this.spawnY = y
+    this.motion = motion
+    this.passed = false
+    this.lightningTimer = 0
+    this.lightningActive = false
+    this.lightningGraphics?.clear()
+    
+    this.setTexture(Cloud.getTextureKey(this.scene, config))
+    this.enableBody(true, x, y, true, true)
     this.setupPhysics(config)
     this.setupVisuals(config)
     this.startMovementAnimation()
+    return this
+  }
+
+  /**
+   * Stop animations and put the cloud to sleep so the pool can reuse it
+   */
+  public recycle(): void {
+    if (this.movementTween) {
+      this.movementTween.destroy()
+      this.movementTween = undefined
+    }
+    
+    this.lightningActive = false
+    this.lightningGraphics?.clear()
+    this.disableBody(true, true)
+  }
+
+  /**
+   * Use cloud image asset with fallback to procedural if not available
+   */
+  private static getTextureKey(scene: Phaser.Scene, config: CloudConfig): string {
+    return scene.textures.exists(config.imageKey) ? config.imageKey : 'cloud-fallback'
   }
 
   /**
    * Configure physics body for collision detection
    */
   private setupPhysics(config: CloudConfig): void {
-    this.scene.add.existing(this)
-    this.scene.physics.add.existing(this)
-    
     const body = this.body as Phaser.Physics.Arcade.Body
     if (body) {
       // Smaller collision box for forgiving gameplay (reduced by 10% overall)
@@ -86,29 +113,143 @@ export class Cloud extends Phaser.Physics.Arcade.Sprite {
    * Configure visual properties
    */
   private setupVisuals(config: CloudConfig): void {
-    this.setOrigin(0.5, 0.5)
-    this.setScale(0.2) // Reduced size (90% of original)
+    this.setScale(CLOUD_SCALE)
     this.setAlpha(config.opacity)
-    this.setDepth(5) // Behind plane but above background
+    
+    if (config.tint !== undefined) {
+      this.setTint(config.tint)
+    } else {
+      this.clearTint()
+    }
   }
 
   /**
-   * Start gentle floating animation
+   * Start the movement animation for this variant
    */
   private startMovementAnimation(): void {
     if (this.isDestroyed) return
     
+    // Timing was rolled by the course generator since it shifts the hitbox
+    const motion = this.motion
+    
+    switch (this.config.behavior) {
+      case 'drifting': {
+        // Sweep across the lane
+        const range = this.config.driftRange || 0
+        this.movementTween = this.scene.tweens.add({
+          targets: this,
+          y: { from: this.y - range * motion.direction, to: this.y + range * motion.direction },
+          duration: motion.duration,
+          ease: 'Sine.easeInOut',
+          yoyo: true,
+          repeat: -1
+        })
+        return
+      }
+      
+      case 'wind':
+        // Gusts stay put - their lift zone is fixed where they spawned
+        return
+      
+      case 'storm':
+        // Stagger strikes so neighbouring storms don't flash together
+        this.lightningTimer = motion.lightningOffset
+        break
+    }
+    
     this.movementTween = this.scene.tweens.add({
       targets: this,
       y: this.y - 5,
-      duration: 4000 + Math.random() * 3000,
+      duration: motion.duration,
       ease: 'Sine.easeInOut',
       yoyo: true,
       repeat: -1,
-      delay: Math.random() * 1000
+      delay: motion.delay
     })
   }
 
+  /**
+   * Advance the storm cycle (called by the group each frame)
+   */
+  public update(_time: number, delta: number): void {
+    if (this.config.behavior !== 'storm' || this.isDestroyed) return
+    
+    const interval = this.config.lightningInterval || 0
+    const duration = this.config.lightningDuration || 0
+    const warning = 600
+    
+    this.lightningTimer = (this.lightningTimer + delta) % interval
+    
+    // Flicker as a warning before the strike
+    const warningStart = interval - duration - warning
+    const striking = this.lightningTimer >= interval - duration
+    const warningActive = !striking && this.lightningTimer >= warningStart
+    this.setTint(warningActive && Math.floor(this.lightningTimer / 100) % 2 === 0 ? 0xFFFFFF : this.config.tint || 0xFFFFFF)
+    
+    if (striking !== this.lightningActive) {
+      this.lightningActive = striking
+      if (striking) {
+        this.drawLightning()
+      } else {
+        this.lightningGraphics?.clear()
+      }
+    }
+  }
+
+  /**
+   * Draw the zig-zag lightning bolt below the cloud
+   */
+  private drawLightning(): void {
+    if (!this.lightningGraphics) {
+      this.lightningGraphics = this.scene.add.graphics()
+      this.lightningGraphics.setDepth(6)
+    }
+    
+    const zone = this.getLightningZone()
+    if (!zone) return
+    
+    const graphics = this.lightningGraphics
+    const segments = 6
+    const segmentHeight = zone.height / segments
+    
+    graphics.clear()
+    graphics.lineStyle(3, 0xFFF275, 1)
+    graphics.beginPath()
+    graphics.moveTo(zone.centerX, zone.y)
+    for (let i = 1; i <= segments; i++) {
+      const offset = i === segments ? 0 : (i % 2 === 0 ? -1 : 1) * zone.width * 0.4
+      graphics.lineTo(zone.centerX + offset, zone.y + i * segmentHeight)
+    }
+    graphics.strokePath()
+  }
+
+  /**
+   * Area hit by lightning right now, or null between strikes
+   */
+  public getLightningZone(): Phaser.Geom.Rectangle | null {
+    if (!this.lightningActive) return null
+    
+    const width = 24
+    const top = this.y + this.displayHeight * 0.25
+    return new Phaser.Geom.Rectangle(this.x - width / 2, top, width, this.config.lightningLength || 0)
+  }
+
+  /**
+   * Whether touching the cloud body crashes the plane
+   */
+  public causesCrash(): boolean {
+    return this.config.behavior !== 'wind'
+  }
+
+  /**
+   * Mark the cloud as flown past - returns true only the first time
+   */
+  public markPassed(): boolean {
+    if (this.passed) return false
+    this.passed = true
+    return true
+  }
+
   /**
    * Handle collision with plane
    */
@@ -118,18 +259,37 @@ export class Cloud extends Phaser.Physics.Arcade.Sprite {
   }
 
   /**
-   * Get random cloud type for variety
+   * Get this cloud's type
    */
-  public static getRandomCloudType(): CloudType {
-    const types = Object.values(CloudType)
-    return types[Math.floor(Math.random() * types.length)]
+  public getCloudType(): CloudType {
+    return this.cloudType
+  }
+
+  public getBehavior(): CloudBehavior {
+    return this.config.behavior
   }
 
   /**
-   * Get this cloud's type
+   * Vertical travel either side of the spawn point (0 for clouds that stay put)
    */
-  public getCloudType(): CloudType {
-    return this.cloudType
+  public getDriftRange(): number {
+    return this.config.driftRange || 0
+  }
+
+  /**
+   * Cut a strike short (e.g. absorbed by a shield) - the cycle starts over
+   */
+  public endStrike(): void {
+    this.lightningActive = false
+    this.lightningTimer = 0
+    this.lightningGraphics?.clear()
+  }
+
+  /**
+   * Where the cloud was placed - stable regardless of its animation
+   */
+  public getSpawnPosition(): { x: number, y: number } {
+    return { x: this.spawnX, y: this.spawnY }
   }
 
   /**
@@ -144,6 +304,11 @@ export class Cloud extends Phaser.Physics.Arcade.Sprite {
       this.movementTween = undefined
     }
     
+    if (this.lightningGraphics) {
+      this.lightningGraphics.destroy()
+      this.lightningGraphics = undefined
+    }
+    
     super.destroy(fromScene)
   }
 } 
\ No newline at end of file
@@ -0,0 +1,68 @@
+import Phaser from 'phaser'
+import { PaperPlane } from './PaperPlane'
+import type { RunReplay } from '@systems/ReplayRecorder'
+import type { FlightConfig } from '@systems/FlightSimulation'
+
+/**
+ * GhostPlane - Translucent plane that replays a recorded run
+ *
+ * Features:
+ * - Same flight model as the player's PaperPlane
+ * - Flaps on the recorded ticks so players can race their best
+ * - Does not collide with rings or clouds
+ * - Fades out where the recorded run ended
+ */
+export class GhostPlane extends PaperPlane {
+  private readonly replay: RunReplay
+  private replaying: boolean = false
+  private finished: boolean = false
+
+  constructor(scene: Phaser.Scene, x: number, y: number, replay: RunReplay, flightConfig?: FlightConfig) {
+    super(scene, x, y, flightConfig)
+    this.replay = replay
+
+    this.setAlpha(0.4)
+    this.setDepth(9) // Just behind the player's plane
+  }
+
+  /**
+   * Launch alongside the player and start playing back inputs
+   */
+  public startReplay(angle: number, power: number): void {
+    this.replaying = true
+    this.launch(angle, power)
+    this.flight.scheduleFlaps(this.replay.flaps)
+  }
+
+  /**
+   * Advance physics - recorded flaps are applied by the simulation on their tick
+   */
+  public updateReplay(deltaTime: number): void {
+    if (!this.replaying || this.finished) return
+
+    this.updatePhysics(deltaTime)
+
+    if (this.getFlightTick() >= this.replay.duration || this.hasCrashed()) {
+      this.finishReplay()
+    }
+  }
+
+  /**
+   * Stop where the recorded run ended and fade away
+   */
+  private finishReplay(): void {
+    this.finished = true
+    this.crashIntoCloud()
+
+    this.scene.tweens.add({
+      targets: this,
+      alpha: 0,
+      duration: 800,
+      ease: 'Power2'
+    })
+  }
+
+  public isFinished(): boolean {
+    return this.finished
+  }
+}
@@ -1,4 +1,5 @@
 import Phaser from 'phaser'
+import { DEFAULT_FLIGHT_CONFIG, FlightSimulation, type FlightBounds, type FlightConfig, type WindZone } from '@systems/FlightSimulation'
 
 /**
  * PaperPlane - The main player-controlled aircraft
@@ -8,21 +9,24 @@ import Phaser from 'phaser'
  * - Gravity pulls the plane down
  * - Tapping provides upward impulse (flapping)
  * - Rotation based on vertical velocity
+ *
+ * Movement comes from the fixed-timestep FlightSimulation; the Arcade body
+ * only follows the sprite so overlaps with rings and clouds keep working.
  */
 export class PaperPlane extends Phaser.Physics.Arcade.Sprite {
   // Physics constants
-  private readonly flapForce: number = 350
-  private readonly forwardSpeed: number = 200
   private readonly maxRotation: number = Math.PI / 3 // 60 degrees
 
   // State tracking
   private hasCrashedFlag: boolean = false
+  protected readonly flight: FlightSimulation
 
-  constructor(scene: Phaser.Scene, x: number, y: number) {
+  constructor(scene: Phaser.Scene, x: number, y: number, flightConfig: FlightConfig = DEFAULT_FLIGHT_CONFIG) {
     // Use sprite asset with fallback to generated texture
     const textureKey = scene.textures.exists('plane') ? 'plane' : 'plane-fallback'
     super(scene, x, y, textureKey)
     
+    this.flight = new FlightSimulation(x, y, this.getFlightBounds(), flightConfig)
     this.setupPhysics()
     this.setupVisuals()
   }
@@ -36,7 +40,19 @@ export class PaperPlane extends Phaser.Physics.Arcade.Sprite {
     
     const body = this.body as Phaser.Physics.Arcade.Body
     body.setCollideWorldBounds(false)
-    body.setGravityY(800) // Strong downward gravity
+    body.setAllowGravity(false) // Gravity is applied by the flight simulation
+  }
+
+  /**
+   * Ground and screen limits for the flight simulation
+   */
+  private getFlightBounds(): FlightBounds {
+    const scene = this.scene as any
+    const screenHeight = scene.cameras.main.height
+    return {
+      groundLevel: scene.groundLevel || (screenHeight - 60),
+      screenHeight
+    }
   }
 
   /**
@@ -52,13 +68,9 @@ export class PaperPlane extends Phaser.Physics.Arcade.Sprite {
    * Launch the plane with initial velocity
    */
   public launch(angle: number, power: number): void {
-    const body = this.body as Phaser.Physics.Arcade.Body
-    
-    // Calculate launch velocities
-    const velocityX = this.forwardSpeed + (power * 150)
-    const velocityY = Math.sin(angle) * power * 800
-    
-    body.setVelocity(velocityX, velocityY)
+    // Start simulating from wherever the plane was held before launch
+    this.flight.setPosition(this.x, this.y)
+    this.flight.launch(angle, power)
     
     // Set initial rotation (constrained)
     const constrainedAngle = Math.max(-this.maxRotation, Math.min(this.maxRotation, angle))
@@ -71,26 +83,23 @@ export class PaperPlane extends Phaser.Physics.Arcade.Sprite {
   public flap(): void {
     if (this.hasCrashedFlag) return
     
-    const body = this.body as Phaser.Physics.Arcade.Body
-    body.setVelocityY(-this.flapForce)
+    this.flight.flap()
   }
 
   /**
    * Update plane physics and rotation each frame
    */
-  public updatePhysics(_deltaTime: number): void {
+  public updatePhysics(deltaTime: number): void {
     if (this.hasCrashedFlag) return
     
-    const body = this.body as Phaser.Physics.Arcade.Body
-    
-    // Check for top boundary collision and handle bounce
-    this.checkTopBoundaryCollision()
+    // Run the fixed ticks covered by this frame (deltaTime is in seconds)
+    this.flight.advance(deltaTime)
     
-    // Maintain constant forward speed
-    body.setVelocityX(this.forwardSpeed)
+    const state = this.flight.getState()
+    this.setPosition(state.x, state.y)
     
     // Update rotation based on vertical velocity
-    this.updateRotation(body.velocity.y)
+    this.updateRotation(state.velocityY)
   }
 
   /**
@@ -116,63 +125,22 @@ export class PaperPlane extends Phaser.Physics.Arcade.Sprite {
    * Check if plane has crashed into ground
    */
   public hasCrashed(): boolean {
-    const body = this.body as Phaser.Physics.Arcade.Body
-    
-    // Only check if plane is moving
-    if (body.velocity.x < 10) return false
-    
-    const scene = this.scene as any
-    const groundLevel = scene.groundLevel || (scene.cameras.main.height - 60)
-    
-    const crashed = this.y >= groundLevel
+    const crashed = this.flight.getState().crashCause === 'ground'
     if (crashed && !this.hasCrashedFlag) {
       this.crashIntoGround()
     }
     
     return crashed
   }
- 
-  /**
-   * Check for top boundary collision and handle bounce
-   */
-  private checkTopBoundaryCollision(): void {
-    const scene = this.scene as any
-    const screenHeight = scene.cameras.main.height
-    
-    // Check if plane has hit or exceeded the top boundary
-    if (this.y <= 0) {
-      this.handleTopBoundaryBounce(screenHeight)
-    }
-  }
-
-  /**
-   * Handle top boundary collision with immediate bounce down
-   */
-  private handleTopBoundaryBounce(screenHeight: number): void {
-    // Calculate 5% of screen height for bounce distance
-    const bounceDistance = screenHeight * 0.25
-    
-    // Immediately position the plane 5% down from the top edge
-    this.y = bounceDistance
-    
-    // Note: We don't set hasCrashedFlag as this is a non-punitive bounce
-    // Note: We don't modify velocity to maintain existing physics behavior
-  }
 
   /**
    * Handle ground collision
    */
   private crashIntoGround(): void {
     this.hasCrashedFlag = true
-    const body = this.body as Phaser.Physics.Arcade.Body
-    
-    // Stop movement and lock to ground
-    body.setVelocity(0, 0)
-    body.setAcceleration(0, 0)
     
-    const scene = this.scene as any
-    const groundLevel = scene.groundLevel || (scene.cameras.main.height - 60)
-    this.y = groundLevel
+    // The simulation has already stopped the plane on the ground
+    this.y = this.flight.getState().y
     this.setRotation(this.maxRotation / 2) // Nose down
   }
 
@@ -183,11 +151,9 @@ export class PaperPlane extends Phaser.Physics.Arcade.Sprite {
     if (this.hasCrashedFlag) return
     
     this.hasCrashedFlag = true
-    const body = this.body as Phaser.Physics.Arcade.Body
     
     // Stop movement immediately
-    body.setVelocity(0, 0)
-    body.setAcceleration(0, 0)
+    this.flight.crash()
     
     // Dramatic crash rotation
     this.setRotation(this.maxRotation)
@@ -207,6 +173,27 @@ export class PaperPlane extends Phaser.Physics.Arcade.Sprite {
     this.hasCrashedFlag = false
   }
 
+  /**
+   * Register a wind zone with the flight model
+   */
+  public addWindZone(zone: WindZone): void {
+    this.flight.addWindZone(zone)
+  }
+
+  /**
+   * Drop wind zones that are behind the given x
+   */
+  public pruneWindZones(beforeX: number): void {
+    this.flight.pruneWindZones(beforeX)
+  }
+
+  /**
+   * Simulation ticks since launch - the time base for recorded inputs
+   */
+  public getFlightTick(): number {
+    return this.flight.getTick()
+  }
+
   /**
    * Get current distance traveled
    */
@@ -0,0 +1,170 @@
+import Phaser from 'phaser'
+import { AssetCounter } from '@systems/AssetCleanupConfig'
+
+/**
+ * Parallax layer configuration
+ */
+export interface ParallaxLayerConfig {
+  textureKey: string
+  scrollFactor: number // Horizontal scroll relative to the camera (1 = moves with the world)
+  depth: number
+  offsetY: number // Bottom edge relative to ground level (px, positive is lower)
+}
+
+export const PARALLAX_LAYERS: ParallaxLayerConfig[] = [
+  { textureKey: 'parallaxHills', scrollFactor: 0.2, depth: -30, offsetY: 0 },   // Distant hills
+  { textureKey: 'parallaxTrees', scrollFactor: 0.5, depth: -20, offsetY: 0 },   // Mid-ground trees
+  { textureKey: 'parallaxGrass', scrollFactor: 1.15, depth: 2, offsetY: 6 }     // Foreground grass
+]
+
+interface ParallaxLayer {
+  config: ParallaxLayerConfig
+  textureKey: string
+  height: number
+  active: Phaser.GameObjects.TileSprite[]
+  pool: Phaser.GameObjects.TileSprite[]
+  nextX: number // Layer-space x where the next segment goes
+}
+
+/**
+ * ParallaxBackground - Layered scenery scrolling at different speeds
+ *
+ * Features:
+ * - Distant hills, mid-ground trees and foreground grass
+ * - Each layer is tiled from a small pool of TileSprite segments
+ * - Segments left far enough behind are recycled to the front
+ * - Procedural fallback textures when sprite assets are missing
+ * - Tintable so the scenery follows the time of day
+ */
+export class ParallaxBackground {
+  private readonly scene: Phaser.Scene
+  private readonly groundLevel: number
+  private readonly segmentWidth: number
+  private readonly layers: ParallaxLayer[]
+  private createdCount: number = 0
+  private tint: number = 0xFFFFFF
+
+  constructor(scene: Phaser.Scene, groundLevel: number) {
+    this.scene = scene
+    this.groundLevel = groundLevel
+
+    // Segments span whole texture repeats so neighbours tile seamlessly
+    const textureWidth = 256
+    this.segmentWidth = Math.ceil(scene.cameras.main.width / textureWidth) * textureWidth
+
+    this.layers = PARALLAX_LAYERS.map(config => {
+      const textureKey = scene.textures.exists(config.textureKey)
+        ? config.textureKey
+        : config.textureKey + '-fallback'
+      return {
+        config,
+        textureKey,
+        height: scene.textures.get(textureKey).getSourceImage().height,
+        active: [],
+        pool: [],
+        nextX: 0
+      }
+    })
+
+    this.extend(0)
+  }
+
+  /**
+   * Make sure every layer covers the screen (plus one segment) at this camera x
+   */
+  public extend(cameraX: number): void {
+    const viewWidth = this.scene.cameras.main.width
+
+    for (const layer of this.layers) {
+      const layerCameraX = cameraX * layer.config.scrollFactor
+      while (layer.nextX < layerCameraX + viewWidth + this.segmentWidth) {
+        const segment = layer.pool.pop() || this.createSegment(layer)
+        segment.setX(layer.nextX)
+        segment.setVisible(true)
+        layer.active.push(segment)
+        layer.nextX += this.segmentWidth
+      }
+    }
+  }
+
+  /**
+   * Return segments further than `distance` behind the camera to the pool
+   * Returns the number of recycled segments
+   */
+  public recycle(cameraX: number, distance: number): number {
+    let recycled = 0
+
+    for (const layer of this.layers) {
+      const threshold = cameraX * layer.config.scrollFactor - distance
+      layer.active = layer.active.filter(segment => {
+        if (segment.x + this.segmentWidth < threshold) {
+          segment.setVisible(false)
+          layer.pool.push(segment)
+          recycled++
+          return false
+        }
+        return true
+      })
+    }
+
+    return recycled
+  }
+
+  /**
+   * Tint every segment, including ones created later
+   */
+  public setTint(tint: number): void {
+    if (tint === this.tint) return
+    this.tint = tint
+
+    for (const layer of this.layers) {
+      [...layer.active, ...layer.pool].forEach(segment => segment.setTint(tint))
+    }
+  }
+
+  /**
+   * Create a new segment for a layer (only when the pool is empty)
+   */
+  private createSegment(layer: ParallaxLayer): Phaser.GameObjects.TileSprite {
+    const segment = this.scene.add.tileSprite(
+      0,
+      this.groundLevel + layer.config.offsetY,
+      this.segmentWidth,
+      layer.height,
+      layer.textureKey
+    )
+    segment.setOrigin(0, 1)
+    segment.setScrollFactor(layer.config.scrollFactor, 0)
+    segment.setDepth(layer.config.depth)
+    segment.setTint(this.tint)
+
+    this.createdCount++
+    AssetCounter.getInstance().increment('parallax', layer.nextX)
+    return segment
+  }
+
+  /**
+   * Segment counts for asset monitoring
+   */
+  public getStats(): { active: number, pooled: number, created: number } {
+    return {
+      active: this.layers.reduce((sum, layer) => sum + layer.active.length, 0),
+      pooled: this.layers.reduce((sum, layer) => sum + layer.pool.length, 0),
+      created: this.createdCount
+    }
+  }
+
+  /**
+   * Destroy all segments
+   */
+  public destroy(): void {
+    for (const layer of this.layers) {
+      [...layer.active, ...layer.pool].forEach(segment => {
+        segment.destroy()
+        AssetCounter.getInstance().decrement('parallax')
+      })
+      layer.active = []
+      layer.pool = []
+    }
+  }
+}
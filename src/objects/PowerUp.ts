@@ -0,0 +1,140 @@
+import Phaser from 'phaser'
+import { PowerUpType, POWER_UP_CONFIGS, type PowerUpConfig } from '@systems/CourseItems'
+
+export { PowerUpType, POWER_UP_CONFIGS, type PowerUpConfig }
+
+/**
+ * PowerUp - Collectible that grants a timed effect
+ *
+ * Features:
+ * - Four types: Shield, Magnet, Slow-mo and Double points
+ * - Type chosen by the CourseGenerator from the seeded power-up stream
+ * - Pulsing animation so it stands out from rings
+ * - Burst effect on collection
+ */
+export class PowerUp extends Phaser.Physics.Arcade.Sprite {
+  private readonly powerUpType: PowerUpType
+  private collected: boolean = false
+  private pulseTween?: Phaser.Tweens.Tween
+
+  constructor(scene: Phaser.Scene, x: number, y: number, powerUpType: PowerUpType) {
+    const config = POWER_UP_CONFIGS[powerUpType]
+
+    // Use sprite asset with fallback to generated texture
+    const textureKey = scene.textures.exists(config.spriteKey)
+      ? config.spriteKey
+      : config.spriteKey + '-fallback'
+
+    super(scene, x, y, textureKey)
+
+    this.powerUpType = powerUpType
+
+    this.setupPhysics()
+    this.setupVisuals()
+    this.startAnimations()
+  }
+
+  /**
+   * Configure physics body for collection
+   */
+  private setupPhysics(): void {
+    this.scene.add.existing(this)
+    this.scene.physics.add.existing(this)
+
+    const body = this.body as Phaser.Physics.Arcade.Body
+    if (body) {
+      body.setCircle(this.width / 2)
+      body.setAllowGravity(false)
+    }
+  }
+
+  /**
+   * Configure visual properties
+   */
+  private setupVisuals(): void {
+    this.setDepth(6) // Above rings, behind plane
+  }
+
+  /**
+   * Start pulsing animation
+   */
+  private startAnimations(): void {
+    this.pulseTween = this.scene.tweens.add({
+      targets: this,
+      scale: 1.2,
+      duration: 600,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut'
+    })
+  }
+
+  /**
+   * Collect the power-up and return its type
+   */
+  public collect(): PowerUpType | null {
+    if (this.collected) return null
+
+    this.collected = true
+
+    this.scene.tweens.add({
+      targets: this,
+      scale: 2,
+      alpha: 0,
+      duration: 200,
+      ease: 'Power2',
+      onComplete: () => this.destroy()
+    })
+
+    this.createBurstEffect()
+
+    return this.powerUpType
+  }
+
+  /**
+   * Create burst effect on collection
+   */
+  private createBurstEffect(): void {
+    const color = POWER_UP_CONFIGS[this.powerUpType].color
+
+    for (let i = 0; i < 8; i++) {
+      const angle = (i / 8) * Math.PI * 2
+      const particle = this.scene.add.circle(this.x, this.y, 3, color)
+      particle.setDepth(10)
+
+      this.scene.tweens.add({
+        targets: particle,
+        x: this.x + Math.cos(angle) * 40,
+        y: this.y + Math.sin(angle) * 40,
+        alpha: 0,
+        scale: 0,
+        duration: 400,
+        ease: 'Power2',
+        onComplete: () => particle.destroy()
+      })
+    }
+  }
+
+  /**
+   * Public API methods
+   */
+  public isCollected(): boolean {
+    return this.collected
+  }
+
+  public getPowerUpType(): PowerUpType {
+    return this.powerUpType
+  }
+
+  /**
+   * Clean up animations and destroy
+   */
+  public destroy(fromScene?: boolean): void {
+    if (this.pulseTween) {
+      this.pulseTween.destroy()
+      this.pulseTween = undefined
+    }
+
+    super.destroy(fromScene)
+  }
+}
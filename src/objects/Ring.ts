@@ -1,28 +1,9 @@
 import Phaser from 'phaser'
+import { SettingsManager } from '@systems/SettingsManager'
+import { ringPalettes } from '@ui/DesignTokens'
+import { RingType, RING_CONFIGS } from '@systems/CourseItems'
 
-/**
- * Ring Types - Different point values and rarity levels
- */
-export enum RingType {
-  BRONZE = 'bronze',
-  SILVER = 'silver',
-  GOLD = 'gold'
-}
-
-/**
- * Ring configuration for each type
- */
-interface RingConfig {
-  points: number
-  spriteKey: string
-  rarity: number // Spawn probability (0-1)
-}
-
-const RING_CONFIGS: Record<RingType, RingConfig> = {
-  [RingType.BRONZE]: { points: 20, spriteKey: 'ringBronze', rarity: 0.7 },   // 70% chance
-  [RingType.SILVER]: { points: 50, spriteKey: 'ringSilver', rarity: 0.25 },  // 25% chance
-  [RingType.GOLD]: { points: 100, spriteKey: 'ringGold', rarity: 0.05 }      // 5% chance
-}
+export { RingType }
 
 /**
  * Ring - Collectible rings that provide points when collected
@@ -32,31 +13,65 @@ const RING_CONFIGS: Record<RingType, RingConfig> = {
  * - Sonic-style collection animation
  * - Floating and rotation animations
  * - Sparkle effects on collection
+ * - Colour-blind palette and reduced motion from the player settings
+ * - Pooled: created asleep, then spawned and recycled repeatedly
  */
 export class Ring extends Phaser.Physics.Arcade.Sprite {
-  private readonly ringType: RingType
-  private readonly scoreValue: number
+  private ringType: RingType = RingType.BRONZE
+  private scoreValue: number = RING_CONFIGS[RingType.BRONZE].points
   private collected: boolean = false
+  private passed: boolean = false
   private rotationTween?: Phaser.Tweens.Tween
   private floatingTween?: Phaser.Tweens.Tween
 
-  constructor(scene: Phaser.Scene, x: number, y: number, ringType?: RingType) {
-    const selectedRingType = ringType || Ring.getRandomRingType()
-    const config = RING_CONFIGS[selectedRingType]
+  constructor(scene: Phaser.Scene) {
+    super(scene, 0, 0, Ring.getTextureKey(scene, RingType.BRONZE))
     
-    // Use sprite asset with fallback to generated texture
-    const textureKey = scene.textures.exists(config.spriteKey) 
-      ? config.spriteKey 
-      : config.spriteKey + '-fallback'
+    this.setupPhysics()
+    this.setupVisuals()
     
-    super(scene, x, y, textureKey)
+    // Asleep until spawned
+    this.disableBody(true, true)
+  }
+
+  /**
+   * Place the ring in the world with a fresh state (new or reused from the pool)
+   */
+  public spawn(x: number, y: number, ringType: RingType): this {
+    this.ringType = ringType
+    this.scoreValue = RING_CONFIGS[ringType].points
+    this.collected = false
+    this.passed = false
     
-    this.ringType = selectedRingType
-    this.scoreValue = config.points
+    this.setTexture(Ring.getTextureKey(this.scene, ringType))
+    if (SettingsManager.getInstance().get().ringPalette === 'colorBlind') {
+      this.setTint(parseInt(ringPalettes.colorBlind[ringType].replace('#', ''), 16))
+    } else {
+      this.clearTint()
+    }
+    this.setScale(0.04)
+    this.setAlpha(1)
+    this.setRotation(0)
+    this.enableBody(true, x, y, true, true)
     
-    this.setupPhysics()
-    this.setupVisuals()
     this.startAnimations()
+    return this
+  }
+
+  /**
+   * Stop animations and put the ring to sleep so the pool can reuse it
+   */
+  public recycle(): void {
+    this.stopAnimations()
+    this.disableBody(true, true)
+  }
+
+  /**
+   * Use sprite asset with fallback to generated texture
+   */
+  private static getTextureKey(scene: Phaser.Scene, ringType: RingType): string {
+    const spriteKey = RING_CONFIGS[ringType].spriteKey
+    return scene.textures.exists(spriteKey) ? spriteKey : spriteKey + '-fallback'
   }
 
   /**
@@ -96,7 +111,9 @@ export class Ring extends Phaser.Physics.Arcade.Sprite {
       ease: 'Sine.easeInOut'
     })
 
-    // Rotation animation
+    // Rotation animation - purely decorative, unlike the float which moves the hitbox
+    if (SettingsManager.getInstance().get().reducedMotion) return
+    
     this.rotationTween = this.scene.tweens.add({
       targets: this,
       rotation: Math.PI * 2,
@@ -107,24 +124,27 @@ export class Ring extends Phaser.Physics.Arcade.Sprite {
   }
 
   /**
-   * Get random ring type based on rarity
+   * Stop every tween on the ring, including a running collection animation
    */
-  private static getRandomRingTypeInternal(): RingType {
-    const rand = Math.random()
+  private stopAnimations(): void {
+    if (this.rotationTween) {
+      this.rotationTween.destroy()
+      this.rotationTween = undefined
+    }
     
-    if (rand < RING_CONFIGS[RingType.GOLD].rarity) {
-      return RingType.GOLD
-    } else if (rand < RING_CONFIGS[RingType.GOLD].rarity + RING_CONFIGS[RingType.SILVER].rarity) {
-      return RingType.SILVER
-    } else {
-      return RingType.BRONZE
+    if (this.floatingTween) {
+      this.floatingTween.destroy()
+      this.floatingTween = undefined
     }
+    
+    this.scene.tweens.killTweensOf(this)
   }
 
   /**
    * Collect the ring - Sonic-style animation and scoring
+   * `onFinished` runs once the animation ends (destroys the ring by default)
    */
-  public collect(): { score: number } {
+  public collect(onFinished?: () => void): { score: number } {
     if (this.collected) return { score: 0 }
     
     this.collected = true
@@ -137,7 +157,7 @@ export class Ring extends Phaser.Physics.Arcade.Sprite {
       alpha: 0,
       duration: 150,
       ease: 'Power2',
-      onComplete: () => this.destroy()
+      onComplete: () => onFinished ? onFinished() : this.destroy()
     })
 
     this.createSparkleEffect()
@@ -149,13 +169,8 @@ export class Ring extends Phaser.Physics.Arcade.Sprite {
    * Create sparkle effect on collection
    */
   private createSparkleEffect(): void {
-    const sparkleColors = {
-      [RingType.BRONZE]: 0xCD7F32,
-      [RingType.SILVER]: 0xC0C0C0,
-      [RingType.GOLD]: 0xFFD700
-    }
-    
-    const sparkleColor = sparkleColors[this.ringType]
+    const palette = ringPalettes[SettingsManager.getInstance().get().ringPalette]
+    const sparkleColor = parseInt(palette[this.ringType].replace('#', ''), 16)
     
     // Create sparkle particles
     for (let i = 0; i < 6; i++) {
@@ -181,6 +196,27 @@ export class Ring extends Phaser.Physics.Arcade.Sprite {
     }
   }
 
+  /**
+   * Pull the ring towards a point (magnet power-up)
+   */
+  public attractTo(targetX: number, targetY: number, deltaTime: number): void {
+    if (this.collected) return
+    
+    // The floating animation would fight the pull
+    if (this.floatingTween) {
+      this.floatingTween.destroy()
+      this.floatingTween = undefined
+    }
+    
+    const pullSpeed = 600
+    const distance = Phaser.Math.Distance.Between(this.x, this.y, targetX, targetY)
+    const step = Math.min(pullSpeed * deltaTime, distance)
+    const angle = Phaser.Math.Angle.Between(this.x, this.y, targetX, targetY)
+    
+    this.x += Math.cos(angle) * step
+    this.y += Math.sin(angle) * step
+  }
+
   /**
    * Public API methods
    */
@@ -188,6 +224,15 @@ export class Ring extends Phaser.Physics.Arcade.Sprite {
     return this.collected
   }
 
+  /**
+   * Mark an uncollected ring as flown past - returns true only the first time
+   */
+  public markPassed(): boolean {
+    if (this.collected || this.passed) return false
+    this.passed = true
+    return true
+  }
+
   public getScoreValue(): number {
     return this.scoreValue
   }
@@ -196,22 +241,12 @@ export class Ring extends Phaser.Physics.Arcade.Sprite {
     return this.ringType
   }
 
-  public static getRandomRingType(): RingType {
-    return Ring.getRandomRingTypeInternal()
-  }
-
   /**
    * Clean up animations and destroy
    */
   public destroy(fromScene?: boolean): void {
-    if (this.rotationTween) {
-      this.rotationTween.destroy()
-      this.rotationTween = undefined
-    }
-    
-    if (this.floatingTween) {
-      this.floatingTween.destroy()
-      this.floatingTween = undefined
+    if (this.scene) {
+      this.stopAnimations()
     }
     
     super.destroy(fromScene)
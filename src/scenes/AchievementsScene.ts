@@ -0,0 +1,147 @@
+/**
+ * AchievementsScene - Gallery of every achievement and the player's progress
+ *
+ * Unlocked achievements are highlighted; locked ones show a progress bar
+ * towards their goal.
+ */
+
+import { colors, typography } from '../ui/DesignTokens'
+import { Button } from '../ui/Button'
+import { AudioManager } from '../systems/AudioManager'
+import { AchievementManager, ACHIEVEMENTS, type AchievementStatus } from '../systems/Achievements'
+import { t } from '../systems/Localization'
+
+export class AchievementsScene extends Phaser.Scene {
+  private static readonly CARD_WIDTH = 440
+  private static readonly CARD_HEIGHT = 48
+  private static readonly ROW_SPACING = 54
+  
+  constructor() {
+    super({ key: 'AchievementsScene' })
+  }
+  
+  public create(): void {
+    const { width, height } = this.cameras.main
+    const manager = AchievementManager.getInstance()
+    
+    AudioManager.getInstance().playMusic('menu')
+    this.createBackground(width, height)
+    this.createTitle(width, manager.getUnlockedCount())
+    this.createCards(width, manager.getAll())
+    this.createBackButton(width, height)
+  }
+  
+  private createBackground(width: number, height: number): void {
+    // Create gradient background matching the game aesthetic
+    const gradient = this.add.graphics()
+    gradient.fillGradientStyle(
+      parseInt(colors.skyTop.substring(1), 16),
+      parseInt(colors.skyTop.substring(1), 16),
+      parseInt(colors.skyBottom.substring(1), 16),
+      parseInt(colors.skyBottom.substring(1), 16),
+      1
+    )
+    gradient.fillRect(0, 0, width, height)
+  }
+  
+  private createTitle(width: number, unlockedCount: number): void {
+    const title = this.add.text(width / 2, 40, t('achievements.title'), {
+      fontFamily: typography.primary,
+      fontSize: '28px',
+      color: colors.white,
+      align: 'center',
+      stroke: colors.primary,
+      strokeThickness: 3
+    })
+    title.setOrigin(0.5, 0.5)
+    
+    const summary = this.add.text(width / 2, 72, `${unlockedCount} / ${ACHIEVEMENTS.length}`, {
+      fontFamily: typography.primary,
+      fontSize: '12px',
+      color: colors.accent,
+      stroke: '#000000',
+      strokeThickness: 2
+    })
+    summary.setOrigin(0.5, 0.5)
+  }
+  
+  /**
+   * Two columns of cards, filled top to bottom
+   */
+  private createCards(width: number, achievements: AchievementStatus[]): void {
+    const rows = Math.ceil(achievements.length / 2)
+    const columnX = [width / 2 - AchievementsScene.CARD_WIDTH / 2 - 8, width / 2 + AchievementsScene.CARD_WIDTH / 2 + 8]
+    
+    achievements.forEach((status, index) => {
+      const column = Math.floor(index / rows)
+      const row = index % rows
+      this.createCard(columnX[column], 110 + row * AchievementsScene.ROW_SPACING, status)
+    })
+  }
+  
+  private createCard(x: number, y: number, status: AchievementStatus): void {
+    const { definition, value, unlockedAt } = status
+    const cardWidth = AchievementsScene.CARD_WIDTH
+    const cardHeight = AchievementsScene.CARD_HEIGHT
+    const unlocked = unlockedAt !== undefined
+    
+    const card = this.add.container(x, y)
+    
+    const background = this.add.graphics()
+    background.fillStyle(unlocked ? parseInt(colors.primary.replace('#', ''), 16) : 0x000000, unlocked ? 0.85 : 0.4)
+    background.lineStyle(2, parseInt((unlocked ? colors.accent : colors.white).replace('#', ''), 16), unlocked ? 1 : 0.4)
+    background.fillRoundedRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight, 8)
+    background.strokeRoundedRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight, 8)
+    
+    const name = this.add.text(-cardWidth / 2 + 12, -10, t(definition.name), {
+      fontFamily: typography.primary,
+      fontSize: '11px',
+      color: unlocked ? colors.accent : colors.white
+    })
+    name.setOrigin(0, 0.5)
+    
+    const description = this.add.text(-cardWidth / 2 + 12, 10, t(definition.description), {
+      fontFamily: typography.primary,
+      fontSize: '8px',
+      color: '#DDDDDD'
+    })
+    description.setOrigin(0, 0.5)
+    
+    card.add([background, name, description])
+    
+    // Locked achievements show how far along the goal is
+    const barWidth = 90
+    const barX = cardWidth / 2 - 12 - barWidth
+    const progress = Math.min(1, value / definition.goal)
+    
+    const bar = this.add.graphics()
+    bar.fillStyle(0x000000, 0.5)
+    bar.fillRect(barX, -4, barWidth, 8)
+    bar.fillStyle(parseInt(colors.accent.replace('#', ''), 16), 1)
+    bar.fillRect(barX, -4, barWidth * progress, 8)
+    bar.setVisible(!unlocked)
+    
+    const count = this.add.text(barX + barWidth / 2, -14, `${Math.min(Math.floor(value), definition.goal)}/${definition.goal}`, {
+      fontFamily: typography.primary,
+      fontSize: '8px',
+      color: colors.white
+    })
+    count.setOrigin(0.5, 0.5)
+    count.setVisible(!unlocked)
+    
+    card.add([bar, count])
+  }
+  
+  private createBackButton(width: number, height: number): void {
+    new Button(this, {
+      x: width / 2,
+      y: height - 40,
+      width: 220,
+      height: 40,
+      text: t('common.back'),
+      style: 'secondary',
+      fontSize: 12,
+      onClick: () => this.scene.start('StartScene')
+    })
+  }
+}
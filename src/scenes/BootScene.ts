@@ -1,6 +1,9 @@
 import Phaser from 'phaser'
+import { POWER_UP_CONFIGS } from '@objects/PowerUp'
 import { colors } from '@ui/DesignTokens'
 import { initializeProductionOptimizations } from '@systems/ProductionOptimizer'
+import { AudioManager } from '@systems/AudioManager'
+import { ScoreManager } from '@systems/ScoreManager'
 
 /**
  * BootScene - Handles initial asset loading with progress bar
@@ -8,6 +11,7 @@ import { initializeProductionOptimizations } from '@systems/ProductionOptimizer'
  * Features:
  * - Loading screen with progress bar
  * - Asset loading with fallback generation
+ * - Procedural chiptune sounds for audio without files
  * - Google Fonts loading
  * - Error handling for missing assets
  */
@@ -122,7 +126,11 @@ export class BootScene extends Phaser.Scene {
     this.createFallbackPlane()
     this.createFallbackRings()
     this.createFallbackClouds()
+    this.createFallbackPowerUps()
     this.createFallbackTrees()
+    this.createFallbackBiomeDecorations()
+    this.createFallbackParallaxLayers()
+    this.createFallbackWeather()
     this.createGroundTexture()
   }
 
@@ -186,6 +194,99 @@ export class BootScene extends Phaser.Scene {
     graphics.destroy()
   }
 
+  /**
+   * Create fallback power-up textures (one per power-up type)
+   */
+  private createFallbackPowerUps(): void {
+    Object.values(POWER_UP_CONFIGS).forEach(config => {
+      const graphics = this.add.graphics()
+      
+      // Colored orb with a white rim
+      graphics.fillStyle(config.color, 1)
+      graphics.fillCircle(16, 16, 13)
+      graphics.lineStyle(2, 0xFFFFFF, 1)
+      graphics.strokeCircle(16, 16, 13)
+      
+      // Highlight
+      graphics.fillStyle(0xFFFFFF, 0.6)
+      graphics.fillCircle(11, 11, 4)
+      
+      graphics.generateTexture(config.spriteKey + '-fallback', 32, 32)
+      graphics.destroy()
+    })
+  }
+
+  /**
+   * Create fallback parallax layer textures
+   * Each is 256px wide and wraps seamlessly so it can be tiled
+   */
+  private createFallbackParallaxLayers(): void {
+    const width = 256
+    
+    // Distant hills - two sine waves whose periods divide the width
+    const hills = this.add.graphics()
+    const hillsHeight = 160
+    const hillPoints: Phaser.Math.Vector2[] = [new Phaser.Math.Vector2(0, hillsHeight)]
+    for (let x = 0; x <= width; x += 8) {
+      const crest = 70 + 30 * Math.sin((x / width) * Math.PI * 2) + 15 * Math.sin((x / width) * Math.PI * 4 + 1)
+      hillPoints.push(new Phaser.Math.Vector2(x, hillsHeight - crest))
+    }
+    hillPoints.push(new Phaser.Math.Vector2(width, hillsHeight))
+    hills.fillStyle(0xA8D8C8, 1)
+    hills.fillPoints(hillPoints, true)
+    hills.generateTexture('parallaxHills-fallback', width, hillsHeight)
+    hills.destroy()
+    
+    // Mid-ground pine trees standing on a hedge line
+    const trees = this.add.graphics()
+    const treesHeight = 120
+    const pines = [
+      { x: 24, height: 70 }, { x: 62, height: 95 }, { x: 98, height: 60 },
+      { x: 150, height: 85 }, { x: 196, height: 100 }, { x: 232, height: 65 }
+    ]
+    trees.fillStyle(0x6FAF8A, 1)
+    trees.fillRect(0, treesHeight - 14, width, 14)
+    pines.forEach(pine => {
+      const halfWidth = pine.height * 0.22
+      trees.fillTriangle(
+        pine.x - halfWidth, treesHeight - 10,
+        pine.x + halfWidth, treesHeight - 10,
+        pine.x, treesHeight - 10 - pine.height
+      )
+    })
+    trees.generateTexture('parallaxTrees-fallback', width, treesHeight)
+    trees.destroy()
+    
+    // Foreground grass tufts
+    const grass = this.add.graphics()
+    const grassHeight = 24
+    grass.fillStyle(0x3E6B4C, 1)
+    for (let x = 0; x < width; x += 8) {
+      const bladeHeight = 8 + ((x * 7) % 13)
+      grass.fillTriangle(x, grassHeight, x + 6, grassHeight, x + 3, grassHeight - bladeHeight)
+    }
+    grass.generateTexture('parallaxGrass-fallback', width, grassHeight)
+    grass.destroy()
+  }
+
+  /**
+   * Create fallback weather particle textures
+   * Drawn white so the emitters can tint them from the weather palette
+   */
+  private createFallbackWeather(): void {
+    const raindrop = this.add.graphics()
+    raindrop.fillStyle(0xFFFFFF, 1)
+    raindrop.fillRect(0, 0, 2, 12)
+    raindrop.generateTexture('raindrop-fallback', 2, 12)
+    raindrop.destroy()
+    
+    const snowflake = this.add.graphics()
+    snowflake.fillStyle(0xFFFFFF, 1)
+    snowflake.fillCircle(3, 3, 3)
+    snowflake.generateTexture('snowflake-fallback', 6, 6)
+    snowflake.destroy()
+  }
+
   /**
    * Create fallback cloud textures
    */
@@ -357,17 +458,101 @@ export class BootScene extends Phaser.Scene {
   }
 
   /**
-   * Create ground texture
+   * Create fallback decoration textures for the desert, snow and city biomes
+   */
+  private createFallbackBiomeDecorations(): void {
+    // Cactus - trunk with two arms
+    const cactus = this.add.graphics()
+    cactus.fillStyle(0x4F8A3C)
+    cactus.fillRoundedRect(9, 4, 8, 40, 4)
+    cactus.fillRoundedRect(1, 14, 6, 14, 3)
+    cactus.fillRect(4, 24, 6, 4)
+    cactus.fillRoundedRect(19, 10, 6, 14, 3)
+    cactus.fillRect(16, 20, 6, 4)
+    cactus.generateTexture('cactus-fallback', 26, 44)
+    cactus.destroy()
+    
+    // Dead bush - bare twigs
+    const deadBush = this.add.graphics()
+    deadBush.lineStyle(2, 0x8C6A43)
+    deadBush.lineBetween(15, 18, 5, 4)
+    deadBush.lineBetween(15, 18, 15, 2)
+    deadBush.lineBetween(15, 18, 26, 5)
+    deadBush.lineBetween(10, 11, 3, 10)
+    deadBush.lineBetween(20, 11, 28, 12)
+    deadBush.generateTexture('deadBush-fallback', 30, 18)
+    deadBush.destroy()
+    
+    // Snowy pine - stacked triangles with snow caps
+    const pine = this.add.graphics()
+    pine.fillStyle(0x654321)
+    pine.fillRect(17, 58, 6, 12)
+    pine.fillStyle(0x2F5D50)
+    pine.fillTriangle(2, 60, 38, 60, 20, 30)
+    pine.fillTriangle(6, 44, 34, 44, 20, 16)
+    pine.fillTriangle(10, 28, 30, 28, 20, 2)
+    pine.fillStyle(0xFFFFFF)
+    pine.fillTriangle(15, 12, 25, 12, 20, 2)
+    pine.fillTriangle(13, 26, 27, 26, 20, 16)
+    pine.generateTexture('pine-fallback', 40, 70)
+    pine.destroy()
+    
+    this.createFallbackBuilding('building1-fallback', 50, 110, 0x7A8294)
+    this.createFallbackBuilding('building2-fallback', 60, 80, 0x9C7B6B)
+    
+    // Street lamp
+    const lamp = this.add.graphics()
+    lamp.fillStyle(0x3C3F46)
+    lamp.fillRect(4, 8, 3, 52)
+    lamp.fillRect(2, 56, 7, 4)
+    lamp.fillStyle(0xFFE9A8)
+    lamp.fillCircle(5, 5, 5)
+    lamp.generateTexture('lamppost-fallback', 10, 60)
+    lamp.destroy()
+  }
+
+  /**
+   * Create a fallback building with a grid of windows
+   */
+  private createFallbackBuilding(key: string, width: number, height: number, color: number): void {
+    const graphics = this.add.graphics()
+    
+    graphics.fillStyle(color)
+    graphics.fillRect(0, 0, width, height)
+    
+    graphics.fillStyle(0xFFE9A8, 0.9)
+    for (let y = 8; y < height - 14; y += 14) {
+      for (let x = 6; x < width - 8; x += 12) {
+        graphics.fillRect(x, y, 6, 8)
+      }
+    }
+    
+    graphics.generateTexture(key, width, height)
+    graphics.destroy()
+  }
+
+  /**
+   * Create ground textures (one variant per biome)
    */
   private createGroundTexture(): void {
+    this.createGroundVariant('ground', 0x8B4513, 0x654321, 0x696969) // Brown dirt
+    this.createGroundVariant('ground-desert', 0xE2C27D, 0xC9A55C, 0xB08A5A) // Sand
+    this.createGroundVariant('ground-snow', 0xEEF4F8, 0xC9D8E4, 0xAEB8C4) // Packed snow
+    this.createGroundVariant('ground-city', 0x4A4E57, 0x6A6E78, 0x2E3138, 0x9A9EA6) // Asphalt with a kerb
+  }
+
+  /**
+   * Create a ground texture with texture lines and small stones
+   */
+  private createGroundVariant(key: string, baseColor: number, lineColor: number, stoneColor: number, topColor?: number): void {
     const graphics = this.add.graphics()
     
-    // Draw ground pattern with dirt texture
-    graphics.fillStyle(0x8B4513) // Brown dirt
+    // Draw ground pattern
+    graphics.fillStyle(baseColor)
     graphics.fillRect(0, 0, 100, 60)
     
     // Add texture lines
-    graphics.lineStyle(1, 0x654321, 0.6)
+    graphics.lineStyle(1, lineColor, 0.6)
     for (let i = 0; i < 8; i++) {
       graphics.beginPath()
       graphics.moveTo(Math.random() * 100, Math.random() * 60)
@@ -376,14 +561,20 @@ export class BootScene extends Phaser.Scene {
     }
     
     // Add small stones
-    graphics.fillStyle(0x696969, 0.8)
+    graphics.fillStyle(stoneColor, 0.8)
     for (let i = 0; i < 5; i++) {
       const x = Math.random() * 100
       const y = Math.random() * 60
       graphics.fillCircle(x, y, 1 + Math.random() * 2)
     }
     
-    graphics.generateTexture('ground', 100, 60)
+    // Optional band along the surface
+    if (topColor !== undefined) {
+      graphics.fillStyle(topColor)
+      graphics.fillRect(0, 0, 100, 6)
+    }
+    
+    graphics.generateTexture(key, 100, 60)
     graphics.destroy()
   }
 
@@ -425,9 +616,20 @@ export class BootScene extends Phaser.Scene {
    * Handle loading completion
    */
   private handleLoadComplete(): void {
+    this.createFallbackSounds()
     this.loadWebFontAndStart()
   }
 
+  /**
+   * Create fallback sounds - generated after loading so any audio files
+   * added to the loader take precedence over the chiptune versions
+   */
+  private createFallbackSounds(): void {
+    const audioManager = AudioManager.getInstance()
+    audioManager.init(this.game)
+    audioManager.createFallbackSounds()
+  }
+
   /**
    * Load web font and start game
    */
@@ -452,8 +654,11 @@ export class BootScene extends Phaser.Scene {
     // Initialize production optimizations and asset testing
     initializeProductionOptimizations()
     
-    this.time.delayedCall(500, () => {
-      this.scene.start('StartScene')
+    // Menus read scores synchronously, so load them before the first one opens
+    ScoreManager.getInstance().load().finally(() => {
+      this.time.delayedCall(500, () => {
+        this.scene.start('StartScene')
+      })
     })
   }
 } 
\ No newline at end of file
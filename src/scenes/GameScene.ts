@@ -2,79 +2,190 @@ import Phaser from 'phaser'
 import { PaperPlane } from '@objects/PaperPlane'
 import { Ring } from '@objects/Ring'
 import { Cloud } from '@objects/Cloud'
+import { PowerUp, PowerUpType, POWER_UP_CONFIGS } from '@objects/PowerUp'
+import { GhostPlane } from '@objects/GhostPlane'
+import { ParallaxBackground } from '@objects/ParallaxBackground'
+import { Atmosphere } from '@objects/Atmosphere'
 import { colors, typography } from '../ui/DesignTokens'
 import { ScoreManager } from '../systems/ScoreManager'
-import { AuthManager } from '../systems/AuthManager'
-import type { GameScore } from '../systems/ScoreManager'
 import { AssetCleanupManager, AssetCounter } from '@systems/AssetCleanupConfig'
 import { ProductionAssetOptimizer, WebGLOptimizer } from '@systems/ProductionOptimizer'
+import { RandomService } from '@systems/RandomService'
+import { DailyChallenge } from '@systems/DailyChallenge'
+import { ReplayRecorder } from '@systems/ReplayRecorder'
+import { CourseGenerator, type CloudSpawn, type PowerUpSpawn, type RingSpawn } from '@systems/CourseGenerator'
+import { DEFAULT_LAUNCH, type FlightConfig } from '@systems/FlightSimulation'
+import { DifficultyCurve, DifficultyProfiles, DIFFICULTY_PROFILES } from '@systems/DifficultyProfile'
+import { PowerUpEffects } from '@systems/PowerUpEffects'
+import { ComboTracker } from '@systems/ComboTracker'
+import { ObjectPool } from '@systems/ObjectPool'
+import { AudioManager } from '@systems/AudioManager'
+import { SkyCycle } from '@systems/SkyCycle'
+import { Biomes, type DecorationSprite } from '@systems/Biomes'
+import { SettingsManager, type PlayerSettings } from '@systems/SettingsManager'
+import { t } from '@systems/Localization'
+import { AchievementManager, type AchievementDefinition } from '@systems/Achievements'
+import { GameEventBus, type CrashCause, type RunStats } from '@systems/GameEvents'
+import { RunScore } from '@systems/RunScore'
+import { Analytics } from '@systems/Analytics'
+import { RunHistory } from '@systems/RunHistory'
+import { AchievementToast } from '../ui/AchievementToast'
+import { GameHud } from '../ui/GameHud'
+import { GameOverScreen } from '../ui/GameOverScreen'
+
+export type GameMode = 'normal' | 'challenge'
+
+/**
+ * Data accepted by scene.start('GameScene', data)
+ */
+export interface GameSceneData {
+  seed?: number // Course seed - omit for a fresh random course
+  mode?: GameMode // 'challenge' plays today's shared course (seed is ignored)
+  difficulty?: string // Difficulty profile id - omit for the player's selection
+}
 
 /**
  * GameScene - Main gameplay scene
  * 
  * Handles:
  * - Paper plane physics and controls
- * - Ring collection system
+ * - Ring collection system with combo multiplier
+ * - Power-up pickups and timed effects
  * - Cloud obstacle generation
  * - Dynamic world generation (ground, background, clouds)
- * - Score tracking and game over
+ * - Reporting gameplay events on the run's GameEventBus, which drives
+ *   scoring, the HUD, audio, achievements and the game-over screen
+ * - Pausing (keys, HUD button, lost focus, app sent to background)
  */
 export class GameScene extends Phaser.Scene {
+  private static readonly DISTANCE_MILESTONE = 100 // metres
+
   // Game objects
   private plane!: PaperPlane
+  private ghost?: GhostPlane
   private rings!: Phaser.Physics.Arcade.Group
   private clouds!: Phaser.Physics.Arcade.Group
+  private powerUps!: Phaser.Physics.Arcade.Group
 
   // Game state
-  private score: number = 0
   private distance: number = 0
+  private nextMilestone: number = 0
+  private maxAltitude: number = 0
   private isLaunched: boolean = false
   private gameEnded: boolean = false
-  
+  private seed: number = 0
+  private mode: GameMode = 'normal'
+  private challengeDay?: string
+  private difficulty!: DifficultyCurve
+  private flightConfig!: FlightConfig
+  private course!: CourseGenerator
+  private skyCycle!: SkyCycle
+  private settings!: PlayerSettings
+  private replayRecorder!: ReplayRecorder
+  private powerUpEffects!: PowerUpEffects
+  private comboTracker!: ComboTracker
+  private gameEvents!: GameEventBus
+  private runScore!: RunScore
+
   // World tracking
   private groundLevel: number = 0
   private lastGroundX: number = 0
-  private lastBackgroundX: number = 0
-  private lastCloudX: number = 0
-  
+  private biomeIndex: number = 0
+
   // UI elements
-  private scoreText!: Phaser.GameObjects.Text
-  private distanceText!: Phaser.GameObjects.Text
+  private hud!: GameHud
+  private pauseButton!: Phaser.GameObjects.Container
+  private achievementToast!: AchievementToast
   
   // Asset tracking and cleanup
   private cleanupManager!: AssetCleanupManager
   private assetCounter!: AssetCounter
-  private groundDecorations: Phaser.GameObjects.GameObject[] = []
-  private backgroundSections: Phaser.GameObjects.Graphics[] = []
+  
+  // Object pools - spawned objects are recycled instead of destroyed
+  private ringPool!: ObjectPool<Ring>
+  private cloudPool!: ObjectPool<Cloud>
+  private groundTilePool!: ObjectPool<Phaser.GameObjects.Image>
+  private decorationPool!: ObjectPool<Phaser.GameObjects.Image> // Trees, bushes, buildings...
+  private rockPool!: ObjectPool<Phaser.GameObjects.Ellipse>
+  private grassPool!: ObjectPool<Phaser.GameObjects.Rectangle>
+  private atmosphere?: Atmosphere
+  private parallax?: ParallaxBackground
 
   constructor() {
     super({ key: 'GameScene' })
   }
 
-  public init(): void {
+  public init(data: GameSceneData = {}): void {
     // Reset game state
-    this.score = 0
     this.distance = 0
+    this.nextMilestone = GameScene.DISTANCE_MILESTONE
+    this.maxAltitude = 0
     this.isLaunched = false
     this.gameEnded = false
-    this.lastCloudX = 0
+    this.biomeIndex = 0
+    
+    // Seed world generation so the course can be replayed
+    this.mode = data.mode === 'challenge' ? 'challenge' : 'normal'
+    if (this.mode === 'challenge') {
+      this.challengeDay = DailyChallenge.getDayKey()
+      this.seed = DailyChallenge.getSeed(this.challengeDay)
+    } else {
+      this.challengeDay = undefined
+      this.seed = RandomService.parseSeed(data.seed) ?? RandomService.generateSeed()
+    }
+    RandomService.getInstance().reseed(this.seed)
+    
+    // Everyone flies the daily challenge on Normal so scores stay comparable
+    const profile = this.mode === 'challenge'
+      ? DIFFICULTY_PROFILES.normal
+      : data.difficulty ? DifficultyProfiles.get(data.difficulty) : DifficultyProfiles.getSelected()
+    this.difficulty = new DifficultyCurve(profile)
+    this.flightConfig = this.difficulty.getFlightConfig()
+    this.skyCycle = new SkyCycle()
+    this.settings = SettingsManager.getInstance().get()
+    
+    // Record inputs for ghost replay of a new best
+    this.replayRecorder = new ReplayRecorder(this.seed, this.mode, this.flightConfig.tickRate, profile.id)
+    this.ghost = undefined
+    this.powerUpEffects = new PowerUpEffects()
+    this.comboTracker = new ComboTracker()
+    this.setupGameEvents()
     
     // Initialize asset cleanup system
     this.cleanupManager = AssetCleanupManager.getInstance()
     this.assetCounter = AssetCounter.getInstance()
     
-    // Reset asset tracking arrays
-    this.groundDecorations = []
-    this.backgroundSections = []
+    // Reset asset tracking
+    this.atmosphere = undefined
+    this.parallax = undefined
     
     // Start monitoring
     this.cleanupManager.startMonitoring()
     
     // Apply current test configuration
     this.cleanupManager.logDebug('GameScene initialized with current test stage')
+    this.cleanupManager.logDebug(`Course seed ${this.seed}, difficulty ${profile.id}`)
+  }
+
+  /**
+   * A fresh event bus per run, with the systems that follow the run
+   * subscribed; the scene's UI subscribes in setupUI
+   */
+  private setupGameEvents(): void {
+    this.gameEvents = new GameEventBus()
+    this.runScore = new RunScore(this.gameEvents, ScoreManager.getInstance())
+    AudioManager.getInstance().listenTo(this.gameEvents)
+    AchievementManager.getInstance().listenTo(this.gameEvents)
+    Analytics.getInstance().listenTo(this.gameEvents)
+    RunHistory.getInstance().listenTo(this.gameEvents)
+    
+    const events = this.gameEvents
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => events.clear())
   }
 
   public create(): void {
+    AudioManager.getInstance().playMusic('game')
+    this.createObjectPools()
     this.setupWorld()
     this.setupGameObjects()
     this.setupInput()
@@ -85,47 +196,92 @@ export class GameScene extends Phaser.Scene {
     ProductionAssetOptimizer.initialize(this)
   }
 
+  /**
+   * Create the pools for everything spawned along the course
+   * 
+   * Rings and clouds join their physics group once, when the pool creates
+   * them; while released their bodies are disabled, so overlaps skip them.
+   */
+  private createObjectPools(): void {
+    const hide = (obj: Phaser.GameObjects.Image | Phaser.GameObjects.Shape) => {
+      obj.setActive(false)
+      obj.setVisible(false)
+    }
+    
+    this.ringPool = new ObjectPool<Ring>('ring', {
+      create: () => {
+        const ring = new Ring(this)
+        this.rings.add(ring)
+        return ring
+      },
+      release: ring => ring.recycle(),
+      destroy: ring => ring.destroy()
+    })
+    
+    this.cloudPool = new ObjectPool<Cloud>('cloud', {
+      create: () => {
+        const cloud = new Cloud(this)
+        this.clouds.add(cloud)
+        return cloud
+      },
+      release: cloud => cloud.recycle(),
+      destroy: cloud => cloud.destroy()
+    })
+    
+    this.groundTilePool = new ObjectPool('groundTile', {
+      create: () => this.add.image(0, this.groundLevel, 'ground').setOrigin(0, 0),
+      release: hide,
+      destroy: tile => tile.destroy()
+    })
+    
+    this.decorationPool = new ObjectPool('decoration', {
+      create: () => this.add.image(0, this.groundLevel, 'ground').setOrigin(0.5, 1),
+      release: hide,
+      destroy: decoration => decoration.destroy()
+    })
+    
+    this.rockPool = new ObjectPool('rock', {
+      create: () => this.add.ellipse(0, 0, 1, 1, 0x6B6B6B),
+      release: hide,
+      destroy: rock => rock.destroy()
+    })
+    
+    this.grassPool = new ObjectPool('grass', {
+      create: () => this.add.rectangle(0, 0, 2, 1, 0x4A7C59),
+      release: hide,
+      destroy: grass => grass.destroy()
+    })
+  }
+
   /**
    * Setup the game world (background, ground, camera)
    */
   private setupWorld(): void {
     const { width, height } = this.cameras.main
     this.groundLevel = height - 60
+    this.course = new CourseGenerator(this.difficulty, this.skyCycle, { width, groundLevel: this.groundLevel })
 
-    this.createInitialBackground(width, height)
+    this.createInitialBackground()
     this.createInitialGround(width)
     this.setupCamera(width, height)
   }
 
   /**
-   * Create initial background gradient
-   */
-  private createInitialBackground(width: number, height: number): void {
-    this.lastBackgroundX = width * 3
-    this.createBackgroundSection(0, this.lastBackgroundX, height)
-  }
-
-  /**
-   * Create background gradient for specified range
+   * Create the sky, weather and parallax scenery layers
    */
-  private createBackgroundSection(startX: number, endX: number, height: number): void {
-    const graphics = this.add.graphics()
-    graphics.fillGradientStyle(
-      parseInt(colors.skyTop.replace('#', ''), 16),
-      parseInt(colors.skyTop.replace('#', ''), 16),
-      parseInt(colors.skyBottom.replace('#', ''), 16),
-      parseInt(colors.skyBottom.replace('#', ''), 16)
-    )
-    graphics.fillRect(startX, 0, endX - startX, height)
+  private createInitialBackground(): void {
+    // Sky gradient and weather follow the day/night cycle as the plane flies
+    this.atmosphere = new Atmosphere(this, this.skyCycle)
+    this.assetCounter.increment('background', 0)
     
-    // Track background section for cleanup
-    this.backgroundSections.push(graphics)
-    this.assetCounter.increment('background', startX)
+    // Hills, trees and grass tiled from pooled TileSprites
+    this.parallax = new ParallaxBackground(this, this.groundLevel)
+    this.parallax.setTint(this.atmosphere.getSceneryTint())
     
     // Track texture usage for WebGL monitoring
-    WebGLOptimizer.trackTexture(`background-${startX}`, 2048)
+    WebGLOptimizer.trackTexture('background-sky', 2048)
     
-    this.cleanupManager.logDebug(`Created background section at x=${startX}, total: ${this.backgroundSections.length}`)
+    this.cleanupManager.logDebug(`Created parallax background, segments: ${this.parallax.getStats().active}`)
   }
 
   /**
@@ -140,123 +296,91 @@ export class GameScene extends Phaser.Scene {
    * Extend ground tiles with decorative elements
    */
   private extendGround(targetX: number): void {
-    for (let x = this.lastGroundX; x < targetX; x += 100) {
+    let x = this.lastGroundX
+    for (; x < targetX; x += 100) {
       // Ground tile
-      const groundTile = this.add.image(x, this.groundLevel, 'ground')
-      groundTile.setOrigin(0, 0)
-      groundTile.setScale(1, 1)
+      const groundTile = this.groundTilePool.acquire()
+      groundTile.setTexture(Biomes.getAt(x).groundTexture)
+      groundTile.setPosition(x, this.groundLevel)
+      groundTile.setActive(true).setVisible(true)
       
       // Add decorative elements
       this.addGroundDecorations(x)
     }
-    this.lastGroundX = targetX
+    // Stay on the 100px tile grid so decorations don't depend on frame timing
+    this.lastGroundX = x
   }
 
   /**
-   * Add trees, rocks, and grass to ground
+   * Add the current biome's sprites, rocks and grass to a ground tile
    */
   private addGroundDecorations(x: number): void {
-    // Trees (30% chance) - now using sprites
-    if (Math.random() < 0.3) {
-      this.addTreeSprite(x)
-    }
+    const random = RandomService.getInstance().stream('ground')
+    const biome = Biomes.getAt(x)
     
-    // Bushes (15% chance) - new decoration type
-    if (Math.random() < 0.15) {
-      this.addBushSprite(x)
-    }
+    // Trees, bushes, cacti, buildings... from the biome's decoration table
+    biome.sprites.forEach(decoration => {
+      if (random.chance(decoration.chance)) {
+        this.addDecorationSprite(x, decoration)
+      }
+    })
     
-    // Rocks (20% chance)
-    if (Math.random() < 0.2) {
-      const rockWidth = 15 + Math.random() * 10
-      const rockHeight = 8 + Math.random() * 6
-      const rock = this.add.ellipse(
-        x + 20 + Math.random() * 60,
-        this.groundLevel - rockHeight/2,
-        rockWidth,
-        rockHeight,
-        0x6B6B6B
-      )
+    // Rocks
+    if (random.chance(biome.rocks.chance)) {
+      const rockWidth = random.between(15, 25)
+      const rockHeight = random.between(8, 14)
+      const rock = this.rockPool.acquire()
+      rock.setSize(rockWidth, rockHeight)
+      rock.setFillStyle(biome.rocks.color)
+      rock.setPosition(x + random.between(20, 80), this.groundLevel - rockHeight/2)
+      rock.setActive(true).setVisible(true)
       
       // Track rock for cleanup
-      this.groundDecorations.push(rock)
       this.assetCounter.increment('rock', x)
     }
     
-    // Grass patches (40% chance)
-    if (Math.random() < 0.4) {
-      for (let g = 0; g < 3 + Math.random() * 3; g++) {
-        const grassHeight = 4 + Math.random() * 4
-        const grass = this.add.rectangle(
-          x + Math.random() * 100,
-          this.groundLevel - grassHeight/2,
-          2,
-          grassHeight,
-          0x4A7C59
-        )
+    // Grass patches (or snow tufts)
+    if (random.chance(biome.grass.chance)) {
+      const grassCount = random.integer(biome.grass.count.min, biome.grass.count.max)
+      for (let g = 0; g < grassCount; g++) {
+        const grassHeight = random.between(4, 8)
+        const grass = this.grassPool.acquire()
+        grass.setSize(2, grassHeight)
+        grass.setFillStyle(biome.grass.color)
+        grass.setPosition(x + random.between(0, 100), this.groundLevel - grassHeight/2)
+        grass.setActive(true).setVisible(true)
         
         // Track grass for cleanup
-        this.groundDecorations.push(grass)
         this.assetCounter.increment('grass', x)
       }
     }
   }
 
   /**
-   * Add tree sprite to ground decoration
+   * Add a sprite decoration (tree, bush, cactus, building...) to a ground tile
    */
-  private addTreeSprite(x: number): void {
-    // Randomly choose between tree1 and tree2
-    const treeType = Math.random() < 0.5 ? 'tree1' : 'tree2'
+  private addDecorationSprite(x: number, decoration: DecorationSprite): void {
+    const random = RandomService.getInstance().stream('ground')
+    const variant = random.pick(decoration.variants)
     
     // Try to use sprite assets first, fallback to generated textures
-    const spriteKey = this.textures.exists(treeType) ? treeType : `${treeType}-fallback`
+    const spriteKey = this.textures.exists(variant.textureKey) ? variant.textureKey : `${variant.textureKey}-fallback`
     
-    // Position the tree
-    const treeX = x + 50 + Math.random() * 50
-    const tree = this.add.image(treeX, this.groundLevel, spriteKey)
+    const spriteX = x + random.between(decoration.offset.min, decoration.offset.max)
+    const sprite = this.decorationPool.acquire()
+    sprite.setTexture(spriteKey)
+    sprite.setScale(variant.scale)
+    sprite.setData('assetType', decoration.assetType)
     
-    // Scale down the large sprites to appropriate game size
-    const scale = treeType === 'tree1' ? 0.12 : 0.14 // Adjusted for different tree sizes
-    tree.setScale(scale)
+    // Position properly on ground (anchored to bottom by the pool)
+    sprite.setPosition(spriteX, this.groundLevel)
+    sprite.setActive(true).setVisible(true)
     
-    // Position properly on ground (anchor to bottom)
-    tree.setOrigin(0.5, 1)
-    tree.setY(this.groundLevel)
-    
-    // Track tree for cleanup
-    this.groundDecorations.push(tree)
-    this.assetCounter.increment('tree', treeX)
-    
-    // Track texture usage
-    WebGLOptimizer.trackTexture(spriteKey, 512)
-  }
-
-  /**
-   * Add bush sprite to ground decoration
-   */
-  private addBushSprite(x: number): void {
-    // Try to use sprite asset first, fallback to generated texture
-    const spriteKey = this.textures.exists('bush') ? 'bush' : 'bush-fallback'
-    
-    // Position the bush
-    const bushX = x + 25 + Math.random() * 75
-    const bush = this.add.image(bushX, this.groundLevel, spriteKey)
-    
-    // Scale down the bush sprite to appropriate size (342x217 original)
-    const scale = 0.08
-    bush.setScale(scale)
-    
-    // Position properly on ground (anchor to bottom)
-    bush.setOrigin(0.5, 1)
-    bush.setY(this.groundLevel)
-    
-    // Track bush for cleanup
-    this.groundDecorations.push(bush)
-    this.assetCounter.increment('bush', bushX)
+    // Track decoration for cleanup
+    this.assetCounter.increment(decoration.assetType, spriteX)
     
     // Track texture usage
-    WebGLOptimizer.trackTexture(spriteKey, 256)
+    WebGLOptimizer.trackTexture(spriteKey, sprite.width)
   }
 
   /**
@@ -271,6 +395,7 @@ export class GameScene extends Phaser.Scene {
    */
   private setupGameObjects(): void {
     this.createPlane()
+    this.createGhost()
     this.createPhysicsGroups()
     this.setupCollisions()
   }
@@ -279,16 +404,27 @@ export class GameScene extends Phaser.Scene {
    * Create and position the paper plane
    */
   private createPlane(): void {
-    const { width } = this.cameras.main
-    const planeX = width * 0.15
-    const planeY = this.groundLevel - 25
+    const start = this.course.getLaunchPosition()
     
-    this.plane = new PaperPlane(this, planeX, planeY)
+    this.plane = new PaperPlane(this, start.x, start.y, this.flightConfig)
     this.plane.resetCrash()
   }
 
   /**
-   * Create physics groups for rings and clouds
+   * Create a ghost of the best run when it was flown on this same course
+   */
+  private createGhost(): void {
+    const best = ScoreManager.getInstance().getBestReplay(this.mode, this.challengeDay)
+    if (!best || best.replay.seed !== this.seed) return
+    if (best.replay.tickRate !== this.flightConfig.tickRate) return
+    if ((best.replay.difficulty || 'normal') !== this.difficulty.getProfile().id) return
+    
+    this.ghost = new GhostPlane(this, this.plane.x, this.plane.y, best.replay, this.flightConfig)
+    this.cleanupManager.logDebug(`Racing ghost of best run (${best.score} pts)`)
+  }
+
+  /**
+   * Create physics groups for rings, clouds and power-ups
    */
   private createPhysicsGroups(): void {
     this.rings = this.physics.add.group({
@@ -300,6 +436,11 @@ export class GameScene extends Phaser.Scene {
       classType: Cloud,
       runChildUpdate: true
     })
+
+    this.powerUps = this.physics.add.group({
+      classType: PowerUp,
+      runChildUpdate: true
+    })
   }
 
   /**
@@ -307,20 +448,31 @@ export class GameScene extends Phaser.Scene {
    */
   private setupCollisions(): void {
     this.physics.add.overlap(this.plane, this.rings, this.collectRing, undefined, this)
-    this.physics.add.overlap(this.plane, this.clouds, this.hitCloud, undefined, this)
+    this.physics.add.overlap(this.plane, this.clouds, this.hitCloud, this.canHitCloud, this)
+    this.physics.add.overlap(this.plane, this.powerUps, this.collectPowerUp, undefined, this)
   }
 
   /**
    * Setup input controls
    */
   private setupInput(): void {
+    const { controlScheme } = this.settings
+
     // Mouse/touch input
-    this.input.on('pointerdown', () => this.handleTap())
+    if (controlScheme !== 'keyboard') {
+      this.input.on('pointerdown', () => this.handleTap())
+    }
+    
+    this.setupPauseTriggers()
 
     // Keyboard input
     if (this.input.keyboard) {
-      this.input.keyboard.on('keydown-UP', () => this.handleTap())
-      this.input.keyboard.on('keydown-SPACE', () => this.handleTap())
+      if (controlScheme !== 'touch') {
+        this.input.keyboard.on('keydown-UP', () => this.handleTap())
+        this.input.keyboard.on('keydown-SPACE', () => this.handleTap())
+      }
+      this.input.keyboard.on('keydown-ESC', () => this.pauseGame())
+      this.input.keyboard.on('keydown-P', () => this.pauseGame())
       this.input.keyboard.on('keydown-R', () => {
         if (this.gameEnded) {
           // Use proper restart mechanism
@@ -345,30 +497,108 @@ export class GameScene extends Phaser.Scene {
   }
 
   /**
-   * Setup UI elements (score, distance, instructions)
+   * Pause automatically when the player can't be watching the run
+   */
+  private setupPauseTriggers(): void {
+    const pause = () => this.pauseGame()
+    
+    // Tab hidden (visibilitychange) or window blurred
+    this.game.events.on(Phaser.Core.Events.HIDDEN, pause)
+    this.game.events.on(Phaser.Core.Events.BLUR, pause)
+    
+    // Capacitor fires these on the document when the app is backgrounded and
+    // brought back; pausing again on resume covers a pause event that was missed
+    document.addEventListener('pause', pause)
+    document.addEventListener('resume', pause)
+    
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      this.game.events.off(Phaser.Core.Events.HIDDEN, pause)
+      this.game.events.off(Phaser.Core.Events.BLUR, pause)
+      document.removeEventListener('pause', pause)
+      document.removeEventListener('resume', pause)
+    })
+  }
+
+  /**
+   * Freeze the run (physics, tweens, timers and spawning all stop with the
+   * scene) and open the pause menu over it
+   */
+  private pauseGame(): void {
+    if (this.gameEnded || !this.scene.isActive()) return
+    
+    this.scene.pause()
+    this.scene.launch('PauseScene')
+  }
+
+  /**
+   * Pause menu actions
+   */
+  public restartFromPause(): void {
+    this.restartGameProperly()
+  }
+
+  public quitFromPause(): void {
+    this.goToStartScene()
+  }
+
+  /**
+   * Setup UI elements (HUD, instructions, game over screen)
    */
   private setupUI(): void {
-    this.createScoreDisplays()
+    this.hud = new GameHud(this, this.gameEvents, this.settings.hudScale)
+    this.createPauseButton()
     this.createInstructions()
+    this.setupAchievementToasts()
+    
+    new GameOverScreen(this, this.gameEvents, {
+      gameMode: this.mode,
+      challengeDay: this.challengeDay,
+      reducedMotion: this.settings.reducedMotion,
+      onHome: () => this.goToStartScene(),
+      onRestart: () => this.restartGame(),
+      onGhost: (seed, difficulty) => this.restartGameProperly({ mode: 'normal', seed, difficulty })
+    })
   }
 
   /**
-   * Create score and distance displays
+   * Show a toast whenever an achievement unlocks during this run
    */
-  private createScoreDisplays(): void {
-    const textStyle = {
-      fontFamily: '"Press Start 2P", monospace',
-      fontSize: '16px',
-      color: colors.primary
-    }
-
-    this.scoreText = this.add.text(20, 20, 'Score: 0', textStyle)
-    this.scoreText.setScrollFactor(0)
-    this.scoreText.setDepth(1000)
+  private setupAchievementToasts(): void {
+    this.achievementToast = new AchievementToast(this)
+    const onUnlock = (achievement: AchievementDefinition) => this.achievementToast.show(achievement)
+    
+    const achievements = AchievementManager.getInstance()
+    achievements.onUnlock(onUnlock)
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => achievements.removeUnlockListener(onUnlock))
+  }
 
-    this.distanceText = this.add.text(20, 50, 'Distance: 0m', textStyle)
-    this.distanceText.setScrollFactor(0)
-    this.distanceText.setDepth(1000)
+  /**
+   * Pause button in the top-right corner
+   */
+  private createPauseButton(): void {
+    const size = 36
+    this.pauseButton = this.add.container(this.cameras.main.width - 20 - size / 2, 20 + size / 2)
+    
+    const bg = this.add.graphics()
+    bg.fillStyle(parseInt(colors.primary.replace('#', ''), 16), 0.8)
+    bg.fillRoundedRect(-size / 2, -size / 2, size, size, 6)
+    
+    // Two bars for the pause symbol
+    bg.fillStyle(0xFFFFFF, 1)
+    bg.fillRect(-8, -9, 5, 18)
+    bg.fillRect(3, -9, 5, 18)
+    
+    this.pauseButton.add(bg)
+    this.pauseButton.setSize(size, size)
+    this.pauseButton.setScrollFactor(0)
+    this.pauseButton.setDepth(1000)
+    this.pauseButton.setInteractive({ useHandCursor: true })
+    
+    // Stop the tap from also reaching the scene and flapping
+    this.pauseButton.on('pointerdown', (_pointer: Phaser.Input.Pointer, _x: number, _y: number, event: Phaser.Types.Input.EventData) => {
+      event.stopPropagation()
+      this.pauseGame()
+    })
   }
 
   /**
@@ -378,7 +608,7 @@ export class GameScene extends Phaser.Scene {
     const instructions = this.add.text(
       this.cameras.main.width / 2, 
       this.cameras.main.height - 40, 
-      'TAP SPACE/UP/CLICK TO LAUNCH • TAP TO FLAP\nCOLLECT RINGS: BRONZE(20) SILVER(50) GOLD(100) • R TO RESTART',
+      `${t(`hud.launch.${this.settings.controlScheme}`)}\n${t('hud.rings')}`,
       {
         fontFamily: '"Press Start 2P", monospace',
         fontSize: '10px',
@@ -392,7 +622,7 @@ export class GameScene extends Phaser.Scene {
     instructions.setDepth(1000)
     
     // Auto-hide instructions
-    this.time.delayedCall(5000, () => {
+    this.time.delayedCall(this.settings.instructionsDuration, () => {
       if (!this.isLaunched) {
         instructions.setAlpha(0.5)
       } else {
@@ -402,22 +632,10 @@ export class GameScene extends Phaser.Scene {
   }
 
   /**
-   * Spawn initial rings for collection
+   * Spawn the opening rings of the course
    */
   private spawnInitialContent(): void {
-    const { width } = this.cameras.main
-    
-    // Spawn scattered rings
-    for (let i = 0; i < 4; i++) {
-      const x = width + i * 200 + Math.random() * 150
-      const y = this.groundLevel - 80 - Math.random() * 300
-      
-      const ring = new Ring(this, x, y)
-      this.rings.add(ring)
-      
-      // Track ring creation
-      this.assetCounter.increment('ring', x)
-    }
+    this.course.start().forEach(ring => this.spawnRing(ring))
   }
 
   /**
@@ -426,8 +644,10 @@ export class GameScene extends Phaser.Scene {
   private handleTap(): void {
     if (!this.isLaunched) {
       this.launchPlane()
-    } else {
+    } else if (!this.gameEnded && !this.plane.hasCrashedFromAnySource()) {
       this.plane.flap()
+      this.replayRecorder.recordFlap(this.plane.getFlightTick())
+      this.gameEvents.emit('flap', { flightTime: this.getFlightTime() })
     }
   }
 
@@ -435,9 +655,18 @@ export class GameScene extends Phaser.Scene {
    * Launch the plane and start camera follow
    */
   private launchPlane(): void {
-    this.plane.launch(-Math.PI / 6, 2.25) // 30 degrees up
+    this.plane.launch(DEFAULT_LAUNCH.angle, DEFAULT_LAUNCH.power)
     this.isLaunched = true
     
+    this.replayRecorder.start()
+    this.ghost?.startReplay(DEFAULT_LAUNCH.angle, DEFAULT_LAUNCH.power)
+    this.gameEvents.emit('launch', { seed: this.seed, gameMode: this.mode })
+    
+    // A challenge attempt only counts once the plane is in the air
+    if (this.mode === 'challenge') {
+      DailyChallenge.recordAttempt(this.challengeDay)
+    }
+
     // Start camera follow
     this.cameras.main.startFollow(this.plane, true, 0.1, 0.1)
     const cameraWidth = this.cameras.main.width
@@ -451,20 +680,115 @@ export class GameScene extends Phaser.Scene {
   private collectRing(_plane: any, ring: any): void {
     const ringObj = ring as Ring
     if (!ringObj.isCollected()) {
-      const reward = ringObj.collect()
-      this.score += reward.score
+      const reward = ringObj.collect(() => this.releaseRing(ringObj))
+      const comboMultiplier = this.comboTracker.registerCollect(this.getFlightTime())
+      this.gameEvents.emit('ringCollected', {
+        type: ringObj.getRingType(),
+        points: reward.score * comboMultiplier * this.powerUpEffects.getScoreMultiplier()
+      })
+    }
+  }
+
+  /**
+   * Return a ring to the pool
+   */
+  private releaseRing(ring: Ring): void {
+    if (!ring.active) return
+    this.ringPool.release(ring)
+    this.assetCounter.decrement('ring')
+  }
+
+  /**
+   * Flight time since launch in ms - the clock for combo windows
+   */
+  private getFlightTime(): number {
+    return this.plane.getFlightTick() * 1000 / this.flightConfig.tickRate
+  }
+
+  /**
+   * Handle power-up pickup
+   */
+  private collectPowerUp(_plane: any, powerUp: any): void {
+    const powerUpObj = powerUp as PowerUp
+    if (this.gameEnded || powerUpObj.isCollected()) return
+    
+    const type = powerUpObj.collect()
+    if (type) {
+      this.powerUpEffects.activate(type)
+      this.assetCounter.decrement('powerup')
+      this.cleanupManager.logDebug(`Power-up collected: ${type}`)
     }
   }
 
+  /**
+   * Wind clouds push the plane (in the flight model) instead of crashing it
+   */
+  private canHitCloud(_plane: any, cloud: any): boolean {
+    return (cloud as Cloud).causesCrash()
+  }
+
   /**
    * Handle cloud collision
    */
   private hitCloud(_plane: any, cloud: any): void {
     if (this.gameEnded) return
     
+    // A shield absorbs one hit - the cloud is blown away instead
+    if (this.powerUpEffects.consume(PowerUpType.SHIELD)) {
+      this.popCloud(cloud as Cloud)
+      return
+    }
+    
     cloud.onCollision()
     this.plane.crashIntoCloud()
-    console.log('Plane hit cloud!')
+    this.gameEvents.emit('cloudHit', { lightning: false })
+    this.cleanupManager.logDebug('Plane hit cloud!')
+  }
+
+  /**
+   * Crash the plane if it is inside an active storm strike
+   */
+  private checkLightningStrikes(): void {
+    if (this.plane.hasCrashedFromAnySource()) return
+    
+    const planeBounds = this.plane.getBounds()
+    
+    for (const cloud of this.cloudPool.getActive()) {
+      const zone = cloud.getLightningZone()
+      if (!zone || !Phaser.Geom.Rectangle.Overlaps(zone, planeBounds)) continue
+      
+      // The shield soaks up the strike
+      if (this.powerUpEffects.consume(PowerUpType.SHIELD)) {
+        cloud.endStrike()
+        this.cleanupManager.logDebug('Shield absorbed lightning strike!')
+        return
+      }
+      
+      this.plane.crashIntoCloud()
+      this.gameEvents.emit('cloudHit', { lightning: true })
+      this.cleanupManager.logDebug('Plane struck by lightning!')
+      return
+    }
+  }
+
+  /**
+   * Remove a cloud that was absorbed by the shield
+   */
+  private popCloud(cloud: Cloud): void {
+    const puff = this.add.circle(cloud.x, cloud.y, 30, 0xFFFFFF, 0.8)
+    puff.setDepth(10)
+    this.tweens.add({
+      targets: puff,
+      scale: 2.5,
+      alpha: 0,
+      duration: 300,
+      ease: 'Power2',
+      onComplete: () => puff.destroy()
+    })
+    
+    this.cloudPool.release(cloud)
+    this.assetCounter.decrement('cloud')
+    this.cleanupManager.logDebug('Shield absorbed cloud hit!')
   }
 
   /**
@@ -488,37 +812,109 @@ export class GameScene extends Phaser.Scene {
    * Update gameplay when plane is launched
    */
   private updateGameplay(deltaTime: number): void {
-    this.plane.updatePhysics(deltaTime)
+    // Power-up timers run in real time; slow-mo only slows the flight
+    this.powerUpEffects.update(deltaTime * 1000)
+    const flightDelta = deltaTime * this.powerUpEffects.getTimeScale()
+    
+    this.plane.updatePhysics(flightDelta)
+    this.ghost?.updateReplay(flightDelta)
+    this.attractRingsToPlane(flightDelta)
+    this.checkMissedRings()
+    this.checkLightningStrikes()
+    this.checkNearMisses()
+    this.comboTracker.update(this.getFlightTime())
     
     // Update distance
     if (this.plane.x > 0) {
       this.distance = Math.max(this.distance, this.plane.x / 10)
     }
+    this.maxAltitude = Math.max(this.maxAltitude, this.groundLevel - this.plane.y)
+    
+    while (this.distance >= this.nextMilestone) {
+      this.gameEvents.emit('distanceMilestone', { metres: this.nextMilestone })
+      this.nextMilestone += GameScene.DISTANCE_MILESTONE
+    }
 
     this.extendWorldIfNeeded()
+    this.updateAtmosphere()
+    this.checkBiomeChange()
     this.spawnContentAhead()
     
     // STAGE 1: Clean up off-screen assets
     this.cleanupOffScreenAssets()
     
     // Check for crash
-    if ((this.plane.hasCrashed() || this.plane.hasCrashedFromAnySource()) && !this.gameEnded) {
-      this.endGame().catch(error => {
-        console.warn('Failed to end game properly:', error)
-      })
+    if (this.plane.hasCrashed() && !this.gameEnded) {
+      this.gameEvents.emit('groundCrash', { distance: Math.floor(this.distance) })
+      this.endGame('ground')
+    } else if (this.plane.hasCrashedFromAnySource() && !this.gameEnded) {
+      this.endGame('cloud')
     }
   }
 
+  /**
+   * Pull nearby rings towards the plane while the magnet is active
+   */
+  private attractRingsToPlane(deltaTime: number): void {
+    if (!this.powerUpEffects.isActive(PowerUpType.MAGNET)) return
+    
+    this.ringPool.getActive().forEach(ring => {
+      const distance = Phaser.Math.Distance.Between(ring.x, ring.y, this.plane.x, this.plane.y)
+      if (distance < PowerUpEffects.MAGNET_RADIUS) {
+        ring.attractTo(this.plane.x, this.plane.y, deltaTime)
+      }
+    })
+  }
+
+  /**
+   * Break the combo when a ring scrolls past the plane uncollected
+   */
+  private checkMissedRings(): void {
+    const missMargin = 40
+    
+    this.ringPool.getActive().forEach(ring => {
+      if (ring.x < this.plane.x - missMargin && ring.markPassed()) {
+        this.comboTracker.registerMiss()
+      }
+    })
+  }
+
+  /**
+   * Count a near miss when the plane clears a dangerous cloud by a whisker
+   */
+  private checkNearMisses(): void {
+    const nearMissGap = 25
+    if (this.plane.hasCrashedFromAnySource()) return
+    
+    const planeBody = this.plane.body as Phaser.Physics.Arcade.Body
+    
+    this.cloudPool.getActive().forEach(cloud => {
+      const cloudBody = cloud.body as Phaser.Physics.Arcade.Body
+      if (!cloud.causesCrash() || cloudBody.right >= planeBody.left || !cloud.markPassed()) return
+      
+      const gap = Math.max(cloudBody.top - planeBody.bottom, planeBody.top - cloudBody.bottom)
+      if (gap < nearMissGap) {
+        this.gameEvents.emit('nearMiss', { flightTime: this.getFlightTime() })
+      }
+    })
+  }
+
   /**
    * Keep plane at starting position before launch
    */
   private keepPlaneAtStart(): void {
     this.plane.setVelocity(0, 0)
     
-    const { width } = this.cameras.main
-    this.plane.x = width * 0.15
-    this.plane.y = this.groundLevel - 25
+    const start = this.course.getLaunchPosition()
+    this.plane.x = start.x
+    this.plane.y = start.y
     this.plane.setRotation(0)
+    
+    if (this.ghost) {
+      this.ghost.setVelocity(0, 0)
+      this.ghost.setPosition(this.plane.x, this.plane.y)
+      this.ghost.setRotation(0)
+    }
   }
 
   /**
@@ -533,12 +929,8 @@ export class GameScene extends Phaser.Scene {
       this.cameras.main.setBounds(0, 0, newWidth, currentBounds.height)
     }
 
-    // Extend background
-    if (this.plane.x > this.lastBackgroundX - this.cameras.main.width * 2) {
-      const targetX = this.plane.x + this.cameras.main.width * 3
-      this.createBackgroundSection(this.lastBackgroundX, targetX, this.cameras.main.height)
-      this.lastBackgroundX = targetX
-    }
+    // Extend parallax layers (reuses pooled segments when available)
+    this.parallax?.extend(this.cameras.main.scrollX)
 
     // Extend ground
     if (this.plane.x > this.lastGroundX - this.cameras.main.width * 2) {
@@ -547,156 +939,94 @@ export class GameScene extends Phaser.Scene {
   }
 
   /**
-   * Spawn rings and clouds ahead of plane
-   */
-  private spawnContentAhead(): void {
-    this.spawnRingsAhead()
-    this.spawnCloudObstacles()
-  }
-
-  /**
-   * Spawn rings ahead of the plane
+   * Move the sky, weather and scenery tint along the day/night cycle
    */
-  private spawnRingsAhead(): void {
-    const planeX = this.plane.x
+  private updateAtmosphere(): void {
+    if (!this.atmosphere) return
     
-    // Check if we need more rings
-    const ringsAhead = this.rings.children.entries.filter(ring => 
-      (ring as Ring).x > planeX + 500
-    ).length
-
-    if (ringsAhead < 3) {
-      this.spawnRingPattern(planeX + 700 + Math.random() * 400)
-    }
+    this.atmosphere.update(this.plane.x)
+    this.parallax?.setTint(this.atmosphere.getSceneryTint())
   }
 
   /**
-   * Spawn different ring patterns
+   * Announce a new biome when the plane flies into it
    */
-  private spawnRingPattern(spawnX: number): void {
-    const pattern = Math.random()
+  private checkBiomeChange(): void {
+    const index = Biomes.getIndexAt(this.plane.x)
+    if (index === this.biomeIndex) return
     
-    if (pattern < 0.4) {
-      this.spawnScatteredRings(spawnX)
-    } else if (pattern < 0.7) {
-      this.spawnVerticalRings(spawnX)
-    } else {
-      this.spawnArcRings(spawnX)
-    }
+    this.biomeIndex = index
+    this.showBiomeBanner(t(Biomes.getAt(this.plane.x).name))
   }
 
   /**
-   * Spawn scattered individual rings
+   * Slide a banner with the biome name in and out at the top of the screen
+   * (reduced motion only fades it)
    */
-  private spawnScatteredRings(spawnX: number): void {
-    for (let i = 0; i < 1 + Math.random() * 2; i++) {
-      const x = spawnX + i * (120 + Math.random() * 80)
-      const y = this.groundLevel - 80 - Math.random() * 300
-      
-      if (this.isPositionSafeFromClouds(x, y)) {
-        const ring = new Ring(this, x, y)
-        this.rings.add(ring)
-        this.assetCounter.increment('ring', x)
-      }
-    }
+  private showBiomeBanner(name: string): void {
+    const { width } = this.cameras.main
+    
+    const banner = this.add.text(width / 2, this.settings.reducedMotion ? 90 : 110, name, {
+      fontFamily: typography.primary,
+      fontSize: '18px',
+      color: colors.white,
+      backgroundColor: colors.uiBg,
+      padding: { x: 16, y: 10 }
+    })
+    banner.setOrigin(0.5)
+    banner.setScrollFactor(0)
+    banner.setDepth(1000)
+    banner.setAlpha(0)
+    
+    this.tweens.add({
+      targets: banner,
+      alpha: 1,
+      y: 90,
+      duration: 400,
+      ease: 'Power2',
+      hold: 1600,
+      yoyo: true,
+      onComplete: () => banner.destroy()
+    })
   }
 
   /**
-   * Spawn vertical line of rings
+   * Spawn the rings, clouds and power-ups the course generator placed ahead of the plane
    */
-  private spawnVerticalRings(spawnX: number): void {
-    const startY = this.groundLevel - 120
-    for (let i = 0; i < 2; i++) {
-      const y = startY - i * 80
-      
-      if (this.isPositionSafeFromClouds(spawnX, y)) {
-        const ring = new Ring(this, spawnX, y)
-        this.rings.add(ring)
-        this.assetCounter.increment('ring', spawnX)
-      }
-    }
+  private spawnContentAhead(): void {
+    const spawns = this.course.generateAhead(this.plane.x)
+    spawns.clouds.forEach(cloud => this.spawnCloud(cloud))
+    spawns.rings.forEach(ring => this.spawnRing(ring))
+    spawns.powerUps.forEach(powerUp => this.spawnPowerUp(powerUp))
   }
 
   /**
-   * Spawn arc pattern of rings
+   * Place a ring from the pool
    */
-  private spawnArcRings(spawnX: number): void {
-    const centerY = this.groundLevel - 200
-    const radius = 80
-    
-    for (let i = 0; i < 3; i++) {
-      const angle = (i / 2) * Math.PI - Math.PI / 2
-      const x = spawnX + Math.cos(angle) * radius
-      const y = centerY + Math.sin(angle) * radius
-      
-      if (this.isPositionSafeFromClouds(x, y)) {
-        const ring = new Ring(this, x, y)
-        this.rings.add(ring)
-        this.assetCounter.increment('ring', x)
-      }
-    }
+  private spawnRing(spawn: RingSpawn): void {
+    this.ringPool.acquire().spawn(spawn.x, spawn.y, spawn.type)
+    this.assetCounter.increment('ring', spawn.x)
   }
 
-  /**
-   * Check if position is safe distance from clouds
-   */
-  private isPositionSafeFromClouds(x: number, y: number): boolean {
-    const minSafeDistance = 150
-    
-    for (const cloudObj of this.clouds.children.entries) {
-      const cloud = cloudObj as Cloud
-      const distance = Phaser.Math.Distance.Between(x, y, cloud.x, cloud.y)
-      if (distance < minSafeDistance) {
-        return false
-      }
-    }
-    
-    return true
+  private spawnPowerUp(spawn: PowerUpSpawn): void {
+    this.powerUps.add(new PowerUp(this, spawn.x, spawn.y, spawn.type))
+    this.assetCounter.increment('powerup', spawn.x)
   }
 
   /**
-   * Spawn cloud obstacles with progressive difficulty
+   * Place a cloud obstacle from the pool
    */
-  private spawnCloudObstacles(): void {
-    const planeX = this.plane.x
-    
-    // Calculate difficulty-based spawn parameters
-    const baseDistance = 2000
-    const maxDifficulty = 600
-    const difficultyDistance = 4000
-    
-    const difficultyFactor = Math.min(planeX / difficultyDistance, 1)
-    const currentSpawnDistance = baseDistance - (baseDistance - maxDifficulty) * difficultyFactor
-    
-    // Check if we need more clouds
-    const cloudsAhead = this.clouds.children.entries.filter(cloud => 
-      (cloud as Cloud).x > planeX + 400
-    ).length
-    
-    const targetCloudsAhead = Math.floor(1 + difficultyFactor * 1)
-    
-    if (cloudsAhead < targetCloudsAhead && planeX > this.lastCloudX - currentSpawnDistance) {
-      this.spawnSingleCloud(planeX + 800 + Math.random() * 400)
-      this.lastCloudX = planeX + 800
+  private spawnCloud(spawn: CloudSpawn): void {
+    this.cloudPool.acquire().spawn(spawn.x, spawn.y, spawn.type, spawn.motion)
+    this.assetCounter.increment('cloud', spawn.x)
+    
+    // Wind is part of the flight model, so the ghost feels the same gusts
+    if (spawn.windZone) {
+      this.plane.addWindZone(spawn.windZone)
+      this.ghost?.addWindZone(spawn.windZone)
     }
   }
 
-  /**
-   * Spawn a single cloud obstacle
-   */
-  private spawnSingleCloud(baseX: number): void {
-    const skyHeight = this.groundLevel - 100
-    const minCloudY = 120
-    const maxCloudY = skyHeight - 120
-    
-    const x = baseX
-    const y = minCloudY + Math.random() * (maxCloudY - minCloudY)
-    
-    const cloud = new Cloud(this, x, y)
-    this.clouds.add(cloud)
-    this.assetCounter.increment('cloud', x)
-  }
-
   /**
    * Clean up off-screen assets to prevent memory leaks and glitching
    */
@@ -708,61 +1038,61 @@ export class GameScene extends Phaser.Scene {
       this.cleanupGroundDecorations(cameraX)
     }
     
-    // STAGE 2: Ring and cloud cleanup (implemented later)
+    // STAGE 2: Ring and cloud cleanup
     if (this.cleanupManager.shouldCleanupRings()) {
       this.cleanupRings(cameraX)
+      this.cleanupPowerUps(cameraX)
     }
     
     if (this.cleanupManager.shouldCleanupClouds()) {
       this.cleanupClouds(cameraX)
     }
     
-    // STAGE 3: Background cleanup (implemented later)
+    // STAGE 3: Background cleanup - recycles parallax segments
     if (this.cleanupManager.shouldCleanupBackground()) {
-      this.cleanupBackgroundSections(cameraX)
+      this.recycleBackgroundSegments(cameraX)
     }
   }
   
   /**
-   * STAGE 1: Clean up ground decorations that are off-screen
+   * STAGE 1: Return ground tiles and decorations that are off-screen to their pools
    */
   private cleanupGroundDecorations(cameraX: number): void {
     const cleanupDistance = this.cleanupManager.getGroundCleanupDistance()
     const cleanupThreshold = cameraX - cleanupDistance
     
-    let cleanedCount = 0
+    // Tiles are anchored at their left edge, so wait until the whole tile is behind
+    this.groundTilePool.releaseWhere(tile => tile.x + tile.width < cleanupThreshold)
     
-    // Filter out decorations that are too far behind the camera
-    this.groundDecorations = this.groundDecorations.filter(decoration => {
-      const decorationObj = decoration as any
-      if (decorationObj.x < cleanupThreshold) {
-        // Determine asset type for counter
-        let assetType = 'decoration'
-        if (decorationObj.texture) {
-          const textureKey = decorationObj.texture.key
-          if (textureKey.includes('tree')) assetType = 'tree'
-          else if (textureKey.includes('bush')) assetType = 'bush'
-          else if (decoration instanceof Phaser.GameObjects.Ellipse) assetType = 'rock'
-          else if (decoration instanceof Phaser.GameObjects.Rectangle) assetType = 'grass'
-        }
-        
-        // Destroy the decoration
-        decoration.destroy()
-        this.assetCounter.decrement(assetType)
-        cleanedCount++
-        
-        return false // Remove from array
-      }
-      return true // Keep in array
+    const sprites = this.decorationPool.releaseWhere(sprite => {
+      if (sprite.x >= cleanupThreshold) return false
+      this.assetCounter.decrement(sprite.getData('assetType'))
+      return true
     })
+    const rocks = this.releaseDecorations(this.rockPool, 'rock', cleanupThreshold)
+    const grass = this.releaseDecorations(this.grassPool, 'grass', cleanupThreshold)
     
+    const cleanedCount = sprites + rocks + grass
     if (cleanedCount > 0) {
-      this.cleanupManager.logDebug(`Cleaned up ${cleanedCount} ground decorations, remaining: ${this.groundDecorations.length}`)
+      const remaining = [this.decorationPool, this.rockPool, this.grassPool]
+        .reduce((sum, pool) => sum + pool.getStats().active, 0)
+      this.cleanupManager.logDebug(`Recycled ${cleanedCount} ground decorations, remaining: ${remaining}`)
+    }
+  }
+  
+  /**
+   * Release decorations left of the threshold and update their asset count
+   */
+  private releaseDecorations<T extends Phaser.GameObjects.Shape>(pool: ObjectPool<T>, assetType: string, threshold: number): number {
+    const released = pool.releaseWhere(decoration => decoration.x < threshold)
+    for (let i = 0; i < released; i++) {
+      this.assetCounter.decrement(assetType)
     }
+    return released
   }
   
   /**
-   * STAGE 2: Clean up rings that are off-screen
+   * STAGE 2: Return rings that are off-screen to the pool
    */
   private cleanupRings(cameraX: number): void {
     const cleanupDistance = this.cleanupManager.getGameObjectCleanupDistance()
@@ -770,64 +1100,64 @@ export class GameScene extends Phaser.Scene {
     
     let cleanedCount = 0
     
-    this.rings.children.entries.forEach(ring => {
-      const ringObj = ring as Ring
-      if (ringObj.x < cleanupThreshold) {
-        ringObj.destroy()
-        this.assetCounter.decrement('ring')
+    this.ringPool.getActive().forEach(ring => {
+      if (ring.x < cleanupThreshold) {
+        this.releaseRing(ring)
         cleanedCount++
       }
     })
     
     if (cleanedCount > 0) {
-      this.cleanupManager.logDebug(`Cleaned up ${cleanedCount} rings, remaining: ${this.rings.children.size}`)
+      this.cleanupManager.logDebug(`Recycled ${cleanedCount} rings, remaining: ${this.ringPool.getStats().active}`)
     }
   }
   
   /**
-   * STAGE 2: Clean up clouds that are off-screen
+   * STAGE 2: Clean up power-ups that were flown past
+   */
+  private cleanupPowerUps(cameraX: number): void {
+    const cleanupThreshold = cameraX - this.cleanupManager.getGameObjectCleanupDistance()
+    
+    this.powerUps.children.entries.forEach(powerUp => {
+      const powerUpObj = powerUp as PowerUp
+      if (powerUpObj.x < cleanupThreshold && !powerUpObj.isCollected()) {
+        powerUpObj.destroy()
+        this.assetCounter.decrement('powerup')
+      }
+    })
+  }
+  
+  /**
+   * STAGE 2: Return clouds that are off-screen to the pool
    */
   private cleanupClouds(cameraX: number): void {
     const cleanupDistance = this.cleanupManager.getGameObjectCleanupDistance()
     const cleanupThreshold = cameraX - cleanupDistance
     
-    let cleanedCount = 0
+    const cleanedCount = this.cloudPool.releaseWhere(cloud => cloud.x < cleanupThreshold)
+    for (let i = 0; i < cleanedCount; i++) {
+      this.assetCounter.decrement('cloud')
+    }
     
-    this.clouds.children.entries.forEach(cloud => {
-      const cloudObj = cloud as Cloud
-      if (cloudObj.x < cleanupThreshold) {
-        cloudObj.destroy()
-        this.assetCounter.decrement('cloud')
-        cleanedCount++
-      }
-    })
+    this.plane.pruneWindZones(cleanupThreshold)
+    this.ghost?.pruneWindZones(cleanupThreshold)
     
     if (cleanedCount > 0) {
-      this.cleanupManager.logDebug(`Cleaned up ${cleanedCount} clouds, remaining: ${this.clouds.children.size}`)
+      this.cleanupManager.logDebug(`Recycled ${cleanedCount} clouds, remaining: ${this.cloudPool.getStats().active}`)
     }
   }
   
   /**
-   * STAGE 3: Clean up background sections that are off-screen
+   * STAGE 3: Return parallax segments that are far behind the camera to the pool
    */
-  private cleanupBackgroundSections(cameraX: number): void {
-    const cleanupDistance = this.cleanupManager.getBackgroundCleanupDistance()
-    const cleanupThreshold = cameraX - cleanupDistance
+  private recycleBackgroundSegments(cameraX: number): void {
+    if (!this.parallax) return
     
-    let cleanedCount = 0
+    const recycledCount = this.parallax.recycle(cameraX, this.cleanupManager.getBackgroundCleanupDistance())
     
-    this.backgroundSections = this.backgroundSections.filter(section => {
-      if (section.x < cleanupThreshold) {
-        section.destroy()
-        this.assetCounter.decrement('background')
-        cleanedCount++
-        return false
-      }
-      return true
-    })
-    
-    if (cleanedCount > 0) {
-      this.cleanupManager.logDebug(`Cleaned up ${cleanedCount} background sections, remaining: ${this.backgroundSections.length}`)
+    if (recycledCount > 0) {
+      const stats = this.parallax.getStats()
+      this.cleanupManager.logDebug(`Recycled ${recycledCount} background segments, active: ${stats.active}, pooled: ${stats.pooled}`)
     }
   }
 
@@ -835,270 +1165,50 @@ export class GameScene extends Phaser.Scene {
    * Update UI elements
    */
   private updateUI(): void {
-    if (this.scoreText?.active) {
-      this.scoreText.setText(`Score: ${this.score}`)
-      this.scoreText.setPosition(20, 20)
-    }
+    this.hud.update(this.distance, this.powerUpEffects, this.comboTracker)
     
-    if (this.distanceText?.active) {
-      this.distanceText.setText(`Distance: ${Math.floor(this.distance)}m`)
-      this.distanceText.setPosition(20, 50)
+    // Tint the plane while the shield is up
+    if (this.powerUpEffects.isActive(PowerUpType.SHIELD)) {
+      this.plane.setTint(POWER_UP_CONFIGS[PowerUpType.SHIELD].color)
+    } else {
+      this.plane.clearTint()
     }
   }
 
   /**
-   * End the game and show results
+   * End the run - scoring saves it and the game over screen follows
    */
-  private async endGame(): Promise<void> {
+  private endGame(cause: CrashCause): void {
     if (this.gameEnded) return
     this.gameEnded = true
     
-    // Calculate final score and save it
-    const finalScore = this.score + Math.floor(this.distance)
-    
-    console.log(`Game ended! Final Score: ${finalScore}, Distance: ${Math.floor(this.distance)}m`)
-    
-    // Stop camera and show game over screen immediately
-    this.cameras.main.stopFollow()
-    this.cameras.main.setScroll(this.cameras.main.scrollX, this.cameras.main.scrollY)
-    
-    // Save score and show game over screen
-    try {
-      const savedScore = await ScoreManager.saveScore(finalScore, Math.floor(this.distance), 'normal')
-      console.log(`Score saved with rank: ${savedScore.rank}`)
-      this.showGameOverScreen(savedScore)
-    } catch (error) {
-      console.warn('Failed to save score:', error)
-      // Show game over screen with a basic score object if save fails
-      const basicScore = {
-        score: finalScore,
-        distance: Math.floor(this.distance),
-        timestamp: Date.now(),
-        rank: 0,
-        gameMode: 'normal',
-        syncedToCloud: false
-      }
-      this.showGameOverScreen(basicScore)
-    }
-  }
-
-  /**
-   * Display game over screen with final score
-   */
-  private showGameOverScreen(savedScore: GameScore): void {
-    const { width, height } = this.cameras.main
-    const finalScore = savedScore.score
-    const isNewPersonalBest = ScoreManager.isNewPersonalBest(finalScore)
-    const authManager = AuthManager.getInstance()
-    const currentUser = authManager.getCurrentUser()
-    
-    // Background overlay
-    const gameOverBg = this.add.graphics()
-    gameOverBg.fillStyle(0x000000, 0.7)
-    gameOverBg.fillRect(0, 0, width, height)
-    gameOverBg.setScrollFactor(0)
-    
-    // Game over text
-    const gameOverText = this.add.text(width / 2, height / 2 - 120, 'GAME OVER', {
-      fontFamily: typography.primary,
-      fontSize: '24px',
-      color: colors.primary,
-      align: 'center'
-    })
-    gameOverText.setOrigin(0.5)
-    gameOverText.setScrollFactor(0)
-    
-    // Personal best indicator
-    if (isNewPersonalBest) {
-      const newBestText = this.add.text(width / 2, height / 2 - 90, '★ NEW PERSONAL BEST! ★', {
-        fontFamily: typography.primary,
-        fontSize: '14px',
-        color: colors.accent,
-        align: 'center'
-      })
-      newBestText.setOrigin(0.5)
-      newBestText.setScrollFactor(0)
-      
-      // Flashing effect for new best
-      this.tweens.add({
-        targets: newBestText,
-        alpha: 0.3,
-        duration: 600,
-        yoyo: true,
-        repeat: 3
-      })
-    }
-    
-    // Score display with ranking
-    const scoreText = this.add.text(width / 2, height / 2 - 60, `FINAL SCORE: ${finalScore}`, {
-      fontFamily: typography.primary,
-      fontSize: '16px',
-      color: colors.accent,
-      align: 'center'
-    })
-    scoreText.setOrigin(0.5)
-    scoreText.setScrollFactor(0)
-    
-    // Ranking display
-    if (savedScore.rank) {
-      const rankText = this.add.text(width / 2, height / 2 - 35, `Personal Rank: #${savedScore.rank}`, {
-        fontFamily: typography.primary,
-        fontSize: '12px',
-        color: colors.white,
-        align: 'center'
-      })
-      rankText.setOrigin(0.5)
-      rankText.setScrollFactor(0)
-    }
-    
-    // Distance display
-    const distanceText = this.add.text(width / 2, height / 2 - 10, `DISTANCE: ${Math.floor(this.distance)}m`, {
-      fontFamily: typography.primary,
-      fontSize: '16px',
-      color: colors.accent,
-      align: 'center'
-    })
-    distanceText.setOrigin(0.5)
-    distanceText.setScrollFactor(0)
-    
-    // Authentication-aware messaging and buttons
-    this.createAuthAwareUI(width, height, currentUser)
-    
-    // Show top 3 personal scores with current game highlighted
-    this.showTopPersonalScores(width, height, savedScore)
-    
-    // Navigation buttons
-    this.createGameOverButtons(width, height, currentUser)
-  }
-  
-  /**
-   * Create authentication-aware UI elements
-   */
-  private createAuthAwareUI(_width: number, _height: number, _currentUser: any): void {
-    // UI elements removed - no status message needed on game over screen
-  }
-  
-  /**
-   * Create game over navigation buttons
-   * TEMPORARY: Authentication button temporarily disabled for frontend
-   */
-  private createGameOverButtons(width: number, height: number, _currentUser: any): void {
-    const buttonY = height / 2 + 160  // Increased from 100 to 160 for more space
-    const buttonSpacing = 130
-    
-    // Calculate proper center positioning for button pair
-    // Each button is 100px wide, with 130px spacing between centers
-    // Total spread: 130px, so each button is 65px from the pair's center
-    const buttonPairCenter = width / 2
-    const halfSpacing = buttonSpacing / 2
-    
-    // HOME button (always visible) - positioned left of center
-    const homeButton = this.createGameOverButton(
-      buttonPairCenter - halfSpacing,
-      buttonY,
-      'HOME',
-      colors.primary,
-      () => this.goToStartScene()
-    )
-    
-    // RESTART button (always visible) - positioned right of center
-    const restartButton = this.createGameOverButton(
-      buttonPairCenter + halfSpacing,
-      buttonY,
-      'RESTART',
-      colors.accent,
-      () => this.restartGame()
-    )
-    
-    // TEMPORARY: Authentication button temporarily disabled for frontend
-    // TODO: Uncomment the following block to restore authentication/scores navigation
-    /*
-    // Authentication-aware third button
-    if (!currentUser || currentUser.isGuest) {
-      // LOGIN button for guests
-      const authButtonText = 'LOGIN'
-      this.createGameOverButton(
-        width / 2 + buttonSpacing,
-        buttonY,
-        authButtonText,
-        '#4CAF50',
-        () => this.goToLogin()
-      )
-    } else {
-      // VIEW SCORES button for authenticated users
-      this.createGameOverButton(
-        width / 2 + buttonSpacing,
-        buttonY,
-        'SCORES',
-        '#666666',
-        () => this.goToScores()
-      )
+    const distance = Math.floor(this.distance)
+    const replay = this.replayRecorder.finish(this.plane.getFlightTick())
+    const stats: RunStats = {
+      score: this.runScore.getFinalScore(this.distance),
+      distance,
+      maxCombo: this.comboTracker.getMaxCombo(),
+      flaps: this.runScore.getFlaps(),
+      rings: this.runScore.getRings(),
+      cause,
+      duration: this.getFlightTime(),
+      maxAltitude: Math.round(this.maxAltitude),
+      gameMode: this.mode,
+      seed: this.seed,
+      challengeDay: this.challengeDay
     }
-    */
     
-    // Add helper text
-    const helpText = this.add.text(width / 2, height / 2 + 200, 'CLICK ANY BUTTON OR PRESS R/SPACE/ENTER', {
-      fontFamily: typography.primary,
-      fontSize: '9px',
-      color: colors.white,
-      align: 'center'
-    })
-    helpText.setOrigin(0.5)
-    helpText.setScrollFactor(0)
-    helpText.setAlpha(0.7)
+    // Effects end with the run
+    this.powerUpEffects.reset()
+    this.pauseButton?.setVisible(false)
     
-    // Flashing effect for buttons
-    this.tweens.add({
-      targets: [homeButton, restartButton],
-      alpha: 0.8,
-      duration: 1000,
-      yoyo: true,
-      repeat: -1
-    })
-  }
-  
-  /**
-   * Create a styled game over button
-   */
-  private createGameOverButton(x: number, y: number, text: string, color: string, onClick: () => void): Phaser.GameObjects.Container {
-    const buttonContainer = this.add.container(x, y)
+    this.cleanupManager.logDebug(`Game ended! Final Score: ${stats.score}, Distance: ${distance}m`)
     
-    // Button background
-    const bg = this.add.graphics()
-    bg.fillStyle(parseInt(color.replace('#', ''), 16), 0.9)
-    bg.lineStyle(2, parseInt(colors.white.replace('#', ''), 16), 1)
-    bg.fillRoundedRect(-50, -20, 100, 40, 8)
-    bg.strokeRoundedRect(-50, -20, 100, 40, 8)
-    
-    // Button text
-    const buttonText = this.add.text(0, 0, text, {
-      fontFamily: typography.primary,
-      fontSize: '12px',
-      color: colors.white,
-      align: 'center',
-      stroke: '#000000',
-      strokeThickness: 2
-    })
-    buttonText.setOrigin(0.5, 0.5)
-    
-    buttonContainer.add([bg, buttonText])
-    buttonContainer.setSize(100, 40)
-    buttonContainer.setInteractive()
-    buttonContainer.setScrollFactor(0)
-    
-    // Hover effects
-    buttonContainer.on('pointerover', () => {
-      buttonContainer.setScale(1.1)
-    })
-    
-    buttonContainer.on('pointerout', () => {
-      buttonContainer.setScale(1.0)
-    })
-    
-    // Click handler
-    buttonContainer.on('pointerdown', onClick)
+    // Stop camera; the game over screen appears once the score is saved
+    this.cameras.main.stopFollow()
+    this.cameras.main.setScroll(this.cameras.main.scrollX, this.cameras.main.scrollY)
     
-    return buttonContainer
+    this.gameEvents.emit('runEnded', { stats, replay })
   }
   
   /**
@@ -1116,90 +1226,6 @@ export class GameScene extends Phaser.Scene {
     this.restartGameProperly()
   }
   
-  /**
-   * TEMPORARY: Login and scores navigation temporarily disabled for frontend
-   * TODO: Uncomment the following methods to restore navigation functionality
-   */
-  /*
-  private goToLogin(): void {
-    console.log('Navigating to login...')
-    // For now, go to start scene where login functionality exists
-    this.scene.start('StartScene')
-  }
-  
-  private goToScores(): void {
-    console.log('Navigating to scores...')
-    this.scene.start('ScoresScene')
-  }
-  */
-  
-  /**
-   * Show top 3 personal scores plus current game's score on game over screen
-   */
-  private showTopPersonalScores(width: number, height: number, currentScore: GameScore): void {
-    const allScores = ScoreManager.getAllScores().sort((a, b) => b.score - a.score)
-    const topScores = allScores.slice(0, 3)
-    
-    if (allScores.length > 0) {
-      const topScoresText = this.add.text(width / 2, height / 2 + 35, 'YOUR TOP SCORES:', {
-        fontFamily: typography.primary,
-        fontSize: '10px',
-        color: colors.white,
-        align: 'center'
-      })
-      topScoresText.setOrigin(0.5)
-      topScoresText.setScrollFactor(0)
-      
-      // Display top 3 scores
-      topScores.forEach((score, index) => {
-        const isCurrentGame = score.timestamp === currentScore.timestamp
-        const textColor = isCurrentGame ? colors.accent : '#CCCCCC'  // Highlight current game
-        
-        const scoreEntry = this.add.text(
-          width / 2, 
-          height / 2 + 50 + (index * 12), 
-          `${index + 1}. ${score.score} pts (${score.distance}m)${isCurrentGame ? ' ← Latest' : ''}`, 
-          {
-            fontFamily: typography.primary,
-            fontSize: '9px',
-            color: textColor,
-            align: 'center'
-          }
-        )
-        scoreEntry.setOrigin(0.5)
-        scoreEntry.setScrollFactor(0)
-      })
-      
-      // If current game is not in top 3, show it separately
-      const currentGameRank = allScores.findIndex(s => s.timestamp === currentScore.timestamp) + 1
-      if (currentGameRank > 3) {
-        const currentGameEntry = this.add.text(
-          width / 2, 
-          height / 2 + 50 + (3 * 12) + 6, // Extra spacing
-          `${currentGameRank}. ${currentScore.score} pts (${currentScore.distance}m) ← Latest`, 
-          {
-            fontFamily: typography.primary,
-            fontSize: '9px',
-            color: colors.accent,  // Highlighted color for current game
-            align: 'center'
-          }
-        )
-        currentGameEntry.setOrigin(0.5)
-        currentGameEntry.setScrollFactor(0)
-      }
-    } else {
-      // Show "No previous scores" if this is the first game
-      const noScoresText = this.add.text(width / 2, height / 2 + 50, 'No previous scores\nThis is your first game!', {
-        fontFamily: typography.primary,
-        fontSize: '9px',
-        color: colors.white,
-        align: 'center'
-      })
-      noScoresText.setOrigin(0.5)
-      noScoresText.setScrollFactor(0)
-    }
-  }
-  
   /**
    * STAGE 4: Proper scene cleanup
    */
@@ -1210,20 +1236,18 @@ export class GameScene extends Phaser.Scene {
       // Stop monitoring
       this.cleanupManager.stopMonitoring()
       
-      // Clean up all tracked assets
-      this.groundDecorations.forEach(decoration => {
-        if (decoration && decoration.active) {
-          decoration.destroy()
-        }
-      })
-      this.groundDecorations = []
+      // Clean up all pooled assets
+      this.ringPool.clear()
+      this.cloudPool.clear()
+      this.groundTilePool.clear()
+      this.decorationPool.clear()
+      this.rockPool.clear()
+      this.grassPool.clear()
       
-      this.backgroundSections.forEach(section => {
-        if (section && section.active) {
-          section.destroy()
-        }
-      })
-      this.backgroundSections = []
+      this.parallax?.destroy()
+      this.parallax = undefined
+      this.atmosphere?.destroy()
+      this.atmosphere = undefined
       
       // Force texture cleanup for production
       WebGLOptimizer.forceTextureCleanup(this)
@@ -1241,19 +1265,29 @@ export class GameScene extends Phaser.Scene {
   /**
    * STAGE 5: Proper restart without page reload
    */
-  private restartGameProperly(): void {
+  private restartGameProperly(data: GameSceneData = { mode: this.mode, difficulty: this.difficulty.getProfile().id }): void {
+    // Out of challenge attempts - show today's board instead of another run
+    if (data.mode === 'challenge' && !DailyChallenge.canAttempt(this.challengeDay)) {
+      this.scene.start('ScoresScene', { board: 'challenge' })
+      return
+    }
+    
     if (this.cleanupManager.shouldUseProperRestart()) {
       this.cleanupManager.logDebug('Using proper restart mechanism')
       
       // Perform full cleanup first
       this.shutdown()
       
-      // Restart the scene
-      this.scene.restart()
+      // Restart in the same mode (normal runs get a fresh course seed unless one is given)
+      this.scene.restart(data)
     } else {
       // Fall back to page reload
       this.cleanupManager.logDebug('Using page reload restart (fallback)')
       localStorage.setItem('startGameDirectly', 'true')
+      localStorage.setItem('startGameMode', data.mode || 'normal')
+      if (data.seed !== undefined) {
+        localStorage.setItem('startGameSeed', String(data.seed))
+      }
       window.location.reload()
     }
   }
@@ -0,0 +1,240 @@
+/**
+ * LeaderboardScene - Global rankings for all-time, this week and today's challenge
+ *
+ * Shows the top of the selected board with the player's own row highlighted,
+ * and their position below the list when they are outside the top rows.
+ * Falls back to the last cached copy when offline.
+ */
+
+import { colors, typography } from '../ui/DesignTokens'
+import { Button } from '../ui/Button'
+import { AudioManager } from '../systems/AudioManager'
+import { AuthManager } from '../systems/AuthManager'
+import { ScoreManager, type GameScore } from '../systems/ScoreManager'
+import { DailyChallenge } from '../systems/DailyChallenge'
+import { LeaderboardManager, type LeaderboardEntry, type LeaderboardPeriod, type LeaderboardResult } from '../systems/Leaderboard'
+import { t, type StringKey } from '../systems/Localization'
+
+export interface LeaderboardSceneData {
+  period?: LeaderboardPeriod
+}
+
+export class LeaderboardScene extends Phaser.Scene {
+  private static readonly TOP_ROWS = 10
+  private static readonly ROW_HEIGHT = 26
+  private static readonly TABS: Array<{ period: LeaderboardPeriod, label: StringKey }> = [
+    { period: 'allTime', label: 'leaderboard.allTime' },
+    { period: 'weekly', label: 'leaderboard.weekly' },
+    { period: 'daily', label: 'leaderboard.daily' }
+  ]
+  
+  private period: LeaderboardPeriod = 'allTime'
+  private statusText!: Phaser.GameObjects.Text
+  
+  constructor() {
+    super({ key: 'LeaderboardScene' })
+  }
+  
+  public init(data: LeaderboardSceneData = {}): void {
+    this.period = LeaderboardScene.TABS.some(tab => tab.period === data.period) ? data.period! : 'allTime'
+  }
+  
+  public create(): void {
+    const { width, height } = this.cameras.main
+    
+    AudioManager.getInstance().playMusic('menu')
+    this.createBackground(width, height)
+    this.createTitle(width)
+    this.createTabs(width)
+    this.createBackButton(width, height)
+    
+    this.statusText = this.add.text(width / 2, 122, t('leaderboard.loading'), {
+      fontFamily: typography.primary,
+      fontSize: '10px',
+      color: colors.white,
+      align: 'center'
+    })
+    this.statusText.setOrigin(0.5, 0.5)
+    
+    this.loadBoard()
+  }
+  
+  private createBackground(width: number, height: number): void {
+    // Create gradient background matching the game aesthetic
+    const gradient = this.add.graphics()
+    gradient.fillGradientStyle(
+      parseInt(colors.skyTop.substring(1), 16),
+      parseInt(colors.skyTop.substring(1), 16),
+      parseInt(colors.skyBottom.substring(1), 16),
+      parseInt(colors.skyBottom.substring(1), 16),
+      1
+    )
+    gradient.fillRect(0, 0, width, height)
+  }
+  
+  private createTitle(width: number): void {
+    const title = this.add.text(width / 2, 40, t('leaderboard.title'), {
+      fontFamily: typography.primary,
+      fontSize: '28px',
+      color: colors.white,
+      align: 'center',
+      stroke: colors.primary,
+      strokeThickness: 3
+    })
+    title.setOrigin(0.5, 0.5)
+  }
+  
+  private createTabs(width: number): void {
+    LeaderboardScene.TABS.forEach((tab, index) => {
+      new Button(this, {
+        x: width / 2 + (index - 1) * 170,
+        y: 88,
+        width: 160,
+        height: 28,
+        text: t(tab.label),
+        style: tab.period === this.period ? 'primary' : 'secondary',
+        fontSize: 10,
+        onClick: () => {
+          if (tab.period !== this.period) {
+            this.scene.restart({ period: tab.period })
+          }
+        }
+      })
+    })
+  }
+  
+  private async loadBoard(): Promise<void> {
+    const period = this.period
+    const result = await LeaderboardManager.getInstance().load(period)
+    
+    // The player may have switched tabs or left while the board loaded
+    if (!this.sys.isActive() || period !== this.period) return
+    
+    if (!result) {
+      this.statusText.setText(t('leaderboard.unavailable'))
+      return
+    }
+    
+    this.statusText.setText(result.fromCache
+      ? `${t('leaderboard.cached')} ${new Date(result.fetchedAt).toLocaleString()}`
+      : '')
+    this.showBoard(result)
+  }
+  
+  private showBoard(result: LeaderboardResult): void {
+    const { width } = this.cameras.main
+    const startY = 150
+    const player = LeaderboardManager.findPlayer(result)
+    const topEntries = result.entries.slice(0, LeaderboardScene.TOP_ROWS)
+    
+    if (topEntries.length === 0) {
+      this.createMessage(width, startY + 60, t('leaderboard.empty'))
+    }
+    
+    topEntries.forEach((entry, index) => {
+      this.createRow(width, startY + index * LeaderboardScene.ROW_HEIGHT, entry, entry === player)
+    })
+    
+    // The player's own position when it is not in the list above
+    const footerY = startY + LeaderboardScene.TOP_ROWS * LeaderboardScene.ROW_HEIGHT + 20
+    if (player && player.rank > LeaderboardScene.TOP_ROWS) {
+      this.createRow(width, footerY, player, true)
+    } else if (!player && !result.fromCache) {
+      this.showPlayerRank(width, footerY)
+    } else if (!player) {
+      this.createUnrankedRow(width, footerY)
+    }
+  }
+  
+  /**
+   * Rank players who are not on the board from their best verified score
+   */
+  private async showPlayerRank(width: number, y: number): Promise<void> {
+    const period = this.period
+    const entry = await LeaderboardManager.getInstance().getPlayerRank(period)
+    if (!this.sys.isActive() || period !== this.period) return
+    
+    if (entry) {
+      this.createRow(width, y, entry, true)
+    } else {
+      this.createUnrankedRow(width, y)
+    }
+  }
+  
+  private createRow(width: number, y: number, entry: LeaderboardEntry, isPlayer: boolean): void {
+    const color = isPlayer ? colors.accent : colors.white
+    const style = { fontFamily: typography.primary, fontSize: '12px', color }
+    
+    if (isPlayer) {
+      const highlight = this.add.graphics()
+      highlight.fillStyle(parseInt(colors.primary.replace('#', ''), 16), 0.6)
+      highlight.fillRoundedRect(width / 2 - 320, y - 12, 640, 24, 6)
+    }
+    
+    // Names come from the signed-in account for the player's own row
+    const user = AuthManager.getInstance().getCurrentUser()
+    const name = isPlayer && user?.displayName ? user.displayName : entry.displayName
+    
+    this.add.text(width / 2 - 300, y, `#${entry.rank}`, style).setOrigin(0, 0.5)
+    this.add.text(width / 2 - 220, y, LeaderboardScene.truncate(name), style).setOrigin(0, 0.5)
+    this.add.text(width / 2 + 170, y, `${entry.distance}m`, style).setOrigin(1, 0.5)
+    this.add.text(width / 2 + 300, y, String(entry.score), style).setOrigin(1, 0.5)
+  }
+  
+  /**
+   * Players without a verified score for the board, or offline, see their own best for the period instead
+   */
+  private createUnrankedRow(width: number, y: number): void {
+    const best = this.getLocalBest()
+    if (best === null) return
+    
+    const style = { fontFamily: typography.primary, fontSize: '12px', color: colors.accent }
+    this.add.text(width / 2 - 300, y, '—', style).setOrigin(0, 0.5)
+    this.add.text(width / 2 - 220, y, `${t('leaderboard.you')} · ${t('leaderboard.unranked')}`, style).setOrigin(0, 0.5)
+    this.add.text(width / 2 + 300, y, String(best), style).setOrigin(1, 0.5)
+  }
+  
+  /**
+   * Best local score that would count towards the selected board
+   */
+  private getLocalBest(): number | null {
+    let scores: GameScore[]
+    if (this.period === 'daily') {
+      scores = ScoreManager.getInstance().getChallengeScores(DailyChallenge.getDayKey())
+    } else if (this.period === 'weekly') {
+      const week = LeaderboardManager.getWeekKey()
+      scores = ScoreManager.getInstance().getScoresForMode('normal')
+        .filter(score => LeaderboardManager.getWeekKey(new Date(score.timestamp)) === week)
+    } else {
+      scores = ScoreManager.getInstance().getScoresForMode('normal')
+    }
+    return scores.length > 0 ? scores[0].score : null
+  }
+  
+  private createMessage(width: number, y: number, message: string): void {
+    const text = this.add.text(width / 2, y, message, {
+      fontFamily: typography.primary,
+      fontSize: '14px',
+      color: colors.white,
+      align: 'center'
+    })
+    text.setOrigin(0.5, 0.5)
+  }
+  
+  private static truncate(name: string): string {
+    return name.length > 18 ? `${name.slice(0, 17)}…` : name
+  }
+  
+  private createBackButton(width: number, height: number): void {
+    new Button(this, {
+      x: width / 2,
+      y: height - 40,
+      width: 220,
+      height: 40,
+      text: t('common.back'),
+      style: 'secondary',
+      fontSize: 12,
+      onClick: () => this.scene.start('StartScene')
+    })
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * PauseScene - Pause menu shown over a paused GameScene
+ *
+ * Provides:
+ * - Resume with a 3-2-1 countdown so the player can get ready
+ * - Restart and Home, handed back to GameScene
+ * - Back to the menu if focus is lost again during the countdown
+ */
+
+import { colors, typography } from '../ui/DesignTokens'
+import { Button } from '../ui/Button'
+import { SettingsManager } from '../systems/SettingsManager'
+import { t } from '../systems/Localization'
+import type { GameScene } from './GameScene'
+
+export class PauseScene extends Phaser.Scene {
+  private static readonly COUNTDOWN_FROM = 3
+  
+  private menu!: Phaser.GameObjects.Container
+  private buttons: Button[] = []
+  private countdownText!: Phaser.GameObjects.Text
+  private countdownTimer?: Phaser.Time.TimerEvent
+  
+  constructor() {
+    super({ key: 'PauseScene' })
+  }
+  
+  public create(): void {
+    const { width, height } = this.cameras.main
+    
+    // Dim the frozen game; interactive so taps never reach it
+    const overlay = this.add.rectangle(0, 0, width, height, 0x000000, 0.6)
+    overlay.setOrigin(0, 0)
+    overlay.setInteractive()
+    
+    this.createMenu(width, height)
+    
+    this.countdownText = this.add.text(width / 2, height / 2, '', {
+      fontFamily: typography.primary,
+      fontSize: '64px',
+      color: colors.accent,
+      stroke: '#000000',
+      strokeThickness: 6
+    })
+    this.countdownText.setOrigin(0.5)
+    
+    if (this.input.keyboard) {
+      this.input.keyboard.on('keydown-ESC', () => this.startCountdown())
+      this.input.keyboard.on('keydown-P', () => this.startCountdown())
+    }
+    
+    // Losing focus again mid-countdown goes back to the menu
+    const interrupt = () => this.showMenu()
+    this.game.events.on(Phaser.Core.Events.BLUR, interrupt)
+    this.game.events.on(Phaser.Core.Events.HIDDEN, interrupt)
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      this.game.events.off(Phaser.Core.Events.BLUR, interrupt)
+      this.game.events.off(Phaser.Core.Events.HIDDEN, interrupt)
+    })
+  }
+  
+  private createMenu(width: number, height: number): void {
+    this.menu = this.add.container(0, 0)
+    
+    const title = this.add.text(width / 2, height * 0.3, t('pause.title'), {
+      fontFamily: typography.primary,
+      fontSize: '36px',
+      color: colors.white,
+      stroke: colors.primary,
+      strokeThickness: 4
+    })
+    title.setOrigin(0.5)
+    this.menu.add(title)
+    
+    const actions: Array<[string, 'primary' | 'secondary' | 'danger', () => void]> = [
+      [t('pause.resume'), 'primary', () => this.startCountdown()],
+      [t('pause.restart'), 'secondary', () => this.leave(game => game.restartFromPause())],
+      [t('pause.home'), 'danger', () => this.leave(game => game.quitFromPause())]
+    ]
+    
+    this.buttons = actions.map(([text, style, onClick], index) => new Button(this, {
+      x: width / 2,
+      y: height * 0.47 + index * 65,
+      width: 220,
+      height: 48,
+      text,
+      style,
+      fontSize: 16,
+      onClick
+    }))
+  }
+  
+  /**
+   * Hide the menu and count down before handing control back
+   */
+  private startCountdown(): void {
+    if (this.countdownTimer) return
+    
+    this.setMenuVisible(false)
+    let remaining = PauseScene.COUNTDOWN_FROM
+    this.showCount(remaining)
+    
+    this.countdownTimer = this.time.addEvent({
+      delay: 1000,
+      repeat: PauseScene.COUNTDOWN_FROM - 1,
+      callback: () => {
+        remaining--
+        if (remaining > 0) {
+          this.showCount(remaining)
+        } else {
+          this.countdownTimer = undefined
+          this.scene.resume('GameScene')
+          this.scene.stop()
+        }
+      }
+    })
+  }
+  
+  private showCount(count: number): void {
+    this.countdownText.setText(String(count))
+    if (SettingsManager.getInstance().get().reducedMotion) return
+    
+    this.countdownText.setScale(1.6)
+    this.tweens.add({
+      targets: this.countdownText,
+      scale: 1,
+      duration: 300,
+      ease: 'Back.easeOut'
+    })
+  }
+  
+  /**
+   * Cancel a running countdown and show the menu again
+   */
+  private showMenu(): void {
+    this.countdownTimer?.remove()
+    this.countdownTimer = undefined
+    this.countdownText.setText('')
+    this.setMenuVisible(true)
+  }
+  
+  private setMenuVisible(visible: boolean): void {
+    this.menu.setVisible(visible)
+    this.buttons.forEach(button => button.setVisible(visible))
+  }
+  
+  /**
+   * Close the menu and let the paused run handle restart or quit itself
+   */
+  private leave(action: (game: GameScene) => void): void {
+    const game = this.scene.get('GameScene') as GameScene
+    this.scene.stop()
+    action(game)
+  }
+}
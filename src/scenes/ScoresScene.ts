@@ -7,6 +7,21 @@ import { ScoreTable } from '../ui/ScoreTable'
 import { ScoreManager, type GameScore } from '../systems/ScoreManager'
 import { AuthManager } from '../systems/AuthManager'
 import { Button } from '../ui/Button'
+import { DailyChallenge } from '../systems/DailyChallenge'
+import { AudioManager } from '../systems/AudioManager'
+import { SettingsManager } from '../systems/SettingsManager'
+import { t, type StringKey } from '../systems/Localization'
+import type { SyncStatus } from '../systems/ScoreOutbox'
+import { ScoreArchive, ArchiveError, type ArchiveFormat } from '../systems/ScoreArchive'
+
+/**
+ * Which set of scores the scene shows
+ */
+export type ScoreBoard = 'normal' | 'challenge'
+
+export interface ScoresSceneData {
+  board?: ScoreBoard
+}
 
 export class ScoresScene extends Phaser.Scene {
   private titleText!: Phaser.GameObjects.Text
@@ -18,15 +33,24 @@ export class ScoresScene extends Phaser.Scene {
   private totalScores: number = 0
   private paginationContainer!: Phaser.GameObjects.Container
   private errorText?: Phaser.GameObjects.Text
+  private syncText!: Phaser.GameObjects.Text
+  private board: ScoreBoard = 'normal'
   
   constructor() {
     super({ key: 'ScoresScene' })
     this.authManager = AuthManager.getInstance()
   }
   
+  public init(data: ScoresSceneData = {}): void {
+    this.board = data.board === 'challenge' ? 'challenge' : 'normal'
+    this.currentPage = 0
+    this.scoresPerPage = SettingsManager.getInstance().get().scoresPerPage
+  }
+  
   public create(): void {
     const { width, height } = this.cameras.main
     
+    AudioManager.getInstance().playMusic('menu')
     this.createBackground(width, height)
     
     // TEMPORARY: Authentication check temporarily disabled for frontend
@@ -41,13 +65,16 @@ export class ScoresScene extends Phaser.Scene {
     
     try {
       this.createTitle(width, height)
+      this.createBoardTabs(width, height)
       this.createScoreTable(width, height)
       this.createPagination(width, height)
       this.createStats(width, height)
+      this.createSyncStatus(width, height)
+      this.createArchiveButtons(width, height)
       this.createBackButton(width, height)
     } catch (error) {
       console.error('Error creating scores scene:', error)
-      this.showError(width, height, 'Failed to load scores. Please try again.')
+      this.showError(width, height, t('scores.error.load'))
     }
   }
   
@@ -121,7 +148,7 @@ export class ScoresScene extends Phaser.Scene {
   }
   */
   
-  private showError(width: number, height: number, message: string): void {
+  private showError(width: number, height: number, message: string, backgroundColor: string = '#ff000080'): void {
     if (this.errorText) {
       this.errorText.destroy()
     }
@@ -131,8 +158,9 @@ export class ScoresScene extends Phaser.Scene {
       fontSize: '16px',
       color: colors.white,
       align: 'center',
-      backgroundColor: '#ff000080',
-      padding: { x: 20, y: 15 }
+      backgroundColor,
+      padding: { x: 20, y: 15 },
+      wordWrap: { width: width - 160 }
     })
     this.errorText.setOrigin(0.5, 0.5)
     
@@ -147,7 +175,10 @@ export class ScoresScene extends Phaser.Scene {
   
   private createTitle(width: number, _height: number): void {
     const user = this.authManager.getCurrentUser()
-    const titleText = user?.isGuest ? 'YOUR SCORES (GUEST)' : 'YOUR SCORES'
+    let titleText = user?.isGuest ? t('scores.title.guest') : t('scores.title')
+    if (this.board === 'challenge') {
+      titleText = t('scores.title.challenge')
+    }
     
     this.titleText = this.add.text(width / 2, 60, titleText, {  // More space from top
       fontFamily: typography.primary,
@@ -170,10 +201,58 @@ export class ScoresScene extends Phaser.Scene {
     shadow.setDepth(-1)
   }
   
+  /**
+   * Switch between normal runs and today's daily challenge board, or open
+   * the global leaderboard
+   */
+  private createBoardTabs(width: number, _height: number): void {
+    const tabs: Array<{ board: ScoreBoard, label: string, x: number }> = [
+      { board: 'normal', label: t('scores.tab.all'), x: width / 2 - 150 },
+      { board: 'challenge', label: t('scores.tab.daily'), x: width / 2 }
+    ]
+    
+    tabs.forEach(tab => {
+      new Button(this, {
+        x: tab.x,
+        y: 100,
+        width: 140,
+        height: 28,
+        text: tab.label,
+        style: tab.board === this.board ? 'primary' : 'secondary',
+        fontSize: 10,
+        onClick: () => {
+          if (tab.board !== this.board) {
+            this.scene.restart({ board: tab.board })
+          }
+        }
+      })
+    })
+    
+    new Button(this, {
+      x: width / 2 + 150,
+      y: 100,
+      width: 140,
+      height: 28,
+      text: t('scores.global'),
+      style: 'accent',
+      fontSize: 10,
+      onClick: () => this.scene.start('LeaderboardScene', { period: this.board === 'challenge' ? 'daily' : 'allTime' })
+    })
+  }
+  
+  /**
+   * Scores for the selected board, sorted by score descending for proper ranking
+   */
+  private getBoardScores(): GameScore[] {
+    if (this.board === 'challenge') {
+      return ScoreManager.getInstance().getChallengeScores(DailyChallenge.getDayKey())
+    }
+    return ScoreManager.getInstance().getScoresForMode('normal')
+  }
+  
   private createScoreTable(width: number, height: number): void {
     try {
-      // Get all scores and sort them by score descending for proper ranking
-      const allScores = ScoreManager.getAllScores().sort((a, b) => b.score - a.score)
+      const allScores = this.getBoardScores()
       this.totalScores = allScores.length
       
       // Find the latest score by timestamp (most recent game)
@@ -202,7 +281,7 @@ export class ScoresScene extends Phaser.Scene {
       })
     } catch (error) {
       console.error('Error creating score table:', error)
-      this.showError(width, height, 'Failed to load score table.')
+      this.showError(width, height, t('scores.error.table'))
     }
   }
   
@@ -221,7 +300,7 @@ export class ScoresScene extends Phaser.Scene {
         y: 0,
         width: 95,  // Increased width for adequate padding
         height: 40,  // Increased height for better proportion and padding
-        text: '← PREV',
+        text: t('scores.prev'),
         style: 'secondary',
         fontSize: 12,  // Increased font size for better readability
         onClick: () => this.previousPage()
@@ -246,7 +325,7 @@ export class ScoresScene extends Phaser.Scene {
         y: 0,
         width: 95,  // Increased width for adequate padding
         height: 40,  // Increased height for better proportion and padding
-        text: 'NEXT →',
+        text: t('scores.next'),
         style: 'secondary',
         fontSize: 12,  // Increased font size for better readability
         onClick: () => this.nextPage()
@@ -283,26 +362,41 @@ export class ScoresScene extends Phaser.Scene {
       this.createPagination(width, height)
     } catch (error) {
       console.error('Error refreshing scores display:', error)
-      this.showError(this.cameras.main.width, this.cameras.main.height, 'Failed to refresh scores.')
+      this.showError(this.cameras.main.width, this.cameras.main.height, t('scores.error.refresh'))
+    }
+  }
+  
+  /**
+   * Build the statistics summary for the selected board
+   */
+  private getStatsContent(): string {
+    if (this.board === 'challenge') {
+      const dayKey = DailyChallenge.getDayKey()
+      const best = this.totalScores > 0 ? this.getBoardScores()[0].score : 0
+      return `${t('scores.stats.challenge')} (${dayKey})\n\n` +
+             `${t('scores.stats.bestToday')}: ${best}\n` +
+             `${t('scores.stats.attempts')}: ${DailyChallenge.getAttemptsUsed(dayKey)}/${DailyChallenge.MAX_ATTEMPTS}\n` +
+             `${t('scores.stats.runs')}: ${this.totalScores}`
+    }
+    
+    const stats = ScoreManager.getInstance().getScoreStats()
+    const user = this.authManager.getCurrentUser()
+    
+    if (stats.totalGames === 0) {
+      return t('scores.stats.empty')
     }
+    
+    const userType = user?.isGuest ? ` ${t('scores.stats.guest')}` : ''
+    return `${t('scores.stats.title')}${userType}\n\n` +
+           `${t('scores.stats.best')}: ${stats.personalBest}\n` +
+           `${t('scores.stats.games')}: ${stats.totalGames}\n` +
+           `${t('scores.stats.average')}: ${stats.averageScore}\n` +
+           `${t('scores.stats.total')}: ${this.totalScores}`
   }
   
   private createStats(width: number, height: number): void {
     try {
-      const stats = ScoreManager.getScoreStats()
-      const user = this.authManager.getCurrentUser()
-      
-      let statsContent: string
-      if (stats.totalGames === 0) {
-        statsContent = 'No games played yet!\nStart playing to see your statistics.'
-      } else {
-        const userType = user?.isGuest ? ' (Guest Account)' : ''
-        statsContent = `Personal Statistics${userType}\n\n` +
-                      `Personal Best: ${stats.personalBest}\n` +
-                      `Games Played: ${stats.totalGames}\n` +
-                      `Average Score: ${stats.averageScore}\n` +
-                      `Total Scores Recorded: ${this.totalScores}`
-      }
+      const statsContent = this.getStatsContent()
       
       this.statsText = this.add.text(width / 2, 430, statsContent, {  // Better spacing below pagination
         fontFamily: typography.primary,
@@ -315,7 +409,142 @@ export class ScoresScene extends Phaser.Scene {
       this.statsText.setOrigin(0.5, 0.5)
     } catch (error) {
       console.error('Error creating stats:', error)
-      this.showError(width, height, 'Failed to load statistics.')
+      this.showError(width, height, t('scores.error.stats'))
+    }
+  }
+  
+  /**
+   * Cloud backup state of the player's scores, kept live while the scene is
+   * open - tapping it retries queued uploads straight away, rejected ones included
+   */
+  private createSyncStatus(width: number, _height: number): void {
+    const outbox = ScoreManager.getInstance().getOutbox()
+    if (!outbox) return
+    
+    this.syncText = this.add.text(width - 16, 16, '', {
+      fontFamily: typography.primary,
+      fontSize: '9px',
+      color: colors.white,
+      align: 'right',
+      backgroundColor: colors.uiBg,
+      padding: { x: 8, y: 6 }
+    })
+    this.syncText.setOrigin(1, 0)
+    this.syncText.setInteractive({ useHandCursor: true })
+    this.syncText.on('pointerdown', () => {
+      AudioManager.getInstance().playSfx('click')
+      outbox.retryNow(true)
+    })
+    
+    const onStatus = (status: SyncStatus) => this.updateSyncStatus(status)
+    outbox.onStatusChange(onStatus)
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => outbox.removeStatusListener(onStatus))
+    this.updateSyncStatus(outbox.getStatus())
+  }
+  
+  private updateSyncStatus(status: SyncStatus): void {
+    const key: StringKey = `scores.sync.${status.state}`
+    const shown = status.state === 'rejected' ? status.rejected : status.pending
+    const count = shown > 0 && status.state !== 'signedOut' ? ` (${shown})` : ''
+    this.syncText.setText(t(key) + count)
+    this.syncText.setColor(status.state === 'synced' ? colors.white : colors.accent)
+  }
+  
+  /**
+   * Download the score history as a file with a checksum, or merge in one
+   * exported on another device
+   */
+  private createArchiveButtons(width: number, height: number): void {
+    const exports: Array<{ format: ArchiveFormat, label: StringKey, x: number }> = [
+      { format: 'json', label: 'scores.export.json', x: width / 2 - 290 },
+      { format: 'csv', label: 'scores.export.csv', x: width / 2 - 165 }
+    ]
+    
+    exports.forEach(entry => {
+      new Button(this, {
+        x: entry.x,
+        y: height - 60,
+        width: 110,
+        height: 32,
+        text: t(entry.label),
+        style: 'secondary',
+        fontSize: 10,
+        onClick: () => this.exportScores(entry.format)
+      })
+    })
+    
+    new Button(this, {
+      x: width / 2 + 165,
+      y: height - 60,
+      width: 110,
+      height: 32,
+      text: t('scores.import'),
+      style: 'secondary',
+      fontSize: 10,
+      onClick: () => this.pickImportFile()
+    })
+  }
+  
+  private async exportScores(format: ArchiveFormat): Promise<void> {
+    try {
+      const scoreManager = ScoreManager.getInstance()
+      const archive = ScoreArchive.create(
+        scoreManager.getAllScores(),
+        scoreManager.getScoreStats(),
+        SettingsManager.getInstance().get()
+      )
+      const text = await ScoreArchive.serialize(archive, format)
+      
+      const url = URL.createObjectURL(new Blob([text], { type: format === 'json' ? 'application/json' : 'text/csv' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = ScoreArchive.getFileName(format)
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000) // Some browsers start the download asynchronously
+      
+      if (format === 'csv') {
+        this.showError(this.cameras.main.width, this.cameras.main.height, t('scores.export.csvNote'), colors.primary + 'cc')
+      }
+    } catch (error) {
+      console.error('Error exporting scores:', error)
+      this.showError(this.cameras.main.width, this.cameras.main.height, t('scores.export.failed'))
+    }
+  }
+  
+  private pickImportFile(): void {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.json,.csv,application/json,text/csv'
+    input.addEventListener('change', () => {
+      const file = input.files?.[0]
+      if (file) {
+        this.importScores(file)
+      }
+    })
+    input.click()
+  }
+  
+  /**
+   * Merge an exported history into this device's scores, apply its settings
+   * and re-rank the table
+   */
+  private async importScores(file: File): Promise<void> {
+    try {
+      const archive = await ScoreArchive.parse(await file.text())
+      const added = await ScoreManager.getInstance().importScores(archive.scores)
+      SettingsManager.getInstance().update(archive.settings)
+      if (!this.scene.isActive()) return
+      
+      this.refreshScores()
+      this.showError(this.cameras.main.width, this.cameras.main.height, `${t('scores.import.done')}: ${added}`, colors.primary + 'cc')
+    } catch (error) {
+      console.warn('ScoresScene: Failed to import scores:', error)
+      if (!this.scene.isActive()) return
+      
+      const message = error instanceof ArchiveError && error.reason === 'checksum'
+        ? t('scores.import.checksum')
+        : t('scores.import.invalid')
+      this.showError(this.cameras.main.width, this.cameras.main.height, message)
     }
   }
   
@@ -325,7 +554,7 @@ export class ScoresScene extends Phaser.Scene {
       y: height - 60,  // More space from bottom edge
       width: 190,  // Slightly wider for better text fit
       height: 42,  // Consistent with improved button proportions
-      text: '← BACK TO MENU',
+      text: t('common.back'),
       style: 'secondary',
       fontSize: 13,  // Slightly larger for consistency
       onClick: () => this.goBack()
@@ -342,7 +571,7 @@ export class ScoresScene extends Phaser.Scene {
       this.currentPage = 0
       
       // Update the score table with latest scores (sorted for proper ranking)
-      const allScores = ScoreManager.getAllScores().sort((a, b) => b.score - a.score)
+      const allScores = this.getBoardScores()
       this.totalScores = allScores.length
       
       // Find the latest score by timestamp (most recent game)
@@ -361,23 +590,10 @@ export class ScoresScene extends Phaser.Scene {
       this.createPagination(width, height)
       
       // Update stats
-      const stats = ScoreManager.getScoreStats()
-      const user = this.authManager.getCurrentUser()
-      let statsContent: string
-      if (stats.totalGames === 0) {
-        statsContent = 'No games played yet!\nStart playing to see your statistics.'
-      } else {
-        const userType = user?.isGuest ? ' (Guest Account)' : ''
-        statsContent = `Personal Statistics${userType}\n\n` +
-                      `Personal Best: ${stats.personalBest}\n` +
-                      `Games Played: ${stats.totalGames}\n` +
-                      `Average Score: ${stats.averageScore}\n` +
-                      `Total Scores Recorded: ${this.totalScores}`
-      }
-      this.statsText.setText(statsContent)
+      this.statsText.setText(this.getStatsContent())
     } catch (error) {
       console.error('Error refreshing scores:', error)
-      this.showError(this.cameras.main.width, this.cameras.main.height, 'Failed to refresh scores.')
+      this.showError(this.cameras.main.width, this.cameras.main.height, t('scores.error.refresh'))
     }
   }
 } 
\ No newline at end of file
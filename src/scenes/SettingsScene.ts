@@ -0,0 +1,172 @@
+/**
+ * SettingsScene - Player preferences
+ *
+ * Each row cycles through the allowed values of one setting. Changes are
+ * saved straight away through SettingsManager; audio applies live, the rest
+ * from the next scene start.
+ */
+
+import { colors, typography } from '../ui/DesignTokens'
+import { Button } from '../ui/Button'
+import { AudioManager } from '../systems/AudioManager'
+import { SettingsManager, SETTINGS_OPTIONS, type PlayerSettings } from '../systems/SettingsManager'
+import { t, LANGUAGE_NAMES, type StringKey } from '../systems/Localization'
+
+export class SettingsScene extends Phaser.Scene {
+  private static readonly ROW_SPACING = 36
+  private static readonly VOLUME_STEPS = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]
+  
+  private settingsManager: SettingsManager
+  
+  constructor() {
+    super({ key: 'SettingsScene' })
+    this.settingsManager = SettingsManager.getInstance()
+  }
+  
+  public create(): void {
+    const { width, height } = this.cameras.main
+    
+    AudioManager.getInstance().playMusic('menu')
+    this.createBackground(width, height)
+    this.createTitle(width)
+    this.createRows(width)
+    this.createButtons(width, height)
+  }
+  
+  private createBackground(width: number, height: number): void {
+    // Create gradient background matching the game aesthetic
+    const gradient = this.add.graphics()
+    gradient.fillGradientStyle(
+      parseInt(colors.skyTop.substring(1), 16),
+      parseInt(colors.skyTop.substring(1), 16),
+      parseInt(colors.skyBottom.substring(1), 16),
+      parseInt(colors.skyBottom.substring(1), 16),
+      1
+    )
+    gradient.fillRect(0, 0, width, height)
+  }
+  
+  private createTitle(width: number): void {
+    const title = this.add.text(width / 2, 50, t('settings.title'), {
+      fontFamily: typography.primary,
+      fontSize: '28px',
+      color: colors.white,
+      align: 'center',
+      stroke: colors.primary,
+      strokeThickness: 3
+    })
+    title.setOrigin(0.5, 0.5)
+  }
+  
+  /**
+   * One row per setting, top to bottom
+   */
+  private createRows(width: number): void {
+    const percent = (value: number) => `${Math.round(value * 100)}%`
+    const onOff = (value: boolean) => t(value ? 'option.on' : 'option.off')
+    let y = 110
+    const nextY = () => {
+      const rowY = y
+      y += SettingsScene.ROW_SPACING
+      return rowY
+    }
+    
+    this.createOptionRow(width, nextY(), 'musicVolume', 'settings.music', SettingsScene.VOLUME_STEPS, percent)
+    this.createOptionRow(width, nextY(), 'sfxVolume', 'settings.sfx', SettingsScene.VOLUME_STEPS, percent)
+    this.createOptionRow(width, nextY(), 'muted', 'settings.mute', [false, true], onOff)
+    this.createOptionRow(width, nextY(), 'controlScheme', 'settings.controls', SETTINGS_OPTIONS.controlScheme,
+      value => t(`option.${value}`))
+    this.createOptionRow(width, nextY(), 'reducedMotion', 'settings.reducedMotion', [false, true], onOff)
+    this.createOptionRow(width, nextY(), 'ringPalette', 'settings.ringPalette', SETTINGS_OPTIONS.ringPalette,
+      value => t(`option.${value}`))
+    this.createOptionRow(width, nextY(), 'hudScale', 'settings.hudScale', SETTINGS_OPTIONS.hudScale, percent)
+    this.createOptionRow(width, nextY(), 'language', 'settings.language', SETTINGS_OPTIONS.language,
+      value => LANGUAGE_NAMES[value])
+    this.createOptionRow(width, nextY(), 'scoresPerPage', 'settings.scoresPerPage', SETTINGS_OPTIONS.scoresPerPage,
+      value => `${value}`)
+    this.createOptionRow(width, nextY(), 'instructionsDuration', 'settings.instructions',
+      SETTINGS_OPTIONS.instructionsDuration, value => `${value / 1000}s`)
+  }
+  
+  /**
+   * Label on the left, `< value >` picker on the right (same look as the difficulty picker)
+   */
+  private createOptionRow<K extends keyof PlayerSettings>(
+    width: number,
+    y: number,
+    key: K,
+    label: StringKey,
+    options: PlayerSettings[K][],
+    format: (value: PlayerSettings[K]) => string
+  ): void {
+    let index = Math.max(0, options.indexOf(this.settingsManager.get()[key]))
+    
+    const textStyle = {
+      fontFamily: typography.primary,
+      fontSize: '12px',
+      color: colors.white,
+      stroke: '#000000',
+      strokeThickness: 2
+    }
+    
+    const labelText = this.add.text(width / 2 - 260, y, t(label), textStyle)
+    labelText.setOrigin(0, 0.5)
+    
+    const valueX = width / 2 + 150
+    const valueText = this.add.text(valueX, y, format(options[index]), { ...textStyle, color: colors.accent })
+    valueText.setOrigin(0.5)
+    
+    const select = (step: number) => {
+      AudioManager.getInstance().playSfx('click')
+      index = (index + step + options.length) % options.length
+      valueText.setText(format(options[index]))
+      this.settingsManager.update({ [key]: options[index] } as Partial<PlayerSettings>)
+      
+      // Relabel everything in the new language
+      if (key === 'language') {
+        this.scene.restart()
+      }
+    }
+    
+    // Arrows either side of the current value
+    const arrows: Array<[string, number, number]> = [['<', -120, -1], ['>', 120, 1]]
+    arrows.forEach(([symbol, offset, step]) => {
+      const arrow = this.add.text(valueX + offset, y, symbol, textStyle)
+      arrow.setOrigin(0.5)
+      arrow.setInteractive({ useHandCursor: true })
+      arrow.on('pointerdown', () => select(step))
+      arrow.on('pointerover', () => arrow.setScale(1.3))
+      arrow.on('pointerout', () => arrow.setScale(1.0))
+    })
+    
+    valueText.setInteractive({ useHandCursor: true })
+    valueText.on('pointerdown', () => select(1))
+  }
+  
+  private createButtons(width: number, height: number): void {
+    new Button(this, {
+      x: width / 2 - 110,
+      y: height - 50,
+      width: 200,
+      height: 42,
+      text: t('common.back'),
+      style: 'secondary',
+      fontSize: 12,
+      onClick: () => this.scene.start('StartScene')
+    })
+    
+    new Button(this, {
+      x: width / 2 + 110,
+      y: height - 50,
+      width: 200,
+      height: 42,
+      text: t('settings.reset'),
+      style: 'danger',
+      fontSize: 12,
+      onClick: () => {
+        this.settingsManager.reset()
+        this.scene.restart()
+      }
+    })
+  }
+}
@@ -9,6 +9,12 @@
 
 import { colors, typography } from '../ui/DesignTokens'
 import { AuthManager } from '../systems/AuthManager'
+import { RandomService } from '../systems/RandomService'
+import { DailyChallenge } from '../systems/DailyChallenge'
+import { DifficultyProfiles } from '../systems/DifficultyProfile'
+import { AudioManager } from '../systems/AudioManager'
+import { t } from '../systems/Localization'
+import { Button } from '../ui/Button'
 // import type { User } from '../systems/AuthManager' // Unused import
 
 export class StartScene extends Phaser.Scene {
@@ -31,9 +37,13 @@ export class StartScene extends Phaser.Scene {
     
     // Check if we should start game directly after reload
     if (localStorage.getItem('startGameDirectly') === 'true') {
+      const mode = localStorage.getItem('startGameMode')
+      const storedSeed = localStorage.getItem('startGameSeed')
       localStorage.removeItem('startGameDirectly')
+      localStorage.removeItem('startGameMode')
+      localStorage.removeItem('startGameSeed')
       console.log('Starting game directly after reload...')
-      
+
       // Create guest user if not authenticated (preserve the logic)
       if (!this.authManager.isAuthenticated()) {
         this.authManager.createGuestUser().then(() => {
@@ -41,17 +51,30 @@ export class StartScene extends Phaser.Scene {
         })
       }
       
-      // Start game scene directly
-      this.scene.start('GameScene')
+      // Daily challenge keeps its mode across the reload while attempts remain
+      if (mode === 'challenge' && DailyChallenge.canAttempt()) {
+        this.scene.start('GameScene', { mode: 'challenge' })
+        return
+      }
+      
+      // Start game scene directly on a requested course (ghost race or ?seed= URL parameter)
+      const seed = RandomService.parseSeed(storedSeed)
+        ?? RandomService.parseSeed(new URLSearchParams(window.location.search).get('seed'))
+      this.scene.start('GameScene', seed !== null ? { seed } : {})
       return
     }
     
+    AudioManager.getInstance().playMusic('menu')
+    
     this.createBackground(width, height)
     this.createTitle(width, height)
     // TEMPORARY: Authentication UI temporarily disabled for frontend
     // TODO: Uncomment the following lines to restore authentication functionality
     // this.createUserStatus(width, height)
+    this.createDifficultySelector(width, height)
     this.createButtons(width, height)
+    this.createSettingsButton(width)
+    this.createAchievementsButton()
     // this.updateButtonsForAuthState()
     
     // Listen for authentication state changes (backend still functional)
@@ -130,7 +153,7 @@ export class StartScene extends Phaser.Scene {
     shadow.setDepth(-1)
     
     // Enhanced subtitle with better positioning
-    const subtitle = this.add.text(width / 2, height * 0.34, 'Tap to fly • Collect rings • Avoid clouds', {
+    const subtitle = this.add.text(width / 2, height * 0.34, t('menu.subtitle'), {
       fontFamily: typography.primary,
       fontSize: '14px',
       color: colors.accent,
@@ -224,6 +247,52 @@ export class StartScene extends Phaser.Scene {
   }
   */
   
+  /**
+   * Create the difficulty picker shown above START GAME
+   * The choice is stored so it survives the reload into the game
+   */
+  private createDifficultySelector(width: number, height: number): void {
+    const profiles = DifficultyProfiles.getAll()
+    const selectedId = DifficultyProfiles.getSelected().id
+    let index = Math.max(0, profiles.findIndex(profile => profile.id === selectedId))
+    
+    const y = height * 0.47
+    const textStyle = {
+      fontFamily: typography.primary,
+      fontSize: '14px',
+      color: colors.white,
+      stroke: '#000000',
+      strokeThickness: 2
+    }
+    
+    const label = this.add.text(width / 2, y - 22, t('menu.difficulty'), { ...textStyle, fontSize: '10px' })
+    label.setOrigin(0.5)
+    
+    const valueText = this.add.text(width / 2, y, profiles[index].name, { ...textStyle, color: colors.accent })
+    valueText.setOrigin(0.5)
+    
+    const select = (step: number) => {
+      AudioManager.getInstance().playSfx('click')
+      index = (index + step + profiles.length) % profiles.length
+      valueText.setText(profiles[index].name)
+      DifficultyProfiles.setSelected(profiles[index].id)
+    }
+    
+    // Arrows either side of the current profile
+    const arrows: Array<[string, number, number]> = [['<', -110, -1], ['>', 110, 1]]
+    arrows.forEach(([symbol, offset, step]) => {
+      const arrow = this.add.text(width / 2 + offset, y, symbol, textStyle)
+      arrow.setOrigin(0.5)
+      arrow.setInteractive({ useHandCursor: true })
+      arrow.on('pointerdown', () => select(step))
+      arrow.on('pointerover', () => arrow.setScale(1.3))
+      arrow.on('pointerout', () => arrow.setScale(1.0))
+    })
+    
+    valueText.setInteractive({ useHandCursor: true })
+    valueText.on('pointerdown', () => select(1))
+  }
+  
   /**
    * Create navigation buttons with authentication-aware layout
    * TEMPORARY: Only START GAME button is shown, authentication buttons are disabled
@@ -233,17 +302,27 @@ export class StartScene extends Phaser.Scene {
     this.createButton(
       width / 2,
       height * 0.58,
-      'START GAME',
+      t('menu.start'),
       colors.primary,
       () => this.startGame(),
       { primary: true }
     )
     
-    // VIEW SCORES button - Now works without authentication
+    // DAILY CHALLENGE button - shared course, limited attempts per day
+    const attemptsLeft = DailyChallenge.getAttemptsRemaining()
     this.createButton(
       width / 2,
       height * 0.71,
-      'VIEW SCORES',
+      attemptsLeft > 0 ? `${t('menu.dailyRun')} ${attemptsLeft}/${DailyChallenge.MAX_ATTEMPTS}` : t('menu.dailyBoard'),
+      colors.accent,
+      () => this.startChallenge()
+    )
+    
+    // VIEW SCORES button - Now works without authentication
+    this.createButton(
+      width / 2,
+      height * 0.84,
+      t('menu.scores'),
       '#666666',
       () => this.showScores()
     )
@@ -271,6 +350,35 @@ export class StartScene extends Phaser.Scene {
     */
   }
   
+  /**
+   * Small SETTINGS button in the top-right corner
+   */
+  private createSettingsButton(width: number): void {
+    new Button(this, {
+      x: width - 100,
+      y: 40,
+      width: 160,
+      height: 40,
+      text: t('menu.settings'),
+      style: 'secondary',
+      fontSize: 12,
+      onClick: () => this.scene.start('SettingsScene')
+    })
+  }
+  
+  private createAchievementsButton(): void {
+    new Button(this, {
+      x: 100,
+      y: 40,
+      width: 160,
+      height: 40,
+      text: t('menu.achievements'),
+      style: 'secondary',
+      fontSize: 12,
+      onClick: () => this.scene.start('AchievementsScene')
+    })
+  }
+  
   /**
    * Update button visibility and text based on authentication state
    * TEMPORARY: This method is temporarily disabled for frontend
@@ -361,6 +469,30 @@ export class StartScene extends Phaser.Scene {
     window.location.reload()
   }
   
+  /**
+   * Start today's daily challenge, or show its board when out of attempts
+   */
+  private startChallenge(): void {
+    if (!DailyChallenge.canAttempt()) {
+      this.scene.start('ScoresScene', { board: 'challenge' })
+      return
+    }
+    
+    console.log('Starting daily challenge...')
+    
+    // Create guest user if not authenticated
+    if (!this.authManager.isAuthenticated()) {
+      this.authManager.createGuestUser().then(() => {
+        console.log('Created guest user for this session')
+      })
+    }
+    
+    // Same reload path as startGame, remembering the challenge mode
+    localStorage.setItem('startGameDirectly', 'true')
+    localStorage.setItem('startGameMode', 'challenge')
+    window.location.reload()
+  }
+  
   /**
    * Handle authentication action based on current state
    * TEMPORARY: This method is temporarily disabled for frontend
@@ -470,6 +602,7 @@ export class StartScene extends Phaser.Scene {
     // Make interactive with enhanced feedback
     container.setSize(buttonWidth, buttonHeight)
     container.setInteractive()
+    container.on('pointerdown', () => AudioManager.getInstance().playSfx('click'))
     container.on('pointerdown', onClick)
     
     // Enhanced hover effects
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AchievementManager, type AchievementDefinition, type AchievementMetric } from './Achievements'
+import { AuthManager } from './AuthManager'
+import { RingType } from './CourseItems'
+import { GameEventBus, type RunStats } from './GameEvents'
+import type { RunReplay } from './ReplayRecorder'
+
+/**
+ * The parts of Web Storage PersistedData uses, kept in a Map
+ */
+function createStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) }
+  } as Storage
+}
+
+function makeStats(duration: number): RunStats {
+  return {
+    score: 100,
+    distance: 80,
+    maxCombo: 1,
+    flaps: 1,
+    rings: { [RingType.BRONZE]: 0, [RingType.SILVER]: 0, [RingType.GOLD]: 0 },
+    cause: 'ground',
+    duration,
+    maxAltitude: 60,
+    gameMode: 'normal',
+    seed: 3
+  }
+}
+
+const REPLAY: RunReplay = { version: 2, seed: 3, gameMode: 'normal', tickRate: 120, flaps: [], duration: 0, recordedAt: 0 }
+
+describe('AchievementManager', () => {
+  let events: GameEventBus
+  let achievements: AchievementManager
+  let unlocked: string[]
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage())
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    // Signed out: progress stays local
+    vi.spyOn(AuthManager, 'getInstance').mockReturnValue({
+      onAuthStateChanged: () => {},
+      getCurrentUser: () => null
+    } as unknown as AuthManager)
+
+    // A fresh manager on fresh storage for every test
+    Reflect.set(AchievementManager, 'instance', undefined)
+    achievements = AchievementManager.getInstance()
+    unlocked = []
+    achievements.onUnlock((achievement: AchievementDefinition) => unlocked.push(achievement.id))
+
+    events = new GameEventBus()
+    achievements.listenTo(events)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  function getMetric(metric: AchievementMetric): number {
+    return achievements.getAll().find(status => status.definition.metric === metric)?.value ?? 0
+  }
+
+  it('times glides between flaps', () => {
+    events.emit('launch', { seed: 3, gameMode: 'normal' })
+    events.emit('flap', { flightTime: 1000 })
+    events.emit('flap', { flightTime: 4500 })
+
+    expect(getMetric('glideTime')).toBe(3.5)
+    expect(unlocked).toEqual(['glide-3'])
+  })
+
+  it('counts the final glide from the last flap to the crash', () => {
+    events.emit('launch', { seed: 3, gameMode: 'normal' })
+    events.emit('flap', { flightTime: 1000 })
+    events.emit('runEnded', { stats: makeStats(10000), replay: REPLAY })
+
+    expect(getMetric('glideTime')).toBe(9)
+    expect(unlocked).toEqual(['glide-3', 'glide-8'])
+  })
+
+  it('counts a run without flaps as one glide from the launch', () => {
+    events.emit('launch', { seed: 3, gameMode: 'normal' })
+    events.emit('runEnded', { stats: makeStats(3200), replay: REPLAY })
+
+    expect(getMetric('glideTime')).toBe(3.2)
+    expect(unlocked).toContain('glide-3')
+  })
+
+  it('keeps progress across managers', () => {
+    events.emit('launch', { seed: 3, gameMode: 'normal' })
+    events.emit('runEnded', { stats: makeStats(4000), replay: REPLAY })
+
+    Reflect.set(AchievementManager, 'instance', undefined)
+    achievements = AchievementManager.getInstance()
+
+    expect(getMetric('glideTime')).toBe(4)
+    expect(getMetric('runsInDay')).toBe(1)
+  })
+})
@@ -0,0 +1,387 @@
+/**
+ * Achievements - Goals to chase across runs
+ *
+ * Achievements are data: each one watches a single metric and unlocks once
+ * that metric reaches its goal. Metrics are either lifetime totals or the
+ * best value reached in one run (or one day). Gameplay events come from
+ * the run's GameEventBus; progress is kept in localStorage and, for signed-in users,
+ * mirrored to `users/{userId}/stats/achievements`.
+ */
+
+import { getFirestore, doc, getDoc, setDoc } from 'firebase/firestore'
+import type { Firestore } from 'firebase/firestore'
+import { RingType } from './CourseItems'
+import { AuthManager } from './AuthManager'
+import type { User } from './AuthManager'
+import type { GameEventBus } from './GameEvents'
+import type { StringKey } from './Localization'
+import { PersistedData } from './PersistedData'
+import { ACHIEVEMENTS_SCHEMA } from './PersistedSchemas'
+import { RunHistory } from './RunHistory'
+
+export type AchievementMetric =
+  | 'bronzeRings' | 'silverRings' | 'goldRings' // Lifetime totals
+  | 'nearMisses' // Lifetime total
+  | 'runDistance' | 'runNearMisses' | 'glideTime' // Best single run
+  | 'runsInDay' // Best single day
+
+export interface AchievementDefinition {
+  id: string
+  name: StringKey
+  description: StringKey
+  metric: AchievementMetric
+  goal: number
+}
+
+/**
+ * Gameplay events the achievements listen to
+ */
+export type AchievementEvent =
+  | { type: 'runStarted' }
+  | { type: 'ringCollected', ringType: RingType }
+  | { type: 'nearMiss' }
+  | { type: 'glide', seconds: number } // Time between two flaps, or from the last flap to the crash
+  | { type: 'distance', metres: number }
+  | { type: 'runEnded' }
+
+export interface AchievementProgress {
+  version: number
+  updatedAt: number
+  metrics: Partial<Record<AchievementMetric, number>>
+  unlocked: Record<string, number> // Achievement id -> unlock timestamp
+  day: { key: string, runs: number } // Runs finished on the current day
+}
+
+/**
+ * An achievement with the player's progress, for the gallery
+ */
+export interface AchievementStatus {
+  definition: AchievementDefinition
+  value: number
+  unlockedAt?: number
+}
+
+/**
+ * How each metric accumulates - totals add up forever, bests keep the record
+ */
+const METRIC_KIND: Record<AchievementMetric, 'total' | 'best'> = {
+  bronzeRings: 'total',
+  silverRings: 'total',
+  goldRings: 'total',
+  nearMisses: 'total',
+  runDistance: 'best',
+  runNearMisses: 'best',
+  glideTime: 'best',
+  runsInDay: 'best'
+}
+
+const RING_METRICS: Record<RingType, AchievementMetric> = {
+  [RingType.BRONZE]: 'bronzeRings',
+  [RingType.SILVER]: 'silverRings',
+  [RingType.GOLD]: 'goldRings'
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'bronze-50', name: 'achievement.bronze-50.name', description: 'achievement.bronze-50.description', metric: 'bronzeRings', goal: 50 },
+  { id: 'silver-25', name: 'achievement.silver-25.name', description: 'achievement.silver-25.description', metric: 'silverRings', goal: 25 },
+  { id: 'gold-1', name: 'achievement.gold-1.name', description: 'achievement.gold-1.description', metric: 'goldRings', goal: 1 },
+  { id: 'gold-20', name: 'achievement.gold-20.name', description: 'achievement.gold-20.description', metric: 'goldRings', goal: 20 },
+  { id: 'distance-100', name: 'achievement.distance-100.name', description: 'achievement.distance-100.description', metric: 'runDistance', goal: 100 },
+  { id: 'distance-500', name: 'achievement.distance-500.name', description: 'achievement.distance-500.description', metric: 'runDistance', goal: 500 },
+  { id: 'distance-1000', name: 'achievement.distance-1000.name', description: 'achievement.distance-1000.description', metric: 'runDistance', goal: 1000 },
+  { id: 'distance-2500', name: 'achievement.distance-2500.name', description: 'achievement.distance-2500.description', metric: 'runDistance', goal: 2500 },
+  { id: 'near-miss-1', name: 'achievement.near-miss-1.name', description: 'achievement.near-miss-1.description', metric: 'nearMisses', goal: 1 },
+  { id: 'near-miss-run-5', name: 'achievement.near-miss-run-5.name', description: 'achievement.near-miss-run-5.description', metric: 'runNearMisses', goal: 5 },
+  { id: 'near-miss-50', name: 'achievement.near-miss-50.name', description: 'achievement.near-miss-50.description', metric: 'nearMisses', goal: 50 },
+  { id: 'glide-3', name: 'achievement.glide-3.name', description: 'achievement.glide-3.description', metric: 'glideTime', goal: 3 },
+  { id: 'glide-8', name: 'achievement.glide-8.name', description: 'achievement.glide-8.description', metric: 'glideTime', goal: 8 },
+  { id: 'runs-day-3', name: 'achievement.runs-day-3.name', description: 'achievement.runs-day-3.description', metric: 'runsInDay', goal: 3 },
+  { id: 'runs-day-10', name: 'achievement.runs-day-10.name', description: 'achievement.runs-day-10.description', metric: 'runsInDay', goal: 10 }
+]
+
+export class AchievementManager {
+  private static instance: AchievementManager
+  private static readonly VERSION = 1
+
+  private readonly data = new PersistedData(localStorage, ACHIEVEMENTS_SCHEMA)
+  private progress: AchievementProgress
+  private runNearMisses: number = 0
+  private unlockListeners: ((achievement: AchievementDefinition) => void)[] = []
+
+  private constructor() {
+    this.progress = this.loadFromStorage()
+
+    const authManager = AuthManager.getInstance()
+    authManager.onAuthStateChanged(user => this.handleAuthStateChange(user))
+    this.handleAuthStateChange(authManager.getCurrentUser())
+  }
+
+  public static getInstance(): AchievementManager {
+    if (!AchievementManager.instance) {
+      AchievementManager.instance = new AchievementManager()
+    }
+    return AchievementManager.instance
+  }
+
+  /**
+   * Track a run's gameplay events
+   */
+  public listenTo(events: GameEventBus): void {
+    let lastFlapTime = 0 // Flight time of the last flap (or the launch)
+
+    events.on('launch', () => {
+      lastFlapTime = 0
+      this.record({ type: 'runStarted' })
+    })
+    events.on('flap', ({ flightTime }) => {
+      this.record({ type: 'glide', seconds: (flightTime - lastFlapTime) / 1000 })
+      lastFlapTime = flightTime
+    })
+    events.on('ringCollected', ({ type }) => this.record({ type: 'ringCollected', ringType: type }))
+    events.on('nearMiss', () => this.record({ type: 'nearMiss' }))
+    events.on('distanceMilestone', ({ metres }) => this.record({ type: 'distance', metres }))
+    events.on('runEnded', ({ stats }) => {
+      // The final glide ends with the crash rather than a flap
+      this.record({ type: 'glide', seconds: (stats.duration - lastFlapTime) / 1000 })
+      this.record({ type: 'runEnded' })
+    })
+  }
+
+  /**
+   * Feed a gameplay event into the metrics
+   */
+  public record(event: AchievementEvent): void {
+    switch (event.type) {
+      case 'runStarted':
+        this.runNearMisses = 0
+        break
+
+      case 'ringCollected':
+        this.addToMetric(RING_METRICS[event.ringType], 1)
+        break
+
+      case 'nearMiss':
+        this.runNearMisses++
+        this.addToMetric('nearMisses', 1)
+        this.addToMetric('runNearMisses', this.runNearMisses)
+        break
+
+      case 'glide':
+        this.addToMetric('glideTime', event.seconds)
+        break
+
+      case 'distance':
+        this.addToMetric('runDistance', event.metres)
+        break
+
+      case 'runEnded': {
+        // The player's local day, the same days RunHistory groups runs by
+        const dayKey = RunHistory.getDayKey()
+        const runs = this.progress.day.key === dayKey ? this.progress.day.runs + 1 : 1
+        this.progress.day = { key: dayKey, runs }
+        this.addToMetric('runsInDay', runs)
+
+        // Metrics change every frame in flight, so they are saved per run
+        this.save()
+        break
+      }
+    }
+  }
+
+  /**
+   * Every achievement with the player's progress, in definition order
+   */
+  public getAll(): AchievementStatus[] {
+    return ACHIEVEMENTS.map(definition => ({
+      definition,
+      value: this.progress.metrics[definition.metric] || 0,
+      unlockedAt: this.progress.unlocked[definition.id]
+    }))
+  }
+
+  public getUnlockedCount(): number {
+    return ACHIEVEMENTS.filter(definition => this.progress.unlocked[definition.id]).length
+  }
+
+  /**
+   * Add achievement unlock listener
+   */
+  public onUnlock(callback: (achievement: AchievementDefinition) => void): void {
+    this.unlockListeners.push(callback)
+  }
+
+  /**
+   * Remove achievement unlock listener
+   */
+  public removeUnlockListener(callback: (achievement: AchievementDefinition) => void): void {
+    const index = this.unlockListeners.indexOf(callback)
+    if (index > -1) {
+      this.unlockListeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Totals add the amount, bests keep the larger value
+   */
+  private addToMetric(metric: AchievementMetric, amount: number): void {
+    const current = this.progress.metrics[metric] || 0
+    const next = METRIC_KIND[metric] === 'total' ? current + amount : Math.max(current, amount)
+    if (next === current) return
+
+    this.progress.metrics[metric] = next
+    this.checkUnlocks()
+  }
+
+  /**
+   * Unlock every achievement whose goal has been reached
+   */
+  private checkUnlocks(): void {
+    const newlyUnlocked = ACHIEVEMENTS.filter(definition =>
+      !this.progress.unlocked[definition.id] &&
+      (this.progress.metrics[definition.metric] || 0) >= definition.goal
+    )
+    if (newlyUnlocked.length === 0) return
+
+    const now = Date.now()
+    newlyUnlocked.forEach(definition => {
+      this.progress.unlocked[definition.id] = now
+      console.log(`AchievementManager: Unlocked ${definition.id}`)
+    })
+    this.save()
+
+    newlyUnlocked.forEach(definition => {
+      this.unlockListeners.forEach(callback => {
+        try {
+          callback(definition)
+        } catch (error) {
+          console.error('Achievement listener error:', error)
+        }
+      })
+    })
+  }
+
+  /**
+   * Validate stored progress, dropping unknown metrics and bad values
+   */
+  private static sanitize(data: any): AchievementProgress {
+    const source = data && typeof data === 'object' ? data : {}
+    const metrics: Partial<Record<AchievementMetric, number>> = {}
+    const unlocked: Record<string, number> = {}
+
+    Object.keys(METRIC_KIND).forEach(key => {
+      const value = source.metrics?.[key]
+      if (typeof value === 'number' && isFinite(value) && value > 0) {
+        metrics[key as AchievementMetric] = value
+      }
+    })
+
+    Object.entries(source.unlocked || {}).forEach(([id, timestamp]) => {
+      if (typeof timestamp === 'number') {
+        unlocked[id] = timestamp
+      }
+    })
+
+    const day = source.day
+    return {
+      version: AchievementManager.VERSION,
+      updatedAt: typeof source.updatedAt === 'number' ? source.updatedAt : 0,
+      metrics,
+      unlocked,
+      day: typeof day?.key === 'string' && typeof day?.runs === 'number' ? { key: day.key, runs: day.runs } : { key: '', runs: 0 }
+    }
+  }
+
+  /**
+   * Combine two copies of the progress - nothing earned on either side is lost
+   */
+  private static merge(a: AchievementProgress, b: AchievementProgress): AchievementProgress {
+    const metrics = { ...a.metrics }
+    Object.entries(b.metrics).forEach(([key, value]) => {
+      const metric = key as AchievementMetric
+      metrics[metric] = Math.max(metrics[metric] || 0, value || 0)
+    })
+
+    const unlocked = { ...a.unlocked }
+    Object.entries(b.unlocked).forEach(([id, timestamp]) => {
+      unlocked[id] = unlocked[id] ? Math.min(unlocked[id], timestamp) : timestamp
+    })
+
+    const day = a.day.key === b.day.key
+      ? { key: a.day.key, runs: Math.max(a.day.runs, b.day.runs) }
+      : a.day.key > b.day.key ? a.day : b.day
+
+    return {
+      version: AchievementManager.VERSION,
+      updatedAt: Math.max(a.updatedAt, b.updatedAt),
+      metrics,
+      unlocked,
+      day
+    }
+  }
+
+  private loadFromStorage(): AchievementProgress {
+    try {
+      const stored = this.data.load()
+      if (stored) {
+        return AchievementManager.sanitize(stored)
+      }
+    } catch (error) {
+      console.warn('AchievementManager: Failed to load progress:', error)
+    }
+
+    return AchievementManager.sanitize({})
+  }
+
+  /**
+   * Persist locally, then mirror to Firestore when signed in
+   */
+  private save(): void {
+    this.progress.updatedAt = Date.now()
+
+    try {
+      this.data.save(this.progress)
+    } catch (error) {
+      console.warn('AchievementManager: Failed to save progress:', error)
+    }
+
+    this.saveToCloud(AuthManager.getInstance().getCurrentUser()).catch(error => {
+      console.warn('AchievementManager: Failed to save progress to Firestore:', error)
+    })
+  }
+
+  /**
+   * Firestore for the signed-in user, null for guests or local-only mode
+   */
+  private getFirestore(user: User | null): Firestore | null {
+    if (!user || user.isGuest) return null
+
+    const app = AuthManager.getInstance().getFirebaseApp()
+    return app ? getFirestore(app) : null
+  }
+
+  /**
+   * On sign-in, merge the cloud copy into the local progress and store the result on both sides
+   */
+  private async handleAuthStateChange(user: User | null): Promise<void> {
+    const firestore = this.getFirestore(user)
+    if (!firestore || !user) return
+
+    try {
+      const snapshot = await getDoc(doc(firestore, 'users', user.id, 'stats', 'achievements'))
+      if (snapshot.exists()) {
+        this.progress = AchievementManager.merge(this.progress, AchievementManager.sanitize(snapshot.data()))
+        this.checkUnlocks()
+      }
+      this.save()
+    } catch (error) {
+      console.warn('AchievementManager: Failed to load progress from Firestore:', error)
+    }
+  }
+
+  private async saveToCloud(user: User | null): Promise<void> {
+    const firestore = this.getFirestore(user)
+    if (!firestore || !user) return
+
+    await setDoc(doc(firestore, 'users', user.id, 'stats', 'achievements'), this.progress)
+  }
+}
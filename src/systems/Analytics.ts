@@ -0,0 +1,72 @@
+/**
+ * Analytics - Play statistics for the current session
+ *
+ * Tallies gameplay events across every run since the game was opened and
+ * logs a summary as each run ends. Nothing is stored or sent anywhere.
+ */
+
+import type { GameEventBus } from './GameEvents'
+
+export interface SessionAnalytics {
+  runs: number
+  flaps: number
+  rings: number
+  nearMisses: number
+  cloudHits: number
+  groundCrashes: number
+  milestones: number
+  bestDistance: number
+  flightTime: number // Total ms in the air
+}
+
+export class Analytics {
+  private static instance: Analytics
+
+  private session: SessionAnalytics = {
+    runs: 0,
+    flaps: 0,
+    rings: 0,
+    nearMisses: 0,
+    cloudHits: 0,
+    groundCrashes: 0,
+    milestones: 0,
+    bestDistance: 0,
+    flightTime: 0
+  }
+
+  private constructor() {}
+
+  public static getInstance(): Analytics {
+    if (!Analytics.instance) {
+      Analytics.instance = new Analytics()
+    }
+    return Analytics.instance
+  }
+
+  /**
+   * Count a run's gameplay events
+   */
+  public listenTo(events: GameEventBus): void {
+    events.on('flap', () => this.session.flaps++)
+    events.on('ringCollected', () => this.session.rings++)
+    events.on('nearMiss', () => this.session.nearMisses++)
+    events.on('cloudHit', () => this.session.cloudHits++)
+    events.on('groundCrash', () => this.session.groundCrashes++)
+    events.on('distanceMilestone', () => this.session.milestones++)
+
+    events.on('runEnded', ({ stats }) => {
+      this.session.runs++
+      this.session.bestDistance = Math.max(this.session.bestDistance, stats.distance)
+      this.session.flightTime += stats.duration
+
+      console.log(
+        `Analytics: run ${this.session.runs} (${stats.gameMode}) - ${stats.score} pts, ${stats.distance}m, ` +
+        `${stats.flaps} flaps, ${(stats.duration / 1000).toFixed(1)}s, crashed into ${stats.cause}`
+      )
+    })
+  }
+
+  public getSession(): SessionAnalytics {
+    return { ...this.session }
+  }
+}
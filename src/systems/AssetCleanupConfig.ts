@@ -5,6 +5,8 @@
  * to test which fixes actually solve the asset glitching issue.
  */
 
+import type { PoolStats } from './ObjectPool'
+
 export interface AssetCleanupConfig {
   // Debugging and monitoring
   enableDebugLogging: boolean
@@ -38,7 +40,8 @@ export interface AssetCleanupConfig {
 }
 
 /**
- * Default configuration - start with baseline (all fixes disabled)
+ * Default configuration - off-screen objects are recycled into their pools,
+ * the scene cleanup and restart stages stay disabled
  */
 export const DEFAULT_ASSET_CLEANUP_CONFIG: AssetCleanupConfig = {
   // Debugging - always enabled for testing
@@ -47,16 +50,16 @@ export const DEFAULT_ASSET_CLEANUP_CONFIG: AssetCleanupConfig = {
   logInterval: 5000, // Log every 5 seconds
   
   // Stage 1: Ground decoration cleanup - MOST CRITICAL
-  enableGroundDecorationCleanup: false, // Start disabled for baseline
+  enableGroundDecorationCleanup: true, // Releases decorations back to their pools
   groundCleanupDistance: 2000, // 2 screen widths behind camera
   
   // Stage 2: Ring/cloud cleanup
-  enableRingCleanup: false,
-  enableCloudCleanup: false,
+  enableRingCleanup: true,
+  enableCloudCleanup: true,
   gameObjectCleanupDistance: 1500,
   
   // Stage 3: Background cleanup
-  enableBackgroundCleanup: false,
+  enableBackgroundCleanup: true,
   backgroundCleanupDistance: 3000,
   
   // Stage 4: Scene cleanup
@@ -79,6 +82,7 @@ export class AssetCounter {
   private static instance: AssetCounter
   private counts: Map<string, number> = new Map()
   private creationLog: Array<{type: string, timestamp: number, x?: number}> = []
+  private pools: Map<string, PoolStats> = new Map()
   
   public static getInstance(): AssetCounter {
     if (!AssetCounter.instance) {
@@ -116,6 +120,17 @@ export class AssetCounter {
     return new Map(this.counts)
   }
   
+  /**
+   * Record the current size of an object pool
+   */
+  public reportPool(name: string, stats: PoolStats): void {
+    this.pools.set(name, { ...stats })
+  }
+  
+  public getPoolStats(): Map<string, PoolStats> {
+    return new Map(this.pools)
+  }
+  
   public getRecentCreations(seconds: number = 10): Array<{type: string, timestamp: number, x?: number}> {
     const cutoff = Date.now() - (seconds * 1000)
     return this.creationLog.filter(entry => entry.timestamp > cutoff)
@@ -124,21 +139,27 @@ export class AssetCounter {
   public reset(): void {
     this.counts.clear()
     this.creationLog = []
+    this.pools.clear()
   }
   
   public logCurrentState(): void {
     console.log('🔧 Asset Counts:', Object.fromEntries(this.counts))
     
+    if (this.pools.size > 0) {
+      console.log('🔧 Object Pools:', Object.fromEntries(this.pools))
+    }
+    
     // Check for concerning numbers
     const trees = this.getCount('tree')
     const bushes = this.getCount('bush')
     const rocks = this.getCount('rock')
     const grass = this.getCount('grass')
+    const biomeSprites = this.getCount('cactus') + this.getCount('building') + this.getCount('lamppost')
     const rings = this.getCount('ring')
     const clouds = this.getCount('cloud')
     const backgrounds = this.getCount('background')
     
-    const totalDecorations = trees + bushes + rocks + grass
+    const totalDecorations = trees + bushes + rocks + grass + biomeSprites
     
     if (totalDecorations > DEFAULT_ASSET_CLEANUP_CONFIG.maxGroundDecorations) {
       console.warn(`⚠️  High ground decoration count: ${totalDecorations}`)
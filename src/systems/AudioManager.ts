@@ -0,0 +1,282 @@
+import Phaser from 'phaser'
+import { RingType } from './CourseItems'
+import { renderNotes, sequence, type SynthNote } from './ChiptuneSynth'
+import { SettingsManager, type PlayerSettings } from './SettingsManager'
+import type { GameEventBus } from './GameEvents'
+
+/**
+ * AudioManager - Sound effects, music and the volume mixer
+ *
+ * Handles:
+ * - One-shot SFX (flap, ring collect pitched per ring type, crash, personal best, UI click)
+ * - Looping music per scene, kept playing across scene switches when unchanged
+ * - Separate music/SFX volume and mute, persisted through SettingsManager
+ * - Suspending audio while the tab is hidden
+ * - Procedural chiptune fallbacks for any sound without a loaded file
+ */
+
+export type SoundEffect = 'flap' | 'ring' | 'crash' | 'personalBest' | 'click'
+
+export type MusicTrack = 'menu' | 'game'
+
+export type AudioSettings = Pick<PlayerSettings, 'musicVolume' | 'sfxVolume' | 'muted'>
+
+export const SFX_KEYS: Record<SoundEffect, string> = {
+  flap: 'sfxFlap',
+  ring: 'sfxRing',
+  crash: 'sfxCrash',
+  personalBest: 'sfxPersonalBest',
+  click: 'sfxClick'
+}
+
+export const MUSIC_KEYS: Record<MusicTrack, string> = {
+  menu: 'musicMenu',
+  game: 'musicGame'
+}
+
+/**
+ * Playback rate of the ring chime per ring type (a rising major chord)
+ */
+const RING_PITCH: Record<RingType, number> = {
+  [RingType.BRONZE]: 1,
+  [RingType.SILVER]: Math.pow(2, 4 / 12),
+  [RingType.GOLD]: Math.pow(2, 7 / 12)
+}
+
+export class AudioManager {
+  private static instance: AudioManager
+  private static readonly MENU_STEP = 0.25 // Seconds per music step
+  private static readonly GAME_STEP = 0.15
+
+  private game?: Phaser.Game
+  private music?: Phaser.Sound.WebAudioSound | Phaser.Sound.HTML5AudioSound | Phaser.Sound.NoAudioSound
+  private musicTrack?: MusicTrack
+
+  public static getInstance(): AudioManager {
+    if (!AudioManager.instance) {
+      AudioManager.instance = new AudioManager()
+    }
+    return AudioManager.instance
+  }
+
+  /**
+   * Attach to the game's sound manager (once, from BootScene)
+   */
+  public init(game: Phaser.Game): void {
+    if (this.game) return
+
+    this.game = game
+    this.applySettings()
+    SettingsManager.getInstance().onChange(() => this.applySettings())
+
+    game.events.on(Phaser.Core.Events.HIDDEN, () => this.suspend())
+    game.events.on(Phaser.Core.Events.VISIBLE, () => this.resume())
+  }
+
+  /**
+   * Generate chiptune sounds for every key that has no loaded audio file
+   */
+  public createFallbackSounds(): void {
+    if (!this.game) return
+
+    const soundManager = this.game.sound
+    if (!(soundManager instanceof Phaser.Sound.WebAudioSoundManager)) {
+      console.warn('AudioManager: Web Audio unavailable, skipping fallback sounds')
+      return
+    }
+
+    // Music loops span whole bars, including trailing rests
+    const recipes: Record<string, { notes: () => SynthNote[], length?: number }> = {
+      [SFX_KEYS.flap]: { notes: AudioManager.flapNotes },
+      [SFX_KEYS.ring]: { notes: AudioManager.ringNotes },
+      [SFX_KEYS.crash]: { notes: AudioManager.crashNotes },
+      [SFX_KEYS.personalBest]: { notes: AudioManager.personalBestNotes },
+      [SFX_KEYS.click]: { notes: AudioManager.clickNotes },
+      [MUSIC_KEYS.menu]: { notes: AudioManager.menuMusicNotes, length: 16 * AudioManager.MENU_STEP },
+      [MUSIC_KEYS.game]: { notes: AudioManager.gameMusicNotes, length: 32 * AudioManager.GAME_STEP }
+    }
+
+    const cache = this.game.cache.audio
+    Object.entries(recipes).forEach(([key, recipe]) => {
+      if (!cache.exists(key)) {
+        cache.add(key, renderNotes(soundManager.context, recipe.notes(), recipe.length))
+      }
+    })
+  }
+
+  /**
+   * Play a one-shot sound effect
+   */
+  public playSfx(effect: SoundEffect, rate: number = 1): void {
+    const key = SFX_KEYS[effect]
+    if (!this.game || !this.game.cache.audio.exists(key)) return
+
+    this.game.sound.play(key, { volume: this.getSettings().sfxVolume, rate })
+  }
+
+  /**
+   * Ring chime, pitched higher for rarer rings
+   */
+  public playRingCollect(ringType: RingType): void {
+    this.playSfx('ring', RING_PITCH[ringType])
+  }
+
+  /**
+   * Play gameplay sounds for a run's events
+   */
+  public listenTo(events: GameEventBus): void {
+    events.on('flap', () => this.playSfx('flap'))
+    events.on('ringCollected', ({ type }) => this.playRingCollect(type))
+    events.on('runEnded', () => this.playSfx('crash'))
+  }
+
+  /**
+   * Loop a scene's music - keeps playing if the track is already on
+   */
+  public playMusic(track: MusicTrack): void {
+    if (!this.game) return
+    if (this.musicTrack === track && this.music?.isPlaying) return
+
+    this.stopMusic()
+
+    const key = MUSIC_KEYS[track]
+    if (!this.game.cache.audio.exists(key)) return
+
+    this.music = this.game.sound.add(key, { loop: true, volume: this.getSettings().musicVolume })
+    this.music.play()
+    this.musicTrack = track
+  }
+
+  public stopMusic(): void {
+    if (this.music) {
+      this.music.stop()
+      this.music.destroy()
+      this.music = undefined
+    }
+    this.musicTrack = undefined
+  }
+
+  /**
+   * Mixer settings
+   */
+  public getSettings(): AudioSettings {
+    const { musicVolume, sfxVolume, muted } = SettingsManager.getInstance().get()
+    return { musicVolume, sfxVolume, muted }
+  }
+
+  public setMusicVolume(volume: number): void {
+    SettingsManager.getInstance().update({ musicVolume: Phaser.Math.Clamp(volume, 0, 1) })
+  }
+
+  public setSfxVolume(volume: number): void {
+    SettingsManager.getInstance().update({ sfxVolume: Phaser.Math.Clamp(volume, 0, 1) })
+  }
+
+  public setMuted(muted: boolean): void {
+    SettingsManager.getInstance().update({ muted })
+  }
+
+  public toggleMute(): boolean {
+    this.setMuted(!this.isMuted())
+    return this.isMuted()
+  }
+
+  public isMuted(): boolean {
+    return this.getSettings().muted
+  }
+
+  /**
+   * Push the mixer settings to the sound manager and the playing music
+   */
+  private applySettings(): void {
+    const settings = this.getSettings()
+    if (this.game) {
+      this.game.sound.mute = settings.muted
+    }
+    this.music?.setVolume(settings.musicVolume)
+  }
+
+  /**
+   * Stop all audio output while the tab is hidden
+   */
+  private suspend(): void {
+    const soundManager = this.game?.sound
+    if (soundManager instanceof Phaser.Sound.WebAudioSoundManager) {
+      soundManager.context.suspend().catch(error => {
+        console.warn('AudioManager: Failed to suspend audio:', error)
+      })
+    } else {
+      soundManager?.pauseAll()
+    }
+  }
+
+  private resume(): void {
+    const soundManager = this.game?.sound
+    if (soundManager instanceof Phaser.Sound.WebAudioSoundManager) {
+      // Still locked means no user gesture yet - the unlock will resume it
+      if (soundManager.locked) return
+      soundManager.context.resume().catch(error => {
+        console.warn('AudioManager: Failed to resume audio:', error)
+      })
+    } else {
+      soundManager?.resumeAll()
+    }
+  }
+
+  /**
+   * Chiptune recipes for the procedural fallbacks
+   */
+  private static flapNotes(): SynthNote[] {
+    return [{ start: 0, duration: 0.08, frequency: 380, endFrequency: 720, waveform: 'square', volume: 0.25 }]
+  }
+
+  private static ringNotes(): SynthNote[] {
+    return sequence([88, 95], 0.07, 'square', 0.25) // E6, B6
+  }
+
+  private static crashNotes(): SynthNote[] {
+    return [
+      { start: 0, duration: 0.45, frequency: 1, waveform: 'noise', volume: 0.4 },
+      { start: 0, duration: 0.35, frequency: 160, endFrequency: 50, waveform: 'square', volume: 0.3 }
+    ]
+  }
+
+  private static personalBestNotes(): SynthNote[] {
+    return [
+      ...sequence([72, 76, 79], 0.1, 'square', 0.25), // C5 E5 G5
+      { start: 0.3, duration: 0.4, frequency: 1046.5, waveform: 'square', volume: 0.25 } // C6
+    ]
+  }
+
+  private static clickNotes(): SynthNote[] {
+    return [{ start: 0, duration: 0.03, frequency: 880, waveform: 'square', volume: 0.2 }]
+  }
+
+  private static menuMusicNotes(): SynthNote[] {
+    const step = AudioManager.MENU_STEP
+    const lead = [72, 76, 79, 76, 74, 77, 81, 77, 72, 76, 79, 84, 83, 79, 74, null]
+    const bass = [48, null, 55, null, 50, null, 57, null, 48, null, 55, null, 55, null, 50, null]
+
+    return [
+      ...sequence(lead, step, 'triangle', 0.3),
+      ...sequence(bass, step, 'square', 0.1).map(note => ({ ...note, duration: step * 1.8, sustain: true }))
+    ]
+  }
+
+  private static gameMusicNotes(): SynthNote[] {
+    const step = AudioManager.GAME_STEP
+    const lead = [
+      76, null, 79, 81, 83, null, 81, 79, 76, null, 74, 76, 79, null, null, null,
+      76, null, 79, 81, 83, null, 86, 84, 83, null, 81, 79, 81, null, null, null
+    ]
+    const bass = [
+      52, 52, 64, 52, 55, 55, 67, 55, 50, 50, 62, 50, 55, 55, 67, 55,
+      52, 52, 64, 52, 55, 55, 67, 55, 57, 57, 69, 57, 50, 50, 62, 50
+    ]
+
+    return [
+      ...sequence(lead, step, 'square', 0.18),
+      ...sequence(bass, step, 'triangle', 0.35)
+    ]
+  }
+}
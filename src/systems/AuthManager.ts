@@ -21,7 +21,10 @@ import {
   updateProfile,
   connectAuthEmulator
 } from 'firebase/auth'
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore'
 import type { Auth, User as FirebaseUser } from 'firebase/auth'
+import { PersistedData } from './PersistedData'
+import { AUTH_SCHEMA } from './PersistedSchemas'
 
 // Firebase configuration
 const firebaseConfig: FirebaseOptions = {
@@ -66,6 +69,7 @@ export class AuthManager {
   private auth: Auth | null = null
   private isInitialized = false
   private initializationPromise: Promise<void> | null = null
+  private readonly storedAuth = new PersistedData(localStorage, AUTH_SCHEMA)
   
   private constructor() {
     // Initialize Firebase when first used
@@ -120,6 +124,14 @@ export class AuthManager {
         } catch (error) {
           console.warn('Firebase Auth emulator connection failed:', error)
         }
+        
+        // Firestore users share this app, so they all talk to the emulator too
+        try {
+          connectFirestoreEmulator(getFirestore(this.firebaseApp), 'localhost', 8080)
+          console.log('Connected to Firestore emulator')
+        } catch (error) {
+          console.warn('Firestore emulator connection failed:', error)
+        }
       }
 
       // Set up auth state listener
@@ -183,6 +195,13 @@ export class AuthManager {
   public isFirebaseAvailable(): boolean {
     return this.isInitialized && this.auth !== null
   }
+
+  /**
+   * Firebase app shared with the other cloud-backed systems (null in local-only mode)
+   */
+  public getFirebaseApp(): FirebaseApp | null {
+    return this.firebaseApp
+  }
   
   /**
    * Create guest user session (Firebase anonymous auth or local fallback)
@@ -451,9 +470,9 @@ export class AuthManager {
     try {
       if (this.currentUser && !this.isFirebaseAvailable()) {
         // Only save to localStorage if Firebase is not handling persistence
-        localStorage.setItem('pixelPaperPlane_auth', JSON.stringify(this.currentUser))
+        this.storedAuth.save(this.currentUser)
       } else if (!this.currentUser) {
-        localStorage.removeItem('pixelPaperPlane_auth')
+        this.storedAuth.remove()
       }
     } catch (error) {
       console.warn('Failed to save auth state:', error)
@@ -466,9 +485,8 @@ export class AuthManager {
   private loadAuthState(): void {
     try {
       if (!this.isFirebaseAvailable()) {
-        const stored = localStorage.getItem('pixelPaperPlane_auth')
-        if (stored) {
-          const userData = JSON.parse(stored)
+        const userData = this.storedAuth.load()
+        if (userData) {
           // Convert date strings back to Date objects
           if (userData.createdAt) userData.createdAt = new Date(userData.createdAt)
           if (userData.lastLoginAt) userData.lastLoginAt = new Date(userData.lastLoginAt)
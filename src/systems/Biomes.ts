@@ -0,0 +1,131 @@
+/**
+ * Biomes - Themed stretches of ground the course passes through
+ *
+ * The course cycles meadow, desert, snowy mountains and city, switching every
+ * BIOME_LENGTH metres. Each biome has its own ground texture and decoration
+ * table; decorations are scenery only, so biomes don't change gameplay.
+ */
+
+import type { StringKey } from './Localization'
+
+export type BiomeId = 'meadow' | 'desert' | 'snow' | 'city'
+
+/**
+ * A sprite decoration rolled once per 100px ground tile
+ */
+export interface DecorationSprite {
+  assetType: string // AssetCounter bucket
+  chance: number // Chance per ground tile (0-1)
+  offset: { min: number, max: number } // X offset within the tile (px)
+  variants: Array<{ textureKey: string, scale: number }> // Picked evenly; falls back to `${textureKey}-fallback`
+}
+
+export interface BiomeConfig {
+  id: BiomeId
+  name: StringKey // Localization key of the name shown on the transition banner
+  groundTexture: string // Generated by BootScene.createGroundTexture
+  sprites: DecorationSprite[]
+  rocks: { chance: number, color: number }
+  grass: { chance: number, color: number, count: { min: number, max: number } }
+}
+
+export const BIOME_CONFIGS: Record<BiomeId, BiomeConfig> = {
+  meadow: {
+    id: 'meadow',
+    name: 'biome.meadow',
+    groundTexture: 'ground',
+    sprites: [
+      {
+        assetType: 'tree',
+        chance: 0.3,
+        offset: { min: 50, max: 100 },
+        variants: [{ textureKey: 'tree1', scale: 0.12 }, { textureKey: 'tree2', scale: 0.14 }]
+      },
+      {
+        assetType: 'bush',
+        chance: 0.15,
+        offset: { min: 25, max: 100 },
+        variants: [{ textureKey: 'bush', scale: 0.08 }]
+      }
+    ],
+    rocks: { chance: 0.2, color: 0x6B6B6B },
+    grass: { chance: 0.4, color: 0x4A7C59, count: { min: 3, max: 6 } }
+  },
+  desert: {
+    id: 'desert',
+    name: 'biome.desert',
+    groundTexture: 'ground-desert',
+    sprites: [
+      {
+        assetType: 'cactus',
+        chance: 0.25,
+        offset: { min: 30, max: 90 },
+        variants: [{ textureKey: 'cactus', scale: 1 }]
+      },
+      {
+        assetType: 'bush',
+        chance: 0.1,
+        offset: { min: 10, max: 100 },
+        variants: [{ textureKey: 'deadBush', scale: 1 }]
+      }
+    ],
+    rocks: { chance: 0.3, color: 0xB08A5A },
+    grass: { chance: 0.1, color: 0xA38F4A, count: { min: 1, max: 3 } }
+  },
+  snow: {
+    id: 'snow',
+    name: 'biome.snow',
+    groundTexture: 'ground-snow',
+    sprites: [
+      {
+        assetType: 'tree',
+        chance: 0.35,
+        offset: { min: 40, max: 100 },
+        variants: [{ textureKey: 'pine', scale: 1 }]
+      }
+    ],
+    rocks: { chance: 0.25, color: 0x8A8F99 },
+    grass: { chance: 0.15, color: 0xF4F8FB, count: { min: 2, max: 4 } }
+  },
+  city: {
+    id: 'city',
+    name: 'biome.city',
+    groundTexture: 'ground-city',
+    sprites: [
+      {
+        assetType: 'building',
+        chance: 0.45,
+        offset: { min: 10, max: 60 },
+        variants: [{ textureKey: 'building1', scale: 1 }, { textureKey: 'building2', scale: 1 }]
+      },
+      {
+        assetType: 'lamppost',
+        chance: 0.2,
+        offset: { min: 70, max: 100 },
+        variants: [{ textureKey: 'lamppost', scale: 1 }]
+      }
+    ],
+    rocks: { chance: 0, color: 0x6B6B6B },
+    grass: { chance: 0.1, color: 0x4A7C59, count: { min: 2, max: 4 } }
+  }
+}
+
+export const BIOME_ORDER: BiomeId[] = ['meadow', 'desert', 'snow', 'city']
+
+export class Biomes {
+  public static readonly BIOME_LENGTH = 500 // Metres per biome (10px per metre)
+
+  /**
+   * How many biomes the course has passed through at a world x position
+   */
+  public static getIndexAt(x: number): number {
+    return Math.max(0, Math.floor(x / (Biomes.BIOME_LENGTH * 10)))
+  }
+
+  /**
+   * Biome at a world x position
+   */
+  public static getAt(x: number): BiomeConfig {
+    return BIOME_CONFIGS[BIOME_ORDER[Biomes.getIndexAt(x) % BIOME_ORDER.length]]
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * ChiptuneSynth - Renders simple 8-bit style sounds into AudioBuffers
+ *
+ * Used for procedural fallbacks when no audio files are shipped, the same
+ * way BootScene draws fallback textures. Notes are written sample by sample
+ * with square, triangle or noise waves and a linear decay envelope.
+ */
+
+export type Waveform = 'square' | 'triangle' | 'noise'
+
+export interface SynthNote {
+  start: number // Seconds from the start of the buffer
+  duration: number // Seconds
+  frequency: number // Hz
+  endFrequency?: number // Slide to this frequency over the note
+  waveform: Waveform
+  volume: number // 0-1
+  sustain?: boolean // Hold full volume instead of decaying
+}
+
+/**
+ * MIDI note number to frequency (69 = A4 = 440Hz)
+ */
+export function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12)
+}
+
+/**
+ * Build back-to-back notes from MIDI numbers (null is a rest)
+ */
+export function sequence(
+  notes: Array<number | null>,
+  step: number,
+  waveform: Waveform,
+  volume: number,
+  offset: number = 0
+): SynthNote[] {
+  const result: SynthNote[] = []
+
+  notes.forEach((note, i) => {
+    if (note === null) return
+    result.push({
+      start: offset + i * step,
+      duration: step * 0.9,
+      frequency: midiToFrequency(note),
+      waveform,
+      volume
+    })
+  })
+
+  return result
+}
+
+/**
+ * Render notes into a mono buffer (length defaults to the last note's end)
+ */
+export function renderNotes(context: BaseAudioContext, notes: SynthNote[], length?: number): AudioBuffer {
+  const sampleRate = context.sampleRate
+  const totalLength = length ?? Math.max(...notes.map(note => note.start + note.duration))
+  const buffer = context.createBuffer(1, Math.max(1, Math.ceil(totalLength * sampleRate)), sampleRate)
+  const data = buffer.getChannelData(0)
+
+  for (const note of notes) {
+    const startSample = Math.floor(note.start * sampleRate)
+    const noteSamples = Math.floor(note.duration * sampleRate)
+    const endFrequency = note.endFrequency ?? note.frequency
+    let phase = 0
+
+    for (let i = 0; i < noteSamples && startSample + i < data.length; i++) {
+      const t = i / noteSamples
+      const frequency = note.frequency + (endFrequency - note.frequency) * t
+      phase = (phase + frequency / sampleRate) % 1
+
+      // Short attack avoids clicks; the body decays unless sustained
+      const attack = Math.min(1, i / (sampleRate * 0.004))
+      const envelope = attack * (note.sustain ? 1 - Math.max(0, t - 0.9) * 10 : 1 - t)
+
+      data[startSample + i] += sample(note.waveform, phase) * note.volume * envelope
+    }
+  }
+
+  // Keep overlapping voices from clipping
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.max(-1, Math.min(1, data[i]))
+  }
+
+  return buffer
+}
+
+function sample(waveform: Waveform, phase: number): number {
+  switch (waveform) {
+    case 'square':
+      return phase < 0.5 ? 1 : -1
+    case 'triangle':
+      return 1 - 4 * Math.abs(phase - 0.5)
+    case 'noise':
+      return Math.random() * 2 - 1
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * ComboTracker - Ring streaks and the score multiplier they earn
+ *
+ * Rings collected within COMBO_WINDOW of each other extend the combo; every
+ * RINGS_PER_LEVEL rings raise the multiplier by one, up to MAX_MULTIPLIER.
+ * Letting a ring slip past the plane breaks the combo. Times are flight
+ * time in ms, so slow-mo and frame drops don't change the window.
+ */
+
+export class ComboTracker {
+  public static readonly COMBO_WINDOW = 4000
+  public static readonly RINGS_PER_LEVEL = 3
+  public static readonly MAX_MULTIPLIER = 5
+
+  private combo: number = 0
+  private maxCombo: number = 0
+  private lastCollectTime: number | null = null
+
+  /**
+   * Register a collected ring and return the multiplier it scores with
+   */
+  public registerCollect(time: number): number {
+    if (this.lastCollectTime !== null && time - this.lastCollectTime > ComboTracker.COMBO_WINDOW) {
+      this.combo = 0
+    }
+
+    this.combo++
+    this.lastCollectTime = time
+    this.maxCombo = Math.max(this.maxCombo, this.combo)
+
+    return this.getMultiplier()
+  }
+
+  /**
+   * Break the combo because a ring was missed
+   */
+  public registerMiss(): void {
+    this.combo = 0
+    this.lastCollectTime = null
+  }
+
+  /**
+   * Drop a combo whose window has run out
+   */
+  public update(time: number): void {
+    if (this.lastCollectTime !== null && time - this.lastCollectTime > ComboTracker.COMBO_WINDOW) {
+      this.combo = 0
+      this.lastCollectTime = null
+    }
+  }
+
+  public getCombo(): number {
+    return this.combo
+  }
+
+  public getMaxCombo(): number {
+    return this.maxCombo
+  }
+
+  /**
+   * Current multiplier: x1 for the first rings, +1 per level
+   */
+  public getMultiplier(): number {
+    if (this.combo === 0) return 1
+    const level = Math.floor((this.combo - 1) / ComboTracker.RINGS_PER_LEVEL)
+    return Math.min(1 + level, ComboTracker.MAX_MULTIPLIER)
+  }
+
+  public reset(): void {
+    this.combo = 0
+    this.maxCombo = 0
+    this.lastCollectTime = null
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * CourseGenerator - Decides where rings, clouds and power-ups are placed
+ *
+ * Everything is drawn from the seeded RandomService streams and placed along
+ * world-space cursors rather than relative to the plane, so the same seed
+ * and difficulty always produce the same course. Holds no Phaser state:
+ * GameScene turns the spawns into game objects, and RunVerifier rebuilds
+ * the course headlessly to check submitted runs.
+ *
+ * Reseed RandomService before creating a generator; the SkyCycle passed in
+ * must belong to the same course.
+ */
+
+import { RandomService } from './RandomService'
+import { CLOUD_CONFIGS, CloudType, POWER_UP_CONFIGS, PowerUpType, RingType, getCloudSize } from './CourseItems'
+import type { DifficultyCurve } from './DifficultyProfile'
+import type { SkyCycle } from './SkyCycle'
+import type { WindZone } from './FlightSimulation'
+
+/**
+ * Screen width and ground level the course is laid out for
+ */
+export interface CourseBounds {
+  width: number
+  groundLevel: number
+}
+
+export interface RingSpawn {
+  x: number
+  y: number
+  type: RingType
+}
+
+/**
+ * Animation timing of a cloud, rolled with the cloud since it moves the hitbox
+ */
+export interface CloudMotion {
+  direction: number // Drifting: 1 to sweep down first, -1 to sweep up first
+  duration: number // Drift or float period (ms)
+  delay: number // Float start delay (ms)
+  lightningOffset: number // Storm: time already elapsed in the first strike cycle (ms)
+}
+
+export interface CloudSpawn {
+  x: number
+  y: number
+  type: CloudType
+  motion: CloudMotion
+  windZone: WindZone | null // Lift zone for the flight model (wind clouds only)
+}
+
+export interface PowerUpSpawn {
+  x: number
+  y: number
+  type: PowerUpType
+}
+
+/**
+ * Everything placed by one call to generateAhead
+ */
+export interface CourseSpawns {
+  rings: RingSpawn[]
+  clouds: CloudSpawn[]
+  powerUps: PowerUpSpawn[]
+}
+
+export class CourseGenerator {
+  public static readonly RING_LOOK_AHEAD = 1100
+  // Clouds are generated further ahead than rings so ring placement always
+  // sees the same set of nearby clouds
+  public static readonly CLOUD_LOOK_AHEAD = 1800
+  private static readonly CLOUD_SAFE_DISTANCE = 150
+
+  private readonly difficulty: DifficultyCurve
+  private readonly skyCycle: SkyCycle
+  private readonly bounds: CourseBounds
+  private nextRingX: number = 0
+  private nextCloudX: number = 0
+  private clouds: CloudSpawn[] = [] // Clouds still near the ring cursor
+
+  constructor(difficulty: DifficultyCurve, skyCycle: SkyCycle, bounds: CourseBounds) {
+    this.difficulty = difficulty
+    this.skyCycle = skyCycle
+    this.bounds = bounds
+  }
+
+  /**
+   * Where the plane waits on the launch pad
+   */
+  public getLaunchPosition(): { x: number, y: number } {
+    return { x: this.bounds.width * 0.15, y: this.bounds.groundLevel - 25 }
+  }
+
+  /**
+   * Opening rings in front of the launch pad; generation continues after them
+   */
+  public start(): RingSpawn[] {
+    const { width, groundLevel } = this.bounds
+    const random = RandomService.getInstance().stream('rings')
+    const rings: RingSpawn[] = []
+
+    for (let i = 0; i < 4; i++) {
+      const x = width + i * 200 + random.between(0, 150)
+      const y = groundLevel - 80 - random.between(0, 300)
+      rings.push(this.createRing(x, y))
+    }
+
+    this.nextRingX = width + 1000
+    this.nextCloudX = this.getLaunchPosition().x + 800
+    this.clouds = []
+    return rings
+  }
+
+  /**
+   * Generate everything that should exist ahead of the plane
+   */
+  public generateAhead(planeX: number): CourseSpawns {
+    const spawns: CourseSpawns = { rings: [], clouds: [], powerUps: [] }
+
+    // Clouds behind the plane can no longer block a ring
+    this.clouds = this.clouds.filter(cloud => cloud.x >= planeX - CourseGenerator.CLOUD_SAFE_DISTANCE)
+
+    this.generateClouds(planeX + CourseGenerator.CLOUD_LOOK_AHEAD, spawns)
+    this.generateRings(planeX + CourseGenerator.RING_LOOK_AHEAD, spawns)
+    return spawns
+  }
+
+  /**
+   * Cloud obstacles with progressive difficulty
+   *
+   * Spacing and variants come from the difficulty profile; rain packs
+   * clouds closer together, snow spreads them out. Drifting, wind and storm
+   * variants unlock as the difficulty factor rises.
+   */
+  private generateClouds(untilX: number, spawns: CourseSpawns): void {
+    const random = RandomService.getInstance().stream('clouds')
+
+    while (this.nextCloudX < untilX) {
+      const difficultyFactor = this.difficulty.getProgress(this.nextCloudX)
+      const weatherScale = this.skyCycle.getCloudSpacingScale(this.nextCloudX)
+      const spacing = this.difficulty.getCloudSpacing(this.nextCloudX) * weatherScale
+
+      const cloud = this.createCloud(this.nextCloudX, difficultyFactor)
+      this.clouds.push(cloud)
+      spawns.clouds.push(cloud)
+      this.nextCloudX += spacing + random.between(0, this.difficulty.getCloudSpacingJitter())
+    }
+  }
+
+  private createCloud(x: number, difficulty: number): CloudSpawn {
+    const random = RandomService.getInstance().stream('clouds')
+    const skyHeight = this.bounds.groundLevel - 100
+    const y = random.between(120, skyHeight - 120)
+    const type = CourseGenerator.pickCloudType(difficulty)
+    const config = CLOUD_CONFIGS[type]
+
+    const motion: CloudMotion = { direction: 1, duration: 0, delay: 0, lightningOffset: 0 }
+    switch (config.behavior) {
+      case 'drifting':
+        motion.direction = random.chance(0.5) ? 1 : -1
+        motion.duration = random.between(2500, 4000)
+        break
+
+      case 'wind':
+        // Gusts stay put
+        break
+
+      case 'storm':
+        motion.lightningOffset = random.between(0, config.lightningInterval || 0)
+        motion.duration = random.between(4000, 7000)
+        motion.delay = random.between(0, 1000)
+        break
+
+      default:
+        motion.duration = random.between(4000, 7000)
+        motion.delay = random.between(0, 1000)
+    }
+
+    return { x, y, type, motion, windZone: CourseGenerator.getWindZone(x, y, type) }
+  }
+
+  /**
+   * Ring patterns (and the odd power-up) along the ring cursor
+   */
+  private generateRings(untilX: number, spawns: CourseSpawns): void {
+    const random = RandomService.getInstance().stream('rings')
+
+    while (this.nextRingX < untilX) {
+      this.createRingPattern(this.nextRingX, spawns)
+      const gap = this.difficulty.getRingGap(this.nextRingX)
+      this.nextRingX += random.between(gap.min, gap.max)
+    }
+  }
+
+  private createRingPattern(spawnX: number, spawns: CourseSpawns): void {
+    const random = RandomService.getInstance().stream('rings')
+    const groundLevel = this.bounds.groundLevel
+    const pattern = random.next()
+    const candidates: Array<{ x: number, y: number }> = []
+
+    if (pattern < 0.4) {
+      // Scattered individual rings
+      const ringCount = random.integer(1, 3)
+      for (let i = 0; i < ringCount; i++) {
+        const x = spawnX + i * random.between(120, 200)
+        const y = groundLevel - 80 - random.between(0, 300)
+        this.addRingIfSafe(x, y, spawns)
+      }
+    } else if (pattern < 0.7) {
+      // Vertical line
+      for (let i = 0; i < 2; i++) {
+        candidates.push({ x: spawnX, y: groundLevel - 120 - i * 80 })
+      }
+    } else {
+      // Arc
+      const centerY = groundLevel - 200
+      const radius = 80
+      for (let i = 0; i < 3; i++) {
+        const angle = (i / 2) * Math.PI - Math.PI / 2
+        candidates.push({ x: spawnX + Math.cos(angle) * radius, y: centerY + Math.sin(angle) * radius })
+      }
+    }
+
+    candidates.forEach(({ x, y }) => this.addRingIfSafe(x, y, spawns))
+    this.maybeCreatePowerUp(spawnX, spawns)
+  }
+
+  private addRingIfSafe(x: number, y: number, spawns: CourseSpawns): void {
+    if (this.isPositionSafeFromClouds(x, y)) {
+      spawns.rings.push(this.createRing(x, y))
+    }
+  }
+
+  /**
+   * Occasionally place a power-up after a ring pattern
+   */
+  private maybeCreatePowerUp(spawnX: number, spawns: CourseSpawns): void {
+    const random = RandomService.getInstance().stream('powerups')
+    if (!random.chance(0.15)) return
+
+    const x = spawnX + random.between(250, 350)
+    const y = this.bounds.groundLevel - 120 - random.between(0, 200)
+
+    if (this.isPositionSafeFromClouds(x, y)) {
+      spawns.powerUps.push({ x, y, type: CourseGenerator.pickPowerUpType() })
+    }
+  }
+
+  /**
+   * Keep clear of every cloud, including the whole lane a drifting cloud sweeps
+   */
+  private isPositionSafeFromClouds(x: number, y: number): boolean {
+    for (const cloud of this.clouds) {
+      const dy = Math.max(0, Math.abs(y - cloud.y) - (CLOUD_CONFIGS[cloud.type].driftRange || 0))
+      const distance = Math.sqrt((x - cloud.x) ** 2 + dy ** 2)
+      if (distance < CourseGenerator.CLOUD_SAFE_DISTANCE) {
+        return false
+      }
+    }
+
+    return true
+  }
+
+  private createRing(x: number, y: number): RingSpawn {
+    return { x, y, type: this.pickRingType(x) }
+  }
+
+  /**
+   * Ring type from the difficulty profile's rarity weights at x
+   */
+  private pickRingType(x: number): RingType {
+    const weights = this.difficulty.getRingWeights(x)
+    const rand = RandomService.getInstance().stream('rings').next() * (weights.gold + weights.silver + weights.bronze)
+
+    if (rand < weights.gold) {
+      return RingType.GOLD
+    } else if (rand < weights.gold + weights.silver) {
+      return RingType.SILVER
+    } else {
+      return RingType.BRONZE
+    }
+  }
+
+  /**
+   * Cloud variant for a difficulty (0-1) - variants unlock as it rises
+   */
+  private static pickCloudType(difficulty: number): CloudType {
+    const types = Object.values(CloudType).filter(type => CLOUD_CONFIGS[type].minDifficulty <= difficulty)
+    const totalWeight = types.reduce((sum, type) => sum + CLOUD_CONFIGS[type].weight, 0)
+
+    let rand = RandomService.getInstance().stream('clouds').next() * totalWeight
+    for (const type of types) {
+      rand -= CLOUD_CONFIGS[type].weight
+      if (rand < 0) return type
+    }
+    return types[types.length - 1]
+  }
+
+  /**
+   * Power-up type weighted by rarity
+   */
+  private static pickPowerUpType(): PowerUpType {
+    const types = Object.values(PowerUpType)
+    const totalWeight = types.reduce((sum, type) => sum + POWER_UP_CONFIGS[type].rarity, 0)
+
+    let rand = RandomService.getInstance().stream('powerups').next() * totalWeight
+    for (const type of types) {
+      rand -= POWER_UP_CONFIGS[type].rarity
+      if (rand < 0) return type
+    }
+    return types[types.length - 1]
+  }
+
+  /**
+   * Lift zone of a wind cloud, covering the cloud where it was placed
+   */
+  private static getWindZone(x: number, y: number, type: CloudType): WindZone | null {
+    const config = CLOUD_CONFIGS[type]
+    if (config.behavior !== 'wind') return null
+
+    const size = getCloudSize(type)
+    return {
+      left: x - size.width / 2,
+      right: x + size.width / 2,
+      top: y - size.height / 2,
+      bottom: y + size.height / 2,
+      accelerationY: config.windLift || 0
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * CourseItems - Gameplay data for everything placed along the course
+ *
+ * Ring, cloud and power-up types with their tuning. Kept free of Phaser so
+ * the course can be generated headlessly (e.g. when verifying submitted
+ * runs); the game objects in @objects add the visuals on top.
+ */
+
+import type { StringKey } from './Localization'
+
+/**
+ * Ring Types - Different point values and rarity levels
+ */
+export enum RingType {
+  BRONZE = 'bronze',
+  SILVER = 'silver',
+  GOLD = 'gold'
+}
+
+/**
+ * Ring configuration for each type
+ */
+export interface RingConfig {
+  points: number
+  spriteKey: string
+  rarity: number // Spawn probability (0-1)
+}
+
+export const RING_CONFIGS: Record<RingType, RingConfig> = {
+  [RingType.BRONZE]: { points: 20, spriteKey: 'ringBronze', rarity: 0.7 },   // 70% chance
+  [RingType.SILVER]: { points: 50, spriteKey: 'ringSilver', rarity: 0.25 },  // 25% chance
+  [RingType.GOLD]: { points: 100, spriteKey: 'ringGold', rarity: 0.05 }      // 5% chance
+}
+
+/**
+ * Cloud Types - Available cloud variants
+ */
+export enum CloudType {
+  CLOUD1 = 'cloud1',
+  CLOUD2 = 'cloud2',
+  DRIFTING = 'drifting',
+  STORM = 'storm',
+  WIND = 'wind'
+}
+
+/**
+ * How a cloud variant behaves in play
+ */
+export type CloudBehavior = 'static' | 'drifting' | 'storm' | 'wind'
+
+/**
+ * Cloud configuration for different variants
+ */
+export interface CloudConfig {
+  imageKey: string
+  opacity: number
+  collisionScale: number // Collision box scale relative to visual size (for forgiving gameplay)
+  behavior: CloudBehavior
+  minDifficulty: number // Difficulty (0-1) from which this variant can spawn
+  weight: number // Relative spawn weight among unlocked variants
+  tint?: number
+  driftRange?: number // Drifting: vertical travel either side of the spawn point (px)
+  lightningInterval?: number // Storm: time between strikes (ms)
+  lightningDuration?: number // Storm: how long a strike stays dangerous (ms)
+  lightningLength?: number // Storm: reach of the strike below the cloud (px)
+  windLift?: number // Wind: vertical acceleration inside the gust (px/s², negative is up)
+}
+
+export const CLOUD_CONFIGS: Record<CloudType, CloudConfig> = {
+  [CloudType.CLOUD1]: {
+    imageKey: 'cloud1',
+    opacity: 0.85,
+    collisionScale: 0.6, // 60% of visual size for forgiving collision
+    behavior: 'static',
+    minDifficulty: 0,
+    weight: 1
+  },
+  [CloudType.CLOUD2]: {
+    imageKey: 'cloud2',
+    opacity: 0.85,
+    collisionScale: 0.6,
+    behavior: 'static',
+    minDifficulty: 0,
+    weight: 1
+  },
+  [CloudType.DRIFTING]: {
+    imageKey: 'cloud1',
+    opacity: 0.85,
+    collisionScale: 0.6,
+    behavior: 'drifting',
+    minDifficulty: 0.25,
+    weight: 0.6,
+    tint: 0xE0E6F0,
+    driftRange: 90
+  },
+  [CloudType.STORM]: {
+    imageKey: 'cloud2',
+    opacity: 0.95,
+    collisionScale: 0.6,
+    behavior: 'storm',
+    minDifficulty: 0.6,
+    weight: 0.4,
+    tint: 0x6B6F80,
+    lightningInterval: 2600,
+    lightningDuration: 400,
+    lightningLength: 180
+  },
+  [CloudType.WIND]: {
+    imageKey: 'cloud1',
+    opacity: 0.55,
+    collisionScale: 0.6,
+    behavior: 'wind',
+    minDifficulty: 0.4,
+    weight: 0.4,
+    tint: 0xBFE6FF,
+    windLift: -1600
+  }
+}
+
+export const CLOUD_SCALE = 0.2 // Display scale of the cloud images
+
+/**
+ * Source size of each cloud image (px), so cloud extents don't depend on
+ * a texture having loaded
+ */
+export const CLOUD_IMAGE_SIZES: Record<string, { width: number, height: number }> = {
+  cloud1: { width: 670, height: 474 },
+  cloud2: { width: 480, height: 372 }
+}
+
+/**
+ * Display size of a cloud variant (px)
+ */
+export function getCloudSize(type: CloudType): { width: number, height: number } {
+  const image = CLOUD_IMAGE_SIZES[CLOUD_CONFIGS[type].imageKey]
+  return { width: image.width * CLOUD_SCALE, height: image.height * CLOUD_SCALE }
+}
+
+/**
+ * Power-up Types - Timed effects granted on pickup
+ */
+export enum PowerUpType {
+  SHIELD = 'shield',
+  MAGNET = 'magnet',
+  SLOW_MO = 'slowMo',
+  DOUBLE_POINTS = 'doublePoints'
+}
+
+/**
+ * Power-up configuration for each type
+ */
+export interface PowerUpConfig {
+  label: StringKey // Short name shown in the HUD
+  spriteKey: string
+  color: number
+  duration: number // Effect duration in ms
+  rarity: number // Relative spawn weight
+}
+
+export const POWER_UP_CONFIGS: Record<PowerUpType, PowerUpConfig> = {
+  [PowerUpType.SHIELD]: { label: 'powerUp.shield', spriteKey: 'powerupShield', color: 0x377DFF, duration: 8000, rarity: 0.3 },
+  [PowerUpType.MAGNET]: { label: 'powerUp.magnet', spriteKey: 'powerupMagnet', color: 0xE63946, duration: 7000, rarity: 0.3 },
+  [PowerUpType.SLOW_MO]: { label: 'powerUp.slowMo', spriteKey: 'powerupSlowMo', color: 0x9B5DE5, duration: 4000, rarity: 0.15 },
+  [PowerUpType.DOUBLE_POINTS]: { label: 'powerUp.doublePoints', spriteKey: 'powerupDouble', color: 0xFFD700, duration: 6000, rarity: 0.25 }
+}
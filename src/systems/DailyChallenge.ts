@@ -0,0 +1,100 @@
+/**
+ * DailyChallenge - One shared course per calendar day with limited attempts
+ *
+ * Every player gets the same seed for a given UTC day, so challenge scores
+ * are comparable. Attempts are tracked locally and reset when the day changes.
+ */
+
+import { PersistedData } from './PersistedData'
+import { CHALLENGE_SCHEMA } from './PersistedSchemas'
+
+export interface ChallengeAttempts {
+  dayKey: string
+  attempts: number
+}
+
+export class DailyChallenge {
+  public static readonly MAX_ATTEMPTS = 3
+
+  private static storedAttempts: PersistedData<ChallengeAttempts> | null = null
+
+  /**
+   * Get the key for a calendar day (UTC) in YYYY-MM-DD form
+   */
+  public static getDayKey(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10)
+  }
+
+  /**
+   * Get the course seed for a day - identical for every player
+   */
+  public static getSeed(dayKey: string = this.getDayKey()): number {
+    // FNV-1a hash of the day key
+    const input = `daily-challenge:${dayKey}`
+    let hash = 0x811C9DC5
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  /**
+   * Number of attempts already used today
+   */
+  public static getAttemptsUsed(dayKey: string = this.getDayKey()): number {
+    const stored = this.loadAttempts()
+    return stored && stored.dayKey === dayKey ? stored.attempts : 0
+  }
+
+  /**
+   * Number of attempts left today
+   */
+  public static getAttemptsRemaining(dayKey: string = this.getDayKey()): number {
+    return Math.max(0, this.MAX_ATTEMPTS - this.getAttemptsUsed(dayKey))
+  }
+
+  /**
+   * Check if the player can start another challenge run today
+   */
+  public static canAttempt(dayKey: string = this.getDayKey()): boolean {
+    return this.getAttemptsRemaining(dayKey) > 0
+  }
+
+  /**
+   * Use up one attempt for the given day
+   */
+  public static recordAttempt(dayKey: string = this.getDayKey()): number {
+    const attempts = Math.min(this.MAX_ATTEMPTS, this.getAttemptsUsed(dayKey) + 1)
+
+    try {
+      this.getStoredAttempts().save({ dayKey, attempts })
+    } catch (error) {
+      console.warn('DailyChallenge: Failed to save attempts:', error)
+    }
+
+    return attempts
+  }
+
+  /**
+   * Load stored attempt data with validation
+   */
+  private static loadAttempts(): ChallengeAttempts | null {
+    try {
+      return this.getStoredAttempts().load()
+    } catch (error) {
+      console.warn('DailyChallenge: Failed to load attempts:', error)
+    }
+    return null
+  }
+
+  /**
+   * Opened on first use, so importing the class doesn't need localStorage
+   */
+  private static getStoredAttempts(): PersistedData<ChallengeAttempts> {
+    if (!this.storedAttempts) {
+      this.storedAttempts = new PersistedData(localStorage, CHALLENGE_SCHEMA)
+    }
+    return this.storedAttempts
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * DifficultyProfile - Data-driven difficulty curves
+ *
+ * A profile describes how the course gets harder with distance: cloud
+ * density, ring rarity, forward speed and the gaps between ring patterns.
+ * Every scaled value has a start (at x = 0) and an end (at rampDistance)
+ * and is interpolated linearly in between. Profiles are plain JSON so new
+ * ones can be loaded without a code change.
+ */
+
+import { DEFAULT_FLIGHT_CONFIG, type FlightConfig } from './FlightSimulation'
+
+/**
+ * Value at the start of a run and once the ramp is complete
+ */
+export interface Scaled<T> {
+  start: T
+  end: T
+}
+
+export interface ValueRange {
+  min: number
+  max: number
+}
+
+/**
+ * Relative spawn weights of the ring types
+ */
+export interface RingWeights {
+  bronze: number
+  silver: number
+  gold: number
+}
+
+export interface DifficultyProfile {
+  id: string
+  name: string
+  rampDistance: number // World distance (px) over which values move from start to end
+  forwardSpeed: Scaled<number> // Plane speed (px/s)
+  cloudSpacing: Scaled<number> // Minimum gap between clouds (px)
+  cloudSpacingJitter: number // Random extra gap added on top (px)
+  ringGap: Scaled<ValueRange> // Gap between ring patterns (px)
+  ringWeights: Scaled<RingWeights>
+}
+
+export type BuiltInDifficulty = 'easy' | 'normal' | 'hard'
+
+export const DIFFICULTY_PROFILES: Record<BuiltInDifficulty, DifficultyProfile> = {
+  easy: {
+    id: 'easy',
+    name: 'EASY',
+    rampDistance: 6000,
+    forwardSpeed: { start: 180, end: 200 },
+    cloudSpacing: { start: 1000, end: 550 },
+    cloudSpacingJitter: 400,
+    ringGap: { start: { min: 400, max: 750 }, end: { min: 450, max: 800 } },
+    ringWeights: {
+      start: { bronze: 0.6, silver: 0.3, gold: 0.1 },
+      end: { bronze: 0.65, silver: 0.27, gold: 0.08 }
+    }
+  },
+  // The original hardcoded tuning
+  normal: {
+    id: 'normal',
+    name: 'NORMAL',
+    rampDistance: 4000,
+    forwardSpeed: { start: 200, end: 200 },
+    cloudSpacing: { start: 800, end: 400 },
+    cloudSpacingJitter: 400,
+    ringGap: { start: { min: 500, max: 900 }, end: { min: 500, max: 900 } },
+    ringWeights: {
+      start: { bronze: 0.7, silver: 0.25, gold: 0.05 },
+      end: { bronze: 0.7, silver: 0.25, gold: 0.05 }
+    }
+  },
+  hard: {
+    id: 'hard',
+    name: 'HARD',
+    rampDistance: 3000,
+    forwardSpeed: { start: 210, end: 260 },
+    cloudSpacing: { start: 650, end: 300 },
+    cloudSpacingJitter: 300,
+    ringGap: { start: { min: 550, max: 950 }, end: { min: 650, max: 1100 } },
+    ringWeights: {
+      start: { bronze: 0.75, silver: 0.22, gold: 0.03 },
+      end: { bronze: 0.8, silver: 0.18, gold: 0.02 }
+    }
+  }
+}
+
+/**
+ * DifficultyCurve - Evaluates a profile at a world position
+ */
+export class DifficultyCurve {
+  private readonly profile: DifficultyProfile
+
+  constructor(profile: DifficultyProfile) {
+    this.profile = profile
+  }
+
+  public getProfile(): DifficultyProfile {
+    return this.profile
+  }
+
+  /**
+   * Ramp progress (0-1) at a world x position
+   */
+  public getProgress(x: number): number {
+    if (this.profile.rampDistance <= 0) return 1
+    return Math.min(Math.max(x / this.profile.rampDistance, 0), 1)
+  }
+
+  public getForwardSpeed(x: number): number {
+    return DifficultyCurve.lerp(this.profile.forwardSpeed, this.getProgress(x))
+  }
+
+  public getCloudSpacing(x: number): number {
+    return DifficultyCurve.lerp(this.profile.cloudSpacing, this.getProgress(x))
+  }
+
+  public getCloudSpacingJitter(): number {
+    return this.profile.cloudSpacingJitter
+  }
+
+  public getRingGap(x: number): ValueRange {
+    const t = this.getProgress(x)
+    const { start, end } = this.profile.ringGap
+    return {
+      min: DifficultyCurve.lerp({ start: start.min, end: end.min }, t),
+      max: DifficultyCurve.lerp({ start: start.max, end: end.max }, t)
+    }
+  }
+
+  public getRingWeights(x: number): RingWeights {
+    const t = this.getProgress(x)
+    const { start, end } = this.profile.ringWeights
+    return {
+      bronze: DifficultyCurve.lerp({ start: start.bronze, end: end.bronze }, t),
+      silver: DifficultyCurve.lerp({ start: start.silver, end: end.silver }, t),
+      gold: DifficultyCurve.lerp({ start: start.gold, end: end.gold }, t)
+    }
+  }
+
+  /**
+   * Flight model settings for this profile (speed ramps with distance)
+   */
+  public getFlightConfig(base: FlightConfig = DEFAULT_FLIGHT_CONFIG): FlightConfig {
+    return {
+      ...base,
+      forwardSpeed: this.profile.forwardSpeed.start,
+      forwardSpeedEnd: this.profile.forwardSpeed.end,
+      speedRampDistance: this.profile.rampDistance
+    }
+  }
+
+  private static lerp(value: Scaled<number>, t: number): number {
+    return value.start + (value.end - value.start) * t
+  }
+}
+
+/**
+ * DifficultyProfiles - Registry of available profiles and the player's choice
+ */
+export class DifficultyProfiles {
+  private static readonly STORAGE_KEY = 'pixelPaperPlane_difficulty'
+  public static readonly DEFAULT_ID: BuiltInDifficulty = 'normal'
+
+  private static custom: Map<string, DifficultyProfile> = new Map()
+
+  /**
+   * All selectable profiles, built-ins first
+   */
+  public static getAll(): DifficultyProfile[] {
+    return [...Object.values(DIFFICULTY_PROFILES), ...this.custom.values()]
+  }
+
+  /**
+   * Look up a profile by id, falling back to Normal
+   */
+  public static get(id: string | null | undefined): DifficultyProfile {
+    if (id && id in DIFFICULTY_PROFILES) {
+      return DIFFICULTY_PROFILES[id as BuiltInDifficulty]
+    }
+    return (id && this.custom.get(id)) || DIFFICULTY_PROFILES[this.DEFAULT_ID]
+  }
+
+  /**
+   * Profile the player picked on the start screen
+   */
+  public static getSelected(): DifficultyProfile {
+    try {
+      return this.get(localStorage.getItem(this.STORAGE_KEY))
+    } catch (error) {
+      console.warn('DifficultyProfiles: Failed to load selection:', error)
+      return DIFFICULTY_PROFILES[this.DEFAULT_ID]
+    }
+  }
+
+  public static setSelected(id: string): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, this.get(id).id)
+    } catch (error) {
+      console.warn('DifficultyProfiles: Failed to save selection:', error)
+    }
+  }
+
+  /**
+   * Add a custom profile (e.g. loaded from JSON) to the registry
+   */
+  public static register(profile: DifficultyProfile): void {
+    if (profile.id in DIFFICULTY_PROFILES) {
+      console.warn(`DifficultyProfiles: Cannot replace built-in profile "${profile.id}"`)
+      return
+    }
+    this.custom.set(profile.id, profile)
+  }
+
+  /**
+   * Fetch, validate and register a profile from a JSON file
+   */
+  public static async loadFromUrl(url: string): Promise<DifficultyProfile | null> {
+    try {
+      const response = await fetch(url)
+      if (!response.ok) {
+        console.warn(`DifficultyProfiles: Failed to fetch ${url} (${response.status})`)
+        return null
+      }
+
+      const profile = this.parse(await response.json())
+      if (profile) {
+        this.register(profile)
+      }
+      return profile
+    } catch (error) {
+      console.warn(`DifficultyProfiles: Failed to load ${url}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Validate untrusted JSON data as a profile
+   * Returns null when any field is missing or out of range
+   */
+  public static parse(data: any): DifficultyProfile | null {
+    if (!data || typeof data !== 'object') return null
+    if (typeof data.id !== 'string' || !data.id || typeof data.name !== 'string') return null
+
+    const isNumber = (value: any, min: number = 0): value is number =>
+      typeof value === 'number' && isFinite(value) && value >= min
+    const isScaled = (value: any, check: (v: any) => boolean): boolean =>
+      !!value && typeof value === 'object' && check(value.start) && check(value.end)
+    const isRange = (value: any): boolean =>
+      !!value && isNumber(value.min) && isNumber(value.max) && value.min <= value.max
+    const isWeights = (value: any): boolean =>
+      !!value && isNumber(value.bronze) && isNumber(value.silver) && isNumber(value.gold) &&
+      value.bronze + value.silver + value.gold > 0
+
+    const valid = isNumber(data.rampDistance) &&
+      isScaled(data.forwardSpeed, v => isNumber(v, 1)) &&
+      isScaled(data.cloudSpacing, v => isNumber(v, 1)) &&
+      isNumber(data.cloudSpacingJitter) &&
+      isScaled(data.ringGap, isRange) &&
+      isScaled(data.ringWeights, isWeights)
+
+    if (!valid) {
+      console.warn(`DifficultyProfiles: Invalid profile "${data.id}"`)
+      return null
+    }
+
+    const weights = (value: any): RingWeights => ({ bronze: value.bronze, silver: value.silver, gold: value.gold })
+
+    return {
+      id: data.id,
+      name: data.name,
+      rampDistance: data.rampDistance,
+      forwardSpeed: { start: data.forwardSpeed.start, end: data.forwardSpeed.end },
+      cloudSpacing: { start: data.cloudSpacing.start, end: data.cloudSpacing.end },
+      cloudSpacingJitter: data.cloudSpacingJitter,
+      ringGap: {
+        start: { min: data.ringGap.start.min, max: data.ringGap.start.max },
+        end: { min: data.ringGap.end.min, max: data.ringGap.end.max }
+      },
+      ringWeights: {
+        start: weights(data.ringWeights.start),
+        end: weights(data.ringWeights.end)
+      }
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_FLIGHT_CONFIG, DEFAULT_LAUNCH, FlightSimulation, type FlightBounds } from './FlightSimulation'
+
+const BOUNDS: FlightBounds = { groundLevel: 516, screenHeight: 576 }
+const START = { x: 150, y: 300 }
+
+function launched(y: number = START.y): FlightSimulation {
+  const simulation = new FlightSimulation(START.x, y, BOUNDS)
+  simulation.launch(DEFAULT_LAUNCH.angle, DEFAULT_LAUNCH.power)
+  return simulation
+}
+
+/**
+ * Fly with scheduled flaps, advancing by a fixed frame time until the plane crashes
+ */
+function flyAtFrameRate(fps: number, flaps: number[]): FlightSimulation {
+  const simulation = launched()
+  simulation.scheduleFlaps(flaps)
+  for (let frame = 0; frame < fps * 60 && !simulation.hasCrashed(); frame++) {
+    simulation.advance(1 / fps)
+  }
+  return simulation
+}
+
+describe('FlightSimulation', () => {
+  it('reaches the same state at 30 and 120 fps for the same flap ticks', () => {
+    const flaps = [40, 100, 160, 220]
+    const slow = flyAtFrameRate(30, flaps)
+    const fast = flyAtFrameRate(120, flaps)
+
+    expect(slow.hasCrashed()).toBe(true)
+    expect(slow.getState()).toEqual(fast.getState())
+  })
+
+  it('runs no more ticks per frame than maxFrameTime allows', () => {
+    const simulation = launched()
+    const steps = simulation.advance(5)
+
+    expect(steps).toBe(Math.floor(DEFAULT_FLIGHT_CONFIG.maxFrameTime * DEFAULT_FLIGHT_CONFIG.tickRate))
+  })
+
+  it('bounces off the top of the screen keeping its velocity', () => {
+    const simulation = new FlightSimulation(START.x, 2, BOUNDS)
+    simulation.launch(-Math.PI / 2, DEFAULT_LAUNCH.power)
+    simulation.step()
+
+    const state = simulation.getState()
+    expect(state.y).toBe(BOUNDS.screenHeight * DEFAULT_FLIGHT_CONFIG.topBounceRatio)
+    expect(state.velocityY).toBeLessThan(0)
+    expect(simulation.hasCrashed()).toBe(false)
+  })
+
+  it('crashes into the ground and stops', () => {
+    const simulation = launched()
+    while (!simulation.hasCrashed() && simulation.getTick() < 10000) {
+      simulation.step()
+    }
+
+    const state = simulation.getState()
+    expect(state.crashCause).toBe('ground')
+    expect(state.y).toBe(BOUNDS.groundLevel)
+    expect(state.velocityX).toBe(0)
+    expect(state.velocityY).toBe(0)
+
+    const tick = state.tick
+    expect(simulation.advance(1)).toBe(0)
+    expect(simulation.flap()).toBe(false)
+    expect(simulation.getTick()).toBe(tick)
+  })
+
+  it('applies a scheduled flap on its tick', () => {
+    const simulation = launched()
+    simulation.scheduleFlaps([10])
+    for (let tick = 0; tick <= 10; tick++) simulation.step()
+
+    const { velocityY } = simulation.getState()
+    const tickGravity = (DEFAULT_FLIGHT_CONFIG.gravity + DEFAULT_FLIGHT_CONFIG.worldGravity) / DEFAULT_FLIGHT_CONFIG.tickRate
+    expect(velocityY).toBeCloseTo(-DEFAULT_FLIGHT_CONFIG.flapForce + tickGravity)
+  })
+
+  describe('simulate', () => {
+    const start = { ...START, ...DEFAULT_LAUNCH }
+
+    it('matches stepping a simulation by hand', () => {
+      const flaps = [30, 90, 150]
+      const simulation = launched()
+      simulation.scheduleFlaps(flaps)
+      while (!simulation.hasCrashed() && simulation.getTick() < 2000) {
+        simulation.step()
+      }
+
+      expect(FlightSimulation.simulate(start, BOUNDS, flaps, 2000)).toEqual(simulation.getState())
+    })
+
+    it('stops after maxTicks while the plane is still flying', () => {
+      const state = FlightSimulation.simulate(start, BOUNDS, [], 20)
+
+      expect(state.tick).toBe(20)
+      expect(state.crashCause).toBeNull()
+    })
+
+    it('is pushed by wind zones', () => {
+      const updraft = { left: 0, right: 10000, top: 0, bottom: BOUNDS.groundLevel, accelerationY: -600 }
+      const calm = FlightSimulation.simulate(start, BOUNDS, [], 5000)
+      const windy = FlightSimulation.simulate(start, BOUNDS, [], 5000, DEFAULT_FLIGHT_CONFIG, [updraft])
+
+      expect(windy.tick).toBeGreaterThan(calm.tick)
+    })
+  })
+})
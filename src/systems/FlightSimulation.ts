@@ -0,0 +1,293 @@
+/**
+ * FlightSimulation - Frame-rate independent flight model for the paper plane
+ *
+ * Pure TypeScript with no Phaser dependency, so the same code drives the
+ * on-screen plane, ghost replays and headless verification of recorded runs.
+ * The model is stepped at a fixed tick rate; render frames only decide how
+ * many ticks to run.
+ */
+
+export interface FlightConfig {
+  gravity: number // Plane gravity (px/s²)
+  worldGravity: number // Arcade world gravity that Phaser added on top (px/s²)
+  flapForce: number // Upward velocity set by a flap (px/s)
+  forwardSpeed: number // Horizontal speed at the start of the course (px/s)
+  forwardSpeedEnd: number // Horizontal speed once the speed ramp is complete (px/s)
+  speedRampDistance: number // World x at which forwardSpeedEnd is reached
+  launchSpeedBonus: number // Extra horizontal speed per unit of launch power
+  launchLift: number // Vertical launch speed per unit of power at 90 degrees
+  topBounceRatio: number // Where the plane is put back after touching the top, as a fraction of screen height
+  tickRate: number // Simulation steps per second
+  maxFrameTime: number // Longest frame (s) caught up in one go, avoids spiralling after a stall
+}
+
+export const DEFAULT_FLIGHT_CONFIG: FlightConfig = {
+  gravity: 800,
+  worldGravity: 300,
+  flapForce: 350,
+  forwardSpeed: 200,
+  forwardSpeedEnd: 200,
+  speedRampDistance: 4000,
+  launchSpeedBonus: 150,
+  launchLift: 800,
+  topBounceRatio: 0.25,
+  tickRate: 120,
+  maxFrameTime: 0.25
+}
+
+/**
+ * Launch trajectory shared by the player, the ghost and run verification
+ */
+export const DEFAULT_LAUNCH = {
+  angle: -Math.PI / 6, // 30 degrees up
+  power: 2.25
+}
+
+/**
+ * World limits the plane flies between
+ */
+export interface FlightBounds {
+  groundLevel: number
+  screenHeight: number
+}
+
+/**
+ * Area of rising or sinking air (e.g. a wind cloud)
+ */
+export interface WindZone {
+  left: number
+  right: number
+  top: number
+  bottom: number
+  accelerationY: number // Added to gravity while inside (px/s², negative is up)
+}
+
+/**
+ * Why the simulation stopped: it reached the ground, or the game ended the
+ * flight with crash() (a cloud hit). The run's own cause is GameEvents' CrashCause.
+ */
+export type FlightCrash = 'ground' | 'external'
+
+export interface FlightState {
+  x: number
+  y: number
+  velocityX: number
+  velocityY: number
+  tick: number // Ticks simulated since launch
+  launched: boolean
+  crashCause: FlightCrash | null
+}
+
+export class FlightSimulation {
+  private readonly config: FlightConfig
+  private readonly bounds: FlightBounds
+  private readonly tickSeconds: number
+  private state: FlightState
+  private accumulator: number = 0
+  private scheduledFlaps: number[] = []
+  private nextScheduledFlap: number = 0
+  private windZones: WindZone[] = []
+
+  constructor(x: number, y: number, bounds: FlightBounds, config: FlightConfig = DEFAULT_FLIGHT_CONFIG) {
+    this.config = config
+    this.bounds = bounds
+    this.tickSeconds = 1 / config.tickRate
+    this.state = {
+      x,
+      y,
+      velocityX: 0,
+      velocityY: 0,
+      tick: 0,
+      launched: false,
+      crashCause: null
+    }
+  }
+
+  /**
+   * Move the plane while it waits on the launch pad
+   */
+  public setPosition(x: number, y: number): void {
+    if (this.state.launched) return
+    this.state.x = x
+    this.state.y = y
+  }
+
+  /**
+   * Launch with the given angle (radians, negative is up) and power
+   */
+  public launch(angle: number, power: number): void {
+    if (this.state.launched) return
+
+    this.state.launched = true
+    this.state.tick = 0
+    this.state.velocityX = this.getForwardSpeed(this.state.x) + power * this.config.launchSpeedBonus
+    this.state.velocityY = Math.sin(angle) * power * this.config.launchLift
+    this.accumulator = 0
+  }
+
+  /**
+   * Apply upward impulse - takes effect from the next tick
+   */
+  public flap(): boolean {
+    if (!this.state.launched || this.state.crashCause) return false
+
+    this.state.velocityY = -this.config.flapForce
+    return true
+  }
+
+  /**
+   * Queue flaps at specific ticks (used to play back recorded runs)
+   */
+  public scheduleFlaps(ticks: number[]): void {
+    this.scheduledFlaps = [...ticks].sort((a, b) => a - b)
+    this.nextScheduledFlap = 0
+  }
+
+  /**
+   * Add a wind zone the plane will be pushed by when flying through it
+   */
+  public addWindZone(zone: WindZone): void {
+    this.windZones.push(zone)
+  }
+
+  /**
+   * Forget wind zones that end before the given x (already flown past)
+   */
+  public pruneWindZones(beforeX: number): void {
+    this.windZones = this.windZones.filter(zone => zone.right >= beforeX)
+  }
+
+  /**
+   * Stop the plane because of something outside the flight model (e.g. a cloud)
+   */
+  public crash(): void {
+    if (this.state.crashCause) return
+
+    this.state.crashCause = 'external'
+    this.state.velocityX = 0
+    this.state.velocityY = 0
+  }
+
+  /**
+   * Run as many fixed ticks as fit into the elapsed frame time
+   * Returns the number of ticks stepped
+   */
+  public advance(deltaSeconds: number): number {
+    if (!this.state.launched || this.state.crashCause) return 0
+
+    this.accumulator += Math.min(Math.max(deltaSeconds, 0), this.config.maxFrameTime)
+
+    let steps = 0
+    while (this.accumulator >= this.tickSeconds && !this.state.crashCause) {
+      this.step()
+      this.accumulator -= this.tickSeconds
+      steps++
+    }
+
+    return steps
+  }
+
+  /**
+   * Simulate exactly one fixed tick
+   */
+  public step(): void {
+    if (!this.state.launched || this.state.crashCause) return
+
+    // Scheduled inputs land before integration, matching live taps between ticks
+    while (this.nextScheduledFlap < this.scheduledFlaps.length &&
+           this.scheduledFlaps[this.nextScheduledFlap] <= this.state.tick) {
+      this.flap()
+      this.nextScheduledFlap++
+    }
+
+    const dt = this.tickSeconds
+    const state = this.state
+
+    // Semi-implicit Euler, same integration order as Arcade physics
+    const acceleration = this.config.gravity + this.config.worldGravity + this.getWindAcceleration(state.x, state.y)
+    state.velocityY += acceleration * dt
+    state.x += state.velocityX * dt
+    state.y += state.velocityY * dt
+    state.tick++
+
+    // Maintain forward speed after the launch boost
+    state.velocityX = this.getForwardSpeed(state.x)
+
+    // Non-punitive bounce off the top of the screen (velocity is kept)
+    if (state.y <= 0) {
+      state.y = this.bounds.screenHeight * this.config.topBounceRatio
+    }
+
+    // Ground crash
+    if (state.y >= this.bounds.groundLevel) {
+      state.y = this.bounds.groundLevel
+      state.velocityX = 0
+      state.velocityY = 0
+      state.crashCause = 'ground'
+    }
+  }
+
+  /**
+   * Forward speed at a world x position (ramps linearly with distance)
+   */
+  private getForwardSpeed(x: number): number {
+    const { forwardSpeed, forwardSpeedEnd, speedRampDistance } = this.config
+    if (speedRampDistance <= 0) return forwardSpeedEnd
+
+    const t = Math.min(Math.max(x / speedRampDistance, 0), 1)
+    return forwardSpeed + (forwardSpeedEnd - forwardSpeed) * t
+  }
+
+  /**
+   * Combined vertical acceleration of the wind zones containing a point
+   */
+  private getWindAcceleration(x: number, y: number): number {
+    let acceleration = 0
+    for (const zone of this.windZones) {
+      if (x >= zone.left && x <= zone.right && y >= zone.top && y <= zone.bottom) {
+        acceleration += zone.accelerationY
+      }
+    }
+    return acceleration
+  }
+
+  public getState(): Readonly<FlightState> {
+    return this.state
+  }
+
+  public getConfig(): Readonly<FlightConfig> {
+    return this.config
+  }
+
+  public getTick(): number {
+    return this.state.tick
+  }
+
+  public hasCrashed(): boolean {
+    return this.state.crashCause !== null
+  }
+
+  /**
+   * Run a whole recorded flight headlessly
+   * Stops at the first crash or after maxTicks, whichever comes first
+   */
+  public static simulate(
+    start: { x: number, y: number, angle: number, power: number },
+    bounds: FlightBounds,
+    flapTicks: number[],
+    maxTicks: number,
+    config: FlightConfig = DEFAULT_FLIGHT_CONFIG,
+    windZones: WindZone[] = []
+  ): FlightState {
+    const simulation = new FlightSimulation(start.x, start.y, bounds, config)
+    simulation.launch(start.angle, start.power)
+    simulation.scheduleFlaps(flapTicks)
+    windZones.forEach(zone => simulation.addWindZone(zone))
+
+    while (!simulation.hasCrashed() && simulation.getTick() < maxTicks) {
+      simulation.step()
+    }
+
+    return { ...simulation.getState() }
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest'
+import { RingType } from './CourseItems'
+import { GameEventBus } from './GameEvents'
+
+describe('GameEventBus', () => {
+  it('delivers each payload to the event\'s subscribers in order', () => {
+    const events = new GameEventBus()
+    const received: string[] = []
+    events.on('ringCollected', ({ type, points }) => received.push(`first ${type} ${points}`))
+    events.on('ringCollected', ({ type }) => received.push(`second ${type}`))
+    events.on('flap', () => received.push('flap'))
+
+    events.emit('ringCollected', { type: RingType.GOLD, points: 50 })
+
+    expect(received).toEqual(['first gold 50', 'second gold'])
+  })
+
+  it('ignores events nobody subscribed to', () => {
+    expect(() => new GameEventBus().emit('nearMiss', { flightTime: 100 })).not.toThrow()
+  })
+
+  it('stops notifying a handler once it unsubscribes', () => {
+    const events = new GameEventBus()
+    const handler = vi.fn()
+    events.on('scoreChanged', handler)
+
+    events.emit('scoreChanged', { score: 10 })
+    events.off('scoreChanged', handler)
+    events.emit('scoreChanged', { score: 20 })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith({ score: 10 })
+  })
+
+  it('lets a handler unsubscribe while it is being notified', () => {
+    const events = new GameEventBus()
+    const later = vi.fn()
+    const once = () => events.off('flap', once)
+    events.on('flap', once)
+    events.on('flap', later)
+
+    events.emit('flap', { flightTime: 1 })
+    events.emit('flap', { flightTime: 2 })
+
+    expect(later).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps notifying the other handlers when one throws', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const events = new GameEventBus()
+    const after = vi.fn()
+    events.on('cloudHit', () => {
+      throw new Error('broken handler')
+    })
+    events.on('cloudHit', after)
+
+    events.emit('cloudHit', { lightning: true })
+
+    expect(after).toHaveBeenCalledWith({ lightning: true })
+    expect(error).toHaveBeenCalledOnce()
+    error.mockRestore()
+  })
+
+  it('drops every subscriber on clear', () => {
+    const events = new GameEventBus()
+    const handler = vi.fn()
+    events.on('launch', handler)
+    events.on('groundCrash', handler)
+
+    events.clear()
+    events.emit('launch', { seed: 1, gameMode: 'normal' })
+    events.emit('groundCrash', { distance: 10 })
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+})
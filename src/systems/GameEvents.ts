@@ -0,0 +1,99 @@
+/**
+ * GameEvents - Typed event bus for a run
+ *
+ * GameScene reports what happens in flight; scoring, the HUD, audio,
+ * achievements and analytics subscribe instead of being called directly.
+ * The bus has no Phaser dependency, so it can be driven on its own.
+ */
+
+import type { RingType } from './CourseItems'
+import type { GameScore } from './ScoreManager'
+import type { RunReplay } from './ReplayRecorder'
+
+export type CrashCause = 'cloud' | 'ground'
+
+/**
+ * Summary of a finished run
+ */
+export interface RunStats {
+  score: number // Ring points plus distance
+  distance: number // Whole metres
+  maxCombo: number
+  flaps: number
+  rings: Record<RingType, number>
+  cause: CrashCause
+  duration: number // Flight time in ms
+  maxAltitude: number // Highest point above the ground in px
+  gameMode: string
+  seed: number
+  challengeDay?: string
+}
+
+/**
+ * Event names and their payloads
+ */
+export interface GameEventMap {
+  launch: { seed: number, gameMode: string }
+  flap: { flightTime: number } // ms since launch
+  ringCollected: { type: RingType, points: number } // Points after combo and power-up multipliers
+  scoreChanged: { score: number }
+  nearMiss: { flightTime: number }
+  cloudHit: { lightning: boolean }
+  groundCrash: { distance: number }
+  distanceMilestone: { metres: number }
+  runEnded: { stats: RunStats, replay: RunReplay }
+  scoreSaved: { score: GameScore, stats: RunStats, isPersonalBest: boolean } // Beat every score saved before the run
+}
+
+export type GameEventName = keyof GameEventMap
+export type GameEventHandler<K extends GameEventName> = (payload: GameEventMap[K]) => void
+
+export class GameEventBus {
+  private handlers = new Map<GameEventName, GameEventHandler<any>[]>()
+
+  /**
+   * Subscribe to an event
+   */
+  public on<K extends GameEventName>(event: K, handler: GameEventHandler<K>): void {
+    const list = this.handlers.get(event) ?? []
+    list.push(handler)
+    this.handlers.set(event, list)
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  public off<K extends GameEventName>(event: K, handler: GameEventHandler<K>): void {
+    const list = this.handlers.get(event)
+    if (!list) return
+
+    const index = list.indexOf(handler)
+    if (index > -1) {
+      list.splice(index, 1)
+    }
+  }
+
+  /**
+   * Notify every subscriber; one failing handler does not stop the others
+   */
+  public emit<K extends GameEventName>(event: K, payload: GameEventMap[K]): void {
+    const list = this.handlers.get(event)
+    if (!list) return
+
+    // Copy so handlers can unsubscribe while being notified
+    list.slice().forEach(handler => {
+      try {
+        handler(payload)
+      } catch (error) {
+        console.error(`Game event listener error (${event}):`, error)
+      }
+    })
+  }
+
+  /**
+   * Drop every subscriber - called when the run's scene shuts down
+   */
+  public clear(): void {
+    this.handlers.clear()
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * LeaderboardManager.rankPlayer against the Firestore emulator and the real
+ * security rules. Skipped unless FIRESTORE_EMULATOR_HOST is set:
+ *   npm run test:emulator
+ */
+
+import { describe, expect, it } from 'vitest'
+import { initializeApp, type FirebaseApp } from 'firebase/app'
+import { connectFirestoreEmulator, doc, getFirestore, setDoc, updateDoc, type Firestore } from 'firebase/firestore'
+import { LeaderboardManager, type ScoreFilter } from './Leaderboard'
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST
+const projectId = process.env.GCLOUD_PROJECT || 'demo-pixel-paper-plane'
+
+/**
+ * A Firestore per identity, signed in to the emulator with a mock token
+ */
+const apps = new Map<string, FirebaseApp>()
+function getPlayerFirestore(userId: string, admin: boolean = false): Firestore {
+  let app = apps.get(userId)
+  if (!app) {
+    app = initializeApp({ projectId, apiKey: 'emulator' }, `leaderboard-${userId}`)
+    const [host, port] = emulatorHost!.split(':')
+    connectFirestoreEmulator(getFirestore(app), host, Number(port), { mockUserToken: { user_id: userId, admin } })
+    apps.set(userId, app)
+  }
+  return getFirestore(app)
+}
+
+/**
+ * Submit a challenge score as the player, then record the leaderboard job's verdict as an admin
+ */
+async function submitScore(userId: string, challengeDay: string, score: number, flagged: boolean = false): Promise<void> {
+  const id = crypto.randomUUID()
+  await setDoc(doc(getPlayerFirestore(userId), 'scores', id), {
+    userId,
+    displayName: `Player ${userId}`,
+    score,
+    distance: Math.round(score / 2),
+    timestamp: new Date(),
+    gameMode: 'challenge',
+    challengeDay
+  })
+  await updateDoc(doc(getPlayerFirestore('leaderboard-job', true), 'scores', id), { flagged })
+}
+
+describe.skipIf(!emulatorHost)('LeaderboardManager.rankPlayer against the Firestore emulator', () => {
+  it('ranks the player\'s best verified score by the verified scores above it', async () => {
+    // A day no other test writes to
+    const filter: ScoreFilter = { gameMode: 'challenge', challengeDay: `test-${crypto.randomUUID()}` }
+    const player = `player-${crypto.randomUUID()}`
+
+    await submitScore(`rival-${crypto.randomUUID()}`, filter.challengeDay!, 900)
+    await submitScore(`rival-${crypto.randomUUID()}`, filter.challengeDay!, 600)
+    await submitScore(`rival-${crypto.randomUUID()}`, filter.challengeDay!, 800, true) // Flagged: never counts
+    await submitScore(`rival-${crypto.randomUUID()}`, filter.challengeDay!, 100)
+    await submitScore(player, filter.challengeDay!, 500)
+    await submitScore(player, filter.challengeDay!, 300)
+    await submitScore(player, filter.challengeDay!, 700, true)
+
+    const entry = await LeaderboardManager.rankPlayer(getPlayerFirestore(player), player, filter)
+
+    expect(entry).toMatchObject({ userId: player, score: 500, distance: 250, rank: 3 })
+  })
+
+  it('returns null without a verified score for the board', async () => {
+    const filter: ScoreFilter = { gameMode: 'challenge', challengeDay: `test-${crypto.randomUUID()}` }
+    const player = `player-${crypto.randomUUID()}`
+    await submitScore(player, filter.challengeDay!, 400, true)
+
+    expect(await LeaderboardManager.rankPlayer(getPlayerFirestore(player), player, filter)).toBeNull()
+  })
+})
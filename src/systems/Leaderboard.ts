@@ -0,0 +1,344 @@
+/**
+ * Leaderboard - Global rankings read from the `leaderboards` collection
+ *
+ * Each board is a document in `leaderboards` with its ranked entries in an
+ * `entries` subcollection, one per player. Boards are written server-side;
+ * the client only reads them. Every board that loads is cached in
+ * localStorage so the last copy can be shown offline. Players below the
+ * top entries get their position from a count of the scores above theirs.
+ */
+
+import { getFirestore, collection, getCountFromServer, getDocs, getDocsFromServer, query, orderBy, limit, where } from 'firebase/firestore'
+import type { Firestore, QueryConstraint } from 'firebase/firestore'
+import { AuthManager } from './AuthManager'
+import { DailyChallenge } from './DailyChallenge'
+import { PersistedData } from './PersistedData'
+import { LEADERBOARD_CACHE_SCHEMA } from './PersistedSchemas'
+
+export type LeaderboardPeriod = 'allTime' | 'weekly' | 'daily'
+export type LeaderboardMode = 'normal' | 'challenge'
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['allTime', 'weekly', 'daily']
+export const LEADERBOARD_MODES: LeaderboardMode[] = ['normal', 'challenge']
+
+export interface LeaderboardEntry {
+  userId: string
+  displayName: string
+  score: number
+  distance: number
+  timestamp: number
+  rank: number
+}
+
+export interface LeaderboardResult {
+  boardId: string
+  entries: LeaderboardEntry[] // Sorted by rank
+  fetchedAt: number
+  fromCache: boolean // Firestore was unreachable; this is the last copy seen
+}
+
+/**
+ * Which scores count towards a board
+ */
+export interface ScoreFilter {
+  gameMode: string
+  from?: number // Inclusive timestamp
+  to?: number // Exclusive timestamp
+  challengeDay?: string
+}
+
+/**
+ * The fields of a `scores` document a board is filtered by
+ */
+export interface FilterableScore {
+  userId: string
+  gameMode: string
+  timestamp: number
+  challengeDay?: string
+  flagged?: boolean
+}
+
+export interface CachedBoard {
+  entries: LeaderboardEntry[]
+  fetchedAt: number
+}
+
+export class LeaderboardManager {
+  private static instance: LeaderboardManager
+  public static readonly MAX_ENTRIES = 100 // Entries kept per board
+  private static readonly DAY = 86400000 // ms
+
+  private readonly cache = new PersistedData(localStorage, LEADERBOARD_CACHE_SCHEMA)
+
+  private constructor() {}
+
+  public static getInstance(): LeaderboardManager {
+    if (!LeaderboardManager.instance) {
+      LeaderboardManager.instance = new LeaderboardManager()
+    }
+    return LeaderboardManager.instance
+  }
+
+  /**
+   * The mode the game shows for a period: normal runs for all-time and the
+   * week, the daily challenge for the day
+   */
+  public static getDefaultMode(period: LeaderboardPeriod): LeaderboardMode {
+    return period === 'daily' ? 'challenge' : 'normal'
+  }
+
+  /**
+   * Document id of a mode's board for a period, e.g. "normal-week-2026-W42"
+   */
+  public static getBoardId(
+    period: LeaderboardPeriod,
+    date: Date = new Date(),
+    gameMode: LeaderboardMode = LeaderboardManager.getDefaultMode(period)
+  ): string {
+    switch (period) {
+      case 'allTime':
+        return `${gameMode}-alltime`
+      case 'weekly':
+        return `${gameMode}-week-${LeaderboardManager.getWeekKey(date)}`
+      case 'daily':
+        return `${gameMode}-day-${DailyChallenge.getDayKey(date)}`
+    }
+  }
+
+  /**
+   * The scores that count towards a mode's board on a date: runs ever, that
+   * week or that day. A day's challenge board takes the runs of that day's
+   * challenge, wherever their timestamps fall
+   */
+  public static getScoreFilter(
+    period: LeaderboardPeriod,
+    date: Date = new Date(),
+    gameMode: LeaderboardMode = LeaderboardManager.getDefaultMode(period)
+  ): ScoreFilter {
+    switch (period) {
+      case 'allTime':
+        return { gameMode }
+      case 'weekly': {
+        const weekStart = LeaderboardManager.getWeekStart(date)
+        return { gameMode, from: weekStart, to: weekStart + 7 * LeaderboardManager.DAY }
+      }
+      case 'daily': {
+        if (gameMode === 'challenge') {
+          return { gameMode, challengeDay: DailyChallenge.getDayKey(date) }
+        }
+        const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+        return { gameMode, from: dayStart, to: dayStart + LeaderboardManager.DAY }
+      }
+    }
+  }
+
+  /**
+   * Whether a score counts towards a board; only scores the leaderboard job verified do
+   */
+  public static matchesFilter(score: FilterableScore, filter: ScoreFilter): boolean {
+    return !!score.userId &&
+      score.flagged === false &&
+      score.gameMode === filter.gameMode &&
+      (filter.from === undefined || score.timestamp >= filter.from) &&
+      (filter.to === undefined || score.timestamp < filter.to) &&
+      (filter.challengeDay === undefined || score.challengeDay === filter.challengeDay)
+  }
+
+  /**
+   * Monday 00:00 UTC of the ISO week containing the date
+   */
+  public static getWeekStart(date: Date): number {
+    const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    const weekday = new Date(day).getUTCDay() || 7
+    return day - (weekday - 1) * LeaderboardManager.DAY
+  }
+
+  /**
+   * ISO week of a date in UTC, e.g. "2026-W42" - weeks start on Monday
+   */
+  public static getWeekKey(date: Date = new Date()): string {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+    const weekday = day.getUTCDay() || 7
+
+    // The Thursday of this week decides which year the week belongs to
+    day.setUTCDate(day.getUTCDate() + 4 - weekday)
+    const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1)
+    const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7)
+
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+  }
+
+  /**
+   * Load a board from Firestore, falling back to the cached copy
+   */
+  public async load(period: LeaderboardPeriod): Promise<LeaderboardResult | null> {
+    const boardId = LeaderboardManager.getBoardId(period)
+    const firestore = this.getFirestore()
+
+    if (firestore && navigator.onLine) {
+      try {
+        const snapshot = await getDocs(query(
+          collection(firestore, 'leaderboards', boardId, 'entries'),
+          orderBy('rank'),
+          limit(LeaderboardManager.MAX_ENTRIES)
+        ))
+
+        const entries = snapshot.docs
+          .map(entry => LeaderboardManager.toEntry(entry.id, entry.data()))
+          .filter((entry): entry is LeaderboardEntry => entry !== null)
+        const fetchedAt = Date.now()
+
+        this.saveToCache(boardId, { entries, fetchedAt })
+        return { boardId, entries, fetchedAt, fromCache: false }
+      } catch (error) {
+        console.warn('LeaderboardManager: Failed to load leaderboard from Firestore:', error)
+      }
+    }
+
+    const cached = this.loadCache()[boardId]
+    return cached ? { boardId, ...cached, fromCache: true } : null
+  }
+
+  /**
+   * The signed-in player's position on a board they are not on; null for
+   * guests, offline or without a verified score for the board
+   */
+  public async getPlayerRank(period: LeaderboardPeriod): Promise<LeaderboardEntry | null> {
+    const user = AuthManager.getInstance().getCurrentUser()
+    const firestore = this.getFirestore()
+    if (!user || user.isGuest || !firestore || !navigator.onLine) return null
+
+    try {
+      const entry = await LeaderboardManager.rankPlayer(firestore, user.id, LeaderboardManager.getScoreFilter(period))
+      return entry && user.displayName ? { ...entry, displayName: user.displayName } : entry
+    } catch (error) {
+      console.warn('LeaderboardManager: Failed to rank player:', error)
+      return null
+    }
+  }
+
+  /**
+   * A player's best verified score for a board, ranked by counting the
+   * verified scores above it. Players with several scores above count once
+   * per score, so the rank is never better than on a full board - the
+   * board itself keeps one entry per player. Null without a verified score.
+   */
+  public static async rankPlayer(firestore: Firestore, userId: string, filter: ScoreFilter): Promise<LeaderboardEntry | null> {
+    const scores = collection(firestore, 'scores')
+
+    // A player's own scores are few, so they are filtered here rather than in a composite query
+    const own = await getDocsFromServer(query(scores, where('userId', '==', userId)))
+    const best = own.docs
+      .map(score => LeaderboardManager.toFilterableScore(score.data()))
+      .filter(score => LeaderboardManager.matchesFilter(score, filter))
+      .sort((a, b) => b.score - a.score || a.timestamp - b.timestamp)[0]
+    if (!best) return null
+
+    const constraints: QueryConstraint[] = [
+      where('gameMode', '==', filter.gameMode),
+      where('flagged', '==', false),
+      where('score', '>', best.score)
+    ]
+    if (filter.challengeDay !== undefined) {
+      constraints.push(where('challengeDay', '==', filter.challengeDay))
+    }
+    if (filter.from !== undefined) {
+      constraints.push(where('timestamp', '>=', new Date(filter.from)))
+    }
+    if (filter.to !== undefined) {
+      constraints.push(where('timestamp', '<', new Date(filter.to)))
+    }
+
+    const above = await getCountFromServer(query(scores, ...constraints))
+    return {
+      userId,
+      displayName: best.displayName,
+      score: best.score,
+      distance: best.distance,
+      timestamp: best.timestamp,
+      rank: above.data().count + 1
+    }
+  }
+
+  /**
+   * The current player's entry on a board, if they made it
+   */
+  public static findPlayer(result: LeaderboardResult): LeaderboardEntry | undefined {
+    const user = AuthManager.getInstance().getCurrentUser()
+    if (!user) return undefined
+    return result.entries.find(entry => entry.userId === user.id)
+  }
+
+  /**
+   * Read a `scores` document for filtering and ranking
+   */
+  private static toFilterableScore(data: any): FilterableScore & { score: number, distance: number, displayName: string } {
+    return {
+      userId: typeof data.userId === 'string' ? data.userId : '',
+      gameMode: typeof data.gameMode === 'string' ? data.gameMode : 'normal',
+      timestamp: typeof data.timestamp?.toMillis === 'function' ? data.timestamp.toMillis() : Number(data.timestamp) || 0,
+      challengeDay: typeof data.challengeDay === 'string' ? data.challengeDay : undefined,
+      flagged: typeof data.flagged === 'boolean' ? data.flagged : undefined,
+      score: typeof data.score === 'number' ? data.score : 0,
+      distance: typeof data.distance === 'number' ? data.distance : 0,
+      displayName: typeof data.displayName === 'string' && data.displayName ? data.displayName : 'Anonymous Player'
+    }
+  }
+
+  /**
+   * Validate an entry document; timestamps may be Firestore Timestamps or numbers
+   */
+  private static toEntry(id: string, data: any): LeaderboardEntry | null {
+    if (!data || typeof data.score !== 'number' || typeof data.rank !== 'number') {
+      return null
+    }
+
+    const timestamp = typeof data.timestamp?.toMillis === 'function'
+      ? data.timestamp.toMillis()
+      : Number(data.timestamp) || 0
+
+    return {
+      userId: typeof data.userId === 'string' ? data.userId : id,
+      displayName: typeof data.displayName === 'string' && data.displayName ? data.displayName : 'Anonymous Player',
+      score: data.score,
+      distance: typeof data.distance === 'number' ? data.distance : 0,
+      timestamp,
+      rank: data.rank
+    }
+  }
+
+  /**
+   * Firestore is readable by anyone, so guests see the boards too
+   */
+  private getFirestore(): Firestore | null {
+    const app = AuthManager.getInstance().getFirebaseApp()
+    return app ? getFirestore(app) : null
+  }
+
+  private loadCache(): Record<string, CachedBoard> {
+    try {
+      return this.cache.load() ?? {}
+    } catch (error) {
+      console.warn('LeaderboardManager: Failed to load cached leaderboards:', error)
+      return {}
+    }
+  }
+
+  /**
+   * Cache a board, keeping only the boards that are current
+   */
+  private saveToCache(boardId: string, board: CachedBoard): void {
+    const current = LEADERBOARD_PERIODS.map(period => LeaderboardManager.getBoardId(period))
+    const cache = this.loadCache()
+    Object.keys(cache).forEach(id => {
+      if (!current.includes(id)) delete cache[id]
+    })
+    cache[boardId] = board
+
+    try {
+      this.cache.save(cache)
+    } catch (error) {
+      console.warn('LeaderboardManager: Failed to cache leaderboard:', error)
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { LeaderboardManager, type LeaderboardEntry, type ScoreFilter } from './Leaderboard'
+import { LeaderboardAggregator, type BoardSpec, type LeaderboardStore, type ScoreRecord } from './LeaderboardAggregator'
+
+const DATE = new Date('2026-10-19T12:00:00Z')
+
+function makeScore(userId: string, score: number, overrides: Partial<ScoreRecord> = {}): ScoreRecord {
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    score,
+    distance: score,
+    timestamp: DATE.getTime(),
+    gameMode: 'normal',
+    flagged: false, // Already verified
+    ...overrides
+  }
+}
+
+/**
+ * Store over plain arrays that remembers the score cutoff of each read
+ */
+class InMemoryLeaderboardStore implements LeaderboardStore {
+  public scores: ScoreRecord[] = []
+  public boards = new Map<string, LeaderboardEntry[]>()
+  public minScores: (number | undefined)[] = []
+
+  public async listScores(_filter: ScoreFilter, minScore?: number): Promise<ScoreRecord[]> {
+    this.minScores.push(minScore)
+    return this.scores
+      .filter(score => minScore === undefined || score.score >= minScore)
+      .map(score => ({ ...score }))
+  }
+
+  public async readEntries(boardId: string): Promise<LeaderboardEntry[]> {
+    return this.boards.get(boardId) ?? []
+  }
+
+  public async writeBoard(board: BoardSpec, upserts: LeaderboardEntry[], removedUserIds: string[]): Promise<void> {
+    const entries = new Map((this.boards.get(board.id) ?? []).map(entry => [entry.userId, entry]))
+    upserts.forEach(entry => entries.set(entry.userId, entry))
+    removedUserIds.forEach(userId => entries.delete(userId))
+    this.boards.set(board.id, Array.from(entries.values()))
+  }
+
+  public async saveVerification(): Promise<void> {}
+}
+
+describe('LeaderboardAggregator', () => {
+  it('builds every period for both modes, keeping the ids the game reads', () => {
+    const ids = LeaderboardAggregator.getBoardSpecs(DATE).map(board => board.id)
+
+    expect(ids).toEqual([
+      'normal-alltime', 'normal-week-2026-W43', 'normal-day-2026-10-19',
+      'challenge-alltime', 'challenge-week-2026-W43', 'challenge-day-2026-10-19'
+    ])
+    expect(ids).toEqual(expect.arrayContaining((['allTime', 'weekly', 'daily'] as const)
+      .map(period => LeaderboardManager.getBoardId(period, DATE))))
+  })
+
+  it('reads only scores that can make a full all-time board', async () => {
+    const store = new InMemoryLeaderboardStore()
+    const board = LeaderboardAggregator.getBoardSpecs(DATE).find(spec => spec.id === 'normal-alltime')!
+    const players = LeaderboardManager.MAX_ENTRIES + 20
+    store.scores = Array.from({ length: players }, (_, i) => makeScore(`player-${i}`, 1000 + i * 10))
+
+    await new LeaderboardAggregator(store).aggregate(board)
+    store.scores.push(makeScore('newcomer', 5000), makeScore('player-0', 1150))
+    const result = await new LeaderboardAggregator(store).aggregate(board)
+
+    const lowest = 1000 + (players - LeaderboardManager.MAX_ENTRIES) * 10
+    expect(store.minScores).toEqual([undefined, lowest])
+    expect(result).toMatchObject({ entries: LeaderboardManager.MAX_ENTRIES, written: 100, removed: 1 })
+    expect(store.boards.get(board.id)).toEqual(expect.arrayContaining(
+      LeaderboardAggregator.rank(store.scores, board.filter)
+    ))
+  })
+})
@@ -0,0 +1,331 @@
+/**
+ * LeaderboardAggregator - Builds the `leaderboards` documents from `scores`
+ *
+ * Runs outside the game. The only caller so far is the Node script
+ * (`npm run leaderboards:aggregate`), which runs against the emulator; no
+ * function is deployed, so production boards are not rebuilt yet. Each board keeps the top
+ * MAX_ENTRIES players, one entry per player holding their best score; equal
+ * scores are ranked by whoever set them first. There is a board for every
+ * mode (normal, challenge) and period (all-time, week, day). Boards are
+ * rebuilt from the scores every time and only changed entries are written,
+ * so running the job twice leaves the same documents.
+ *
+ * A full all-time board only reads the scores at or above its last entry:
+ * the players on it keep those scores, so nobody below can make the top
+ * MAX_ENTRIES. Lower scores are still verified by the week's board.
+ *
+ * Every score is checked by RunVerifier the first time the job sees it and
+ * the verdict is stored on the score; flagged scores never make a board.
+ *
+ * Storage goes through LeaderboardStore: the script uses the client SDK, and
+ * a scheduled function would need a store over the Admin SDK.
+ */
+
+import {
+  collection,
+  doc,
+  getDocsFromServer,
+  query,
+  where,
+  updateDoc,
+  writeBatch
+} from 'firebase/firestore'
+import type { Firestore, QueryConstraint } from 'firebase/firestore'
+import {
+  LEADERBOARD_MODES,
+  LEADERBOARD_PERIODS,
+  LeaderboardManager,
+  type LeaderboardEntry,
+  type LeaderboardMode,
+  type LeaderboardPeriod,
+  type ScoreFilter
+} from './Leaderboard'
+import { DailyChallenge } from './DailyChallenge'
+import { RunVerifier, type RunLog, type VerificationResult } from './RunVerifier'
+
+/**
+ * A document from the `scores` collection
+ */
+export interface ScoreRecord {
+  id: string
+  userId: string
+  displayName?: string
+  score: number
+  distance: number
+  timestamp: number
+  gameMode: string
+  challengeDay?: string
+  seed?: number
+  maxCombo?: number
+  run?: RunLog
+  flagged?: boolean // Set once verified: true when the run failed verification
+}
+
+export interface BoardSpec {
+  id: string
+  period: LeaderboardPeriod
+  gameMode: LeaderboardMode
+  key: string // 'alltime', the week key or the day key
+  filter: ScoreFilter
+}
+
+export interface LeaderboardStore {
+  listScores(filter: ScoreFilter, minScore?: number): Promise<ScoreRecord[]> // May return more scores than asked for, never fewer
+  readEntries(boardId: string): Promise<LeaderboardEntry[]>
+  writeBoard(board: BoardSpec, upserts: LeaderboardEntry[], removedUserIds: string[]): Promise<void>
+  saveVerification(scoreId: string, result: VerificationResult): Promise<void>
+}
+
+/**
+ * A score that failed verification
+ */
+export interface FlaggedScore {
+  id: string
+  score: number
+  reasons: string[]
+}
+
+export interface AggregationResult {
+  boardId: string
+  entries: number
+  written: number
+  removed: number
+  flagged: FlaggedScore[] // Scores newly flagged by verification
+}
+
+export class LeaderboardAggregator {
+  private readonly store: LeaderboardStore
+
+  constructor(store: LeaderboardStore) {
+    this.store = store
+  }
+
+  /**
+   * Boards that are current on a date: all-time, that week and that day, for every mode
+   */
+  public static getBoardSpecs(date: Date = new Date()): BoardSpec[] {
+    const keys: Record<LeaderboardPeriod, string> = {
+      allTime: 'alltime',
+      weekly: LeaderboardManager.getWeekKey(date),
+      daily: DailyChallenge.getDayKey(date)
+    }
+
+    return LEADERBOARD_MODES.flatMap(gameMode => LEADERBOARD_PERIODS.map(period => ({
+      id: LeaderboardManager.getBoardId(period, date, gameMode),
+      period,
+      gameMode,
+      key: keys[period],
+      filter: LeaderboardManager.getScoreFilter(period, date, gameMode)
+    })))
+  }
+
+  /**
+   * Rank the scores for a board: best verified score per player, highest
+   * first, earlier timestamps winning ties
+   */
+  public static rank(scores: ScoreRecord[], filter: ScoreFilter): LeaderboardEntry[] {
+    const bestByUser = new Map<string, ScoreRecord>()
+
+    scores
+      .filter(score => LeaderboardManager.matchesFilter(score, filter))
+      .forEach(score => {
+        const best = bestByUser.get(score.userId)
+        if (!best || LeaderboardAggregator.compare(score, best) < 0) {
+          bestByUser.set(score.userId, score)
+        }
+      })
+
+    return Array.from(bestByUser.values())
+      .sort(LeaderboardAggregator.compare)
+      .slice(0, LeaderboardManager.MAX_ENTRIES)
+      .map((score, index) => ({
+        userId: score.userId,
+        displayName: score.displayName || 'Anonymous Player',
+        score: score.score,
+        distance: score.distance,
+        timestamp: score.timestamp,
+        rank: index + 1
+      }))
+  }
+
+  /**
+   * Rebuild every board that is current on the date
+   */
+  public async run(date: Date = new Date()): Promise<AggregationResult[]> {
+    const results: AggregationResult[] = []
+    for (const board of LeaderboardAggregator.getBoardSpecs(date)) {
+      results.push(await this.aggregate(board))
+    }
+    return results
+  }
+
+  /**
+   * Rebuild one board, writing only entries that changed
+   */
+  public async aggregate(board: BoardSpec): Promise<AggregationResult> {
+    const current = await this.store.readEntries(board.id)
+    const scores = await this.store.listScores(board.filter, LeaderboardAggregator.getMinScore(board, current))
+
+    const flagged = await this.verifyScores(scores)
+    const entries = LeaderboardAggregator.rank(scores, board.filter)
+    const currentByUser = new Map(current.map(entry => [entry.userId, entry]))
+    const upserts = entries.filter(entry => !LeaderboardAggregator.sameEntry(entry, currentByUser.get(entry.userId)))
+    const keep = new Set(entries.map(entry => entry.userId))
+    const removed = current.filter(entry => !keep.has(entry.userId)).map(entry => entry.userId)
+
+    if (upserts.length > 0 || removed.length > 0) {
+      await this.store.writeBoard(board, upserts, removed)
+    }
+
+    return { boardId: board.id, entries: entries.length, written: upserts.length, removed: removed.length, flagged }
+  }
+
+  /**
+   * Verify the scores that have no verdict yet and store the result
+   * Returns the ones that were flagged
+   */
+  private async verifyScores(scores: ScoreRecord[]): Promise<FlaggedScore[]> {
+    const flagged: FlaggedScore[] = []
+
+    for (const score of scores.filter(score => score.flagged === undefined)) {
+      const result = RunVerifier.verify(score)
+      await this.store.saveVerification(score.id, result)
+      score.flagged = !result.valid
+
+      if (score.flagged) {
+        flagged.push({ id: score.id, score: score.score, reasons: result.reasons })
+      }
+    }
+
+    return flagged
+  }
+
+  /**
+   * The lowest score that can still make a full all-time board: its last
+   * entry's, since ties may go either way. Undefined while every score is needed
+   */
+  private static getMinScore(board: BoardSpec, current: LeaderboardEntry[]): number | undefined {
+    if (board.period !== 'allTime' || current.length < LeaderboardManager.MAX_ENTRIES) {
+      return undefined
+    }
+    return Math.min(...current.map(entry => entry.score))
+  }
+
+  /**
+   * Higher score first, then the earlier run, then a stable order by id
+   */
+  private static compare(a: ScoreRecord, b: ScoreRecord): number {
+    return b.score - a.score || a.timestamp - b.timestamp || a.id.localeCompare(b.id)
+  }
+
+  private static sameEntry(a: LeaderboardEntry, b: LeaderboardEntry | undefined): boolean {
+    return !!b &&
+      a.rank === b.rank &&
+      a.score === b.score &&
+      a.distance === b.distance &&
+      a.timestamp === b.timestamp &&
+      a.displayName === b.displayName
+  }
+}
+
+/**
+ * LeaderboardStore over the Firestore web SDK - used by the Node script;
+ * needs an identity the rules let write `leaderboards` (see firestore.rules).
+ * Reads always go to the server: a cached copy could rebuild a board from stale scores.
+ */
+export class FirestoreLeaderboardStore implements LeaderboardStore {
+  private readonly firestore: Firestore
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore
+  }
+
+  public async listScores(filter: ScoreFilter, minScore?: number): Promise<ScoreRecord[]> {
+    // Single-field filters only, so no composite indexes are needed
+    const constraints: QueryConstraint[] = []
+    if (filter.challengeDay !== undefined) {
+      constraints.push(where('challengeDay', '==', filter.challengeDay))
+    } else if (minScore !== undefined) {
+      constraints.push(where('score', '>=', minScore))
+    } else if (filter.from !== undefined) {
+      constraints.push(where('timestamp', '>=', new Date(filter.from)))
+      if (filter.to !== undefined) {
+        constraints.push(where('timestamp', '<', new Date(filter.to)))
+      }
+    } else {
+      constraints.push(where('gameMode', '==', filter.gameMode))
+    }
+
+    const snapshot = await getDocsFromServer(query(collection(this.firestore, 'scores'), ...constraints))
+    return snapshot.docs
+      .map(score => FirestoreLeaderboardStore.toScoreRecord(score.id, score.data()))
+      .filter((score): score is ScoreRecord => score !== null)
+  }
+
+  public async readEntries(boardId: string): Promise<LeaderboardEntry[]> {
+    const snapshot = await getDocsFromServer(collection(this.firestore, 'leaderboards', boardId, 'entries'))
+    return snapshot.docs.map(entry => {
+      const data = entry.data()
+      return {
+        userId: entry.id,
+        displayName: data.displayName,
+        score: data.score,
+        distance: data.distance,
+        timestamp: typeof data.timestamp?.toMillis === 'function' ? data.timestamp.toMillis() : Number(data.timestamp),
+        rank: data.rank
+      }
+    })
+  }
+
+  public async writeBoard(board: BoardSpec, upserts: LeaderboardEntry[], removedUserIds: string[]): Promise<void> {
+    // Top-100 boards stay well under the 500 writes allowed per batch
+    const batch = writeBatch(this.firestore)
+
+    batch.set(doc(this.firestore, 'leaderboards', board.id), {
+      period: board.period,
+      gameMode: board.gameMode,
+      key: board.key,
+      updatedAt: new Date()
+    })
+    upserts.forEach(entry => {
+      batch.set(doc(this.firestore, 'leaderboards', board.id, 'entries', entry.userId), {
+        ...entry,
+        timestamp: new Date(entry.timestamp)
+      })
+    })
+    removedUserIds.forEach(userId => {
+      batch.delete(doc(this.firestore, 'leaderboards', board.id, 'entries', userId))
+    })
+
+    await batch.commit()
+  }
+
+  public async saveVerification(scoreId: string, result: VerificationResult): Promise<void> {
+    await updateDoc(doc(this.firestore, 'scores', scoreId), {
+      flagged: !result.valid,
+      flagReasons: result.reasons,
+      verifiedAt: new Date()
+    })
+  }
+
+  private static toScoreRecord(id: string, data: any): ScoreRecord | null {
+    if (!data || typeof data.userId !== 'string' || typeof data.score !== 'number') {
+      return null
+    }
+
+    return {
+      id,
+      userId: data.userId,
+      displayName: typeof data.displayName === 'string' ? data.displayName : undefined,
+      score: data.score,
+      distance: typeof data.distance === 'number' ? data.distance : 0,
+      timestamp: typeof data.timestamp?.toMillis === 'function' ? data.timestamp.toMillis() : Number(data.timestamp) || 0,
+      gameMode: data.gameMode || 'normal',
+      challengeDay: typeof data.challengeDay === 'string' ? data.challengeDay : undefined,
+      seed: typeof data.seed === 'number' ? data.seed : undefined,
+      maxCombo: typeof data.maxCombo === 'number' ? data.maxCombo : undefined,
+      run: data.run && typeof data.run === 'object' ? data.run : undefined,
+      flagged: typeof data.flagged === 'boolean' ? data.flagged : undefined
+    }
+  }
+}
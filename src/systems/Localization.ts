@@ -0,0 +1,617 @@
+/**
+ * Localization - UI strings per language
+ *
+ * English is the reference table; the other languages must translate every
+ * key. Text is looked up when a scene builds its UI, so a language change
+ * applies from the next scene start.
+ */
+
+import { SettingsManager, type Language } from './SettingsManager'
+
+const en = {
+  'menu.subtitle': 'Tap to fly • Collect rings • Avoid clouds',
+  'menu.start': 'START GAME',
+  'menu.dailyRun': 'DAILY RUN',
+  'menu.dailyBoard': 'DAILY BOARD',
+  'menu.scores': 'VIEW SCORES',
+  'menu.settings': 'SETTINGS',
+  'menu.difficulty': 'DIFFICULTY',
+  'menu.achievements': 'ACHIEVEMENTS',
+  'hud.score': 'Score',
+  'hud.distance': 'Distance',
+  'hud.launch.both': 'TAP SPACE/UP/CLICK TO LAUNCH • TAP TO FLAP',
+  'hud.launch.touch': 'TAP TO LAUNCH • TAP TO FLAP',
+  'hud.launch.keyboard': 'PRESS SPACE/UP TO LAUNCH • PRESS TO FLAP',
+  'hud.rings': 'COLLECT RINGS: BRONZE(20) SILVER(50) GOLD(100) • R TO RESTART',
+  'settings.title': 'SETTINGS',
+  'settings.music': 'MUSIC',
+  'settings.sfx': 'SOUND FX',
+  'settings.mute': 'MUTE',
+  'settings.controls': 'CONTROLS',
+  'settings.reducedMotion': 'REDUCED MOTION',
+  'settings.ringPalette': 'RING COLOURS',
+  'settings.hudScale': 'HUD SIZE',
+  'settings.language': 'LANGUAGE',
+  'settings.scoresPerPage': 'SCORES PER PAGE',
+  'settings.instructions': 'HINT TIME',
+  'settings.reset': 'RESET',
+  'option.on': 'ON',
+  'option.off': 'OFF',
+  'option.both': 'TAP + KEYS',
+  'option.touch': 'TAP',
+  'option.keyboard': 'KEYS',
+  'option.standard': 'STANDARD',
+  'option.colorBlind': 'COLOUR-BLIND',
+  'pause.title': 'PAUSED',
+  'pause.resume': 'RESUME',
+  'pause.restart': 'RESTART',
+  'pause.home': 'HOME',
+  'achievements.title': 'ACHIEVEMENTS',
+  'achievements.unlocked': 'ACHIEVEMENT UNLOCKED',
+  'hud.combo': 'COMBO',
+  'powerUp.shield': 'SHIELD',
+  'powerUp.magnet': 'MAGNET',
+  'powerUp.slowMo': 'SLOW-MO',
+  'powerUp.doublePoints': '2X',
+  'achievement.bronze-50.name': 'BRONZE AGE',
+  'achievement.bronze-50.description': 'Collect 50 bronze rings',
+  'achievement.silver-25.name': 'SILVER LINING',
+  'achievement.silver-25.description': 'Collect 25 silver rings',
+  'achievement.gold-1.name': 'GOLDEN TOUCH',
+  'achievement.gold-1.description': 'Collect a gold ring',
+  'achievement.gold-20.name': 'GOLD RUSH',
+  'achievement.gold-20.description': 'Collect 20 gold rings',
+  'achievement.distance-100.name': 'AIRBORNE',
+  'achievement.distance-100.description': 'Fly 100m in one run',
+  'achievement.distance-500.name': 'LONG HAUL',
+  'achievement.distance-500.description': 'Fly 500m in one run',
+  'achievement.distance-1000.name': 'GLOBETROTTER',
+  'achievement.distance-1000.description': 'Fly 1000m in one run',
+  'achievement.distance-2500.name': 'MARATHON',
+  'achievement.distance-2500.description': 'Fly 2500m in one run',
+  'achievement.near-miss-1.name': 'CLOSE SHAVE',
+  'achievement.near-miss-1.description': 'Skim past a cloud',
+  'achievement.near-miss-run-5.name': 'DAREDEVIL',
+  'achievement.near-miss-run-5.description': '5 near misses in one run',
+  'achievement.near-miss-50.name': 'CLOUD SKIMMER',
+  'achievement.near-miss-50.description': '50 near misses in total',
+  'achievement.glide-3.name': 'GLIDER',
+  'achievement.glide-3.description': 'Go 3s without flapping',
+  'achievement.glide-8.name': 'PAPER HAWK',
+  'achievement.glide-8.description': 'Go 8s without flapping',
+  'achievement.runs-day-3.name': 'DAILY FLYER',
+  'achievement.runs-day-3.description': 'Finish 3 runs in a day',
+  'achievement.runs-day-10.name': 'FREQUENT FLYER',
+  'achievement.runs-day-10.description': 'Finish 10 runs in a day',
+  'leaderboard.title': 'GLOBAL LEADERBOARD',
+  'leaderboard.allTime': 'ALL-TIME',
+  'leaderboard.weekly': 'THIS WEEK',
+  'leaderboard.daily': 'DAILY',
+  'leaderboard.loading': 'LOADING...',
+  'leaderboard.empty': 'NO SCORES YET',
+  'leaderboard.unavailable': 'LEADERBOARD UNAVAILABLE OFFLINE',
+  'leaderboard.cached': 'OFFLINE - SAVED COPY FROM',
+  'leaderboard.you': 'YOU',
+  'leaderboard.unranked': 'NOT RANKED YET',
+  'scores.sync.synced': 'ALL SCORES BACKED UP',
+  'scores.sync.syncing': 'SYNCING SCORES...',
+  'scores.sync.pending': 'SCORES WAITING TO SYNC - TAP TO RETRY',
+  'scores.sync.rejected': 'SCORES REJECTED BY THE SERVER - TAP TO RETRY',
+  'scores.sync.offline': 'OFFLINE - SCORES WILL SYNC LATER',
+  'scores.sync.signedOut': 'SIGN IN TO BACK UP SCORES',
+  'scores.export.json': 'EXPORT JSON',
+  'scores.export.csv': 'EXPORT CSV',
+  'scores.import': 'IMPORT',
+  'scores.import.done': 'SCORES IMPORTED',
+  'scores.import.invalid': 'NOT A SCORE FILE',
+  'scores.import.checksum': 'FILE WAS CHANGED AFTER EXPORT',
+  'scores.export.failed': 'EXPORT FAILED',
+  'scores.export.csvNote': 'CSV SAVED WITHOUT RUN LOGS - USE JSON TO KEEP THEM',
+  'gameOver.title': 'GAME OVER',
+  'gameOver.challengeTitle': 'DAILY CHALLENGE OVER',
+  'gameOver.newBest': '★ NEW PERSONAL BEST! ★',
+  'gameOver.finalScore': 'FINAL SCORE',
+  'gameOver.rank': 'Personal Rank',
+  'gameOver.distance': 'DISTANCE',
+  'gameOver.combo': 'BEST COMBO',
+  'gameOver.seed': 'SEED',
+  'gameOver.attempts': 'ATTEMPTS LEFT TODAY',
+  'gameOver.board': 'BOARD',
+  'gameOver.ghost': 'GHOST',
+  'gameOver.help': 'CLICK ANY BUTTON OR PRESS R/SPACE/ENTER',
+  'gameOver.topScores': 'YOUR TOP SCORES',
+  'gameOver.points': 'pts',
+  'gameOver.latest': 'Latest',
+  'gameOver.firstGame': 'No previous scores\nThis is your first game!',
+  'biome.meadow': 'MEADOW',
+  'biome.desert': 'DESERT',
+  'biome.snow': 'SNOWY MOUNTAINS',
+  'biome.city': 'CITY',
+  'table.rank': 'Rank',
+  'table.combo': 'Combo',
+  'scores.title': 'YOUR SCORES',
+  'scores.title.guest': 'YOUR SCORES (GUEST)',
+  'scores.title.challenge': 'DAILY CHALLENGE',
+  'scores.tab.all': 'ALL RUNS',
+  'scores.tab.daily': 'DAILY',
+  'scores.global': 'GLOBAL',
+  'scores.prev': '← PREV',
+  'scores.next': 'NEXT →',
+  'scores.stats.challenge': 'Daily Challenge',
+  'scores.stats.bestToday': 'Best Today',
+  'scores.stats.attempts': 'Attempts Used',
+  'scores.stats.runs': 'Runs Recorded',
+  'scores.stats.empty': 'No games played yet!\nStart playing to see your statistics.',
+  'scores.stats.title': 'Personal Statistics',
+  'scores.stats.guest': '(Guest Account)',
+  'scores.stats.best': 'Personal Best',
+  'scores.stats.games': 'Games Played',
+  'scores.stats.average': 'Average Score',
+  'scores.stats.total': 'Total Scores Recorded',
+  'scores.error.load': 'Failed to load scores. Please try again.',
+  'scores.error.table': 'Failed to load score table.',
+  'scores.error.refresh': 'Failed to refresh scores.',
+  'scores.error.stats': 'Failed to load statistics.',
+  'common.back': '← BACK TO MENU'
+}
+
+export type StringKey = keyof typeof en
+
+const STRINGS: Record<Language, Record<StringKey, string>> = {
+  en,
+  es: {
+    'menu.subtitle': 'Toca para volar • Recoge anillos • Evita nubes',
+    'menu.start': 'JUGAR',
+    'menu.dailyRun': 'RETO DIARIO',
+    'menu.dailyBoard': 'TABLA DIARIA',
+    'menu.scores': 'PUNTUACIONES',
+    'menu.settings': 'AJUSTES',
+    'menu.difficulty': 'DIFICULTAD',
+    'menu.achievements': 'LOGROS',
+    'hud.score': 'Puntos',
+    'hud.distance': 'Distancia',
+    'hud.launch.both': 'TOCA ESPACIO/ARRIBA/CLIC PARA LANZAR • TOCA PARA ALETEAR',
+    'hud.launch.touch': 'TOCA PARA LANZAR • TOCA PARA ALETEAR',
+    'hud.launch.keyboard': 'PULSA ESPACIO/ARRIBA PARA LANZAR • PULSA PARA ALETEAR',
+    'hud.rings': 'ANILLOS: BRONCE(20) PLATA(50) ORO(100) • R PARA REINICIAR',
+    'settings.title': 'AJUSTES',
+    'settings.music': 'MÚSICA',
+    'settings.sfx': 'EFECTOS',
+    'settings.mute': 'SILENCIO',
+    'settings.controls': 'CONTROLES',
+    'settings.reducedMotion': 'MENOS MOVIMIENTO',
+    'settings.ringPalette': 'COLOR ANILLOS',
+    'settings.hudScale': 'TAMAÑO HUD',
+    'settings.language': 'IDIOMA',
+    'settings.scoresPerPage': 'PUNTOS POR PÁGINA',
+    'settings.instructions': 'TIEMPO AYUDA',
+    'settings.reset': 'RESTABLECER',
+    'option.on': 'SÍ',
+    'option.off': 'NO',
+    'option.both': 'TOQUE + TECLAS',
+    'option.touch': 'TOQUE',
+    'option.keyboard': 'TECLAS',
+    'option.standard': 'NORMAL',
+    'option.colorBlind': 'DALTÓNICO',
+    'pause.title': 'PAUSA',
+    'pause.resume': 'CONTINUAR',
+    'pause.restart': 'REINICIAR',
+    'pause.home': 'MENÚ',
+    'achievements.title': 'LOGROS',
+    'achievements.unlocked': 'LOGRO DESBLOQUEADO',
+    'hud.combo': 'COMBO',
+    'powerUp.shield': 'ESCUDO',
+    'powerUp.magnet': 'IMÁN',
+    'powerUp.slowMo': 'LENTO',
+    'powerUp.doublePoints': '2X',
+    'achievement.bronze-50.name': 'EDAD DE BRONCE',
+    'achievement.bronze-50.description': 'Recoge 50 anillos de bronce',
+    'achievement.silver-25.name': 'RAYO DE PLATA',
+    'achievement.silver-25.description': 'Recoge 25 anillos de plata',
+    'achievement.gold-1.name': 'TOQUE DORADO',
+    'achievement.gold-1.description': 'Recoge un anillo de oro',
+    'achievement.gold-20.name': 'FIEBRE DEL ORO',
+    'achievement.gold-20.description': 'Recoge 20 anillos de oro',
+    'achievement.distance-100.name': 'EN EL AIRE',
+    'achievement.distance-100.description': 'Vuela 100m en una partida',
+    'achievement.distance-500.name': 'LARGO RECORRIDO',
+    'achievement.distance-500.description': 'Vuela 500m en una partida',
+    'achievement.distance-1000.name': 'TROTAMUNDOS',
+    'achievement.distance-1000.description': 'Vuela 1000m en una partida',
+    'achievement.distance-2500.name': 'MARATÓN',
+    'achievement.distance-2500.description': 'Vuela 2500m en una partida',
+    'achievement.near-miss-1.name': 'POR LOS PELOS',
+    'achievement.near-miss-1.description': 'Roza una nube',
+    'achievement.near-miss-run-5.name': 'TEMERARIO',
+    'achievement.near-miss-run-5.description': '5 roces en una partida',
+    'achievement.near-miss-50.name': 'ROZANUBES',
+    'achievement.near-miss-50.description': '50 roces en total',
+    'achievement.glide-3.name': 'PLANEADOR',
+    'achievement.glide-3.description': 'Vuela 3s sin aletear',
+    'achievement.glide-8.name': 'HALCÓN DE PAPEL',
+    'achievement.glide-8.description': 'Vuela 8s sin aletear',
+    'achievement.runs-day-3.name': 'VOLADOR DIARIO',
+    'achievement.runs-day-3.description': 'Termina 3 partidas en un día',
+    'achievement.runs-day-10.name': 'VIAJERO FRECUENTE',
+    'achievement.runs-day-10.description': 'Termina 10 partidas en un día',
+    'leaderboard.title': 'CLASIFICACIÓN MUNDIAL',
+    'leaderboard.allTime': 'HISTÓRICO',
+    'leaderboard.weekly': 'ESTA SEMANA',
+    'leaderboard.daily': 'DIARIO',
+    'leaderboard.loading': 'CARGANDO...',
+    'leaderboard.empty': 'AÚN NO HAY PUNTUACIONES',
+    'leaderboard.unavailable': 'CLASIFICACIÓN NO DISPONIBLE SIN CONEXIÓN',
+    'leaderboard.cached': 'SIN CONEXIÓN - COPIA DEL',
+    'leaderboard.you': 'TÚ',
+    'leaderboard.unranked': 'AÚN SIN CLASIFICAR',
+    'scores.sync.synced': 'PUNTUACIONES GUARDADAS',
+    'scores.sync.syncing': 'SINCRONIZANDO...',
+    'scores.sync.pending': 'PENDIENTES - TOCA PARA REINTENTAR',
+    'scores.sync.rejected': 'RECHAZADAS - TOCA PARA REINTENTAR',
+    'scores.sync.offline': 'SIN CONEXIÓN - SE SINCRONIZARÁN LUEGO',
+    'scores.sync.signedOut': 'INICIA SESIÓN PARA GUARDARLAS',
+    'scores.export.json': 'EXPORTAR JSON',
+    'scores.export.csv': 'EXPORTAR CSV',
+    'scores.import': 'IMPORTAR',
+    'scores.import.done': 'PUNTUACIONES IMPORTADAS',
+    'scores.import.invalid': 'NO ES UN ARCHIVO DE PUNTUACIONES',
+    'scores.import.checksum': 'ARCHIVO MODIFICADO TRAS EXPORTAR',
+    'scores.export.failed': 'ERROR AL EXPORTAR',
+    'scores.export.csvNote': 'CSV GUARDADO SIN REGISTROS DE VUELO - USA JSON PARA CONSERVARLOS',
+    'gameOver.title': 'FIN DE LA PARTIDA',
+    'gameOver.challengeTitle': 'RETO DIARIO TERMINADO',
+    'gameOver.newBest': '★ ¡NUEVO RÉCORD PERSONAL! ★',
+    'gameOver.finalScore': 'PUNTUACIÓN FINAL',
+    'gameOver.rank': 'Puesto personal',
+    'gameOver.distance': 'DISTANCIA',
+    'gameOver.combo': 'MEJOR COMBO',
+    'gameOver.seed': 'SEMILLA',
+    'gameOver.attempts': 'INTENTOS RESTANTES HOY',
+    'gameOver.board': 'TABLA',
+    'gameOver.ghost': 'FANTASMA',
+    'gameOver.help': 'PULSA UN BOTÓN O R/ESPACIO/ENTER',
+    'gameOver.topScores': 'TUS MEJORES PUNTUACIONES',
+    'gameOver.points': 'pts',
+    'gameOver.latest': 'Última',
+    'gameOver.firstGame': 'Sin puntuaciones previas\n¡Es tu primera partida!',
+    'biome.meadow': 'PRADERA',
+    'biome.desert': 'DESIERTO',
+    'biome.snow': 'MONTAÑAS NEVADAS',
+    'biome.city': 'CIUDAD',
+    'table.rank': 'Puesto',
+    'table.combo': 'Combo',
+    'scores.title': 'TUS PUNTUACIONES',
+    'scores.title.guest': 'TUS PUNTUACIONES (INVITADO)',
+    'scores.title.challenge': 'RETO DIARIO',
+    'scores.tab.all': 'TODAS',
+    'scores.tab.daily': 'DIARIO',
+    'scores.global': 'MUNDIAL',
+    'scores.prev': '← ANT.',
+    'scores.next': 'SIG. →',
+    'scores.stats.challenge': 'Reto diario',
+    'scores.stats.bestToday': 'Mejor hoy',
+    'scores.stats.attempts': 'Intentos usados',
+    'scores.stats.runs': 'Partidas registradas',
+    'scores.stats.empty': '¡Aún no has jugado!\nJuega para ver tus estadísticas.',
+    'scores.stats.title': 'Estadísticas personales',
+    'scores.stats.guest': '(Cuenta de invitado)',
+    'scores.stats.best': 'Récord personal',
+    'scores.stats.games': 'Partidas jugadas',
+    'scores.stats.average': 'Puntuación media',
+    'scores.stats.total': 'Puntuaciones registradas',
+    'scores.error.load': 'No se pudieron cargar las puntuaciones. Inténtalo de nuevo.',
+    'scores.error.table': 'No se pudo cargar la tabla.',
+    'scores.error.refresh': 'No se pudieron actualizar las puntuaciones.',
+    'scores.error.stats': 'No se pudieron cargar las estadísticas.',
+    'common.back': '← VOLVER AL MENÚ'
+  },
+  fr: {
+    'menu.subtitle': 'Touchez pour voler • Attrapez les anneaux • Évitez les nuages',
+    'menu.start': 'JOUER',
+    'menu.dailyRun': 'DÉFI DU JOUR',
+    'menu.dailyBoard': 'CLASSEMENT DU JOUR',
+    'menu.scores': 'SCORES',
+    'menu.settings': 'OPTIONS',
+    'menu.difficulty': 'DIFFICULTÉ',
+    'menu.achievements': 'SUCCÈS',
+    'hud.score': 'Score',
+    'hud.distance': 'Distance',
+    'hud.launch.both': 'ESPACE/HAUT/CLIC POUR LANCER • TOUCHEZ POUR BATTRE',
+    'hud.launch.touch': 'TOUCHEZ POUR LANCER • TOUCHEZ POUR BATTRE',
+    'hud.launch.keyboard': 'ESPACE/HAUT POUR LANCER • APPUYEZ POUR BATTRE',
+    'hud.rings': 'ANNEAUX : BRONZE(20) ARGENT(50) OR(100) • R POUR REJOUER',
+    'settings.title': 'OPTIONS',
+    'settings.music': 'MUSIQUE',
+    'settings.sfx': 'EFFETS',
+    'settings.mute': 'MUET',
+    'settings.controls': 'CONTRÔLES',
+    'settings.reducedMotion': 'MOUVEMENT RÉDUIT',
+    'settings.ringPalette': 'COULEUR ANNEAUX',
+    'settings.hudScale': 'TAILLE HUD',
+    'settings.language': 'LANGUE',
+    'settings.scoresPerPage': 'SCORES PAR PAGE',
+    'settings.instructions': 'DURÉE AIDE',
+    'settings.reset': 'RÉINITIALISER',
+    'option.on': 'OUI',
+    'option.off': 'NON',
+    'option.both': 'TOUCHER + CLAVIER',
+    'option.touch': 'TOUCHER',
+    'option.keyboard': 'CLAVIER',
+    'option.standard': 'STANDARD',
+    'option.colorBlind': 'DALTONIEN',
+    'pause.title': 'PAUSE',
+    'pause.resume': 'REPRENDRE',
+    'pause.restart': 'RECOMMENCER',
+    'pause.home': 'MENU',
+    'achievements.title': 'SUCCÈS',
+    'achievements.unlocked': 'SUCCÈS DÉBLOQUÉ',
+    'hud.combo': 'COMBO',
+    'powerUp.shield': 'BOUCLIER',
+    'powerUp.magnet': 'AIMANT',
+    'powerUp.slowMo': 'RALENTI',
+    'powerUp.doublePoints': '2X',
+    'achievement.bronze-50.name': 'ÂGE DU BRONZE',
+    'achievement.bronze-50.description': 'Attrapez 50 anneaux de bronze',
+    'achievement.silver-25.name': 'REFLET ARGENTÉ',
+    'achievement.silver-25.description': 'Attrapez 25 anneaux argentés',
+    'achievement.gold-1.name': 'TOUCHE DORÉE',
+    'achievement.gold-1.description': 'Attrapez un anneau doré',
+    'achievement.gold-20.name': 'FIÈVRE DORÉE',
+    'achievement.gold-20.description': 'Attrapez 20 anneaux dorés',
+    'achievement.distance-100.name': 'EN VOL',
+    'achievement.distance-100.description': 'Volez 100m en une partie',
+    'achievement.distance-500.name': 'LONG COURRIER',
+    'achievement.distance-500.description': 'Volez 500m en une partie',
+    'achievement.distance-1000.name': 'GLOBE-TROTTEUR',
+    'achievement.distance-1000.description': 'Volez 1000m en une partie',
+    'achievement.distance-2500.name': 'MARATHON',
+    'achievement.distance-2500.description': 'Volez 2500m en une partie',
+    'achievement.near-miss-1.name': 'DE JUSTESSE',
+    'achievement.near-miss-1.description': 'Frôlez un nuage',
+    'achievement.near-miss-run-5.name': 'CASSE-COU',
+    'achievement.near-miss-run-5.description': '5 frôlements en une partie',
+    'achievement.near-miss-50.name': 'FRÔLEUR DE NUAGES',
+    'achievement.near-miss-50.description': '50 frôlements au total',
+    'achievement.glide-3.name': 'PLANEUR',
+    'achievement.glide-3.description': 'Tenez 3s sans battre des ailes',
+    'achievement.glide-8.name': 'FAUCON DE PAPIER',
+    'achievement.glide-8.description': 'Tenez 8s sans battre des ailes',
+    'achievement.runs-day-3.name': 'PILOTE DU JOUR',
+    'achievement.runs-day-3.description': 'Finissez 3 parties en un jour',
+    'achievement.runs-day-10.name': 'GRAND VOYAGEUR',
+    'achievement.runs-day-10.description': 'Finissez 10 parties en un jour',
+    'leaderboard.title': 'CLASSEMENT MONDIAL',
+    'leaderboard.allTime': 'TOUS TEMPS',
+    'leaderboard.weekly': 'CETTE SEMAINE',
+    'leaderboard.daily': 'DU JOUR',
+    'leaderboard.loading': 'CHARGEMENT...',
+    'leaderboard.empty': 'AUCUN SCORE POUR LE MOMENT',
+    'leaderboard.unavailable': 'CLASSEMENT INDISPONIBLE HORS LIGNE',
+    'leaderboard.cached': 'HORS LIGNE - COPIE DU',
+    'leaderboard.you': 'VOUS',
+    'leaderboard.unranked': 'PAS ENCORE CLASSÉ',
+    'scores.sync.synced': 'SCORES SAUVEGARDÉS',
+    'scores.sync.syncing': 'SYNCHRONISATION...',
+    'scores.sync.pending': 'EN ATTENTE - TOUCHE POUR RÉESSAYER',
+    'scores.sync.rejected': 'REFUSÉS - TOUCHE POUR RÉESSAYER',
+    'scores.sync.offline': 'HORS LIGNE - SYNCHRO PLUS TARD',
+    'scores.sync.signedOut': 'CONNECTE-TOI POUR LES SAUVEGARDER',
+    'scores.export.json': 'EXPORTER JSON',
+    'scores.export.csv': 'EXPORTER CSV',
+    'scores.import': 'IMPORTER',
+    'scores.import.done': 'SCORES IMPORTÉS',
+    'scores.import.invalid': 'PAS UN FICHIER DE SCORES',
+    'scores.import.checksum': 'FICHIER MODIFIÉ APRÈS EXPORT',
+    'scores.export.failed': 'EXPORT ÉCHOUÉ',
+    'scores.export.csvNote': 'CSV ENREGISTRÉ SANS JOURNAUX DE VOL - UTILISE JSON POUR LES GARDER',
+    'gameOver.title': 'PARTIE TERMINÉE',
+    'gameOver.challengeTitle': 'DÉFI DU JOUR TERMINÉ',
+    'gameOver.newBest': '★ NOUVEAU RECORD PERSONNEL ! ★',
+    'gameOver.finalScore': 'SCORE FINAL',
+    'gameOver.rank': 'Rang personnel',
+    'gameOver.distance': 'DISTANCE',
+    'gameOver.combo': 'MEILLEUR COMBO',
+    'gameOver.seed': 'GRAINE',
+    'gameOver.attempts': 'ESSAIS RESTANTS CE JOUR',
+    'gameOver.board': 'TABLEAU',
+    'gameOver.ghost': 'FANTÔME',
+    'gameOver.help': 'CLIQUEZ UN BOUTON OU APPUYEZ SUR R/ESPACE/ENTRÉE',
+    'gameOver.topScores': 'VOS MEILLEURS SCORES',
+    'gameOver.points': 'pts',
+    'gameOver.latest': 'Dernière',
+    'gameOver.firstGame': 'Aucun score précédent\nVoici votre première partie !',
+    'biome.meadow': 'PRAIRIE',
+    'biome.desert': 'DÉSERT',
+    'biome.snow': 'MONTAGNES ENNEIGÉES',
+    'biome.city': 'VILLE',
+    'table.rank': 'Rang',
+    'table.combo': 'Combo',
+    'scores.title': 'VOS SCORES',
+    'scores.title.guest': 'VOS SCORES (INVITÉ)',
+    'scores.title.challenge': 'DÉFI DU JOUR',
+    'scores.tab.all': 'TOUTES',
+    'scores.tab.daily': 'DU JOUR',
+    'scores.global': 'MONDIAL',
+    'scores.prev': '← PRÉC.',
+    'scores.next': 'SUIV. →',
+    'scores.stats.challenge': 'Défi du jour',
+    'scores.stats.bestToday': 'Meilleur du jour',
+    'scores.stats.attempts': 'Essais utilisés',
+    'scores.stats.runs': 'Parties enregistrées',
+    'scores.stats.empty': 'Aucune partie jouée !\nJouez pour voir vos statistiques.',
+    'scores.stats.title': 'Statistiques personnelles',
+    'scores.stats.guest': '(Compte invité)',
+    'scores.stats.best': 'Record personnel',
+    'scores.stats.games': 'Parties jouées',
+    'scores.stats.average': 'Score moyen',
+    'scores.stats.total': 'Scores enregistrés',
+    'scores.error.load': 'Impossible de charger les scores. Réessayez.',
+    'scores.error.table': 'Impossible de charger le tableau.',
+    'scores.error.refresh': 'Impossible de mettre à jour les scores.',
+    'scores.error.stats': 'Impossible de charger les statistiques.',
+    'common.back': '← RETOUR AU MENU'
+  },
+  de: {
+    'menu.subtitle': 'Tippen zum Fliegen • Ringe sammeln • Wolken meiden',
+    'menu.start': 'SPIELEN',
+    'menu.dailyRun': 'TAGESFLUG',
+    'menu.dailyBoard': 'TAGESLISTE',
+    'menu.scores': 'PUNKTE',
+    'menu.settings': 'OPTIONEN',
+    'menu.difficulty': 'SCHWIERIGKEIT',
+    'menu.achievements': 'ERFOLGE',
+    'hud.score': 'Punkte',
+    'hud.distance': 'Strecke',
+    'hud.launch.both': 'LEERTASTE/HOCH/KLICK ZUM START • TIPPEN ZUM FLATTERN',
+    'hud.launch.touch': 'TIPPEN ZUM START • TIPPEN ZUM FLATTERN',
+    'hud.launch.keyboard': 'LEERTASTE/HOCH ZUM START • DRÜCKEN ZUM FLATTERN',
+    'hud.rings': 'RINGE: BRONZE(20) SILBER(50) GOLD(100) • R FÜR NEUSTART',
+    'settings.title': 'OPTIONEN',
+    'settings.music': 'MUSIK',
+    'settings.sfx': 'EFFEKTE',
+    'settings.mute': 'STUMM',
+    'settings.controls': 'STEUERUNG',
+    'settings.reducedMotion': 'WENIGER BEWEGUNG',
+    'settings.ringPalette': 'RINGFARBEN',
+    'settings.hudScale': 'HUD-GRÖSSE',
+    'settings.language': 'SPRACHE',
+    'settings.scoresPerPage': 'PUNKTE PRO SEITE',
+    'settings.instructions': 'HINWEISDAUER',
+    'settings.reset': 'ZURÜCKSETZEN',
+    'option.on': 'AN',
+    'option.off': 'AUS',
+    'option.both': 'TIPPEN + TASTEN',
+    'option.touch': 'TIPPEN',
+    'option.keyboard': 'TASTEN',
+    'option.standard': 'STANDARD',
+    'option.colorBlind': 'FARBENBLIND',
+    'pause.title': 'PAUSE',
+    'pause.resume': 'WEITER',
+    'pause.restart': 'NEUSTART',
+    'pause.home': 'MENÜ',
+    'achievements.title': 'ERFOLGE',
+    'achievements.unlocked': 'ERFOLG FREIGESCHALTET',
+    'hud.combo': 'KOMBO',
+    'powerUp.shield': 'SCHILD',
+    'powerUp.magnet': 'MAGNET',
+    'powerUp.slowMo': 'ZEITLUPE',
+    'powerUp.doublePoints': '2X',
+    'achievement.bronze-50.name': 'BRONZEZEIT',
+    'achievement.bronze-50.description': 'Sammle 50 Bronzeringe',
+    'achievement.silver-25.name': 'SILBERSTREIF',
+    'achievement.silver-25.description': 'Sammle 25 Silberringe',
+    'achievement.gold-1.name': 'GOLDENES HÄNDCHEN',
+    'achievement.gold-1.description': 'Sammle einen Goldring',
+    'achievement.gold-20.name': 'GOLDRAUSCH',
+    'achievement.gold-20.description': 'Sammle 20 Goldringe',
+    'achievement.distance-100.name': 'ABGEHOBEN',
+    'achievement.distance-100.description': 'Fliege 100m in einem Flug',
+    'achievement.distance-500.name': 'LANGSTRECKE',
+    'achievement.distance-500.description': 'Fliege 500m in einem Flug',
+    'achievement.distance-1000.name': 'WELTENBUMMLER',
+    'achievement.distance-1000.description': 'Fliege 1000m in einem Flug',
+    'achievement.distance-2500.name': 'MARATHON',
+    'achievement.distance-2500.description': 'Fliege 2500m in einem Flug',
+    'achievement.near-miss-1.name': 'HAARSCHARF',
+    'achievement.near-miss-1.description': 'Streife knapp an einer Wolke vorbei',
+    'achievement.near-miss-run-5.name': 'WAGHALS',
+    'achievement.near-miss-run-5.description': '5 Beinahe-Treffer in einem Flug',
+    'achievement.near-miss-50.name': 'WOLKENSTREIFER',
+    'achievement.near-miss-50.description': '50 Beinahe-Treffer insgesamt',
+    'achievement.glide-3.name': 'SEGLER',
+    'achievement.glide-3.description': '3s ohne Flügelschlag',
+    'achievement.glide-8.name': 'PAPIERFALKE',
+    'achievement.glide-8.description': '8s ohne Flügelschlag',
+    'achievement.runs-day-3.name': 'TAGESFLIEGER',
+    'achievement.runs-day-3.description': 'Beende 3 Flüge an einem Tag',
+    'achievement.runs-day-10.name': 'VIELFLIEGER',
+    'achievement.runs-day-10.description': 'Beende 10 Flüge an einem Tag',
+    'leaderboard.title': 'WELTRANGLISTE',
+    'leaderboard.allTime': 'ALLE ZEITEN',
+    'leaderboard.weekly': 'DIESE WOCHE',
+    'leaderboard.daily': 'TÄGLICH',
+    'leaderboard.loading': 'LADEN...',
+    'leaderboard.empty': 'NOCH KEINE PUNKTE',
+    'leaderboard.unavailable': 'RANGLISTE OFFLINE NICHT VERFÜGBAR',
+    'leaderboard.cached': 'OFFLINE - KOPIE VOM',
+    'leaderboard.you': 'DU',
+    'leaderboard.unranked': 'NOCH NICHT PLATZIERT',
+    'scores.sync.synced': 'PUNKTE GESICHERT',
+    'scores.sync.syncing': 'SYNCHRONISIERE...',
+    'scores.sync.pending': 'AUSSTEHEND - TIPPEN ZUM WIEDERHOLEN',
+    'scores.sync.rejected': 'ABGELEHNT - TIPPEN ZUM WIEDERHOLEN',
+    'scores.sync.offline': 'OFFLINE - SYNC FOLGT SPÄTER',
+    'scores.sync.signedOut': 'ANMELDEN ZUM SICHERN',
+    'scores.export.json': 'JSON EXPORTIEREN',
+    'scores.export.csv': 'CSV EXPORTIEREN',
+    'scores.import': 'IMPORTIEREN',
+    'scores.import.done': 'PUNKTE IMPORTIERT',
+    'scores.import.invalid': 'KEINE PUNKTEDATEI',
+    'scores.import.checksum': 'DATEI NACH DEM EXPORT GEÄNDERT',
+    'scores.export.failed': 'EXPORT FEHLGESCHLAGEN',
+    'scores.export.csvNote': 'CSV OHNE FLUGPROTOKOLLE GESPEICHERT - JSON BEHÄLT SIE',
+    'gameOver.title': 'SPIEL VORBEI',
+    'gameOver.challengeTitle': 'TAGESFLUG VORBEI',
+    'gameOver.newBest': '★ NEUER PERSÖNLICHER REKORD! ★',
+    'gameOver.finalScore': 'ENDSTAND',
+    'gameOver.rank': 'Persönlicher Rang',
+    'gameOver.distance': 'STRECKE',
+    'gameOver.combo': 'BESTE KOMBO',
+    'gameOver.seed': 'SEED',
+    'gameOver.attempts': 'VERSUCHE HEUTE ÜBRIG',
+    'gameOver.board': 'TABELLE',
+    'gameOver.ghost': 'GEIST',
+    'gameOver.help': 'KLICKE EINEN KNOPF ODER DRÜCKE R/LEERTASTE/ENTER',
+    'gameOver.topScores': 'DEINE BESTEN PUNKTE',
+    'gameOver.points': 'Pkt',
+    'gameOver.latest': 'Neueste',
+    'gameOver.firstGame': 'Noch keine Punkte\nDas ist dein erstes Spiel!',
+    'biome.meadow': 'WIESE',
+    'biome.desert': 'WÜSTE',
+    'biome.snow': 'VERSCHNEITE BERGE',
+    'biome.city': 'STADT',
+    'table.rank': 'Rang',
+    'table.combo': 'Kombo',
+    'scores.title': 'DEINE PUNKTE',
+    'scores.title.guest': 'DEINE PUNKTE (GAST)',
+    'scores.title.challenge': 'TAGESFLUG',
+    'scores.tab.all': 'ALLE',
+    'scores.tab.daily': 'TÄGLICH',
+    'scores.global': 'GLOBAL',
+    'scores.prev': '← ZURÜCK',
+    'scores.next': 'WEITER →',
+    'scores.stats.challenge': 'Tagesflug',
+    'scores.stats.bestToday': 'Heute am besten',
+    'scores.stats.attempts': 'Versuche genutzt',
+    'scores.stats.runs': 'Flüge gespeichert',
+    'scores.stats.empty': 'Noch keine Spiele!\nSpiele, um deine Statistik zu sehen.',
+    'scores.stats.title': 'Persönliche Statistik',
+    'scores.stats.guest': '(Gastkonto)',
+    'scores.stats.best': 'Persönlicher Rekord',
+    'scores.stats.games': 'Gespielte Spiele',
+    'scores.stats.average': 'Durchschnitt',
+    'scores.stats.total': 'Gespeicherte Punkte',
+    'scores.error.load': 'Punkte konnten nicht geladen werden. Bitte erneut versuchen.',
+    'scores.error.table': 'Tabelle konnte nicht geladen werden.',
+    'scores.error.refresh': 'Punkte konnten nicht aktualisiert werden.',
+    'scores.error.stats': 'Statistik konnte nicht geladen werden.',
+    'common.back': '← ZURÜCK ZUM MENÜ'
+  }
+}
+
+/**
+ * Language names, written in their own language
+ */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'ENGLISH',
+  es: 'ESPAÑOL',
+  fr: 'FRANÇAIS',
+  de: 'DEUTSCH'
+}
+
+/**
+ * Translate a UI string into the player's language
+ */
+export function t(key: StringKey): string {
+  return STRINGS[SettingsManager.getInstance().get().language][key]
+}
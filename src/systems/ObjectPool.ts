@@ -0,0 +1,110 @@
+import { AssetCounter } from './AssetCleanupConfig'
+
+/**
+ * ObjectPool - Recycles game objects instead of destroying them
+ *
+ * Objects are created through the factory only when no released object is
+ * available. The caller resets an acquired object for its new use; the
+ * release hook puts it back to sleep (stop tweens, hide, disable its body).
+ * Pool sizes are reported to the AssetCounter under the pool's name.
+ */
+
+export interface PoolStats {
+  active: number // Objects currently in use
+  free: number // Released objects waiting to be reused
+  created: number // Objects the factory has made
+}
+
+export interface PoolHooks<T> {
+  create: () => T
+  release?: (item: T) => void
+  destroy?: (item: T) => void
+}
+
+export class ObjectPool<T> {
+  private readonly name: string
+  private readonly hooks: PoolHooks<T>
+  private readonly active: Set<T> = new Set()
+  private free: T[] = []
+  private created: number = 0
+
+  constructor(name: string, hooks: PoolHooks<T>) {
+    this.name = name
+    this.hooks = hooks
+  }
+
+  /**
+   * Take a released object, or create one if the pool is empty
+   */
+  public acquire(): T {
+    let item = this.free.pop()
+    if (item === undefined) {
+      item = this.hooks.create()
+      this.created++
+    }
+
+    this.active.add(item)
+    this.report()
+    return item
+  }
+
+  /**
+   * Return an object to the pool - ignored if it isn't in use
+   */
+  public release(item: T): void {
+    if (!this.active.delete(item)) return
+
+    this.hooks.release?.(item)
+    this.free.push(item)
+    this.report()
+  }
+
+  /**
+   * Release every object in use that matches the predicate
+   * Returns the number of released objects
+   */
+  public releaseWhere(predicate: (item: T) => boolean): number {
+    let released = 0
+
+    for (const item of [...this.active]) {
+      if (predicate(item)) {
+        this.release(item)
+        released++
+      }
+    }
+
+    return released
+  }
+
+  /**
+   * Objects currently in use
+   */
+  public getActive(): T[] {
+    return [...this.active]
+  }
+
+  public getStats(): PoolStats {
+    return {
+      active: this.active.size,
+      free: this.free.length,
+      created: this.created
+    }
+  }
+
+  /**
+   * Destroy every object, in use or not, and empty the pool
+   */
+  public clear(): void {
+    for (const item of [...this.active, ...this.free]) {
+      this.hooks.destroy?.(item)
+    }
+
+    this.active.clear()
+    this.free = []
+    this.report()
+  }
+
+  private report(): void {
+    AssetCounter.getInstance().reportPool(this.name, this.getStats())
+  }
+}
@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataQuarantine, MigrationError, PersistedData, type PersistedSchema } from './PersistedData'
+
+/**
+ * Web Storage kept in a Map
+ */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>()
+
+  public get length(): number {
+    return this.items.size
+  }
+
+  public clear(): void {
+    this.items.clear()
+  }
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null
+  }
+
+  public key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key)
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, String(value))
+  }
+}
+
+interface Profile {
+  name: string
+  level: number
+}
+
+// Version 0 stored the name alone, version 1 added a level
+const PROFILE_SCHEMA: PersistedSchema<Profile> = {
+  key: 'test_profile',
+  migrations: [
+    data => {
+      if (typeof data !== 'string') throw new Error('Expected a name')
+      return { name: data }
+    },
+    data => ({ ...data, level: 1 })
+  ],
+  validate: (data: any): data is Profile => typeof data?.name === 'string' && typeof data?.level === 'number'
+}
+
+describe('PersistedData', () => {
+  let storage: MemoryStorage
+  let quarantine: DataQuarantine
+  let profile: PersistedData<Profile>
+
+  beforeEach(() => {
+    storage = new MemoryStorage()
+    quarantine = new DataQuarantine(storage)
+    profile = new PersistedData(storage, PROFILE_SCHEMA, quarantine)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('saves the data in a current-version envelope', () => {
+    profile.save({ name: 'ace', level: 3 })
+
+    const stored = JSON.parse(storage.getItem('test_profile')!)
+    expect(stored).toMatchObject({ version: 2, data: { name: 'ace', level: 3 } })
+    expect(typeof stored.updatedAt).toBe('number')
+    expect(profile.load()).toEqual({ name: 'ace', level: 3 })
+  })
+
+  it('returns null when nothing is stored', () => {
+    expect(profile.load()).toBeNull()
+    expect(quarantine.getAll()).toEqual([])
+  })
+
+  it('migrates data from before envelopes and saves it back', () => {
+    storage.setItem('test_profile', JSON.stringify('ace'))
+
+    expect(profile.load()).toEqual({ name: 'ace', level: 1 })
+    expect(JSON.parse(storage.getItem('test_profile')!)).toMatchObject({ version: 2, data: { name: 'ace', level: 1 } })
+  })
+
+  it('runs only the migrations after the stored version', () => {
+    storage.setItem('test_profile', JSON.stringify({ version: 1, updatedAt: 0, data: { name: 'ace', level: 7 } }))
+    expect(profile.load()).toEqual({ name: 'ace', level: 1 })
+
+    storage.setItem('test_profile', JSON.stringify({ version: 2, updatedAt: 0, data: { name: 'ace', level: 7 } }))
+    expect(profile.load()).toEqual({ name: 'ace', level: 7 })
+  })
+
+  it('quarantines data that is not JSON', () => {
+    storage.setItem('test_profile', '{broken')
+
+    expect(profile.load()).toBeNull()
+    expect(storage.getItem('test_profile')).toBeNull()
+    expect(quarantine.getAll()).toMatchObject([{ key: 'test_profile', reason: 'Not valid JSON', data: '{broken' }])
+  })
+
+  it('quarantines data that fails to migrate or validate', () => {
+    storage.setItem('test_profile', JSON.stringify(42))
+    expect(profile.load()).toBeNull()
+
+    storage.setItem('test_profile', JSON.stringify({ version: 2, updatedAt: 0, data: { name: 'ace' } }))
+    expect(profile.load()).toBeNull()
+
+    expect(quarantine.getAll().map(entry => entry.reason)).toEqual([
+      'Migration from version 0 failed: Expected a name',
+      'Version 2 data failed validation'
+    ])
+  })
+
+  it('quarantines data saved by a newer build', () => {
+    const newer = { version: 3, updatedAt: 0, data: { name: 'ace', level: 2, title: 'captain' } }
+    storage.setItem('test_profile', JSON.stringify(newer))
+
+    expect(profile.load()).toBeNull()
+    expect(quarantine.getAll()).toMatchObject([{ reason: 'Version 3 is newer than this build (2)', data: newer }])
+  })
+
+  it('discards unreadable data when it has no quarantine', () => {
+    profile = new PersistedData(storage, PROFILE_SCHEMA, null)
+    storage.setItem('test_profile', '{broken')
+
+    expect(profile.load()).toBeNull()
+    expect(storage.getItem(DataQuarantine.STORAGE_KEY)).toBeNull()
+  })
+
+  describe('migrate', () => {
+    it('throws a MigrationError for an invalid version', () => {
+      expect(() => PersistedData.migrate(PROFILE_SCHEMA, { version: -1, data: 'ace' })).toThrow(MigrationError)
+      expect(() => PersistedData.migrate(PROFILE_SCHEMA, { version: 1.5, data: 'ace' })).toThrow(MigrationError)
+    })
+  })
+})
+
+describe('DataQuarantine', () => {
+  it('keeps only the newest MAX_ENTRIES', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const quarantine = new DataQuarantine(new MemoryStorage())
+    for (let i = 0; i < DataQuarantine.MAX_ENTRIES + 3; i++) {
+      quarantine.add('test_profile', i, 'Bad entry')
+    }
+
+    const entries = quarantine.getAll()
+    expect(entries).toHaveLength(DataQuarantine.MAX_ENTRIES)
+    expect(entries[0].data).toBe(3)
+
+    quarantine.clear()
+    expect(quarantine.getAll()).toEqual([])
+  })
+})
@@ -0,0 +1,216 @@
+/**
+ * PersistedData - Versioned blobs in Web Storage
+ *
+ * Every blob is saved in an envelope with the version of its format. Each
+ * blob has a schema listing its migrations in order (see PersistedSchemas);
+ * loading runs the migrations from the stored version up to the current
+ * one, then checks the result. Blobs written before envelopes existed count
+ * as version 0.
+ *
+ * Data that cannot be parsed, migrated or validated is moved to the
+ * DataQuarantine rather than discarded, so a bad migration or a corrupted
+ * save can still be recovered.
+ */
+
+export interface PersistedEnvelope<T> {
+  version: number
+  updatedAt: number
+  data: T
+}
+
+/**
+ * Upgrades a blob's data from one version to the next; throws when it can't
+ */
+export type Migration = (data: any) => any
+
+export interface PersistedSchema<T> {
+  key: string // Storage key
+  migrations: Migration[] // migrations[n] upgrades version n to n + 1, so the current version is migrations.length
+  validate: (data: any) => data is T
+}
+
+/**
+ * A blob, or part of one, that could not be loaded
+ */
+export interface QuarantinedData {
+  key: string // Storage key it was read from
+  reason: string
+  quarantinedAt: number
+  data: unknown // The stored value, or the raw string when it wasn't JSON
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MigrationError'
+  }
+}
+
+export class PersistedData<T> {
+  private readonly storage: Storage
+  private readonly schema: PersistedSchema<T>
+  private readonly quarantine: DataQuarantine | null
+
+  /**
+   * Without a quarantine, unreadable data is discarded with a warning
+   */
+  constructor(storage: Storage, schema: PersistedSchema<T>, quarantine: DataQuarantine | null = new DataQuarantine(storage)) {
+    this.storage = storage
+    this.schema = schema
+    this.quarantine = quarantine
+  }
+
+  public static getVersion(schema: PersistedSchema<unknown>): number {
+    return schema.migrations.length
+  }
+
+  /**
+   * Upgrade a parsed blob - an envelope or version 0 data - to the current version
+   */
+  public static migrate<T>(schema: PersistedSchema<T>, stored: any): T {
+    const current = PersistedData.getVersion(schema)
+    const isEnvelope = stored && typeof stored === 'object' && !Array.isArray(stored) &&
+      typeof stored.version === 'number' && 'data' in stored
+    const version = isEnvelope ? stored.version : 0
+
+    if (!Number.isInteger(version) || version < 0) {
+      throw new MigrationError(`Invalid version ${version}`)
+    }
+    if (version > current) {
+      throw new MigrationError(`Version ${version} is newer than this build (${current})`)
+    }
+
+    let data = isEnvelope ? stored.data : stored
+    for (let from = version; from < current; from++) {
+      try {
+        data = schema.migrations[from](data)
+      } catch (error) {
+        throw new MigrationError(`Migration from version ${from} failed: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+
+    if (!schema.validate(data)) {
+      throw new MigrationError(`Version ${current} data failed validation`)
+    }
+    return data
+  }
+
+  /**
+   * Read and upgrade the blob, saving it back if it was migrated; null when
+   * nothing is stored or the stored blob had to be quarantined
+   */
+  public load(): T | null {
+    const raw = this.storage.getItem(this.schema.key)
+    if (raw === null) return null
+
+    let stored: any
+    try {
+      stored = JSON.parse(raw)
+    } catch {
+      this.quarantineBlob(raw, 'Not valid JSON')
+      return null
+    }
+
+    let data: T
+    try {
+      data = PersistedData.migrate(this.schema, stored)
+    } catch (error) {
+      if (!(error instanceof MigrationError)) throw error
+      this.quarantineBlob(stored, error.message)
+      return null
+    }
+
+    if (stored?.version !== PersistedData.getVersion(this.schema)) {
+      try {
+        this.save(data)
+      } catch (error) {
+        console.warn(`PersistedData: Failed to save migrated ${this.schema.key}:`, error)
+      }
+    }
+    return data
+  }
+
+  /**
+   * Write the data in a current-version envelope; storage errors (quota) are thrown
+   */
+  public save(data: T): void {
+    const envelope: PersistedEnvelope<T> = {
+      version: PersistedData.getVersion(this.schema),
+      updatedAt: Date.now(),
+      data
+    }
+    this.storage.setItem(this.schema.key, JSON.stringify(envelope))
+  }
+
+  public remove(): void {
+    this.storage.removeItem(this.schema.key)
+  }
+
+  /**
+   * Set aside part of the blob that its owner can't use, e.g. single bad entries
+   */
+  public quarantineData(data: unknown, reason: string): void {
+    if (this.quarantine) {
+      this.quarantine.add(this.schema.key, data, reason)
+    } else {
+      console.warn(`PersistedData: Discarded data from ${this.schema.key}: ${reason}`)
+    }
+  }
+
+  /**
+   * Move the whole stored blob out of the way so the next save starts fresh
+   */
+  private quarantineBlob(data: unknown, reason: string): void {
+    this.quarantineData(data, reason)
+    this.remove()
+  }
+}
+
+/**
+ * Data that failed to load, kept under one storage key for recovery.
+ * Only the newest MAX_ENTRIES are kept.
+ */
+export class DataQuarantine {
+  public static readonly STORAGE_KEY = 'pixelPaperPlane_quarantine'
+  public static readonly MAX_ENTRIES = 20
+
+  private static readonly SCHEMA: PersistedSchema<QuarantinedData[]> = {
+    key: DataQuarantine.STORAGE_KEY,
+    migrations: [],
+    validate: (data: any): data is QuarantinedData[] => Array.isArray(data)
+  }
+
+  private readonly data: PersistedData<QuarantinedData[]>
+
+  constructor(storage: Storage) {
+    // Nowhere to move an unreadable quarantine, so it is discarded
+    this.data = new PersistedData(storage, DataQuarantine.SCHEMA, null)
+  }
+
+  public add(key: string, data: unknown, reason: string): void {
+    console.warn(`DataQuarantine: Quarantined data from ${key}: ${reason}`)
+
+    try {
+      const entries = [...this.getAll(), { key, reason, quarantinedAt: Date.now(), data }]
+      this.data.save(entries.slice(-DataQuarantine.MAX_ENTRIES))
+    } catch (error) {
+      console.warn('DataQuarantine: Failed to save quarantined data:', error)
+    }
+  }
+
+  /**
+   * Quarantined data, oldest first
+   */
+  public getAll(): QuarantinedData[] {
+    try {
+      return this.data.load() ?? []
+    } catch (error) {
+      console.warn('DataQuarantine: Failed to load quarantined data:', error)
+      return []
+    }
+  }
+
+  public clear(): void {
+    this.data.remove()
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { MigrationError, PersistedData } from './PersistedData'
+import {
+  ACHIEVEMENTS_SCHEMA,
+  BEST_REPLAYS_SCHEMA,
+  CHALLENGE_SCHEMA,
+  LEADERBOARD_CACHE_SCHEMA,
+  SCORES_SCHEMA,
+  SESSION_SCHEMA,
+  SETTINGS_SCHEMA
+} from './PersistedSchemas'
+
+describe('PersistedSchemas', () => {
+  describe('SCORES_SCHEMA', () => {
+    it('gives scores from before envelopes an id, keeping existing ones', () => {
+      const scores = PersistedData.migrate(SCORES_SCHEMA, [
+        { score: 120, distance: 60, timestamp: 1 },
+        { id: 'kept', score: 80, distance: 40, timestamp: 2 }
+      ])
+
+      expect(typeof scores[0].id).toBe('string')
+      expect(scores[1].id).toBe('kept')
+    })
+
+    it('rejects anything but a list', () => {
+      expect(() => PersistedData.migrate(SCORES_SCHEMA, { score: 120 })).toThrow(MigrationError)
+    })
+  })
+
+  describe('SESSION_SCHEMA', () => {
+    it('moves the session id of the old session object onto its scores', () => {
+      const scores = PersistedData.migrate(SESSION_SCHEMA, {
+        sessionId: 'session_old',
+        startTime: 1,
+        scores: [{ score: 50, distance: 20, timestamp: 2 }]
+      })
+
+      expect(scores).toHaveLength(1)
+      expect(scores[0]).toMatchObject({ score: 50, sessionId: 'session_old' })
+    })
+  })
+
+  describe('SETTINGS_SCHEMA', () => {
+    it('reads settings from before envelopes', () => {
+      const stored = { version: 1, updatedAt: 1234, settings: { musicVolume: 0.2, language: 'fr' } }
+
+      expect(PersistedData.migrate(SETTINGS_SCHEMA, stored)).toEqual(stored)
+    })
+
+    it('reads the flat audio-only settings as version 0', () => {
+      expect(PersistedData.migrate(SETTINGS_SCHEMA, { musicVolume: 0.3, sfxVolume: 0.6, muted: true })).toEqual({
+        version: 1,
+        updatedAt: 0,
+        settings: { musicVolume: 0.3, sfxVolume: 0.6, muted: true }
+      })
+    })
+
+    it('rejects anything but an object', () => {
+      expect(() => PersistedData.migrate(SETTINGS_SCHEMA, 'loud')).toThrow(MigrationError)
+      expect(() => PersistedData.migrate(SETTINGS_SCHEMA, [0.5])).toThrow(MigrationError)
+    })
+  })
+
+  describe('ACHIEVEMENTS_SCHEMA', () => {
+    it('reads progress from before envelopes', () => {
+      const progress = { version: 1, updatedAt: 5, metrics: { goldRings: 2 }, unlocked: { 'gold-1': 4 }, day: { key: '2026-10-19', runs: 1 } }
+
+      expect(PersistedData.migrate(ACHIEVEMENTS_SCHEMA, progress)).toEqual(progress)
+    })
+
+    it('rejects progress without metrics or unlocks', () => {
+      expect(() => PersistedData.migrate(ACHIEVEMENTS_SCHEMA, { version: 1, unlocked: {} })).toThrow(MigrationError)
+      expect(() => PersistedData.migrate(ACHIEVEMENTS_SCHEMA, null)).toThrow(MigrationError)
+    })
+  })
+
+  describe('BEST_REPLAYS_SCHEMA', () => {
+    it('reads the replays by board from before envelopes', () => {
+      const replays = { normal: { score: 300, scoreTimestamp: 1, replay: { version: 2 } } }
+
+      expect(PersistedData.migrate(BEST_REPLAYS_SCHEMA, replays)).toEqual(replays)
+      expect(() => PersistedData.migrate(BEST_REPLAYS_SCHEMA, [replays.normal])).toThrow(MigrationError)
+    })
+  })
+
+  describe('CHALLENGE_SCHEMA', () => {
+    it('reads the attempts from before envelopes', () => {
+      expect(PersistedData.migrate(CHALLENGE_SCHEMA, { dayKey: '2026-10-19', attempts: 2 })).toEqual({ dayKey: '2026-10-19', attempts: 2 })
+    })
+
+    it('rejects attempts that are not a number', () => {
+      expect(() => PersistedData.migrate(CHALLENGE_SCHEMA, { dayKey: '2026-10-19', attempts: 'two' })).toThrow(MigrationError)
+    })
+  })
+
+  describe('LEADERBOARD_CACHE_SCHEMA', () => {
+    it('reads the cached boards from before envelopes', () => {
+      const cache = { 'normal-alltime': { entries: [], fetchedAt: 10 } }
+
+      expect(PersistedData.migrate(LEADERBOARD_CACHE_SCHEMA, cache)).toEqual(cache)
+    })
+
+    it('rejects a cache with a malformed board', () => {
+      expect(() => PersistedData.migrate(LEADERBOARD_CACHE_SCHEMA, { 'normal-alltime': { fetchedAt: 10 } })).toThrow(MigrationError)
+    })
+  })
+
+  it('leaves current-version envelopes as they are', () => {
+    const settings = { version: 1, updatedAt: 9, settings: { muted: true } }
+    const envelope = { version: PersistedData.getVersion(SETTINGS_SCHEMA), updatedAt: 9, data: settings }
+
+    expect(PersistedData.migrate(SETTINGS_SCHEMA, envelope)).toEqual(settings)
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * PersistedSchemas - Migration registry for the blobs the game keeps in Web Storage
+ *
+ * Each schema lists its migrations in order: migrations[n] upgrades version n
+ * data to version n + 1. Version 0 is whatever the game stored before
+ * envelopes existed. To change a format, append a migration - never edit or
+ * reorder the existing ones, players may still have data at any version.
+ */
+
+import type { AchievementProgress } from './Achievements'
+import type { User } from './AuthManager'
+import type { ChallengeAttempts } from './DailyChallenge'
+import type { CachedBoard } from './Leaderboard'
+import type { PersistedSchema } from './PersistedData'
+import type { RunRecord } from './RunHistory'
+import type { BestReplay } from './ScoreManager'
+import type { StoredScore } from './ScoreRepository'
+import type { StoredSettings } from './SettingsManager'
+
+/**
+ * A plain object - not null and not an array
+ */
+const isRecord = (data: any): data is Record<string, any> =>
+  !!data && typeof data === 'object' && !Array.isArray(data)
+
+/**
+ * Entries must be objects with ids; anything else is quarantined by the repository
+ */
+const isScoreList = (data: any): data is StoredScore[] => Array.isArray(data)
+
+/**
+ * Give every score object the id later versions key it by
+ */
+const assignScoreIds = (scores: any[]): any[] =>
+  scores.map(score => score && typeof score === 'object' && typeof score.id !== 'string'
+    ? { ...score, id: crypto.randomUUID() }
+    : score)
+
+/**
+ * The player's score history (localStorage)
+ */
+export const SCORES_SCHEMA: PersistedSchema<StoredScore[]> = {
+  key: 'pixelPaperPlane_scores',
+  migrations: [
+    // 0 -> 1: bare array of scores, the oldest without ids
+    data => {
+      if (!Array.isArray(data)) throw new Error('Expected an array of scores')
+      return assignScoreIds(data)
+    }
+  ],
+  validate: isScoreList
+}
+
+/**
+ * Scores from the current browser session (sessionStorage)
+ */
+export const SESSION_SCHEMA: PersistedSchema<StoredScore[]> = {
+  key: 'pixelPaperPlane_session',
+  migrations: [
+    // 0 -> 1: a bare array, or older builds' { sessionId, scores, startTime }
+    data => {
+      if (Array.isArray(data)) return assignScoreIds(data)
+      if (!data || typeof data !== 'object' || !Array.isArray(data.scores)) {
+        throw new Error('Expected session data with scores')
+      }
+
+      const scores = assignScoreIds(data.scores)
+      if (typeof data.sessionId !== 'string') return scores
+      return scores.map(score => score && typeof score === 'object' && !score.sessionId
+        ? { ...score, sessionId: data.sessionId }
+        : score)
+    }
+  ],
+  validate: isScoreList
+}
+
+/**
+ * The signed-in player in local-only mode (localStorage); dates are stored as ISO strings
+ */
+export const AUTH_SCHEMA: PersistedSchema<User> = {
+  key: 'pixelPaperPlane_auth',
+  migrations: [
+    // 0 -> 1: the bare User object
+    data => data
+  ],
+  validate: (data: any): data is User =>
+    !!data && typeof data === 'object' && typeof data.id === 'string' && typeof data.isGuest === 'boolean'
+}
+
+/**
+ * Every finished run, oldest first (localStorage). Records are checked one by
+ * one by RunHistory, so a bad record doesn't take the rest with it.
+ */
+export const RUN_HISTORY_SCHEMA: PersistedSchema<RunRecord[]> = {
+  key: 'pixelPaperPlane_runHistory',
+  migrations: [],
+  validate: (data: any): data is RunRecord[] => Array.isArray(data)
+}
+
+/**
+ * Player preferences (localStorage). Fields are checked one by one by
+ * SettingsManager, which also runs the cloud copy through this schema.
+ */
+export const SETTINGS_SCHEMA: PersistedSchema<StoredSettings> = {
+  key: 'pixelPaperPlane_settings',
+  migrations: [
+    // 0 -> 1: { version: 1, updatedAt, settings } from before envelopes, or the
+    // flat audio-only settings older builds kept under pixelPaperPlane_audio
+    data => {
+      if (!isRecord(data)) throw new Error('Expected a settings object')
+      if (isRecord(data.settings)) {
+        return { version: 1, updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : 0, settings: data.settings }
+      }
+      return { version: 1, updatedAt: 0, settings: data }
+    }
+  ],
+  validate: (data: any): data is StoredSettings =>
+    isRecord(data) && typeof data.updatedAt === 'number' && isRecord(data.settings)
+}
+
+/**
+ * Achievement metrics and unlocks (localStorage); values are checked by AchievementManager
+ */
+export const ACHIEVEMENTS_SCHEMA: PersistedSchema<AchievementProgress> = {
+  key: 'pixelPaperPlane_achievements',
+  migrations: [
+    // 0 -> 1: the bare progress object
+    data => data
+  ],
+  validate: (data: any): data is AchievementProgress =>
+    isRecord(data) && isRecord(data.metrics) && isRecord(data.unlocked)
+}
+
+/**
+ * The best run's replay per board (localStorage). Entries must hold a valid
+ * replay; anything else is quarantined by ScoreManager.
+ */
+export const BEST_REPLAYS_SCHEMA: PersistedSchema<Record<string, BestReplay>> = {
+  key: 'pixelPaperPlane_bestReplays',
+  migrations: [
+    // 0 -> 1: the bare board key -> replay object
+    data => data
+  ],
+  validate: isRecord
+}
+
+/**
+ * Daily challenge attempts used on the last day played (localStorage)
+ */
+export const CHALLENGE_SCHEMA: PersistedSchema<ChallengeAttempts> = {
+  key: 'pixelPaperPlane_challenge',
+  migrations: [
+    // 0 -> 1: the bare { dayKey, attempts } object
+    data => data
+  ],
+  validate: (data: any): data is ChallengeAttempts =>
+    isRecord(data) && typeof data.dayKey === 'string' && typeof data.attempts === 'number'
+}
+
+/**
+ * The last copy of each current leaderboard, for offline play (localStorage)
+ */
+export const LEADERBOARD_CACHE_SCHEMA: PersistedSchema<Record<string, CachedBoard>> = {
+  key: 'pixelPaperPlane_leaderboardCache',
+  migrations: [
+    // 0 -> 1: the bare board id -> board object
+    data => data
+  ],
+  validate: (data: any): data is Record<string, CachedBoard> =>
+    isRecord(data) && Object.values(data).every(board =>
+      isRecord(board) && Array.isArray(board.entries) && typeof board.fetchedAt === 'number')
+}
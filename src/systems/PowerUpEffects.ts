@@ -0,0 +1,79 @@
+import { PowerUpType, POWER_UP_CONFIGS } from './CourseItems'
+
+/**
+ * PowerUpEffects - Timers for the power-ups active during a run
+ *
+ * Holds no Phaser state; GameScene asks it how to score, how fast time runs
+ * and whether a cloud hit is absorbed. Picking up a power-up that is already
+ * active restarts its timer.
+ */
+
+export interface ActivePowerUp {
+  type: PowerUpType
+  remaining: number // ms left
+  duration: number // Full duration in ms
+}
+
+export class PowerUpEffects {
+  public static readonly SLOW_MO_TIME_SCALE = 0.5
+  public static readonly DOUBLE_POINTS_MULTIPLIER = 2
+  public static readonly MAGNET_RADIUS = 180
+
+  private active: Map<PowerUpType, ActivePowerUp> = new Map()
+
+  /**
+   * Start (or restart) the effect for a power-up type
+   */
+  public activate(type: PowerUpType): void {
+    const duration = POWER_UP_CONFIGS[type].duration
+    this.active.set(type, { type, remaining: duration, duration })
+  }
+
+  /**
+   * Count down timers by the elapsed real time
+   */
+  public update(deltaMs: number): void {
+    for (const [type, effect] of this.active) {
+      effect.remaining -= deltaMs
+      if (effect.remaining <= 0) {
+        this.active.delete(type)
+      }
+    }
+  }
+
+  public isActive(type: PowerUpType): boolean {
+    return this.active.has(type)
+  }
+
+  /**
+   * Use up a one-shot effect (the shield) - returns false if it wasn't active
+   */
+  public consume(type: PowerUpType): boolean {
+    return this.active.delete(type)
+  }
+
+  /**
+   * Multiplier applied to ring points
+   */
+  public getScoreMultiplier(): number {
+    return this.isActive(PowerUpType.DOUBLE_POINTS) ? PowerUpEffects.DOUBLE_POINTS_MULTIPLIER : 1
+  }
+
+  /**
+   * Scale applied to gameplay time
+   */
+  public getTimeScale(): number {
+    return this.isActive(PowerUpType.SLOW_MO) ? PowerUpEffects.SLOW_MO_TIME_SCALE : 1
+  }
+
+  /**
+   * Active effects, longest remaining first
+   */
+  public getActive(): ActivePowerUp[] {
+    return [...this.active.values()].sort((a, b) => b.remaining - a.remaining)
+  }
+
+  public reset(): void {
+    this.active.clear()
+  }
+}
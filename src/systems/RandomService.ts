@@ -0,0 +1,136 @@
+/**
+ * RandomService - Seedable random number generation for world generation
+ *
+ * Every spawn decision (rings, clouds, power-ups, ground decorations, weather) draws
+ * from a named stream of this service so a run can be reproduced from its
+ * seed alone.
+ * Streams are independent, so the order in which generators run does not
+ * change what each of them produces.
+ */
+
+/**
+ * SeededRandom - Small deterministic PRNG (mulberry32)
+ */
+export class SeededRandom {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  /**
+   * Next float in the range [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Float in the range [min, max)
+   */
+  public between(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  /**
+   * Integer in the range [min, max] (inclusive)
+   */
+  public integer(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1))
+  }
+
+  /**
+   * Returns true with the given probability (0-1)
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  /**
+   * Pick a random element from a non-empty list
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)]
+  }
+}
+
+/**
+ * Named generator streams used by the game world
+ */
+export type RandomStream = 'rings' | 'clouds' | 'ground' | 'powerups' | 'weather'
+
+export class RandomService {
+  private static instance: RandomService
+  private seed: number
+  private streams: Map<string, SeededRandom> = new Map()
+
+  private constructor() {
+    this.seed = RandomService.generateSeed()
+  }
+
+  public static getInstance(): RandomService {
+    if (!RandomService.instance) {
+      RandomService.instance = new RandomService()
+    }
+    return RandomService.instance
+  }
+
+  /**
+   * Create a fresh seed for a new course
+   */
+  public static generateSeed(): number {
+    return Math.floor(Math.random() * 0xFFFFFFFF) >>> 0
+  }
+
+  /**
+   * Parse a seed from user input (URL parameter, bug report, etc.)
+   * Returns null when the value is not a valid unsigned 32-bit integer
+   */
+  public static parseSeed(value: unknown): number | null {
+    const seed = typeof value === 'string' ? Number(value.trim()) : value
+    if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF) {
+      return null
+    }
+    return seed
+  }
+
+  /**
+   * Reset all streams to start a new course from the given seed
+   */
+  public reseed(seed: number): void {
+    this.seed = seed >>> 0
+    this.streams.clear()
+  }
+
+  public getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * Get the generator for a named stream, created on first use
+   */
+  public stream(name: RandomStream): SeededRandom {
+    let generator = this.streams.get(name)
+    if (!generator) {
+      generator = new SeededRandom(RandomService.deriveStreamSeed(this.seed, name))
+      this.streams.set(name, generator)
+    }
+    return generator
+  }
+
+  /**
+   * Mix the course seed with the stream name (FNV-1a) so streams diverge
+   */
+  private static deriveStreamSeed(seed: number, name: string): number {
+    let hash = 0x811C9DC5 ^ seed
+    for (let i = 0; i < name.length; i++) {
+      hash ^= name.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+}
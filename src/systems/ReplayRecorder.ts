@@ -0,0 +1,106 @@
+/**
+ * ReplayRecorder - Captures player input so a run can be replayed
+ *
+ * A run is fully described by its course seed plus the tick of each flap,
+ * because the tap handler is the only player input. Ticks come from the
+ * fixed-timestep FlightSimulation, so playback is exact at any frame rate.
+ */
+
+export interface RunReplay {
+  version: number
+  seed: number
+  gameMode: string
+  tickRate: number // Simulation ticks per second the run was recorded at
+  difficulty?: string // Difficulty profile id (missing means normal)
+  flaps: number[] // Flap ticks since launch
+  duration: number // Ticks from launch to the end of the run
+  recordedAt: number
+}
+
+export class ReplayRecorder {
+  public static readonly VERSION = 2
+
+  private readonly seed: number
+  private readonly gameMode: string
+  private readonly tickRate: number
+  private readonly difficulty: string
+  private recording: boolean = false
+  private flaps: number[] = []
+  private duration: number = 0
+
+  constructor(seed: number, gameMode: string, tickRate: number, difficulty: string) {
+    this.seed = seed
+    this.gameMode = gameMode
+    this.tickRate = tickRate
+    this.difficulty = difficulty
+  }
+
+  /**
+   * Mark the launch - flap ticks are counted from here
+   */
+  public start(): void {
+    this.recording = true
+    this.flaps = []
+    this.duration = 0
+  }
+
+  /**
+   * Record a flap applied before the given simulation tick
+   */
+  public recordFlap(tick: number): void {
+    if (!this.recording) return
+    this.flaps.push(Math.max(0, Math.floor(tick)))
+  }
+
+  public isRecording(): boolean {
+    return this.recording
+  }
+
+  /**
+   * Stop recording and return the finished replay
+   */
+  public finish(tick: number): RunReplay {
+    if (this.recording) {
+      this.duration = Math.max(0, Math.floor(tick))
+    }
+
+    return {
+      version: ReplayRecorder.VERSION,
+      seed: this.seed,
+      gameMode: this.gameMode,
+      tickRate: this.tickRate,
+      difficulty: this.difficulty,
+      flaps: [...this.flaps],
+      duration: this.duration,
+      recordedAt: Date.now()
+    }
+  }
+
+  /**
+   * Validate a replay loaded from storage
+   */
+  public static isValidReplay(data: any): data is RunReplay {
+    if (!data || typeof data !== 'object') return false
+
+    if (typeof data.seed !== 'number' || typeof data.gameMode !== 'string' ||
+        typeof data.duration !== 'number' || typeof data.tickRate !== 'number') {
+      return false
+    }
+
+    // Older replays were timed in milliseconds and cannot be played back exactly
+    if (data.version !== ReplayRecorder.VERSION) return false
+
+    if (!Array.isArray(data.flaps)) return false
+
+    // Flap ticks must be finite and in chronological order
+    let previous = 0
+    for (const flap of data.flaps) {
+      if (typeof flap !== 'number' || !isFinite(flap) || flap < previous) {
+        return false
+      }
+      previous = flap
+    }
+
+    return true
+  }
+}
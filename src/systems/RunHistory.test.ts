@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { RingType } from './CourseItems'
+import type { RunStats } from './GameEvents'
+import { DataQuarantine, PersistedData } from './PersistedData'
+import { RUN_HISTORY_SCHEMA } from './PersistedSchemas'
+import { RunHistory, type RunRecord } from './RunHistory'
+
+/**
+ * The parts of Web Storage PersistedData uses, kept in a Map
+ */
+function createStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) }
+  } as Storage
+}
+
+function makeStats(score: number, overrides: Partial<RunStats> = {}): RunStats {
+  return {
+    score,
+    distance: score,
+    maxCombo: 1,
+    flaps: 4,
+    rings: { [RingType.BRONZE]: 1, [RingType.SILVER]: 0, [RingType.GOLD]: 0 },
+    cause: 'ground',
+    duration: 5000,
+    maxAltitude: 120.4,
+    gameMode: 'normal',
+    seed: 7,
+    ...overrides
+  }
+}
+
+describe('RunHistory', () => {
+  const now = new Date(2026, 9, 19, 12).getTime()
+  const hour = 60 * 60 * 1000
+  let storage: Storage
+  let history: RunHistory
+
+  beforeEach(() => {
+    storage = createStorage()
+    history = new RunHistory(storage)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('records every run, newest first', () => {
+    history.record(makeStats(100), now - 2 * hour)
+    history.record(makeStats(300), now - hour)
+    history.record(makeStats(50, { gameMode: 'challenge' }), now)
+
+    expect(history.getRuns().map(run => run.score)).toEqual([50, 300, 100])
+    expect(history.getRuns('normal').map(run => run.score)).toEqual([300, 100])
+    expect(new RunHistory(storage).getRuns()).toHaveLength(3)
+  })
+
+  it('drops runs past MAX_AGE_DAYS', () => {
+    history.record(makeStats(100), now - (RunHistory.MAX_AGE_DAYS + 1) * 24 * hour)
+    history.record(makeStats(200), now)
+
+    expect(history.getRuns().map(run => run.score)).toEqual([200])
+  })
+
+  it('quarantines only the records that fail validation', () => {
+    const valid = history.record(makeStats(100), now)
+    const broken = { endedAt: 'yesterday', score: 40 }
+    new PersistedData(storage, RUN_HISTORY_SCHEMA).save([valid, broken as unknown as RunRecord])
+
+    history = new RunHistory(storage)
+
+    expect(history.getRuns()).toEqual([valid])
+    expect(new DataQuarantine(storage).getAll()).toMatchObject([{ key: RUN_HISTORY_SCHEMA.key, data: [broken] }])
+    expect(new PersistedData(storage, RUN_HISTORY_SCHEMA).load()).toEqual([valid])
+  })
+
+  it('groups runs by the local day', () => {
+    const today = new Date(now)
+    const midnight = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()
+    history.record(makeStats(100), midnight - hour)
+    history.record(makeStats(200), midnight + hour)
+    history.record(makeStats(400), now)
+
+    const stats = history.getDailyStats(2, undefined, today)
+    expect(stats.map(day => [day.day, day.runs, day.bestScore])).toEqual([
+      [RunHistory.getDayKey(midnight - hour), 1, 100],
+      [RunHistory.getDayKey(now), 2, 400]
+    ])
+    expect(RunHistory.getDayKey(now)).toBe('2026-10-19')
+  })
+
+  it('counts how runs ended', () => {
+    history.record(makeStats(100), now)
+    history.record(makeStats(100, { cause: 'cloud' }), now)
+    history.record(makeStats(100, { cause: 'cloud' }), now)
+
+    expect(history.getCauseCounts()).toEqual({ cloud: 2, ground: 1 })
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * RunHistory - Every finished run, not just the best scores
+ *
+ * ScoreManager keeps the best MAX_STORED_SCORES scores on each board, so
+ * short runs drop out of it. The run history records each run as it ends,
+ * with its flight details, for a timeline of play and per-day statistics.
+ * Runs older than MAX_AGE_DAYS are dropped, and only the newest MAX_RUNS are
+ * kept. Stored as a versioned blob in localStorage (see PersistedSchemas);
+ * records that fail validation are quarantined one by one.
+ */
+
+import type { RingType } from './CourseItems'
+import type { CrashCause, GameEventBus, RunStats } from './GameEvents'
+import { PersistedData } from './PersistedData'
+import { RUN_HISTORY_SCHEMA } from './PersistedSchemas'
+
+export interface RunRecord {
+  endedAt: number // Timestamp the run ended
+  gameMode: string
+  seed: number
+  challengeDay?: string
+  score: number
+  distance: number // Whole metres
+  duration: number // Flight time in ms
+  flaps: number
+  rings: Record<RingType, number>
+  maxCombo: number
+  maxAltitude: number // Highest point above the ground in px
+  cause: CrashCause
+}
+
+/**
+ * Totals for the runs of one day (the player's local date)
+ */
+export interface DailyRunStats {
+  day: string // YYYY-MM-DD
+  runs: number
+  averageDistance: number
+  averageScore: number
+  bestScore: number
+  flightTime: number // Total ms in the air
+}
+
+export class RunHistory {
+  private static instance: RunHistory
+  public static readonly MAX_RUNS = 1000
+  public static readonly MAX_AGE_DAYS = 90
+  private static readonly DAY = 24 * 60 * 60 * 1000 // ms
+
+  private readonly data: PersistedData<RunRecord[]>
+  private runs: RunRecord[] | null = null // Oldest first, read on first use
+
+  constructor(storage: Storage) {
+    this.data = new PersistedData(storage, RUN_HISTORY_SCHEMA)
+  }
+
+  public static getInstance(): RunHistory {
+    if (!RunHistory.instance) {
+      RunHistory.instance = new RunHistory(localStorage)
+    }
+    return RunHistory.instance
+  }
+
+  /**
+   * Record the run when it ends
+   */
+  public listenTo(events: GameEventBus): void {
+    events.on('runEnded', ({ stats }) => this.record(stats))
+  }
+
+  /**
+   * Add a finished run and apply the retention limits
+   */
+  public record(stats: RunStats, endedAt: number = Date.now()): RunRecord {
+    const run: RunRecord = {
+      endedAt,
+      gameMode: stats.gameMode,
+      seed: stats.seed,
+      challengeDay: stats.challengeDay,
+      score: stats.score,
+      distance: stats.distance,
+      duration: stats.duration,
+      flaps: stats.flaps,
+      rings: { ...stats.rings },
+      maxCombo: stats.maxCombo,
+      maxAltitude: Math.round(stats.maxAltitude),
+      cause: stats.cause
+    }
+
+    this.runs = RunHistory.applyRetention([...this.load(), run], endedAt)
+    this.save()
+    return { ...run }
+  }
+
+  /**
+   * Every stored run, newest first
+   */
+  public getRuns(gameMode?: string): RunRecord[] {
+    return this.load()
+      .filter(run => !gameMode || run.gameMode === gameMode)
+      .reverse()
+  }
+
+  /**
+   * Runs that ended at or after a timestamp, newest first
+   */
+  public getRunsSince(since: number, gameMode?: string): RunRecord[] {
+    return this.getRuns(gameMode).filter(run => run.endedAt >= since)
+  }
+
+  /**
+   * Runs from the last `days` days including today, newest first
+   */
+  public getRecentRuns(days: number = 7, gameMode?: string, now: Date = new Date()): RunRecord[] {
+    return this.getRunsSince(RunHistory.getDayStart(now, days - 1), gameMode)
+  }
+
+  /**
+   * Per-day totals for the last `days` days, oldest first; days without runs
+   * are included with zeros so the result can be charted directly
+   */
+  public getDailyStats(days: number = 7, gameMode?: string, now: Date = new Date()): DailyRunStats[] {
+    const byDay = new Map<string, RunRecord[]>()
+    for (let offset = days - 1; offset >= 0; offset--) {
+      byDay.set(RunHistory.getDayKey(RunHistory.getDayStart(now, offset)), [])
+    }
+
+    this.getRecentRuns(days, gameMode, now).forEach(run => {
+      byDay.get(RunHistory.getDayKey(run.endedAt))?.push(run)
+    })
+
+    return Array.from(byDay, ([day, runs]) => {
+      const total = (value: (run: RunRecord) => number) => runs.reduce((sum, run) => sum + value(run), 0)
+      return {
+        day,
+        runs: runs.length,
+        averageDistance: runs.length > 0 ? Math.round(total(run => run.distance) / runs.length) : 0,
+        averageScore: runs.length > 0 ? Math.round(total(run => run.score) / runs.length) : 0,
+        bestScore: Math.max(0, ...runs.map(run => run.score)),
+        flightTime: total(run => run.duration)
+      }
+    })
+  }
+
+  /**
+   * How the recorded runs ended
+   */
+  public getCauseCounts(gameMode?: string): Record<CrashCause, number> {
+    const counts: Record<CrashCause, number> = { cloud: 0, ground: 0 }
+    this.getRuns(gameMode).forEach(run => counts[run.cause]++)
+    return counts
+  }
+
+  public clear(): void {
+    this.runs = []
+    this.data.remove()
+  }
+
+  private load(): RunRecord[] {
+    if (!this.runs) {
+      try {
+        const stored = this.data.load() ?? []
+        this.runs = stored.filter(run => RunHistory.isRunRecord(run))
+
+        if (this.runs.length < stored.length) {
+          this.data.quarantineData(stored.filter(run => !this.runs!.includes(run)), 'Entries are not run records')
+          this.save()
+        }
+      } catch (error) {
+        console.warn('RunHistory: Failed to load run history:', error)
+        this.runs = []
+      }
+    }
+    return this.runs
+  }
+
+  /**
+   * Save the runs; when the quota runs out keep the newest half
+   */
+  private save(): void {
+    const runs = this.load()
+    try {
+      this.data.save(runs)
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) {
+        console.warn('RunHistory: Failed to save run history:', error)
+        return
+      }
+
+      this.runs = runs.slice(-Math.ceil(runs.length / 2))
+      try {
+        this.data.save(this.runs)
+        console.warn(`RunHistory: Reduced run history due to quota limit (${this.runs.length} runs saved)`)
+      } catch (retryError) {
+        console.warn('RunHistory: Failed to save run history:', retryError)
+      }
+    }
+  }
+
+  private static isRunRecord(run: any): run is RunRecord {
+    return !!run && typeof run === 'object' && typeof run.endedAt === 'number' &&
+      typeof run.distance === 'number' && typeof run.score === 'number' &&
+      (run.cause === 'cloud' || run.cause === 'ground')
+  }
+
+  /**
+   * Drop runs past MAX_AGE_DAYS, then all but the newest MAX_RUNS
+   */
+  private static applyRetention(runs: RunRecord[], now: number): RunRecord[] {
+    const cutoff = now - RunHistory.MAX_AGE_DAYS * RunHistory.DAY
+    return runs
+      .filter(run => run.endedAt >= cutoff)
+      .sort((a, b) => a.endedAt - b.endedAt)
+      .slice(-RunHistory.MAX_RUNS)
+  }
+
+  /**
+   * Local midnight `daysAgo` days before the given date
+   */
+  private static getDayStart(date: Date, daysAgo: number): number {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysAgo).getTime()
+  }
+
+  /**
+   * The player's local date of a timestamp in YYYY-MM-DD form. Runs are
+   * grouped by it here and counted by it for the runs-in-a-day achievements.
+   */
+  public static getDayKey(timestamp: number = Date.now()): string {
+    const date = new Date(timestamp)
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
+    return `${date.getFullYear()}-${month}-${day}`
+  }
+}
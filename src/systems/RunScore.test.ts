@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RingType } from './CourseItems'
+import { GameEventBus, type GameEventMap, type RunStats } from './GameEvents'
+import type { RunReplay } from './ReplayRecorder'
+import { RunScore } from './RunScore'
+import { ScoreManager } from './ScoreManager'
+import { InMemoryScoreRepository } from './ScoreRepository'
+
+/**
+ * The parts of Web Storage the best replays use, kept in a Map
+ */
+function createStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) }
+  } as Storage
+}
+
+function makeRun(score: number): GameEventMap['runEnded'] {
+  const stats: RunStats = {
+    score,
+    distance: 120,
+    maxCombo: 2,
+    flaps: 3,
+    rings: { [RingType.BRONZE]: 2, [RingType.SILVER]: 0, [RingType.GOLD]: 0 },
+    cause: 'cloud',
+    duration: 4000,
+    maxAltitude: 80,
+    gameMode: 'normal',
+    seed: 99
+  }
+  const replay: RunReplay = {
+    version: 2,
+    seed: 99,
+    gameMode: 'normal',
+    tickRate: 120,
+    flaps: [10, 90, 200],
+    duration: 480,
+    recordedAt: Date.now()
+  }
+  return { stats, replay }
+}
+
+describe('RunScore', () => {
+  let events: GameEventBus
+  let scoreManager: ScoreManager
+  let runScore: RunScore
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage())
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    events = new GameEventBus()
+    scoreManager = new ScoreManager({ local: new InMemoryScoreRepository(), session: new InMemoryScoreRepository() })
+    runScore = new RunScore(events, scoreManager)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  /**
+   * End a run and wait for its score to be saved
+   */
+  function finishRun(score: number): Promise<GameEventMap['scoreSaved']> {
+    return new Promise(resolve => {
+      events.on('scoreSaved', resolve)
+      events.emit('runEnded', makeRun(score))
+    })
+  }
+
+  it('adds ring points and announces the new score', () => {
+    const scores: number[] = []
+    events.on('scoreChanged', ({ score }) => scores.push(score))
+
+    events.emit('ringCollected', { type: RingType.BRONZE, points: 10 })
+    events.emit('ringCollected', { type: RingType.GOLD, points: 100 })
+    events.emit('ringCollected', { type: RingType.BRONZE, points: 20 })
+
+    expect(scores).toEqual([10, 110, 130])
+    expect(runScore.getScore()).toBe(130)
+    expect(runScore.getRings()).toEqual({ [RingType.BRONZE]: 2, [RingType.SILVER]: 0, [RingType.GOLD]: 1 })
+    expect(runScore.getFinalScore(57.9)).toBe(187)
+  })
+
+  it('counts flaps', () => {
+    events.emit('flap', { flightTime: 100 })
+    events.emit('flap', { flightTime: 400 })
+
+    expect(runScore.getFlaps()).toBe(2)
+  })
+
+  it('saves the run with its input log when it ends', async () => {
+    const { score, stats } = await finishRun(250)
+
+    expect(score).toMatchObject({ score: 250, distance: 120, rank: 1, seed: 99, maxCombo: 2 })
+    expect(score.run).toEqual({
+      version: 2,
+      tickRate: 120,
+      difficulty: 'normal',
+      flaps: [10, 90, 200],
+      duration: 480,
+      rings: stats.rings,
+      cause: 'cloud'
+    })
+    expect(scoreManager.getBestReplay('normal')?.score).toBe(250)
+  })
+
+  it('reports a personal best against the scores saved before the run', async () => {
+    expect((await finishRun(300)).isPersonalBest).toBe(true)
+    expect((await finishRun(200)).isPersonalBest).toBe(false)
+    expect((await finishRun(300)).isPersonalBest).toBe(false)
+    expect((await finishRun(450)).isPersonalBest).toBe(true)
+  })
+
+  it('still announces the score when saving fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(scoreManager, 'saveScore').mockRejectedValue(new Error('storage unavailable'))
+
+    const { score, isPersonalBest } = await finishRun(180)
+
+    expect(score).toMatchObject({ score: 180, distance: 120, rank: 0, syncedToCloud: false })
+    expect(isPersonalBest).toBe(true)
+  })
+})
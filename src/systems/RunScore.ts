@@ -0,0 +1,127 @@
+/**
+ * RunScore - Score and tallies for the current run
+ *
+ * Listens to the run's GameEventBus: collected rings add their points and
+ * flaps are counted. When the run ends the score is saved with
+ * ScoreManager, together with the input log that lets the server verify
+ * it, and announced as `scoreSaved` for the game-over screen together with
+ * whether it beat the personal best from before the run.
+ */
+
+import { RingType } from './CourseItems'
+import type { ScoreManager } from './ScoreManager'
+import type { GameEventBus, RunStats } from './GameEvents'
+import type { RunReplay } from './ReplayRecorder'
+import type { RunLog } from './RunVerifier'
+
+export class RunScore {
+  private readonly events: GameEventBus
+  private readonly scoreManager: ScoreManager
+  private score: number = 0
+  private flaps: number = 0
+  private rings: Record<RingType, number> = {
+    [RingType.BRONZE]: 0,
+    [RingType.SILVER]: 0,
+    [RingType.GOLD]: 0
+  }
+
+  constructor(events: GameEventBus, scoreManager: ScoreManager) {
+    this.events = events
+    this.scoreManager = scoreManager
+
+    events.on('flap', () => {
+      this.flaps++
+    })
+
+    events.on('ringCollected', ({ type, points }) => {
+      this.score += points
+      this.rings[type]++
+      events.emit('scoreChanged', { score: this.score })
+    })
+
+    events.on('runEnded', ({ stats, replay }) => {
+      this.save(stats, replay).catch(error => {
+        console.warn('RunScore: Failed to save run:', error)
+      })
+    })
+  }
+
+  /**
+   * Ring points collected so far
+   */
+  public getScore(): number {
+    return this.score
+  }
+
+  /**
+   * Final score - ring points plus every whole metre flown
+   */
+  public getFinalScore(distance: number): number {
+    return this.score + Math.floor(distance)
+  }
+
+  public getFlaps(): number {
+    return this.flaps
+  }
+
+  public getRings(): Record<RingType, number> {
+    return { ...this.rings }
+  }
+
+  /**
+   * Input log submitted with the score so the server can re-simulate the run
+   */
+  private static toRunLog(stats: RunStats, replay: RunReplay): RunLog {
+    return {
+      version: replay.version,
+      tickRate: replay.tickRate,
+      difficulty: replay.difficulty || 'normal',
+      flaps: replay.flaps,
+      duration: replay.duration,
+      rings: stats.rings,
+      cause: stats.cause
+    }
+  }
+
+  /**
+   * Save the finished run, falling back to an unsaved score so the
+   * game-over screen still shows
+   */
+  private async save(stats: RunStats, replay: RunReplay): Promise<void> {
+    let isPersonalBest = false
+
+    try {
+      // Once saved, the run is part of the history it is compared against
+      await this.scoreManager.load()
+      isPersonalBest = this.scoreManager.isNewPersonalBest(stats.score, stats.gameMode, stats.challengeDay)
+
+      const savedScore = await this.scoreManager.saveScore(stats.score, stats.distance, stats.gameMode, {
+        seed: stats.seed,
+        challengeDay: stats.challengeDay,
+        maxCombo: stats.maxCombo,
+        run: RunScore.toRunLog(stats, replay)
+      })
+      console.log(`Score saved with rank: ${savedScore.rank}`)
+
+      if (this.scoreManager.saveBestReplay(savedScore, replay)) {
+        console.log('New best run - replay saved for ghost racing')
+      }
+      this.events.emit('scoreSaved', { score: savedScore, stats, isPersonalBest })
+    } catch (error) {
+      console.warn('Failed to save score:', error)
+      // Show game over screen with a basic score object if save fails
+      const basicScore = {
+        score: stats.score,
+        distance: stats.distance,
+        timestamp: Date.now(),
+        rank: 0,
+        gameMode: stats.gameMode,
+        seed: stats.seed,
+        challengeDay: stats.challengeDay,
+        maxCombo: stats.maxCombo,
+        syncedToCloud: false
+      }
+      this.events.emit('scoreSaved', { score: basicScore, stats, isPersonalBest })
+    }
+  }
+}
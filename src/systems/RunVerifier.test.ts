@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { CourseGenerator, type CloudSpawn } from './CourseGenerator'
+import { CLOUD_CONFIGS, RingType } from './CourseItems'
+import { DIFFICULTY_PROFILES, DifficultyCurve } from './DifficultyProfile'
+import { DEFAULT_LAUNCH, FlightSimulation } from './FlightSimulation'
+import { RandomService } from './RandomService'
+import { ReplayRecorder } from './ReplayRecorder'
+import { RunVerifier, type RunLog, type RunSubmission } from './RunVerifier'
+import { SkyCycle } from './SkyCycle'
+
+const SEED = 12345
+const GROUND_LEVEL = 516
+const SCREEN = { width: 1024, height: 576 }
+const NO_RINGS: Record<RingType, number> = { [RingType.BRONZE]: 0, [RingType.SILVER]: 0, [RingType.GOLD]: 0 }
+
+/**
+ * Fly the seed's course on Normal the way the verifier rebuilds it, flapping
+ * whenever `shouldFlap` says so, until `isDone` or a ground crash
+ */
+function fly(
+  shouldFlap: (y: number, target: CloudSpawn | undefined) => boolean,
+  isDone: (x: number, target: CloudSpawn | undefined) => boolean
+): { flaps: number[], flight: FlightSimulation } {
+  RandomService.getInstance().reseed(SEED)
+  const difficulty = new DifficultyCurve(DIFFICULTY_PROFILES.normal)
+  const course = new CourseGenerator(difficulty, new SkyCycle(), { width: SCREEN.width, groundLevel: GROUND_LEVEL })
+  const start = course.getLaunchPosition()
+  const flight = new FlightSimulation(start.x, start.y, { groundLevel: GROUND_LEVEL, screenHeight: SCREEN.height }, difficulty.getFlightConfig())
+  flight.launch(DEFAULT_LAUNCH.angle, DEFAULT_LAUNCH.power)
+  course.start()
+
+  const flaps: number[] = []
+  let target: CloudSpawn | undefined
+  while (!flight.hasCrashed() && !isDone(flight.getState().x, target)) {
+    const spawns = course.generateAhead(flight.getState().x)
+    spawns.clouds.forEach(cloud => {
+      if (cloud.windZone) flight.addWindZone(cloud.windZone)
+    })
+    target ??= spawns.clouds.find(cloud => CLOUD_CONFIGS[cloud.type].behavior === 'static')
+
+    if (shouldFlap(flight.getState().y, target)) {
+      flaps.push(flight.getTick())
+      flight.flap()
+    }
+    flight.step()
+  }
+  return { flaps, flight }
+}
+
+function submit(flaps: number[], flight: FlightSimulation, cause: RunLog['cause']): RunSubmission {
+  const distance = Math.floor(flight.getState().x / 10)
+  return {
+    score: distance,
+    distance,
+    gameMode: 'normal',
+    seed: SEED,
+    maxCombo: 0,
+    run: {
+      version: ReplayRecorder.VERSION,
+      tickRate: flight.getConfig().tickRate,
+      difficulty: 'normal',
+      flaps,
+      duration: flight.getTick(),
+      rings: NO_RINGS,
+      cause
+    }
+  }
+}
+
+describe('RunVerifier', () => {
+  it('accepts a run that glides into the ground', () => {
+    const { flaps, flight } = fly(() => false, () => false)
+
+    expect(flight.getState().crashCause).toBe('ground')
+    expect(RunVerifier.verify(submit(flaps, flight, 'ground'))).toEqual({ valid: true, reasons: [] })
+  })
+
+  it('flags a run that flies straight through a cloud', () => {
+    // Hold the altitude of the first static cloud through its core, then
+    // claim the run ended on its far edge
+    const { flaps, flight } = fly(
+      (y, target) => target !== undefined && y >= target.y + 25,
+      (x, target) => target !== undefined && x > target.x + 60
+    )
+    expect(flight.hasCrashed()).toBe(false)
+
+    const result = RunVerifier.verify(submit(flaps, flight, 'cloud'))
+
+    expect(result.valid).toBe(false)
+    expect(result.reasons).toEqual([expect.stringMatching(/^plane flies through a cloud at tick \d+/)])
+  })
+
+  it('rejects runs without a usable input log', () => {
+    const { flaps, flight } = fly(() => false, () => false)
+    const submission = submit(flaps, flight, 'ground')
+
+    expect(RunVerifier.verify({ ...submission, run: undefined }).reasons).toEqual(['missing run log'])
+    expect(RunVerifier.verify({ ...submission, seed: undefined }).reasons).toEqual(['missing or invalid seed'])
+  })
+})
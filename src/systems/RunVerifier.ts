@@ -0,0 +1,336 @@
+/**
+ * RunVerifier - Server-side check that a submitted score comes from a real run
+ *
+ * Scores are submitted with their course seed and input log (the flap
+ * ticks). The verifier rebuilds the course with CourseGenerator, flies the
+ * logged flaps through FlightSimulation and checks that the claimed result
+ * could have happened: the run ends the way and at the tick it says, the
+ * flight path never passes through a cloud that would have ended it, the
+ * distance matches the simulated flight, every claimed ring was within reach
+ * of the flight path and the score fits the rings and distance.
+ *
+ * Collisions with animated clouds and ring pickups depend on render timing,
+ * so those are checked for plausibility with generous margins rather than
+ * reproduced exactly. Reseeds the shared RandomService, so it must not run
+ * inside a live game.
+ */
+
+import { RandomService } from './RandomService'
+import { CourseGenerator, type CloudSpawn, type PowerUpSpawn, type RingSpawn } from './CourseGenerator'
+import { CLOUD_CONFIGS, PowerUpType, POWER_UP_CONFIGS, RING_CONFIGS, RingType, getCloudSize } from './CourseItems'
+import { DEFAULT_FLIGHT_CONFIG, DEFAULT_LAUNCH, FlightSimulation } from './FlightSimulation'
+import { DIFFICULTY_PROFILES, DifficultyCurve, type BuiltInDifficulty } from './DifficultyProfile'
+import { SkyCycle } from './SkyCycle'
+import { DailyChallenge } from './DailyChallenge'
+import { ReplayRecorder } from './ReplayRecorder'
+import { ComboTracker } from './ComboTracker'
+import { PowerUpEffects } from './PowerUpEffects'
+import type { CrashCause } from './GameEvents'
+
+/**
+ * Input log and tallies submitted with a score
+ */
+export interface RunLog {
+  version: number // ReplayRecorder.VERSION the flaps were recorded with
+  tickRate: number
+  difficulty: string // Difficulty profile id
+  flaps: number[] // Flap ticks since launch
+  duration: number // Ticks from launch to the end of the run
+  rings: Record<RingType, number> // Rings collected by type
+  cause: CrashCause
+}
+
+/**
+ * The parts of a score document the verifier looks at
+ */
+export interface RunSubmission {
+  score: number
+  distance: number
+  gameMode: string
+  seed?: number
+  challengeDay?: string
+  maxCombo?: number
+  run?: RunLog
+}
+
+export interface VerificationResult {
+  valid: boolean
+  reasons: string[] // Why the run was rejected, empty when valid
+}
+
+export class RunVerifier {
+  // Game canvas (see main.ts) and the ground level GameScene lays out on it
+  private static readonly SCREEN_WIDTH = 1024
+  private static readonly SCREEN_HEIGHT = 576
+  private static readonly GROUND_OFFSET = 60
+
+  private static readonly MAX_DURATION = 60 * 60 // Longest believable run (s)
+  private static readonly RING_REACH = 50 // Plane to ring centre for a pickup, incl. float and hitbox slack (px)
+  private static readonly POWER_UP_REACH = 50
+  private static readonly CLOUD_MARGIN = 40 // Slack around a cloud for the crash check (px)
+  private static readonly CLOUD_FLOAT = 5 // Float animation travel (px)
+  // Arcade body of the plane: plane_right.png (1536x1024) at PaperPlane's 0.06 scale
+  private static readonly PLANE_SIZE = { width: 92, height: 61 }
+  // Overlap with a cloud that no frame rate of 20 fps or more can miss (s)
+  private static readonly CLOUD_HIT_TIME = 0.05
+  private static readonly DISTANCE_TOLERANCE = 1 // Metres
+
+  /**
+   * Check a submitted score against a re-simulation of its run
+   */
+  public static verify(submission: RunSubmission): VerificationResult {
+    const reasons = RunVerifier.checkSubmission(submission)
+    if (reasons.length > 0) {
+      return { valid: false, reasons }
+    }
+
+    reasons.push(...RunVerifier.simulate(submission, submission.run!))
+    return { valid: reasons.length === 0, reasons }
+  }
+
+  /**
+   * Shape and consistency checks that need no simulation
+   */
+  private static checkSubmission(submission: RunSubmission): string[] {
+    const { run, seed, gameMode } = submission
+
+    if (!run || typeof run !== 'object') {
+      return ['missing run log']
+    }
+    if (RandomService.parseSeed(seed) === null) {
+      return ['missing or invalid seed']
+    }
+    if (gameMode !== 'normal' && gameMode !== 'challenge') {
+      return [`unknown game mode "${gameMode}"`]
+    }
+
+    const reasons: string[] = []
+
+    if (!ReplayRecorder.isValidReplay({ ...run, seed, gameMode })) {
+      reasons.push('invalid input log')
+    } else if (run.flaps.some(flap => !Number.isInteger(flap) || flap < 0 || flap > run.duration)) {
+      reasons.push('flap outside the run')
+    }
+    if (run.tickRate !== DEFAULT_FLIGHT_CONFIG.tickRate) {
+      reasons.push(`unexpected tick rate ${run.tickRate}`)
+    }
+    if (!Number.isInteger(run.duration) || run.duration <= 0 || run.duration > RunVerifier.MAX_DURATION * run.tickRate) {
+      reasons.push(`implausible duration ${run.duration}`)
+    }
+    if (!Object.keys(DIFFICULTY_PROFILES).includes(run.difficulty)) {
+      reasons.push(`unknown difficulty "${run.difficulty}"`)
+    }
+    if (run.cause !== 'ground' && run.cause !== 'cloud') {
+      reasons.push('unknown end of run')
+    }
+    if (!run.rings || Object.values(RingType).some(type => !Number.isInteger(run.rings[type]) || run.rings[type] < 0)) {
+      reasons.push('invalid ring counts')
+    }
+    if (!Number.isInteger(submission.score) || !Number.isInteger(submission.distance) ||
+        submission.score < 0 || submission.distance < 0) {
+      reasons.push('invalid score or distance')
+    }
+
+    // Everyone flies the daily challenge's course on Normal
+    if (gameMode === 'challenge') {
+      if (typeof submission.challengeDay !== 'string' || DailyChallenge.getSeed(submission.challengeDay) !== seed) {
+        reasons.push('seed does not match the challenge day')
+      }
+      if (run.difficulty !== 'normal') {
+        reasons.push('challenge not flown on Normal')
+      }
+    }
+
+    return reasons
+  }
+
+  /**
+   * Fly the logged run over the rebuilt course and compare the outcome
+   */
+  private static simulate(submission: RunSubmission, run: RunLog): string[] {
+    const reasons: string[] = []
+    const groundLevel = RunVerifier.SCREEN_HEIGHT - RunVerifier.GROUND_OFFSET
+
+    // Same setup as GameScene: reseed, then build the course from the profile
+    RandomService.getInstance().reseed(submission.seed!)
+    const difficulty = new DifficultyCurve(DIFFICULTY_PROFILES[run.difficulty as BuiltInDifficulty])
+    const course = new CourseGenerator(difficulty, new SkyCycle(), { width: RunVerifier.SCREEN_WIDTH, groundLevel })
+    const start = course.getLaunchPosition()
+
+    const flight = new FlightSimulation(start.x, start.y, { groundLevel, screenHeight: RunVerifier.SCREEN_HEIGHT }, difficulty.getFlightConfig())
+    flight.launch(DEFAULT_LAUNCH.angle, DEFAULT_LAUNCH.power)
+    flight.scheduleFlaps(run.flaps)
+
+    let rings: RingSpawn[] = course.start()
+    let powerUps: PowerUpSpawn[] = []
+    let clouds: CloudSpawn[] = []
+    const reachable = RunVerifier.emptyTally()
+    const magnetTicks = POWER_UP_CONFIGS[PowerUpType.MAGNET].duration * run.tickRate / 1000
+    const shieldTicks = POWER_UP_CONFIGS[PowerUpType.SHIELD].duration * run.tickRate / 1000
+    const hitTicks = Math.ceil(RunVerifier.CLOUD_HIT_TIME * run.tickRate)
+    const overlaps = new Map<CloudSpawn, number>() // Cloud -> consecutive ticks the plane has been inside it
+    let magnetUntil = -1
+    let shieldUntil = -1
+    let doublePoints = false
+
+    while (!flight.hasCrashed() && flight.getTick() < run.duration) {
+      const spawns = course.generateAhead(flight.getState().x)
+      spawns.clouds.forEach(cloud => {
+        if (cloud.windZone) flight.addWindZone(cloud.windZone)
+      })
+      clouds = clouds.concat(spawns.clouds)
+      rings = rings.concat(spawns.rings)
+      powerUps = powerUps.concat(spawns.powerUps)
+
+      flight.step()
+      const { x, y, tick } = flight.getState()
+
+      // Power-ups the plane could have picked up widen what it can reach
+      powerUps = powerUps.filter(powerUp => {
+        if (Math.hypot(powerUp.x - x, powerUp.y - y) > RunVerifier.POWER_UP_REACH) {
+          return powerUp.x >= x - RunVerifier.POWER_UP_REACH
+        }
+        if (powerUp.type === PowerUpType.MAGNET) magnetUntil = tick + magnetTicks
+        if (powerUp.type === PowerUpType.SHIELD) shieldUntil = tick + shieldTicks
+        if (powerUp.type === PowerUpType.DOUBLE_POINTS) doublePoints = true
+        return false
+      })
+
+      // Clouds far behind the plane can no longer end the run
+      clouds = clouds.filter(cloud => {
+        if (cloud.x >= x - RunVerifier.SCREEN_WIDTH) return true
+        overlaps.delete(cloud)
+        return false
+      })
+
+      // Flying through a cloud ends the run, unless a shield in reach blew it away
+      const hit = clouds.find(cloud => {
+        const inside = RunVerifier.isInsideCloud(x, y, cloud)
+        const ticks = inside ? (overlaps.get(cloud) || 0) + 1 : 0
+        overlaps.set(cloud, ticks)
+        return ticks >= hitTicks
+      })
+      if (hit && tick <= shieldUntil) {
+        shieldUntil = -1
+        clouds = clouds.filter(cloud => cloud !== hit)
+      } else if (hit) {
+        if (tick < run.duration) {
+          return [`plane flies through a cloud at tick ${tick}, before the run ended`]
+        }
+        break
+      }
+
+      const reach = RunVerifier.RING_REACH + (tick <= magnetUntil ? PowerUpEffects.MAGNET_RADIUS : 0)
+      rings = rings.filter(ring => {
+        if (Math.hypot(ring.x - x, ring.y - y) > reach) {
+          return ring.x >= x - reach
+        }
+        reachable[ring.type]++
+        return false
+      })
+    }
+
+    const state = flight.getState()
+
+    if (state.crashCause === 'ground' && state.tick < run.duration) {
+      reasons.push(`plane hits the ground at tick ${state.tick}, before the run ended`)
+    } else if (run.cause === 'ground' && state.crashCause !== 'ground') {
+      reasons.push('plane is still flying when the run says it hit the ground')
+    } else if (run.cause === 'cloud' && !RunVerifier.isNearDangerousCloud(state.x, state.y, clouds)) {
+      reasons.push('no cloud where the run says it crashed')
+    }
+
+    const distance = Math.floor(state.x / 10)
+    if (Math.abs(distance - submission.distance) > RunVerifier.DISTANCE_TOLERANCE) {
+      reasons.push(`distance ${submission.distance}m does not match the simulated ${distance}m`)
+    }
+
+    Object.values(RingType).forEach(type => {
+      if (run.rings[type] > reachable[type]) {
+        reasons.push(`${run.rings[type]} ${type} rings claimed, ${reachable[type]} within reach`)
+      }
+    })
+
+    // The score is ring points plus one point per metre
+    const ringPoints = submission.score - submission.distance
+    const { min, max } = RunVerifier.getRingPointRange(run.rings, doublePoints)
+    if (ringPoints < min || ringPoints > max) {
+      reasons.push(`score ${submission.score} does not fit the rings and distance`)
+    }
+
+    const ringCount = Object.values(RingType).reduce((sum, type) => sum + run.rings[type], 0)
+    if (submission.maxCombo !== undefined && submission.maxCombo > ringCount) {
+      reasons.push(`combo of ${submission.maxCombo} with ${ringCount} rings`)
+    }
+
+    return reasons
+  }
+
+  /**
+   * Fewest and most ring points the collected rings can be worth: every ring
+   * at x1, or the best rings at the highest combo levels (doubled when a
+   * double points power-up was in reach)
+   */
+  private static getRingPointRange(rings: Record<RingType, number>, doublePoints: boolean): { min: number, max: number } {
+    const points = Object.values(RingType)
+      .flatMap(type => new Array<number>(rings[type]).fill(RING_CONFIGS[type].points))
+      .sort((a, b) => a - b)
+
+    let min = 0
+    let max = 0
+    points.forEach((value, index) => {
+      const multiplier = Math.min(1 + Math.floor(index / ComboTracker.RINGS_PER_LEVEL), ComboTracker.MAX_MULTIPLIER)
+      min += value
+      max += value * multiplier
+    })
+
+    return { min, max: doublePoints ? max * PowerUpEffects.DOUBLE_POINTS_MULTIPLIER : max }
+  }
+
+  /**
+   * Whether a point is close enough to a cloud that crashes the plane,
+   * allowing for drift, float and storm strikes below the cloud
+   */
+  private static isNearDangerousCloud(x: number, y: number, clouds: CloudSpawn[]): boolean {
+    return clouds.some(cloud => {
+      const config = CLOUD_CONFIGS[cloud.type]
+      if (config.behavior === 'wind') return false
+
+      const size = getCloudSize(cloud.type)
+      const margin = RunVerifier.CLOUD_MARGIN
+      const travel = (config.driftRange || 0) + RunVerifier.CLOUD_FLOAT
+      const strike = config.lightningLength ? size.height * 0.25 + config.lightningLength : 0
+
+      return Math.abs(x - cloud.x) <= size.width / 2 + margin &&
+        y >= cloud.y - size.height / 2 - travel - margin &&
+        y <= cloud.y + Math.max(size.height / 2, strike) + travel + margin
+    })
+  }
+
+  /**
+   * Whether the plane's body overlaps a static or storm cloud's collision box
+   * wherever the float animation puts the cloud; drifting clouds depend on
+   * render timing and are left to the end of run check
+   */
+  private static isInsideCloud(x: number, y: number, cloud: CloudSpawn): boolean {
+    const config = CLOUD_CONFIGS[cloud.type]
+    if (config.behavior !== 'static' && config.behavior !== 'storm') return false
+
+    // Same collision box as Cloud.setupPhysics
+    const size = getCloudSize(cloud.type)
+    const coreWidth = size.width * config.collisionScale * 0.10
+    const coreHeight = size.height * config.collisionScale * 0.10
+    const plane = RunVerifier.PLANE_SIZE
+
+    return Math.abs(x - cloud.x) <= (plane.width + coreWidth) / 2 &&
+      Math.abs(y - cloud.y) <= (plane.height + coreHeight) / 2 - RunVerifier.CLOUD_FLOAT
+  }
+
+  private static emptyTally(): Record<RingType, number> {
+    return {
+      [RingType.BRONZE]: 0,
+      [RingType.SILVER]: 0,
+      [RingType.GOLD]: 0
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { ArchiveError, ScoreArchive, type ArchiveContents } from './ScoreArchive'
+import type { GameScore, ScoreStats } from './ScoreManager'
+import { DEFAULT_SETTINGS } from './SettingsManager'
+
+const SCORES: GameScore[] = [
+  { id: 'a', score: 420, distance: 300, timestamp: 1000, gameMode: 'normal', seed: 7, maxCombo: 3, rank: 1 },
+  { id: 'b', score: 90, distance: 80, timestamp: 2000, gameMode: 'challenge', challengeDay: '2026-10-19', rank: 2 }
+]
+const STATS: ScoreStats = { personalBest: 420, totalGames: 2, averageScore: 255, topScores: SCORES }
+
+function createArchive(): ArchiveContents {
+  return ScoreArchive.create(SCORES, STATS, { ...DEFAULT_SETTINGS, language: 'de' })
+}
+
+async function expectRefused(text: string, reason: ArchiveError['reason']): Promise<void> {
+  const error = await ScoreArchive.parse(text).catch(caught => caught)
+  expect(error).toBeInstanceOf(ArchiveError)
+  expect(error.reason).toBe(reason)
+}
+
+describe('ScoreArchive', () => {
+  it('reads back a JSON export with scores, stats and settings', async () => {
+    const archive = createArchive()
+    const text = await ScoreArchive.serialize(archive, 'json')
+
+    expect(JSON.parse(text).checksum).toMatch(/^[0-9a-f]{64}$/)
+    expect(await ScoreArchive.parse(text)).toEqual(archive)
+    expect(archive.scores[0].rank).toBeUndefined()
+  })
+
+  it('reads back a CSV export, which says it leaves out run logs', async () => {
+    const archive = createArchive()
+    const text = await ScoreArchive.serialize(archive, 'csv')
+    const parsed = await ScoreArchive.parse(text)
+
+    expect(text).toContain('# note: run logs are not included')
+    expect(text).toMatch(/\n# checksum: [0-9a-f]{64}\n$/)
+    expect(parsed.scores).toEqual(archive.scores)
+    expect(parsed.settings).toEqual(archive.settings)
+  })
+
+  it('refuses files changed after export', async () => {
+    const json = await ScoreArchive.serialize(createArchive(), 'json')
+    await expectRefused(json.replace('"score": 420', '"score": 99999'), 'checksum')
+
+    const csv = await ScoreArchive.serialize(createArchive(), 'csv')
+    await expectRefused(csv.replace('a,420', 'a,99999'), 'checksum')
+  })
+
+  it('refuses files that are not score exports', async () => {
+    await expectRefused('{"scores": []}', 'invalid')
+    await expectRefused('not a file', 'invalid')
+    await expectRefused('{broken', 'invalid')
+  })
+})
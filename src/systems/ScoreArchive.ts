@@ -0,0 +1,244 @@
+/**
+ * ScoreArchive - Export files of the player's score history
+ *
+ * An archive holds every stored score, the score stats and the player's
+ * settings, as JSON or CSV, so a history can move between devices without an
+ * account; importing one merges the scores and applies the settings. JSON
+ * keeps everything including run logs; CSV has one row per score with the
+ * stats and settings in `#` comment lines above the header, and leaves run
+ * logs out (the file says so in a `# note:` line).
+ *
+ * Every file ends with a SHA-256 checksum of its contents and files whose
+ * checksum doesn't match are refused. It is not a signature - there is no
+ * secret key, so it catches damaged and hand-edited files, not forgeries,
+ * which the leaderboards' server-side verification handles.
+ */
+
+import type { GameScore, ScoreStats } from './ScoreManager'
+import type { PlayerSettings } from './SettingsManager'
+
+export type ArchiveFormat = 'json' | 'csv'
+
+export interface ArchiveContents {
+  version: number
+  exportedAt: number
+  scores: GameScore[]
+  stats: Omit<ScoreStats, 'topScores'>
+  settings: PlayerSettings
+}
+
+/**
+ * Why a file can't be imported: not an archive, or changed since it was exported
+ */
+export type ArchiveErrorReason = 'invalid' | 'checksum'
+
+export class ArchiveError extends Error {
+  public readonly reason: ArchiveErrorReason
+
+  constructor(reason: ArchiveErrorReason, message: string) {
+    super(message)
+    this.name = 'ArchiveError'
+    this.reason = reason
+  }
+}
+
+export class ScoreArchive {
+  public static readonly VERSION = 1
+  private static readonly APP = 'pixelPaperPlane'
+  private static readonly CSV_COLUMNS = [
+    'id', 'score', 'distance', 'timestamp', 'gameMode', 'sessionId', 'seed', 'challengeDay', 'maxCombo'
+  ] as const
+  private static readonly CSV_NUMBERS = ['score', 'distance', 'timestamp', 'seed', 'maxCombo']
+  private static readonly CSV_NOTE = 'run logs are not included in CSV exports - export JSON to keep them'
+
+  /**
+   * Build the contents of an export
+   */
+  public static create(scores: GameScore[], stats: ScoreStats, settings: PlayerSettings): ArchiveContents {
+    const { topScores: _topScores, ...summary } = stats
+    return {
+      version: ScoreArchive.VERSION,
+      exportedAt: Date.now(),
+      scores: scores.map(({ rank: _rank, ...score }) => score),
+      stats: summary,
+      settings
+    }
+  }
+
+  /**
+   * Write an archive as a file ending with its checksum
+   */
+  public static async serialize(contents: ArchiveContents, format: ArchiveFormat): Promise<string> {
+    if (format === 'json') {
+      const body = { app: ScoreArchive.APP, ...contents }
+      return JSON.stringify({ ...body, checksum: await ScoreArchive.checksum(JSON.stringify(body)) }, null, 2)
+    }
+
+    const lines = [
+      `# app: ${ScoreArchive.APP}`,
+      `# version: ${contents.version}`,
+      `# note: ${ScoreArchive.CSV_NOTE}`,
+      `# exportedAt: ${contents.exportedAt}`,
+      `# stats: ${JSON.stringify(contents.stats)}`,
+      `# settings: ${JSON.stringify(contents.settings)}`,
+      ScoreArchive.CSV_COLUMNS.join(','),
+      ...contents.scores.map(score => ScoreArchive.CSV_COLUMNS
+        .map(column => ScoreArchive.toCsvField(score[column]))
+        .join(','))
+    ]
+    const body = lines.join('\n')
+    return `${body}\n# checksum: ${await ScoreArchive.checksum(body)}\n`
+  }
+
+  /**
+   * Read a JSON or CSV export, checking its checksum; scores still need validating
+   */
+  public static async parse(text: string): Promise<ArchiveContents> {
+    const trimmed = text.trim()
+    return trimmed.startsWith('{') ? ScoreArchive.parseJson(trimmed) : ScoreArchive.parseCsv(trimmed)
+  }
+
+  public static getFileName(format: ArchiveFormat, date: Date = new Date()): string {
+    return `pixel-paper-plane-scores-${date.toISOString().slice(0, 10)}.${format}`
+  }
+
+  private static async parseJson(text: string): Promise<ArchiveContents> {
+    let parsed: any
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      throw new ArchiveError('invalid', 'Not valid JSON')
+    }
+
+    if (!parsed || typeof parsed !== 'object' || parsed.app !== ScoreArchive.APP) {
+      throw new ArchiveError('invalid', 'Not a score export')
+    }
+
+    const { checksum, ...body } = parsed
+    if (checksum !== await ScoreArchive.checksum(JSON.stringify(body))) {
+      throw new ArchiveError('checksum', 'Checksum does not match the contents')
+    }
+    return ScoreArchive.checkContents(body)
+  }
+
+  private static async parseCsv(text: string): Promise<ArchiveContents> {
+    const lines = text.replace(/\r\n/g, '\n').split('\n')
+    const checksumLine = lines.pop() || ''
+    const body = lines.join('\n')
+
+    const meta: Record<string, string> = {}
+    const rows: string[][] = []
+    lines.forEach(line => {
+      const comment = line.match(/^# (\w+): (.*)$/)
+      if (comment) {
+        meta[comment[1]] = comment[2]
+      } else if (line.trim() !== '') {
+        rows.push(ScoreArchive.parseCsvLine(line))
+      }
+    })
+
+    if (meta.app !== ScoreArchive.APP) {
+      throw new ArchiveError('invalid', 'Not a score export')
+    }
+    if (checksumLine !== `# checksum: ${await ScoreArchive.checksum(body)}`) {
+      throw new ArchiveError('checksum', 'Checksum does not match the contents')
+    }
+
+    const [header = [], ...scoreRows] = rows
+    if (header.join(',') !== ScoreArchive.CSV_COLUMNS.join(',')) {
+      throw new ArchiveError('invalid', 'Unexpected CSV columns')
+    }
+
+    try {
+      return ScoreArchive.checkContents({
+        version: Number(meta.version),
+        exportedAt: Number(meta.exportedAt),
+        stats: JSON.parse(meta.stats),
+        settings: JSON.parse(meta.settings),
+        scores: scoreRows.map(row => ScoreArchive.fromCsvRow(header, row))
+      })
+    } catch (error) {
+      if (error instanceof ArchiveError) throw error
+      throw new ArchiveError('invalid', 'Malformed stats or settings')
+    }
+  }
+
+  /**
+   * Shape check for an archive that passed its checksum; versions newer than
+   * this build are refused
+   */
+  private static checkContents(body: any): ArchiveContents {
+    if (!Number.isInteger(body.version) || body.version < 1 || body.version > ScoreArchive.VERSION) {
+      throw new ArchiveError('invalid', `Unsupported archive version ${body.version}`)
+    }
+    if (!Array.isArray(body.scores)) {
+      throw new ArchiveError('invalid', 'Archive has no scores')
+    }
+    // Values are checked field by field when the settings are applied
+    if (!body.settings || typeof body.settings !== 'object' || Array.isArray(body.settings)) {
+      throw new ArchiveError('invalid', 'Archive has no settings')
+    }
+
+    return {
+      version: body.version,
+      exportedAt: Number(body.exportedAt) || 0,
+      scores: body.scores,
+      stats: body.stats,
+      settings: body.settings
+    }
+  }
+
+  private static fromCsvRow(header: string[], row: string[]): GameScore {
+    const score: Record<string, string | number> = {}
+    header.forEach((column, index) => {
+      const value = row[index] ?? ''
+      if (value === '') return
+      score[column] = ScoreArchive.CSV_NUMBERS.includes(column) ? Number(value) : value
+    })
+    return score as unknown as GameScore
+  }
+
+  private static toCsvField(value: unknown): string {
+    if (value === undefined || value === null) return ''
+    const text = String(value)
+    return /[",]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  /**
+   * Split one CSV line, honouring quoted fields
+   */
+  private static parseCsvLine(line: string): string[] {
+    const fields: string[] = []
+    let field = ''
+    let quoted = false
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          field += char
+        }
+      } else if (char === '"') {
+        quoted = true
+      } else if (char === ',') {
+        fields.push(field)
+        field = ''
+      } else {
+        field += char
+      }
+    }
+
+    fields.push(field)
+    return fields
+  }
+
+  private static async checksum(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+  }
+}
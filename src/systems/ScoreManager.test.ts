@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ScoreManager } from './ScoreManager'
+import { ScoreOutbox } from './ScoreOutbox'
+import { InMemoryScoreRepository, type StoredScore } from './ScoreRepository'
+
+function makeScore(score: number, overrides: Partial<StoredScore> = {}): StoredScore {
+  return { id: crypto.randomUUID(), score, distance: score, timestamp: Date.now() - 1000, gameMode: 'normal', ...overrides }
+}
+
+describe('ScoreManager', () => {
+  let local: InMemoryScoreRepository
+  let session: InMemoryScoreRepository
+  let manager: ScoreManager
+
+  beforeEach(() => {
+    local = new InMemoryScoreRepository()
+    session = new InMemoryScoreRepository()
+    manager = new ScoreManager({ local, session })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  describe('saveScore', () => {
+    it('stores the score in the history and the session and returns its rank', async () => {
+      await manager.saveScore(300, 200)
+      const saved = await manager.saveScore(500, 250, 'normal', { seed: 42, maxCombo: 3 })
+
+      expect(saved).toMatchObject({ score: 500, distance: 250, rank: 1, seed: 42, maxCombo: 3, syncedToCloud: false })
+      expect(typeof saved.id).toBe('string')
+      expect(manager.getSessionScores()).toHaveLength(2)
+
+      // Writes land in the background
+      await vi.waitFor(async () => expect(await local.getAll()).toHaveLength(2))
+      expect(await session.getAll()).toHaveLength(2)
+      expect((await local.getAll()).every(score => score.rank === undefined)).toBe(true)
+    })
+
+    it('rounds scores down and refuses invalid ones', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      expect(await manager.saveScore(99.9, 10.5)).toMatchObject({ score: 99, distance: 10, rank: 1 })
+      expect(await manager.saveScore(-5, 10)).toMatchObject({ score: 0, rank: 0 })
+      expect(manager.getAllScores()).toHaveLength(1)
+    })
+
+    it('keeps each board\'s best MAX_STORED_SCORES separately and ranks within the board', async () => {
+      for (let i = 1; i <= ScoreManager.MAX_STORED_SCORES + 5; i++) {
+        await manager.saveScore(1000 + i, 100)
+      }
+
+      const challenge = await manager.saveScore(50, 20, 'challenge', { challengeDay: '2026-10-19' })
+      const otherDay = await manager.saveScore(80, 20, 'challenge', { challengeDay: '2026-10-20' })
+
+      expect(challenge.rank).toBe(1)
+      expect(otherDay.rank).toBe(1)
+      expect(manager.getChallengeScores('2026-10-19').map(score => score.score)).toEqual([50])
+      expect(manager.getScoresForMode('normal')).toHaveLength(ScoreManager.MAX_STORED_SCORES)
+      expect(manager.getScoresForMode('normal')[0].rank).toBe(1)
+    })
+
+    it('keeps only the best MAX_STORED_SCORES', async () => {
+      for (let i = 1; i <= ScoreManager.MAX_STORED_SCORES + 5; i++) {
+        await manager.saveScore(i * 10, i)
+      }
+
+      const scores = manager.getAllScores()
+      expect(scores).toHaveLength(ScoreManager.MAX_STORED_SCORES)
+      expect(scores[scores.length - 1].score).toBe(60)
+      expect((await manager.saveScore(5, 1)).rank).toBe(0)
+    })
+
+    it('queues the score for upload when a player is signed in', async () => {
+      const remote = new InMemoryScoreRepository()
+      const outbox = new ScoreOutbox(new InMemoryScoreRepository(), remote, {
+        getState: () => 'online',
+        getUserId: () => 'player-a'
+      })
+      manager = new ScoreManager({ local, session, remote, outbox })
+
+      const saved = await manager.saveScore(150, 90)
+      await vi.waitFor(() => expect(manager.getAllScores()[0].syncedToCloud).toBe(true))
+
+      expect((await remote.getAll()).map(score => score.id)).toEqual([saved.id])
+    })
+  })
+
+  describe('getTopScores', () => {
+    it('returns the best N scores, ranked', async () => {
+      for (const score of [120, 480, 300, 90, 610]) {
+        await manager.saveScore(score, 50)
+      }
+
+      expect(manager.getTopScores(3).map(score => [score.rank, score.score])).toEqual([[1, 610], [2, 480], [3, 300]])
+      expect(manager.getTopScores()).toHaveLength(5)
+    })
+
+    it('ranks scores loaded from the repositories', async () => {
+      local = new InMemoryScoreRepository([makeScore(40), makeScore(900), makeScore(300)])
+      manager = new ScoreManager({ local, session })
+      await manager.load()
+
+      expect(manager.getTopScores(2).map(score => score.score)).toEqual([900, 300])
+      expect(manager.getPersonalRank(500)).toBe(2)
+    })
+  })
+
+  describe('personal best', () => {
+    it('tracks the best score in the stats', async () => {
+      expect(manager.getScoreStats()).toMatchObject({ personalBest: 0, totalGames: 0 })
+      expect(manager.isNewPersonalBest(1)).toBe(true)
+
+      await manager.saveScore(400, 100)
+      await manager.saveScore(200, 100)
+
+      expect(manager.getScoreStats()).toMatchObject({ personalBest: 400, totalGames: 2, averageScore: 300 })
+      expect(manager.isNewPersonalBest(400)).toBe(false)
+      expect(manager.isNewPersonalBest(401)).toBe(true)
+    })
+
+    it('compares against the run\'s own board', async () => {
+      await manager.saveScore(900, 300)
+      await manager.saveScore(300, 100, 'challenge', { challengeDay: '2026-10-19' })
+
+      expect(manager.isNewPersonalBest(500, 'challenge', '2026-10-19')).toBe(true)
+      expect(manager.isNewPersonalBest(200, 'challenge', '2026-10-19')).toBe(false)
+      expect(manager.isNewPersonalBest(10, 'challenge', '2026-10-20')).toBe(true)
+      expect(manager.isNewPersonalBest(500)).toBe(false)
+    })
+  })
+
+  describe('clearAllScores', () => {
+    it('empties the history and its repository', async () => {
+      await manager.saveScore(250, 120)
+      await manager.saveScore(350, 130)
+
+      manager.clearAllScores()
+
+      expect(manager.getAllScores()).toEqual([])
+      expect(manager.getScoreStats().personalBest).toBe(0)
+      await vi.waitFor(async () => expect(await local.getAll()).toEqual([]))
+    })
+  })
+
+  describe('importScores', () => {
+    it('adds new scores with only the known fields', async () => {
+      const existing = await manager.saveScore(100, 50)
+      const imported = {
+        ...makeScore(300, { seed: 5, maxCombo: 4 }),
+        userId: 'someone-else',
+        syncedToCloud: true,
+        rank: 1,
+        isAdmin: true,
+        run: [1, 2]
+      }
+
+      // Entries come from a file, so anything may be in them
+      const added = await manager.importScores([imported, { ...existing, score: 900 }, null] as unknown as StoredScore[])
+
+      expect(added).toBe(1)
+      const stored = manager.getAllScores().find(score => score.id === imported.id)!
+      expect(stored).toMatchObject({ score: 300, seed: 5, maxCombo: 4, syncedToCloud: false })
+      expect(Object.keys(stored)).not.toContain('isAdmin')
+      expect(stored.userId).toBeUndefined()
+      expect(stored.run).toBeUndefined()
+      expect(manager.getAllScores().find(score => score.id === existing.id)?.score).toBe(100)
+    })
+  })
+
+  describe('load', () => {
+    it('removes entries that fail validation', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      local = new InMemoryScoreRepository([makeScore(100), makeScore(-1), makeScore(50, { timestamp: Date.now() + 7 * 86400000 })])
+      manager = new ScoreManager({ local, session })
+      await manager.load()
+
+      expect(manager.getAllScores().map(score => score.score)).toEqual([100])
+      expect(await local.getAll()).toHaveLength(1)
+    })
+
+    it('carries on the session the stored session scores belong to', async () => {
+      session = new InMemoryScoreRepository([makeScore(70, { sessionId: 'session_earlier' })])
+      manager = new ScoreManager({ local, session })
+
+      const saved = await manager.saveScore(80, 40)
+      expect(saved.sessionId).toBe('session_earlier')
+    })
+  })
+})
@@ -1,22 +1,31 @@
 /**
- * ScoreManager - Handles score persistence and ranking with Firebase integration
- * Local storage with cloud sync for authenticated users
+ * ScoreManager - Handles score persistence and ranking with cloud sync
+ *
+ * Composes a local ScoreRepository (the player's best MAX_STORED_SCORES
+ * runs on each board: normal runs, and each day's challenge), a session repository (this browser session's runs) and, when the
+ * game has a backend, a remote repository that scores reach through the
+ * durable ScoreOutbox. Reads come from an in-memory copy filled by load(),
+ * so they stay synchronous whatever the storage is.
+ *
+ * getInstance() wires localStorage, sessionStorage, IndexedDB and Firestore;
+ * tests can build a manager over InMemoryScoreRepository instead. Entries
+ * that fail validation are moved to the DataQuarantine, not deleted.
  */
 
-import { initializeApp } from 'firebase/app'
-import { 
-  getFirestore, 
-  collection, 
-  doc, 
-  getDocs, 
-  query, 
-  where, 
-  orderBy, 
-  limit,
-  writeBatch
-} from 'firebase/firestore'
-import type { Firestore } from 'firebase/firestore'
 import { AuthManager } from './AuthManager'
+import { DataQuarantine, PersistedData } from './PersistedData'
+import { BEST_REPLAYS_SCHEMA, SCORES_SCHEMA, SESSION_SCHEMA } from './PersistedSchemas'
+import { ReplayRecorder } from './ReplayRecorder'
+import type { RunReplay } from './ReplayRecorder'
+import type { RunLog } from './RunVerifier'
+import { ScoreOutbox } from './ScoreOutbox'
+import {
+  FirestoreScoreRepository,
+  IndexedDBScoreRepository,
+  LocalStorageScoreRepository,
+  type ScoreRepository,
+  type StoredScore
+} from './ScoreRepository'
 
 export interface GameScore {
   score: number
@@ -25,11 +34,20 @@ export interface GameScore {
   rank?: number
   sessionId?: string // For guest session tracking
   userId?: string // For Firebase sync
-  id?: string // Firestore document ID
+  id?: string // Client-generated UUID, also the score's Firestore document ID
   gameMode?: string // Normal, challenge, etc.
   syncedToCloud?: boolean // Whether this score is saved to Firestore
+  seed?: number // World generation seed, allows replaying the same course
+  challengeDay?: string // Daily challenge day key (YYYY-MM-DD), challenge mode only
+  maxCombo?: number // Longest ring combo of the run
+  run?: RunLog // Input log and tallies the server re-simulates to verify the score
 }
 
+/**
+ * Optional run details stored alongside a score
+ */
+export type ScoreMetadata = Pick<GameScore, 'seed' | 'challengeDay' | 'maxCombo' | 'run'>
+
 export interface ScoreStats {
   personalBest: number
   totalGames: number
@@ -37,10 +55,13 @@ export interface ScoreStats {
   topScores: GameScore[]
 }
 
-export interface SessionData {
-  sessionId: string
-  scores: GameScore[]
-  startTime: number
+/**
+ * Replay of the best run on a board, linked to its score entry by timestamp
+ */
+export interface BestReplay {
+  scoreTimestamp: number
+  score: number
+  replay: RunReplay
 }
 
 export interface CloudSyncResult {
@@ -49,230 +70,207 @@ export interface CloudSyncResult {
   errors: string[]
 }
 
+/**
+ * Where a ScoreManager keeps its scores
+ */
+export interface ScoreRepositories {
+  local: ScoreRepository // The player's score history
+  session: ScoreRepository // Scores from the current session
+  remote?: ScoreRepository // Cloud copy, omitted for local-only play
+  outbox?: ScoreOutbox // Uploads to the remote repository
+  quarantine?: DataQuarantine // Keeps invalid entries for recovery; without one they are discarded
+}
+
 export class ScoreManager {
-  private static readonly STORAGE_KEY = 'pixelPaperPlane_scores'
-  private static readonly SESSION_KEY = 'pixelPaperPlane_session'
-  private static readonly MAX_STORED_SCORES = 50
-  private static sessionData: SessionData | null = null
-  private static firestore: Firestore | null = null
-  private static authManager: AuthManager = AuthManager.getInstance()
-  private static isInitialized = false
-  private static isOnline = navigator.onLine
-  private static pendingSyncScores: GameScore[] = []
-  
-  /**
-   * Initialize Firestore connection
-   */
-  private static async initializeFirestore(): Promise<void> {
-    if (this.isInitialized || !this.authManager.isFirebaseAvailable()) {
-      return
-    }
-    
-    try {
-      // Get Firebase app from AuthManager
-      const firebaseConfig = {
-        apiKey: import.meta.env.VITE_FIREBASE_API_KEY || "demo-api-key",
-        authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN || "paper-plane-c713f.firebaseapp.com",
-        projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || "paper-plane-c713f",
-        storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET || "paper-plane-c713f.appspot.com",
-        messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID || "123456789",
-        appId: import.meta.env.VITE_FIREBASE_APP_ID || "1:123456789:web:demo-app-id"
-      }
-      
-      const app = initializeApp(firebaseConfig)
-      this.firestore = getFirestore(app)
-      
-      // Monitor online/offline status
-      window.addEventListener('online', () => {
-        this.isOnline = true
-        this.syncPendingScores()
-      })
-      
-      window.addEventListener('offline', () => {
-        this.isOnline = false
-      })
-      
-      this.isInitialized = true
-      console.log('ScoreManager: Firestore initialized')
-      
-      // Sync any pending scores
-      this.syncPendingScores()
-      
-    } catch (error) {
-      console.warn('ScoreManager: Failed to initialize Firestore:', error)
+  private static instance: ScoreManager
+  public static readonly MAX_STORED_SCORES = 50
+
+  private readonly local: ScoreRepository
+  private readonly session: ScoreRepository
+  private readonly remote: ScoreRepository | null
+  private readonly outbox: ScoreOutbox | null
+  private readonly quarantine: DataQuarantine | null
+  private scores: StoredScore[] = [] // Best first, at most MAX_STORED_SCORES per board
+  private sessionScores: StoredScore[] = []
+  private sessionId: string = ScoreManager.generateSessionId()
+  private ready: Promise<void> | null = null
+  private pendingWrites = new Map<ScoreRepository, Promise<void>>()
+  private storedReplays: PersistedData<Record<string, BestReplay>> | null = null
+
+  constructor(repositories: ScoreRepositories) {
+    this.local = repositories.local
+    this.session = repositories.session
+    this.remote = repositories.remote || null
+    this.outbox = repositories.outbox || null
+    this.quarantine = repositories.quarantine || null
+
+    this.outbox?.onScoreSynced(score => this.markSynced(score.id))
+  }
+
+  public static getInstance(): ScoreManager {
+    if (!ScoreManager.instance) {
+      ScoreManager.instance = ScoreManager.createBrowserManager()
     }
+    return ScoreManager.instance
   }
-  
+
   /**
-   * Sync pending scores to Firestore when online
+   * History in localStorage, the session in sessionStorage and Firestore
+   * behind an IndexedDB outbox
    */
-  private static async syncPendingScores(): Promise<void> {
-    if (!this.isOnline || !this.firestore || this.pendingSyncScores.length === 0) {
-      return
-    }
+  private static createBrowserManager(): ScoreManager {
+    const authManager = AuthManager.getInstance()
+    const remote = new FirestoreScoreRepository(authManager)
+    const outbox = new ScoreOutbox(new IndexedDBScoreRepository('scoreOutbox'), remote, ScoreOutbox.BROWSER_CONNECTION)
+    outbox.watchBrowserConnection()
+
+    // Quarantined session data outlives the session
+    const quarantine = new DataQuarantine(localStorage)
+    const manager = new ScoreManager({
+      local: new LocalStorageScoreRepository(localStorage, SCORES_SCHEMA, quarantine),
+      session: new LocalStorageScoreRepository(sessionStorage, SESSION_SCHEMA, quarantine),
+      remote,
+      outbox,
+      quarantine
+    })
+
+    // Upload the local history when a player signs in or upgrades from guest
+    authManager.onAuthStateChanged(user => {
+      if (user && !user.isGuest) {
+        console.log('ScoreManager: User authenticated, syncing scores...')
+        manager.transferLocalScores()
+      }
+    })
 
-    const user = this.authManager.getCurrentUser()
-    if (!user || user.isGuest) {
-      return // Only sync for authenticated users
+    return manager
+  }
+
+  /**
+   * Read the repositories into memory and resume uploads; safe to call repeatedly
+   */
+  public load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = Promise.all([this.loadScores(this.local, 'local'), this.loadScores(this.session, 'session')])
+        .then(([scores, sessionScores]) => {
+          this.scores = ScoreManager.keepBest(scores)
+          this.sessionScores = sessionScores
+
+          // Carry on the session the stored scores belong to
+          const sessionId = sessionScores.find(score => score.sessionId)?.sessionId
+          if (sessionId) {
+            this.sessionId = sessionId
+          }
+
+          this.outbox?.flush()
+        })
     }
+    return this.ready
+  }
 
+  /**
+   * Read one repository, quarantining entries that fail validation
+   */
+  private async loadScores(repository: ScoreRepository, name: string): Promise<StoredScore[]> {
     try {
-      const batch = writeBatch(this.firestore)
-      const syncedScores: GameScore[] = []
-
-      for (const score of this.pendingSyncScores) {
-        const scoreData = {
-          score: score.score,
-          distance: score.distance,
-          timestamp: new Date(score.timestamp),
-          userId: user.id,
-          gameMode: score.gameMode || 'normal',
-          sessionId: score.sessionId
-        }
+      const stored = await repository.getAll()
+      const invalid = stored.filter(score => !ScoreManager.isValidGameScore(score))
 
-        const docRef = doc(collection(this.firestore, 'scores'))
-        batch.set(docRef, scoreData)
-        syncedScores.push({ ...score, id: docRef.id, syncedToCloud: true })
+      if (invalid.length > 0) {
+        if (this.quarantine) {
+          this.quarantine.add(`ScoreManager:${name}`, invalid, 'Scores failed validation')
+        } else {
+          console.warn(`Removed ${invalid.length} invalid score entries`)
+        }
+        await repository.remove(invalid.map(score => score.id))
       }
 
-      await batch.commit()
-      
-      // Update local storage to mark scores as synced
-      this.updateLocalScoresSync(syncedScores)
-      
-      // Clear pending scores
-      this.pendingSyncScores = []
-      
-      console.log(`ScoreManager: Synced ${syncedScores.length} scores to Firestore`)
+      return stored.filter(score => ScoreManager.isValidGameScore(score))
     } catch (error) {
-      console.warn('ScoreManager: Failed to sync scores:', error)
+      console.warn('ScoreManager: Failed to load scores:', error)
+      return []
     }
   }
 
   /**
-   * Update local scores to mark them as synced
+   * Outbox that uploads scores, null for local-only managers
    */
-  private static updateLocalScoresSync(syncedScores: GameScore[]): void {
-    const allScores = this.getAllScores()
-    const updatedScores = allScores.map(localScore => {
-      const synced = syncedScores.find(s => s.timestamp === localScore.timestamp)
-      return synced ? { ...localScore, syncedToCloud: true, id: synced.id } : localScore
-    })
-    this.saveToStorage(updatedScores)
+  public getOutbox(): ScoreOutbox | null {
+    return this.outbox
   }
 
-
-
   /**
-   * Load scores from Firestore for current user
+   * Mark a score as stored in the cloud, locally and in the session
    */
-  public static async loadUserScoresFromFirestore(): Promise<GameScore[]> {
-    await this.initializeFirestore()
-    
-    if (!this.firestore || !this.isOnline) {
-      return []
+  private markSynced(id: string): void {
+    const update = (scores: StoredScore[]): StoredScore[] =>
+      scores.map(score => score.id === id ? { ...score, syncedToCloud: true } : score)
+
+    this.scores = update(this.scores)
+    this.sessionScores = update(this.sessionScores)
+
+    const synced = this.scores.find(score => score.id === id)
+    if (synced) {
+      this.write(this.local, [synced])
+    }
+    const syncedInSession = this.sessionScores.find(score => score.id === id)
+    if (syncedInSession) {
+      this.write(this.session, [syncedInSession])
     }
+  }
 
-    const user = this.authManager.getCurrentUser()
-    if (!user || user.isGuest) {
+  /**
+   * Load the signed-in player's scores from the remote repository
+   */
+  public async loadRemoteScores(): Promise<StoredScore[]> {
+    if (!this.remote || !this.outbox?.isSignedIn()) {
       return []
     }
 
     try {
-      const q = query(
-        collection(this.firestore, 'scores'),
-        where('userId', '==', user.id),
-        orderBy('score', 'desc'),
-        limit(this.MAX_STORED_SCORES)
-      )
-
-      const querySnapshot = await getDocs(q)
-      const cloudScores: GameScore[] = []
-
-      querySnapshot.forEach((doc) => {
-        const data = doc.data()
-        cloudScores.push({
-          id: doc.id,
-          score: data.score,
-          distance: data.distance,
-          timestamp: data.timestamp?.toDate?.()?.getTime() || data.timestamp?.toMillis?.() || Date.now(),
-          userId: data.userId,
-          gameMode: data.gameMode || 'normal',
-          sessionId: data.sessionId,
-          syncedToCloud: true
-        })
-      })
-
-      return cloudScores
+      return await this.remote.getAll()
     } catch (error) {
-      console.warn('ScoreManager: Failed to load scores from Firestore:', error)
+      console.warn('ScoreManager: Failed to load remote scores:', error)
       return []
     }
   }
 
   /**
-   * Transfer local scores to Firebase when user creates account
+   * Queue every local score that isn't in the cloud yet and wait for one upload pass
    */
-  public static async transferLocalScoresToFirestore(): Promise<CloudSyncResult> {
-    await this.initializeFirestore()
-    
+  public async transferLocalScores(): Promise<CloudSyncResult> {
     const result: CloudSyncResult = {
       success: false,
       syncedCount: 0,
       errors: []
     }
 
-    if (!this.firestore || !this.isOnline) {
-      result.errors.push('Firestore not available or offline')
-      return result
-    }
-
-    const user = this.authManager.getCurrentUser()
-    if (!user || user.isGuest) {
+    const outbox = this.outbox
+    if (!outbox || !outbox.isSignedIn()) {
       result.errors.push('User must be authenticated to sync scores')
       return result
     }
 
     try {
-      const localScores = this.getAllScores().filter(score => !score.syncedToCloud)
-      
+      await this.load()
+      const localScores = this.scores.filter(score => !score.syncedToCloud)
+
       if (localScores.length === 0) {
         result.success = true
         return result
       }
 
-      const batch = writeBatch(this.firestore)
-      
-      for (const score of localScores) {
-        const scoreData = {
-          score: score.score,
-          distance: score.distance,
-          timestamp: new Date(score.timestamp),
-          userId: user.id,
-          gameMode: score.gameMode || 'normal',
-          sessionId: score.sessionId
-        }
+      // Failures stay queued for retry
+      await outbox.enqueue(localScores)
+      await outbox.flush()
 
-        const docRef = doc(collection(this.firestore, 'scores'))
-        batch.set(docRef, scoreData)
+      const waiting = localScores.filter(score => outbox.isQueued(score.id)).length
+      result.syncedCount = localScores.length - waiting
+      result.success = waiting === 0
+      if (waiting > 0) {
+        result.errors.push(`${waiting} scores queued to retry`)
       }
 
-      await batch.commit()
-      
-      // Update local scores to mark as synced
-      const updatedScores = localScores.map(score => ({
-        ...score,
-        syncedToCloud: true,
-        userId: user.id
-      }))
-      
-      this.updateLocalScoresSync(updatedScores)
-      
-      result.success = true
-      result.syncedCount = localScores.length
-      
-      console.log(`ScoreManager: Transferred ${localScores.length} local scores to Firestore`)
-      
+      console.log(`ScoreManager: Transferred ${result.syncedCount} local scores`)
     } catch (error: any) {
       result.errors.push(error.message || 'Failed to transfer scores')
       console.error('ScoreManager: Score transfer failed:', error)
@@ -282,118 +280,27 @@ export class ScoreManager {
   }
 
   /**
-   * Set up authentication state listener for automatic score syncing
-   */
-  private static setupAuthListener(): void {
-    this.authManager.onAuthStateChanged(async (user) => {
-      if (user && !user.isGuest) {
-        // User just logged in or was upgraded from guest
-        console.log('ScoreManager: User authenticated, syncing scores...')
-        await this.transferLocalScoresToFirestore()
-      }
-    })
-  }
-
-  /**
-   * Initialize or get current session with validation
-   */
-  public static initializeSession(): SessionData {
-    if (this.sessionData && this.isValidSessionData(this.sessionData)) {
-      return this.sessionData
-    }
-    
-    // Set up auth state listener for score syncing
-    this.setupAuthListener()
-    
-    try {
-      const stored = sessionStorage.getItem(this.SESSION_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        if (this.isValidSessionData(parsed)) {
-          this.sessionData = parsed
-          return this.sessionData!
-        } else {
-          console.warn('Invalid session data found, creating new session')
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to load session data:', error)
-    }
-    
-    // Create new session
-    this.sessionData = {
-      sessionId: this.generateSessionId(),
-      scores: [],
-      startTime: Date.now()
-    }
-    
-    this.saveSessionData()
-    return this.sessionData
-  }
-  
-  /**
-   * Generate a unique session ID
-   */
-  private static generateSessionId(): string {
-    return 'session_' + Date.now() + '_' + Math.random().toString(36).substring(2, 9)
-  }
-  
-  /**
-   * Save session data to sessionStorage
-   */
-  private static saveSessionData(): void {
-    if (!this.sessionData) return
-    
-    try {
-      sessionStorage.setItem(this.SESSION_KEY, JSON.stringify(this.sessionData))
-    } catch (error) {
-      console.warn('Failed to save session data:', error)
-    }
-  }
-  
-  /**
-   * Get current session scores
-   */
-  public static getSessionScores(): GameScore[] {
-    const session = this.initializeSession()
-    return session.scores
-  }
-
-  /**
-   * Manually trigger sync of all scores with Firestore
+   * Upload local scores, then merge the cloud copy into the local history
    */
-  public static async syncWithFirestore(): Promise<CloudSyncResult> {
-    await this.initializeFirestore()
-    
+  public async syncWithRemote(): Promise<CloudSyncResult> {
     const result: CloudSyncResult = {
       success: false,
       syncedCount: 0,
       errors: []
     }
 
-    const user = this.authManager.getCurrentUser()
-    if (!user || user.isGuest) {
-      result.errors.push('User must be authenticated to sync')
-      return result
-    }
-
     try {
-      // First, transfer any local scores that haven't been synced
-      const transferResult = await this.transferLocalScoresToFirestore()
+      const transferResult = await this.transferLocalScores()
       result.syncedCount += transferResult.syncedCount
       result.errors.push(...transferResult.errors)
 
-      // Then, load and merge cloud scores
-      const cloudScores = await this.loadUserScoresFromFirestore()
+      const cloudScores = await this.loadRemoteScores()
       if (cloudScores.length > 0) {
-        const localScores = this.getAllScores()
-        const mergedScores = this.mergeLocalAndCloudScores(localScores, cloudScores)
-        this.saveToStorage(mergedScores)
+        this.storeScores(ScoreManager.mergeLocalAndCloudScores(this.scores, cloudScores))
       }
 
       result.success = transferResult.success
       console.log(`ScoreManager: Sync completed. ${result.syncedCount} scores synced.`)
-      
     } catch (error: any) {
       result.errors.push(error.message || 'Sync failed')
       console.error('ScoreManager: Sync failed:', error)
@@ -403,41 +310,96 @@ export class ScoreManager {
   }
 
   /**
-   * Merge local and cloud scores, removing duplicates and maintaining sync status
+   * Merge local and cloud scores by id, keeping the cloud copy (and its sync status)
+   */
+  private static mergeLocalAndCloudScores(localScores: StoredScore[], cloudScores: StoredScore[]): StoredScore[] {
+    const cloudIds = new Set(cloudScores.map(score => score.id))
+    return [...cloudScores, ...localScores.filter(score => !cloudIds.has(score.id))]
+  }
+
+  /**
+   * Add scores from an exported history (see ScoreArchive), skipping invalid
+   * entries and runs already stored; returns how many were added
    */
-  private static mergeLocalAndCloudScores(localScores: GameScore[], cloudScores: GameScore[]): GameScore[] {
-    const merged = [...cloudScores] // Start with cloud scores
+  public async importScores(scores: GameScore[]): Promise<number> {
+    await this.load()
 
-    // Add local scores that aren't in the cloud
-    localScores.forEach(localScore => {
-      const existsInCloud = cloudScores.some(cloudScore => 
-        cloudScore.timestamp === localScore.timestamp ||
-        (cloudScore.score === localScore.score && 
-         cloudScore.distance === localScore.distance &&
-         Math.abs(cloudScore.timestamp - localScore.timestamp) < 5000) // Within 5 seconds
-      )
+    const added: StoredScore[] = []
+    scores.forEach(entry => {
+      if (!entry || typeof entry !== 'object') return
 
-      if (!existsInCloud) {
-        merged.push(localScore)
+      const score = ScoreManager.fromImportedEntry(entry)
+      const isKnown = [...this.scores, ...added].some(existing => existing.id === score.id)
+      if (ScoreManager.isValidGameScore(score) && !isKnown) {
+        added.push(score)
       }
     })
 
-    // Sort by score and add rankings
-    return merged
-      .sort((a, b) => b.score - a.score)
-      .slice(0, this.MAX_STORED_SCORES)
-      .map((score, index) => ({
-        ...score,
-        rank: index + 1
-      }))
+    if (added.length === 0) {
+      return 0
+    }
+
+    this.storeScores([...this.scores, ...added])
+    const kept = added.filter(score => this.scores.some(stored => stored.id === score.id))
+
+    if (kept.length > 0 && this.outbox?.isSignedIn()) {
+      this.outbox.enqueue(kept).catch(error => {
+        console.warn('ScoreManager: Failed to queue imported scores for sync:', error)
+      })
+    }
+
+    console.log(`ScoreManager: Imported ${kept.length} of ${scores.length} scores`)
+    return kept.length
   }
-  
+
   /**
-   * Save a new score to localStorage, session, and Firebase
+   * Copy the known fields of an imported entry, dropping anything else the
+   * file carries. Owner and upload state belong to the device that exported
+   * it: the outbox stamps the current player when the score is queued.
    */
-  public static async saveScore(score: number, distance: number, gameMode: string = 'normal'): Promise<GameScore> {
+  private static fromImportedEntry(entry: any): StoredScore {
+    const optional = <T>(value: any, type: string): T | undefined => typeof value === type ? value : undefined
+
+    return {
+      id: typeof entry.id === 'string' ? entry.id : crypto.randomUUID(),
+      score: entry.score,
+      distance: entry.distance,
+      timestamp: entry.timestamp,
+      sessionId: optional<string>(entry.sessionId, 'string'),
+      gameMode: optional<string>(entry.gameMode, 'string'),
+      seed: optional<number>(entry.seed, 'number'),
+      challengeDay: optional<string>(entry.challengeDay, 'string'),
+      maxCombo: optional<number>(entry.maxCombo, 'number'),
+      run: entry.run && typeof entry.run === 'object' && !Array.isArray(entry.run) ? entry.run : undefined,
+      syncedToCloud: false
+    }
+  }
+
+  /**
+   * Generate a unique session ID
+   */
+  private static generateSessionId(): string {
+    return 'session_' + Date.now() + '_' + Math.random().toString(36).substring(2, 9)
+  }
+
+  /**
+   * Get current session scores
+   */
+  public getSessionScores(): GameScore[] {
+    return [...this.sessionScores]
+  }
+
+  /**
+   * Save a new score to the history and session, and queue it for upload
+   */
+  public async saveScore(
+    score: number,
+    distance: number,
+    gameMode: string = 'normal',
+    metadata: ScoreMetadata = {}
+  ): Promise<GameScore> {
     // Validate input
-    const validatedScore = this.validateScoreInput(score, distance)
+    const validatedScore = ScoreManager.validateScoreInput(score, distance)
     if (!validatedScore.isValid) {
       console.warn('Invalid score input:', validatedScore.error)
       return {
@@ -449,69 +411,62 @@ export class ScoreManager {
         syncedToCloud: false
       }
     }
-    
-    const session = this.initializeSession()
-    
-    const newScore: GameScore = {
+
+    await this.load()
+
+    const newScore: StoredScore = {
+      ...metadata,
+      id: crypto.randomUUID(),
       score: validatedScore.score,
       distance: validatedScore.distance,
       timestamp: Date.now(),
-      sessionId: session.sessionId,
+      sessionId: this.sessionId,
       gameMode,
       syncedToCloud: false
     }
-    
-    // Add to session
-    session.scores.push(newScore)
-    this.saveSessionData()
-    
-    // Save to persistent storage (local only)
-    const scores = this.getAllScores()
-    scores.push(newScore)
-    
-    // Sort by score descending and limit storage
-    const sortedScores = scores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, this.MAX_STORED_SCORES)
-    
-    // Add ranking to scores
-    const rankedScores = sortedScores.map((scoreEntry, index) => ({
-      ...scoreEntry,
-      rank: index + 1
-    }))
-    
-    this.saveToStorage(rankedScores)
-    
-    // Get the saved score with its rank
-    const savedScore = rankedScores.find(s => s.timestamp === newScore.timestamp) || newScore
-    
-    return savedScore
+
+    this.sessionScores.push(newScore)
+    this.write(this.session, [newScore])
+    this.storeScores([...this.scores, newScore])
+
+    // Signed-in players' scores are queued for upload; guests' wait for an account
+    if (this.outbox?.isSignedIn()) {
+      this.outbox.enqueue([newScore]).catch(error => {
+        console.warn('ScoreManager: Failed to queue score for sync:', error)
+      })
+    }
+
+    // Rank of the new score on its board, 0 when it didn't make the stored history
+    const rank = this.getBoardScores(gameMode, newScore.challengeDay).findIndex(s => s.id === newScore.id) + 1
+    return { ...newScore, rank }
   }
 
   /**
    * Save a new score (backward compatibility - sync version)
    */
-  public static saveSyncScore(score: number, distance: number, gameMode: string = 'normal'): GameScore {
+  public saveSyncScore(
+    score: number,
+    distance: number,
+    gameMode: string = 'normal',
+    metadata: ScoreMetadata = {}
+  ): GameScore {
     // For immediate compatibility, we'll use the async version but return a basic score
-    this.saveScore(score, distance, gameMode).catch(error => {
+    this.saveScore(score, distance, gameMode, metadata).catch(error => {
       console.warn('ScoreManager: Async save failed:', error)
     })
-    
+
     // Return a basic score immediately for backward compatibility
-    const session = this.initializeSession()
-    const user = this.authManager.getCurrentUser()
-    
     return {
+      ...metadata,
       score,
       distance,
       timestamp: Date.now(),
-      sessionId: session.sessionId,
+      sessionId: this.sessionId,
       gameMode,
-      userId: user?.id,
       syncedToCloud: false
     }
   }
-  
+
   /**
    * Validate score input parameters
    */
@@ -525,39 +480,39 @@ export class ScoreManager {
     if (typeof score !== 'number' || typeof distance !== 'number') {
       return { isValid: false, score: 0, distance: 0, error: 'Score and distance must be numbers' }
     }
-    
+
     // Check for NaN or infinite values
     if (!isFinite(score) || !isFinite(distance)) {
       return { isValid: false, score: 0, distance: 0, error: 'Score and distance must be finite numbers' }
     }
-    
+
     // Check for negative values
     if (score < 0 || distance < 0) {
       return { isValid: false, score: 0, distance: 0, error: 'Score and distance cannot be negative' }
     }
-    
+
     // Check for reasonable upper bounds (prevent cheating/corruption)
     const MAX_REASONABLE_SCORE = 1000000 // 1 million points
     const MAX_REASONABLE_DISTANCE = 100000 // 100km in meters
-    
+
     if (score > MAX_REASONABLE_SCORE) {
-      return { 
-        isValid: false, 
-        score: 0, 
-        distance: 0, 
-        error: `Score too high (max: ${MAX_REASONABLE_SCORE})` 
+      return {
+        isValid: false,
+        score: 0,
+        distance: 0,
+        error: `Score too high (max: ${MAX_REASONABLE_SCORE})`
       }
     }
-    
+
     if (distance > MAX_REASONABLE_DISTANCE) {
-      return { 
-        isValid: false, 
-        score: 0, 
-        distance: 0, 
-        error: `Distance too high (max: ${MAX_REASONABLE_DISTANCE})` 
+      return {
+        isValid: false,
+        score: 0,
+        distance: 0,
+        error: `Distance too high (max: ${MAX_REASONABLE_DISTANCE})`
       }
     }
-    
+
     // Round to integers to prevent float precision issues
     return {
       isValid: true,
@@ -565,168 +520,129 @@ export class ScoreManager {
       distance: Math.floor(distance)
     }
   }
-  
+
   /**
-   * Transfer session scores to persistent storage (for guest account upgrade)
+   * Move session scores into the history (for guest account upgrade)
    */
-  public static transferSessionScores(): GameScore[] {
+  public transferSessionScores(): GameScore[] {
     const sessionScores = this.getSessionScores()
     if (sessionScores.length === 0) {
       return []
     }
-    
-    const existingScores = this.getAllScores()
-    const allScores = [...existingScores, ...sessionScores]
-    
-    // Sort and limit
-    const sortedScores = allScores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, this.MAX_STORED_SCORES)
-    
-    // Add ranking
-    const rankedScores = sortedScores.map((score, index) => ({
-      ...score,
-      rank: index + 1
-    }))
-    
-    this.saveToStorage(rankedScores)
-    
+
+    const storedIds = new Set(this.scores.map(score => score.id))
+    this.storeScores([...this.scores, ...this.sessionScores.filter(score => !storedIds.has(score.id))])
+
     // Clear session after transfer
     this.clearSession()
-    
+
     return sessionScores
   }
-  
+
   /**
-   * Clear current session
+   * Clear current session and start a new one
    */
-  public static clearSession(): void {
-    this.sessionData = null
-    try {
-      sessionStorage.removeItem(this.SESSION_KEY)
-    } catch (error) {
-      console.warn('Failed to clear session data:', error)
-    }
+  public clearSession(): void {
+    const ids = this.sessionScores.map(score => score.id)
+    this.sessionScores = []
+    this.sessionId = ScoreManager.generateSessionId()
+    this.queueWrite(this.session, () => this.session.remove(ids))
   }
-  
+
   /**
    * Get session statistics
    */
-  public static getSessionStats(): ScoreStats {
-    const sessionScores = this.getSessionScores()
-    
-    if (sessionScores.length === 0) {
-      return {
-        personalBest: 0,
-        totalGames: 0,
-        averageScore: 0,
-        topScores: []
-      }
-    }
-    
-    const personalBest = Math.max(...sessionScores.map(s => s.score))
-    const totalGames = sessionScores.length
-    const averageScore = Math.round(sessionScores.reduce((sum, s) => sum + s.score, 0) / totalGames)
-    const topScores = sessionScores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 3)
-      .map((score, index) => ({ ...score, rank: index + 1 }))
-    
-    return {
-      personalBest,
-      totalGames,
-      averageScore,
-      topScores
-    }
+  public getSessionStats(): ScoreStats {
+    return ScoreManager.getStats(this.sessionScores)
   }
-  
+
   /**
-   * Get all scores from localStorage with validation
+   * Get all stored scores, best first and ranked
    */
-  public static getAllScores(): GameScore[] {
-    try {
-      const stored = localStorage.getItem(this.STORAGE_KEY)
-      if (!stored) return []
-      
-      const parsed = JSON.parse(stored)
-      if (!Array.isArray(parsed)) {
-        console.warn('Stored scores data is not an array, clearing storage')
-        this.clearAllScores()
-        return []
-      }
-      
-      // Validate each score entry
-      const validScores = parsed.filter(this.isValidGameScore)
-      
-      // If we filtered out invalid scores, save the cleaned data
-      if (validScores.length !== parsed.length) {
-        console.warn(`Removed ${parsed.length - validScores.length} invalid score entries`)
-        this.saveToStorage(validScores)
-      }
-      
-      return validScores
-    } catch (error) {
-      console.warn('Failed to load scores from localStorage:', error)
-      this.clearAllScores() // Clear potentially corrupt data
-      return []
-    }
+  public getAllScores(): GameScore[] {
+    return this.scores.map((score, index) => ({ ...score, rank: index + 1 }))
   }
-  
+
   /**
    * Validate a GameScore object
    */
-  private static isValidGameScore(score: any): score is GameScore {
-    if (!score || typeof score !== 'object') return false
-    
+  private static isValidGameScore(score: any): boolean {
+    if (!score || typeof score !== 'object' || typeof score.id !== 'string') return false
+
     // Check required properties
     if (typeof score.score !== 'number' || typeof score.distance !== 'number' || typeof score.timestamp !== 'number') {
       return false
     }
-    
+
     // Check for valid values
     if (!isFinite(score.score) || !isFinite(score.distance) || !isFinite(score.timestamp)) {
       return false
     }
-    
+
     // Check for reasonable values
     if (score.score < 0 || score.distance < 0 || score.timestamp < 0) {
       return false
     }
-    
+
     // Check timestamp is not in future (with some tolerance)
     const maxFutureTime = Date.now() + (24 * 60 * 60 * 1000) // 24 hours tolerance
     if (score.timestamp > maxFutureTime) {
       return false
     }
-    
+
     return true
   }
-  
+
   /**
    * Get top N scores
    */
-  public static getTopScores(limit: number = 10): GameScore[] {
+  public getTopScores(limit: number = 10): GameScore[] {
+    return this.getAllScores().slice(0, limit)
+  }
+
+  /**
+   * Get scores for a single game mode, best first (scores without a mode count as normal)
+   */
+  public getScoresForMode(gameMode: string): GameScore[] {
     return this.getAllScores()
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
+      .filter(score => (score.gameMode || 'normal') === gameMode)
+      .map((score, index) => ({ ...score, rank: index + 1 }))
+  }
+
+  /**
+   * Get the daily challenge board for a given day, best first
+   */
+  public getChallengeScores(dayKey: string): GameScore[] {
+    return this.getScoresForMode('challenge')
+      .filter(score => score.challengeDay === dayKey)
       .map((score, index) => ({ ...score, rank: index + 1 }))
   }
-  
+
+  /**
+   * Get the board a run is ranked on: its mode, or the day's challenge board
+   */
+  public getBoardScores(gameMode: string, challengeDay?: string): GameScore[] {
+    return gameMode === 'challenge' && challengeDay
+      ? this.getChallengeScores(challengeDay)
+      : this.getScoresForMode(gameMode)
+  }
+
   /**
    * Get personal ranking for a given score
    */
-  public static getPersonalRank(targetScore: number): number {
-    const scores = this.getAllScores()
-    const betterScores = scores.filter(score => score.score > targetScore)
+  public getPersonalRank(targetScore: number): number {
+    const betterScores = this.scores.filter(score => score.score > targetScore)
     return betterScores.length + 1
   }
-  
+
   /**
    * Get score statistics
    */
-  public static getScoreStats(): ScoreStats {
-    const scores = this.getAllScores()
-    
+  public getScoreStats(): ScoreStats {
+    return ScoreManager.getStats(this.scores)
+  }
+
+  private static getStats(scores: GameScore[]): ScoreStats {
     if (scores.length === 0) {
       return {
         personalBest: 0,
@@ -735,12 +651,14 @@ export class ScoreManager {
         topScores: []
       }
     }
-    
+
     const personalBest = Math.max(...scores.map(s => s.score))
     const totalGames = scores.length
     const averageScore = Math.round(scores.reduce((sum, s) => sum + s.score, 0) / totalGames)
-    const topScores = this.getTopScores(3)
-    
+    const topScores = ScoreManager.sortBest(scores)
+      .slice(0, 3)
+      .map((score, index) => ({ ...score, rank: index + 1 }))
+
     return {
       personalBest,
       totalGames,
@@ -748,82 +666,168 @@ export class ScoreManager {
       topScores
     }
   }
-  
+
   /**
    * Clear all scores (for testing or reset)
    */
-  public static clearAllScores(): void {
+  public clearAllScores(): void {
+    const ids = this.scores.map(score => score.id)
+    this.scores = []
+    this.queueWrite(this.local, () => this.local.remove(ids))
+  }
+
+  /**
+   * Check if a score qualifies as a new personal best on its board
+   */
+  public isNewPersonalBest(score: number, gameMode: string = 'normal', challengeDay?: string): boolean {
+    const best = this.getBoardScores(gameMode, challengeDay)[0]
+    return score > (best?.score ?? 0)
+  }
+
+  /**
+   * Key of the board a score is ranked on, also used for its best replay
+   * (challenge boards are per day)
+   */
+  private static getBoardKey(gameMode: string, challengeDay?: string): string {
+    return gameMode === 'challenge' ? `challenge:${challengeDay}` : gameMode
+  }
+
+  /**
+   * Keep the replay if its score is the best on its board
+   */
+  public saveBestReplay(savedScore: GameScore, replay: RunReplay): boolean {
+    const gameMode = savedScore.gameMode || 'normal'
+    const boardKey = ScoreManager.getBoardKey(gameMode, savedScore.challengeDay)
+    const replays = this.loadReplays()
+    const current = replays[boardKey]
+
+    if (current && current.score >= savedScore.score) {
+      return false
+    }
+
+    // Challenge replays are only useful on their own day
+    if (gameMode === 'challenge') {
+      Object.keys(replays)
+        .filter(key => key.startsWith('challenge:') && key !== boardKey)
+        .forEach(key => delete replays[key])
+    }
+
+    replays[boardKey] = {
+      scoreTimestamp: savedScore.timestamp,
+      score: savedScore.score,
+      replay
+    }
+
     try {
-      localStorage.removeItem(this.STORAGE_KEY)
+      this.getStoredReplays().save(replays)
+      return true
     } catch (error) {
-      console.warn('Failed to clear scores from localStorage:', error)
+      console.warn('Failed to save best replay:', error)
+      return false
     }
   }
-  
+
   /**
-   * Check if a score qualifies as a new personal best
+   * Get the best run's replay for a board, if one was recorded
    */
-  public static isNewPersonalBest(score: number): boolean {
-    const stats = this.getScoreStats()
-    return score > stats.personalBest
+  public getBestReplay(gameMode: string = 'normal', challengeDay?: string): BestReplay | null {
+    const replays = this.loadReplays()
+    return replays[ScoreManager.getBoardKey(gameMode, challengeDay)] || null
   }
-  
+
   /**
-   * Private helper to save scores to localStorage
+   * Load stored replays, quarantining entries that fail validation
    */
-  private static saveToStorage(scores: GameScore[]): void {
+  private loadReplays(): Record<string, BestReplay> {
     try {
-      // Check storage quota before saving
-      this.checkStorageQuota()
-      
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(scores))
-    } catch (error) {
-      console.warn('Failed to save scores to localStorage:', error)
-      
-      // If quota exceeded, try to save fewer scores
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        try {
-          const reducedScores = scores.slice(0, Math.floor(this.MAX_STORED_SCORES * 0.5))
-          localStorage.setItem(this.STORAGE_KEY, JSON.stringify(reducedScores))
-          console.warn(`Reduced score storage due to quota limit (${reducedScores.length} scores saved)`)
-        } catch (secondError) {
-          console.error('Failed to save reduced scores:', secondError)
+      const storedReplays = this.getStoredReplays()
+      const stored = storedReplays.load()
+      if (!stored) return {}
+
+      const replays: Record<string, BestReplay> = {}
+      const invalid: Record<string, unknown> = {}
+      Object.entries(stored).forEach(([key, entry]: [string, any]) => {
+        if (entry && typeof entry.score === 'number' && typeof entry.scoreTimestamp === 'number' &&
+            ReplayRecorder.isValidReplay(entry.replay)) {
+          replays[key] = entry
+        } else {
+          invalid[key] = entry
         }
+      })
+
+      if (Object.keys(invalid).length > 0) {
+        storedReplays.quarantineData(invalid, 'Invalid replay entries')
+        storedReplays.save(replays)
       }
+      return replays
+    } catch (error) {
+      console.warn('Failed to load replays from localStorage:', error)
+      return {}
     }
   }
-  
+
   /**
-   * Validate session data structure
+   * Opened on first use, so managers over in-memory repositories don't need localStorage
    */
-  private static isValidSessionData(data: any): data is SessionData {
-    if (!data || typeof data !== 'object') return false
-    
-    if (typeof data.sessionId !== 'string' || typeof data.startTime !== 'number') {
-      return false
+  private getStoredReplays(): PersistedData<Record<string, BestReplay>> {
+    if (!this.storedReplays) {
+      this.storedReplays = new PersistedData(localStorage, BEST_REPLAYS_SCHEMA, this.quarantine)
     }
-    
-    if (!Array.isArray(data.scores)) return false
-    
-    // Validate all scores in session
-    return data.scores.every(this.isValidGameScore)
+    return this.storedReplays
   }
-  
+
   /**
-   * Check storage quota and manage data if needed
+   * Keep the best MAX_STORED_SCORES of each board and write the change to the local repository
    */
-  private static checkStorageQuota(): void {
-    try {
-      // Try to estimate storage usage
-      const currentData = localStorage.getItem(this.STORAGE_KEY)
-      if (currentData && currentData.length > 50000) { // ~50KB
-        console.warn('Score storage getting large, trimming to top scores only')
-        const scores = this.getAllScores()
-        const trimmedScores = scores.slice(0, Math.floor(this.MAX_STORED_SCORES * 0.8))
-        this.saveToStorage(trimmedScores)
-      }
-    } catch (error) {
-      console.warn('Error checking storage quota:', error)
+  private storeScores(scores: StoredScore[]): void {
+    const kept = ScoreManager.keepBest(scores)
+    const keptIds = new Set(kept.map(score => score.id))
+    const dropped = this.scores.filter(score => !keptIds.has(score.id)).map(score => score.id)
+
+    this.scores = kept
+    if (dropped.length > 0) {
+      this.queueWrite(this.local, () => this.local.remove(dropped))
     }
+    this.write(this.local, kept)
+  }
+
+  /**
+   * Write scores in the background; the in-memory copy is already up to date
+   */
+  private write(repository: ScoreRepository, scores: StoredScore[]): void {
+    // Ranks are positions in the current list, not stored
+    const stored = scores.map(({ rank: _rank, ...score }) => score)
+    this.queueWrite(repository, () => repository.put(stored))
+  }
+
+  /**
+   * Run a repository write after the ones before it, so they land in order
+   */
+  private queueWrite(repository: ScoreRepository, operation: () => Promise<void>): void {
+    const previous = this.pendingWrites.get(repository) || Promise.resolve()
+    this.pendingWrites.set(repository, previous.then(operation).catch(error => {
+      console.warn('Failed to save scores:', error)
+    }))
+  }
+
+  /**
+   * The best MAX_STORED_SCORES of each board, best first overall, so one
+   * board filling up never pushes out another's scores
+   */
+  private static keepBest(scores: StoredScore[]): StoredScore[] {
+    const boards = new Map<string, StoredScore[]>()
+    ScoreManager.sortBest(scores).forEach(score => {
+      const key = ScoreManager.getBoardKey(score.gameMode || 'normal', score.challengeDay)
+      const board = boards.get(key) || []
+      if (board.length < ScoreManager.MAX_STORED_SCORES) {
+        board.push(score)
+      }
+      boards.set(key, board)
+    })
+    return ScoreManager.sortBest([...boards.values()].flat())
+  }
+
+  private static sortBest<T extends GameScore>(scores: T[]): T[] {
+    return [...scores].sort((a, b) => b.score - a.score)
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,138 @@
+/**
+ * ScoreOutbox and FirestoreScoreRepository against the Firestore emulator and
+ * the real security rules. Skipped unless FIRESTORE_EMULATOR_HOST is set:
+ *   npm run test:emulator
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { initializeApp, type FirebaseApp } from 'firebase/app'
+import { connectFirestoreEmulator, doc, getDocFromServer, getFirestore } from 'firebase/firestore'
+import type { AuthManager, User } from './AuthManager'
+import { ScoreOutbox, type SyncConnection } from './ScoreOutbox'
+import { FirestoreScoreRepository, InMemoryScoreRepository, type StoredScore } from './ScoreRepository'
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST
+const projectId = process.env.GCLOUD_PROJECT || 'demo-pixel-paper-plane'
+
+/**
+ * A Firebase app per player, signed in to the emulator with a mock token
+ */
+const apps = new Map<string, FirebaseApp>()
+function getPlayerApp(userId: string): FirebaseApp {
+  let app = apps.get(userId)
+  if (!app) {
+    app = initializeApp({ projectId, apiKey: 'emulator' }, userId)
+    const [host, port] = emulatorHost!.split(':')
+    connectFirestoreEmulator(getFirestore(app), host, Number(port), { mockUserToken: { user_id: userId } })
+    apps.set(userId, app)
+  }
+  return app
+}
+
+/**
+ * The parts of AuthManager the repository uses, switchable between players
+ */
+function createSession(userId: string) {
+  const session = { userId, state: 'online' as SyncConnection }
+  const authManager = {
+    getCurrentUser: (): User => ({ id: session.userId, isGuest: false, displayName: `Player ${session.userId}` }),
+    getFirebaseApp: () => getPlayerApp(session.userId)
+  } as unknown as AuthManager
+
+  const remote = new FirestoreScoreRepository(authManager)
+  const outbox = new ScoreOutbox(new InMemoryScoreRepository(), remote, {
+    getState: () => session.state,
+    getUserId: () => session.userId
+  })
+  return { session, remote, outbox }
+}
+
+function makeScore(overrides: Partial<StoredScore> = {}): StoredScore {
+  return {
+    id: crypto.randomUUID(),
+    score: 420,
+    distance: 300,
+    timestamp: Date.now(),
+    gameMode: 'normal',
+    sessionId: 'emulator-test',
+    ...overrides
+  }
+}
+
+async function readScore(userId: string, id: string) {
+  return getDocFromServer(doc(getFirestore(getPlayerApp(userId)), 'scores', id))
+}
+
+describe.skipIf(!emulatorHost)('ScoreOutbox against the Firestore emulator', () => {
+  it('stores a queued score as scores/{uuid} under the player', async () => {
+    const { outbox } = createSession(`player-${crypto.randomUUID()}`)
+    const score = makeScore()
+
+    await outbox.enqueue([score])
+    await outbox.flush()
+
+    const stored = await readScore('reader', score.id)
+    expect(stored.exists()).toBe(true)
+    expect(stored.data()?.score).toBe(score.score)
+    expect(outbox.getStatus().state).toBe('synced')
+  })
+
+  it('uploads an imported score that has no session id', async () => {
+    const { outbox } = createSession(`player-${crypto.randomUUID()}`)
+    const { sessionId: _sessionId, ...score } = makeScore() // Imports only carry a session id when the file had one
+
+    await outbox.enqueue([score])
+    await outbox.flush()
+
+    const stored = await readScore('reader', score.id)
+    expect(stored.exists()).toBe(true)
+    expect(stored.data()).not.toHaveProperty('sessionId')
+    expect(outbox.getStatus().state).toBe('synced')
+  })
+
+  it('leaves the first copy untouched when an upload is retried', async () => {
+    const userId = `player-${crypto.randomUUID()}`
+    const { remote } = createSession(userId)
+    const score = { ...makeScore(), userId }
+
+    await remote.put([score])
+    const first = await readScore(userId, score.id)
+    await remote.put([{ ...score, timestamp: score.timestamp + 60000 }])
+    const second = await readScore(userId, score.id)
+
+    expect(second.data()).toEqual(first.data())
+  })
+
+  it('keeps scores the rules reject and reports them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { outbox } = createSession(`player-${crypto.randomUUID()}`)
+    const score = makeScore({ gameMode: 'practice' }) // Not a mode the rules accept
+
+    await outbox.enqueue([score])
+    await outbox.flush()
+
+    expect(outbox.getStatus()).toMatchObject({ state: 'rejected', rejected: 1 })
+    expect(outbox.isQueued(score.id)).toBe(true)
+    expect((await readScore('reader', score.id)).exists()).toBe(false)
+    vi.restoreAllMocks()
+  })
+
+  it('never uploads one player\'s queued scores under another player', async () => {
+    const playerA = `player-${crypto.randomUUID()}`
+    const playerB = `player-${crypto.randomUUID()}`
+    const { session, outbox } = createSession(playerA)
+    const score = makeScore()
+
+    session.state = 'offline'
+    await outbox.enqueue([score])
+
+    session.userId = playerB
+    session.state = 'online'
+    await outbox.retryNow()
+    expect((await readScore(playerB, score.id)).exists()).toBe(false)
+
+    session.userId = playerA
+    await outbox.retryNow()
+    expect((await readScore(playerA, score.id)).data()?.userId).toBe(playerA)
+  })
+})
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ScoreOutbox, type OutboxConnection, type SyncConnection } from './ScoreOutbox'
+import { InMemoryScoreRepository, type StoredScore } from './ScoreRepository'
+
+function makeScore(score: number): StoredScore {
+  return { id: crypto.randomUUID(), score, distance: score, timestamp: Date.now(), gameMode: 'normal' }
+}
+
+/**
+ * Remote that fails with the given errors before accepting writes
+ */
+class FlakyRepository extends InMemoryScoreRepository {
+  public errors: unknown[] = []
+  public writes = 0
+
+  public async put(scores: StoredScore[]): Promise<void> {
+    this.writes++
+    const error = this.errors.shift()
+    if (error) throw error
+    await super.put(scores)
+  }
+}
+
+describe('ScoreOutbox', () => {
+  let state: SyncConnection
+  let userId: string | null
+  let queue: InMemoryScoreRepository
+  let remote: FlakyRepository
+  let outbox: ScoreOutbox
+  const connection: OutboxConnection = {
+    getState: () => state,
+    getUserId: () => userId
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    state = 'online'
+    userId = 'player-a'
+    queue = new InMemoryScoreRepository()
+    remote = new FlakyRepository()
+    outbox = new ScoreOutbox(queue, remote, connection)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('uploads queued scores under the player who queued them', async () => {
+    const score = makeScore(120)
+    await outbox.enqueue([score])
+    await outbox.flush()
+
+    expect(await remote.getAll()).toEqual([{ ...score, userId: 'player-a' }])
+    expect(await queue.getAll()).toEqual([])
+    expect(outbox.getStatus()).toEqual({ state: 'synced', pending: 0, rejected: 0 })
+  })
+
+  it('keeps failed uploads queued and retries them after the backoff', async () => {
+    remote.errors.push(new Error('unavailable'))
+    const score = makeScore(50)
+    await outbox.enqueue([score])
+    await outbox.flush()
+
+    expect(outbox.getStatus()).toEqual({ state: 'pending', pending: 1, rejected: 0 })
+    expect(await queue.getAll()).toHaveLength(1)
+
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000)
+    await outbox.flush()
+
+    expect(remote.writes).toBe(2)
+    expect(outbox.isQueued(score.id)).toBe(false)
+  })
+
+  it('keeps rejected scores and reports them until the player retries', async () => {
+    remote.errors.push({ code: 'permission-denied', message: 'Missing or insufficient permissions' })
+    const score = makeScore(20000)
+    await outbox.enqueue([score])
+    await outbox.flush()
+
+    expect(outbox.getStatus()).toEqual({ state: 'rejected', pending: 1, rejected: 1 })
+    expect(await queue.getAll()).toHaveLength(1)
+
+    // Coming back online does not resend rejected scores
+    await outbox.retryNow()
+    expect(remote.writes).toBe(1)
+
+    await outbox.retryNow(true)
+    expect(remote.writes).toBe(2)
+    expect(outbox.getStatus().state).toBe('synced')
+  })
+
+  it('only uploads scores while the player who queued them is signed in', async () => {
+    state = 'offline'
+    const score = makeScore(75)
+    await outbox.enqueue([score])
+
+    state = 'online'
+    userId = 'player-b'
+    await outbox.retryNow()
+
+    expect(remote.writes).toBe(0)
+    expect(outbox.getStatus()).toEqual({ state: 'synced', pending: 0, rejected: 0 })
+    expect(outbox.isQueued(score.id)).toBe(true)
+
+    userId = 'player-a'
+    await outbox.retryNow()
+
+    expect(await remote.getAll()).toEqual([{ ...score, userId: 'player-a' }])
+  })
+
+  it('does not queue scores without a signed-in player', async () => {
+    userId = null
+    state = 'signedOut'
+    await outbox.enqueue([makeScore(10)])
+
+    expect(await queue.getAll()).toEqual([])
+    expect(outbox.getStatus()).toEqual({ state: 'signedOut', pending: 0, rejected: 0 })
+  })
+
+  it('resumes the queue left by an earlier session and drops scores with no owner', async () => {
+    const owned = { ...makeScore(30), userId: 'player-a' }
+    const ownerless = makeScore(40)
+    const stored = new InMemoryScoreRepository([owned, ownerless])
+    outbox = new ScoreOutbox(stored, remote, connection)
+
+    await outbox.flush()
+
+    expect(await remote.getAll()).toEqual([owned])
+    expect(await stored.getAll()).toEqual([])
+  })
+})
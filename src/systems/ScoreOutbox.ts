@@ -0,0 +1,374 @@
+/**
+ * ScoreOutbox - Durable queue of scores waiting to be uploaded
+ *
+ * Saved scores go into a queue repository (IndexedDB in the game) before any
+ * network call, so nothing is lost to a reload or offline play. The outbox
+ * is flushed whenever the player is signed in and online, writing each score
+ * to the remote repository by id; the Firestore repository only creates
+ * documents that don't exist yet, so retrying a write that already landed is
+ * harmless. Failed writes are retried with exponential backoff.
+ *
+ * Each queued score records the player who queued it and is only uploaded
+ * while that player is signed in, so a shared device never files one
+ * player's scores under another's account. Scores the backend rejects stay
+ * queued and are reported in the status until the player retries them.
+ */
+
+import { AuthManager } from './AuthManager'
+import type { ScoreRepository, StoredScore } from './ScoreRepository'
+
+export type SyncState = 'synced' | 'syncing' | 'pending' | 'rejected' | 'offline' | 'signedOut'
+
+export interface SyncStatus {
+  state: SyncState
+  pending: number // The signed-in player's scores still waiting in the outbox
+  rejected: number // Of those, scores the backend refused
+}
+
+/**
+ * Whether uploads can run: they need a signed-in player and a connection
+ */
+export type SyncConnection = 'online' | 'offline' | 'signedOut'
+
+/**
+ * The player uploads run for and whether they can run
+ */
+export interface OutboxConnection {
+  getState(): SyncConnection
+  getUserId(): string | null // Signed-in player, null when signed out
+}
+
+/**
+ * A queued score and its retry schedule (kept in memory - backoff restarts after a reload)
+ */
+interface OutboxEntry {
+  score: StoredScore
+  ownerId: string // Player who queued the score, also stored as score.userId
+  attempts: number // Failed writes so far
+  nextAttemptAt: number // Timestamp the next write is due
+  lastError?: string
+  rejected: boolean // Refused by the backend; waits for retryNow(true)
+}
+
+export class ScoreOutbox {
+  private static readonly BASE_RETRY_DELAY = 2000 // ms - doubles with every failed attempt
+  private static readonly MAX_RETRY_DELAY = 5 * 60 * 1000 // ms
+  // Firestore errors that retrying on a timer cannot fix
+  private static readonly REJECTION_ERRORS = ['permission-denied', 'invalid-argument']
+
+  private readonly queue: ScoreRepository
+  private readonly remote: ScoreRepository
+  private readonly connection: OutboxConnection
+  private entries = new Map<string, OutboxEntry>()
+  private ready: Promise<void> | null = null
+  private flushing: Promise<void> | null = null
+  private syncing = false
+  private retryTimer?: ReturnType<typeof setTimeout>
+  private statusListeners: ((status: SyncStatus) => void)[] = []
+  private syncedListeners: ((score: StoredScore) => void)[] = []
+
+  constructor(queue: ScoreRepository, remote: ScoreRepository, connection: OutboxConnection) {
+    this.queue = queue
+    this.remote = remote
+    this.connection = connection
+  }
+
+  /**
+   * Connection for the game: the AuthManager player and the browser's online
+   * state (guests and local-only mode count as signed out)
+   */
+  public static readonly BROWSER_CONNECTION: OutboxConnection = {
+    getState: () => {
+      if (!ScoreOutbox.BROWSER_CONNECTION.getUserId()) return 'signedOut'
+      return navigator.onLine ? 'online' : 'offline'
+    },
+    getUserId: () => {
+      const authManager = AuthManager.getInstance()
+      const user = authManager.getCurrentUser()
+      return authManager.isFirebaseAvailable() && user && !user.isGuest ? user.id : null
+    }
+  }
+
+  /**
+   * Retry whenever the browser comes back online or the player signs in
+   */
+  public watchBrowserConnection(): void {
+    window.addEventListener('online', () => this.retryNow())
+    window.addEventListener('offline', () => this.notifyStatusListeners())
+    AuthManager.getInstance().onAuthStateChanged(() => this.retryNow())
+  }
+
+  /**
+   * Queue scores for upload under the signed-in player and start a flush;
+   * scores already queued are skipped
+   */
+  public async enqueue(scores: StoredScore[]): Promise<void> {
+    await this.load()
+
+    const ownerId = this.connection.getUserId()
+    if (!ownerId) {
+      console.warn('ScoreOutbox: No signed-in player, scores not queued')
+      return
+    }
+
+    const added = scores
+      .filter(score => !this.entries.has(score.id))
+      .map(score => ({ ...score, userId: ownerId }))
+    const now = Date.now()
+    added.forEach(score => this.entries.set(score.id, ScoreOutbox.createEntry(score, ownerId, now)))
+
+    try {
+      await this.queue.put(added)
+    } catch (error) {
+      console.warn('ScoreOutbox: Failed to save queued scores, they will not survive a reload:', error)
+    }
+
+    this.notifyStatusListeners()
+    this.flush()
+  }
+
+  /**
+   * Write every score that is due; resolves once the pass is over
+   */
+  public flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushDue().finally(() => {
+        this.flushing = null
+      })
+    }
+    return this.flushing
+  }
+
+  /**
+   * Skip the backoff and try every queued score now (back online, signed in,
+   * or asked by the player); rejected scores are only retried when asked
+   */
+  public retryNow(includeRejected: boolean = false): Promise<void> {
+    const now = Date.now()
+    this.entries.forEach(entry => {
+      if (entry.rejected && !includeRejected) return
+      entry.rejected = false
+      entry.nextAttemptAt = now
+    })
+    return this.flush()
+  }
+
+  public isQueued(id: string): boolean {
+    return this.entries.has(id)
+  }
+
+  /**
+   * Whether uploads are possible at all - guests keep their scores local
+   */
+  public isSignedIn(): boolean {
+    return this.connection.getState() !== 'signedOut'
+  }
+
+  public getStatus(): SyncStatus {
+    const entries = this.getOwnEntries()
+    const pending = entries.length
+    const rejected = entries.filter(entry => entry.rejected).length
+    const connection = this.connection.getState()
+
+    let state: SyncState
+    if (this.syncing) {
+      state = 'syncing'
+    } else if (connection === 'signedOut') {
+      state = 'signedOut'
+    } else if (pending === 0) {
+      state = 'synced'
+    } else if (connection === 'offline') {
+      state = 'offline'
+    } else if (rejected > 0) {
+      state = 'rejected'
+    } else {
+      state = 'pending'
+    }
+
+    return { state, pending, rejected }
+  }
+
+  /**
+   * Add sync status listener
+   */
+  public onStatusChange(callback: (status: SyncStatus) => void): void {
+    this.statusListeners.push(callback)
+  }
+
+  /**
+   * Remove sync status listener
+   */
+  public removeStatusListener(callback: (status: SyncStatus) => void): void {
+    const index = this.statusListeners.indexOf(callback)
+    if (index > -1) {
+      this.statusListeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Add listener called with each score once the remote repository has it
+   */
+  public onScoreSynced(callback: (score: StoredScore) => void): void {
+    this.syncedListeners.push(callback)
+  }
+
+  /**
+   * Read the queue left by earlier sessions, once. Scores queued before
+   * owners were recorded are dropped - they are still unsynced in the local
+   * history, which is queued again when a player signs in.
+   */
+  private load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.queue.getAll()
+        .then(async scores => {
+          const now = Date.now()
+          const ownerless: string[] = []
+          scores.forEach(score => {
+            if (typeof score.userId !== 'string') {
+              ownerless.push(score.id)
+            } else if (!this.entries.has(score.id)) {
+              this.entries.set(score.id, ScoreOutbox.createEntry(score, score.userId, now))
+            }
+          })
+
+          if (ownerless.length > 0) {
+            console.warn(`ScoreOutbox: Dropping ${ownerless.length} queued scores with no owner`)
+            await this.queue.remove(ownerless)
+          }
+        })
+        .catch(error => {
+          console.warn('ScoreOutbox: Failed to load queued scores:', error)
+        })
+    }
+    return this.ready
+  }
+
+  private static createEntry(score: StoredScore, ownerId: string, now: number): OutboxEntry {
+    return { score, ownerId, attempts: 0, nextAttemptAt: now, rejected: false }
+  }
+
+  /**
+   * Entries queued by the signed-in player - the only ones that may upload now
+   */
+  private getOwnEntries(): OutboxEntry[] {
+    const userId = this.connection.getUserId()
+    return Array.from(this.entries.values()).filter(entry => entry.ownerId === userId)
+  }
+
+  private async flushDue(): Promise<void> {
+    await this.load()
+
+    // Going online or signing in starts the next flush
+    if (this.connection.getState() !== 'online') {
+      this.notifyStatusListeners()
+      return
+    }
+
+    if (!this.getNextDue(new Set())) {
+      this.scheduleRetry()
+      this.notifyStatusListeners()
+      return
+    }
+
+    this.syncing = true
+    this.notifyStatusListeners()
+
+    // Scores queued during the pass are picked up too; each is tried once
+    const tried = new Set<string>()
+    try {
+      let entry = this.getNextDue(tried)
+      while (entry) {
+        tried.add(entry.score.id)
+        await this.upload(entry)
+        entry = this.getNextDue(tried)
+      }
+    } finally {
+      this.syncing = false
+      this.scheduleRetry()
+      this.notifyStatusListeners()
+    }
+  }
+
+  private getNextDue(tried: Set<string>): OutboxEntry | undefined {
+    const now = Date.now()
+    return this.getOwnEntries().find(entry =>
+      !tried.has(entry.score.id) && !entry.rejected && entry.nextAttemptAt <= now)
+  }
+
+  /**
+   * Write one score to the remote repository, then drop it from the queue
+   */
+  private async upload(entry: OutboxEntry): Promise<void> {
+    const { score } = entry
+
+    try {
+      await this.remote.put([score])
+      await this.dequeue(score.id)
+      this.notifySyncedListeners({ ...score, syncedToCloud: true })
+    } catch (error: any) {
+      entry.attempts++
+      entry.lastError = error?.message || String(error)
+
+      if (ScoreOutbox.REJECTION_ERRORS.includes(error?.code)) {
+        entry.rejected = true
+        console.warn(`ScoreOutbox: Score ${score.id} was rejected, keeping it until the player retries:`, error)
+        return
+      }
+
+      entry.nextAttemptAt = Date.now() + ScoreOutbox.getRetryDelay(entry.attempts)
+      console.warn(`ScoreOutbox: Failed to sync score ${score.id} (attempt ${entry.attempts}):`, error)
+    }
+  }
+
+  private async dequeue(id: string): Promise<void> {
+    this.entries.delete(id)
+    try {
+      await this.queue.remove([id])
+    } catch (error) {
+      console.warn('ScoreOutbox: Failed to remove synced score from the queue:', error)
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, so clients coming back online don't retry in lockstep
+   */
+  private static getRetryDelay(attempts: number): number {
+    const delay = Math.min(ScoreOutbox.BASE_RETRY_DELAY * 2 ** (attempts - 1), ScoreOutbox.MAX_RETRY_DELAY)
+    return delay * (0.75 + Math.random() * 0.5)
+  }
+
+  /**
+   * Wake up when the signed-in player's earliest queued score is due
+   */
+  private scheduleRetry(): void {
+    clearTimeout(this.retryTimer)
+    this.retryTimer = undefined
+
+    const waiting = this.getOwnEntries().filter(entry => !entry.rejected)
+    if (waiting.length === 0) return
+
+    const nextAttemptAt = Math.min(...waiting.map(entry => entry.nextAttemptAt))
+    this.retryTimer = setTimeout(() => this.flush(), Math.max(0, nextAttemptAt - Date.now()))
+  }
+
+  private notifyStatusListeners(): void {
+    const status = this.getStatus()
+    this.statusListeners.forEach(callback => {
+      try {
+        callback(status)
+      } catch (error) {
+        console.error('Sync status listener error:', error)
+      }
+    })
+  }
+
+  private notifySyncedListeners(score: StoredScore): void {
+    this.syncedListeners.forEach(callback => {
+      try {
+        callback(score)
+      } catch (error) {
+        console.error('Score synced listener error:', error)
+      }
+    })
+  }
+}
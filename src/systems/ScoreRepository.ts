@@ -0,0 +1,269 @@
+/**
+ * ScoreRepository - Storage backends for scores
+ *
+ * ScoreManager keeps scores in a local repository (the player's history and
+ * this session's runs) and uploads them to a remote one through ScoreOutbox.
+ * Every backend stores scores by their id, so writing the same score twice
+ * leaves one copy:
+ * - InMemoryScoreRepository: tests and storage-less environments
+ * - LocalStorageScoreRepository: a versioned blob in localStorage or sessionStorage
+ * - IndexedDBScoreRepository: one object store in the game's IndexedDB database
+ * - FirestoreScoreRepository: the signed-in player's documents in `scores`
+ */
+
+import { getFirestore, collection, doc, getDocs, query, where, orderBy, limit, runTransaction, deleteDoc } from 'firebase/firestore'
+import type { DocumentData, Firestore } from 'firebase/firestore'
+import type { AuthManager, User } from './AuthManager'
+import type { GameScore } from './ScoreManager'
+import { PersistedData, type DataQuarantine, type PersistedSchema } from './PersistedData'
+
+/**
+ * A score that has its id - everything a repository stores
+ */
+export type StoredScore = GameScore & { id: string }
+
+export interface ScoreRepository {
+  getAll(): Promise<StoredScore[]>
+  put(scores: StoredScore[]): Promise<void> // Add or replace by id
+  remove(ids: string[]): Promise<void>
+}
+
+export class InMemoryScoreRepository implements ScoreRepository {
+  private readonly scores = new Map<string, StoredScore>()
+
+  constructor(scores: StoredScore[] = []) {
+    scores.forEach(score => this.scores.set(score.id, { ...score }))
+  }
+
+  public async getAll(): Promise<StoredScore[]> {
+    return Array.from(this.scores.values(), score => ({ ...score }))
+  }
+
+  public async put(scores: StoredScore[]): Promise<void> {
+    scores.forEach(score => this.scores.set(score.id, { ...score }))
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    ids.forEach(id => this.scores.delete(id))
+  }
+}
+
+/**
+ * Scores as a versioned blob under one Web Storage key (see PersistedSchemas).
+ * Older formats are migrated when read; entries that aren't scores are quarantined.
+ */
+export class LocalStorageScoreRepository implements ScoreRepository {
+  private readonly data: PersistedData<StoredScore[]>
+
+  constructor(storage: Storage, schema: PersistedSchema<StoredScore[]>, quarantine?: DataQuarantine) {
+    this.data = new PersistedData(storage, schema, quarantine)
+  }
+
+  public async getAll(): Promise<StoredScore[]> {
+    const stored = this.data.load() ?? []
+    const scores = stored.filter(score => score && typeof score === 'object' && typeof score.id === 'string')
+
+    if (scores.length < stored.length) {
+      this.data.quarantineData(stored.filter(score => !scores.includes(score)), 'Entries are not scores')
+      this.write(scores)
+    }
+    return scores
+  }
+
+  public async put(scores: StoredScore[]): Promise<void> {
+    const ids = new Set(scores.map(score => score.id))
+    const kept = (await this.getAll()).filter(score => !ids.has(score.id))
+    this.write([...kept, ...scores])
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids)
+    this.write((await this.getAll()).filter(score => !removed.has(score.id)))
+  }
+
+  /**
+   * Save the scores; when the quota runs out keep the best half
+   */
+  private write(scores: StoredScore[]): void {
+    try {
+      this.data.save(scores)
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) {
+        throw error
+      }
+
+      const reduced = [...scores].sort((a, b) => b.score - a.score).slice(0, Math.ceil(scores.length / 2))
+      this.data.save(reduced)
+      console.warn(`LocalStorageScoreRepository: Reduced score storage due to quota limit (${reduced.length} scores saved)`)
+    }
+  }
+}
+
+/**
+ * Object stores in the game's IndexedDB database, all created on upgrade
+ */
+export type IndexedDBStoreName = 'scores' | 'scoreOutbox'
+
+export class IndexedDBScoreRepository implements ScoreRepository {
+  private static readonly DB_NAME = 'pixelPaperPlane'
+  private static readonly DB_VERSION = 2 // 1: scoreOutbox, 2: scores
+  private static readonly STORE_NAMES: IndexedDBStoreName[] = ['scores', 'scoreOutbox']
+  private static database: Promise<IDBDatabase> | null = null
+
+  private readonly storeName: IndexedDBStoreName
+
+  constructor(storeName: IndexedDBStoreName) {
+    this.storeName = storeName
+  }
+
+  public async getAll(): Promise<StoredScore[]> {
+    const store = await this.getStore('readonly')
+    return IndexedDBScoreRepository.request<StoredScore[]>(store.getAll())
+  }
+
+  public async put(scores: StoredScore[]): Promise<void> {
+    const store = await this.getStore('readwrite')
+    await Promise.all(scores.map(score => IndexedDBScoreRepository.request(store.put(score))))
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    const store = await this.getStore('readwrite')
+    await Promise.all(ids.map(id => IndexedDBScoreRepository.request(store.delete(id))))
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await IndexedDBScoreRepository.openDatabase()
+    return database.transaction(this.storeName, mode).objectStore(this.storeName)
+  }
+
+  /**
+   * Open the database once for every repository; a failed open is retried next time
+   */
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!IndexedDBScoreRepository.database) {
+      IndexedDBScoreRepository.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(IndexedDBScoreRepository.DB_NAME, IndexedDBScoreRepository.DB_VERSION)
+        request.onupgradeneeded = () => {
+          IndexedDBScoreRepository.STORE_NAMES.forEach(name => {
+            if (!request.result.objectStoreNames.contains(name)) {
+              request.result.createObjectStore(name, { keyPath: 'id' })
+            }
+          })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      }).catch(error => {
+        IndexedDBScoreRepository.database = null
+        throw error
+      })
+    }
+    return IndexedDBScoreRepository.database
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
+
+/**
+ * The signed-in player's scores in the `scores` collection, keyed by score id.
+ * Writes only create documents that don't exist yet, so a retried upload
+ * never changes or duplicates a score; reads return the best MAX_SCORES.
+ * Scores that carry another player's userId are refused.
+ */
+export class FirestoreScoreRepository implements ScoreRepository {
+  public static readonly MAX_SCORES = 50
+
+  private readonly authManager: AuthManager
+
+  constructor(authManager: AuthManager) {
+    this.authManager = authManager
+  }
+
+  public async getAll(): Promise<StoredScore[]> {
+    const { firestore, user } = this.connect()
+    const snapshot = await getDocs(query(
+      collection(firestore, 'scores'),
+      where('userId', '==', user.id),
+      orderBy('score', 'desc'),
+      limit(FirestoreScoreRepository.MAX_SCORES)
+    ))
+
+    return snapshot.docs.map(score => FirestoreScoreRepository.fromCloudScore(score.id, score.data()))
+  }
+
+  public async put(scores: StoredScore[]): Promise<void> {
+    const { firestore, user } = this.connect()
+
+    const foreign = scores.find(score => score.userId !== undefined && score.userId !== user.id)
+    if (foreign) {
+      throw new Error(`FirestoreScoreRepository: Score ${foreign.id} belongs to another player`)
+    }
+
+    for (const score of scores) {
+      const scoreRef = doc(firestore, 'scores', score.id)
+      await runTransaction(firestore, async transaction => {
+        const existing = await transaction.get(scoreRef)
+        if (!existing.exists()) {
+          transaction.set(scoreRef, FirestoreScoreRepository.toCloudScore(score, user))
+        }
+      })
+    }
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    const { firestore } = this.connect()
+    await Promise.all(ids.map(id => deleteDoc(doc(firestore, 'scores', id))))
+  }
+
+  /**
+   * Firestore and the signed-in player; guests and local-only mode have no cloud scores
+   */
+  private connect(): { firestore: Firestore, user: User } {
+    const user = this.authManager.getCurrentUser()
+    const app = this.authManager.getFirebaseApp()
+    if (!app || !user || user.isGuest) {
+      throw new Error('FirestoreScoreRepository: No signed-in player')
+    }
+    return { firestore: getFirestore(app), user }
+  }
+
+  /**
+   * Firestore document for a score - the run log lets the leaderboard job
+   * verify it (see RunVerifier)
+   */
+  private static toCloudScore(score: GameScore, user: User): DocumentData {
+    return {
+      score: score.score,
+      distance: score.distance,
+      timestamp: new Date(score.timestamp),
+      userId: user.id,
+      displayName: user.displayName || 'Anonymous Player', // Shown on the global leaderboard
+      gameMode: score.gameMode || 'normal',
+      ...(score.sessionId !== undefined && { sessionId: score.sessionId }),
+      ...(score.seed !== undefined && { seed: score.seed }),
+      ...(score.challengeDay !== undefined && { challengeDay: score.challengeDay }),
+      ...(score.maxCombo !== undefined && { maxCombo: score.maxCombo }),
+      ...(score.run !== undefined && { run: score.run })
+    }
+  }
+
+  private static fromCloudScore(id: string, data: DocumentData): StoredScore {
+    return {
+      id,
+      score: data.score,
+      distance: data.distance,
+      timestamp: data.timestamp?.toDate?.()?.getTime() || data.timestamp?.toMillis?.() || Date.now(),
+      userId: data.userId,
+      gameMode: data.gameMode || 'normal',
+      sessionId: data.sessionId,
+      seed: typeof data.seed === 'number' ? data.seed : undefined,
+      challengeDay: data.challengeDay,
+      maxCombo: typeof data.maxCombo === 'number' ? data.maxCombo : undefined,
+      syncedToCloud: true
+    }
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * SettingsManager - Player preferences with local and cloud persistence
+ *
+ * Handles:
+ * - Typed settings with validated values (bad or missing fields fall back to defaults)
+ * - Versioned localStorage blob with migrations from older formats (see PersistedSchemas)
+ * - Sync to the signed-in user's `users/{userId}` Firestore document
+ * - Change listeners so systems can apply updates live
+ */
+
+import { getFirestore, doc, getDoc, setDoc } from 'firebase/firestore'
+import type { Firestore } from 'firebase/firestore'
+import { AuthManager } from './AuthManager'
+import type { User } from './AuthManager'
+import { PersistedData } from './PersistedData'
+import { SETTINGS_SCHEMA } from './PersistedSchemas'
+
+export type ControlScheme = 'both' | 'touch' | 'keyboard'
+
+export type RingPalette = 'standard' | 'colorBlind'
+
+export type Language = 'en' | 'es' | 'fr' | 'de'
+
+export interface PlayerSettings {
+  musicVolume: number // 0-1
+  sfxVolume: number // 0-1
+  muted: boolean
+  controlScheme: ControlScheme // Which inputs launch and flap
+  reducedMotion: boolean // Skips decorative animation and weather particles
+  ringPalette: RingPalette
+  hudScale: number // Multiplier for the in-game HUD text
+  language: Language
+  scoresPerPage: number // Rows per page in ScoresScene
+  instructionsDuration: number // ms before the start instructions fade
+}
+
+/**
+ * What gets persisted - locally and in the user document
+ */
+export interface StoredSettings {
+  version: number
+  updatedAt: number // Newest copy wins when local and cloud disagree
+  settings: PlayerSettings
+}
+
+/**
+ * Allowed values for the settings picked from a list
+ */
+export const SETTINGS_OPTIONS = {
+  controlScheme: ['both', 'touch', 'keyboard'] as ControlScheme[],
+  ringPalette: ['standard', 'colorBlind'] as RingPalette[],
+  hudScale: [0.75, 1, 1.25, 1.5],
+  language: ['en', 'es', 'fr', 'de'] as Language[],
+  scoresPerPage: [5, 8, 10],
+  instructionsDuration: [3000, 5000, 10000]
+}
+
+export const DEFAULT_SETTINGS: PlayerSettings = {
+  musicVolume: 0.5,
+  sfxVolume: 0.8,
+  muted: false,
+  controlScheme: 'both',
+  reducedMotion: false,
+  ringPalette: 'standard',
+  hudScale: 1,
+  language: 'en',
+  scoresPerPage: 5,
+  instructionsDuration: 5000
+}
+
+export class SettingsManager {
+  private static instance: SettingsManager
+  private static readonly LEGACY_AUDIO_KEY = 'pixelPaperPlane_audio' // Version 0: audio-only settings
+  private static readonly VERSION = 1
+  private static readonly CLOUD_SAVE_DELAY = 1000 // ms - batches rapid changes into one write
+
+  private readonly data = new PersistedData(localStorage, SETTINGS_SCHEMA)
+  private stored: StoredSettings
+  private listeners: ((settings: PlayerSettings) => void)[] = []
+  private firestore: Firestore | null = null
+  private cloudSaveTimer?: number
+
+  private constructor() {
+    this.stored = this.loadFromStorage()
+
+    const authManager = AuthManager.getInstance()
+    authManager.onAuthStateChanged(user => this.handleAuthStateChange(user))
+    this.handleAuthStateChange(authManager.getCurrentUser())
+  }
+
+  public static getInstance(): SettingsManager {
+    if (!SettingsManager.instance) {
+      SettingsManager.instance = new SettingsManager()
+    }
+    return SettingsManager.instance
+  }
+
+  public get(): PlayerSettings {
+    return { ...this.stored.settings }
+  }
+
+  /**
+   * Change some settings, persist them and notify listeners
+   */
+  public update(changes: Partial<PlayerSettings>): void {
+    this.stored = {
+      version: SettingsManager.VERSION,
+      updatedAt: Date.now(),
+      settings: SettingsManager.sanitize({ ...this.stored.settings, ...changes })
+    }
+
+    this.saveToStorage()
+    this.notifyListeners()
+    this.scheduleCloudSave()
+  }
+
+  public reset(): void {
+    this.update(DEFAULT_SETTINGS)
+  }
+
+  /**
+   * Add settings change listener
+   */
+  public onChange(callback: (settings: PlayerSettings) => void): void {
+    this.listeners.push(callback)
+  }
+
+  /**
+   * Remove settings change listener
+   */
+  public removeChangeListener(callback: (settings: PlayerSettings) => void): void {
+    const index = this.listeners.indexOf(callback)
+    if (index > -1) {
+      this.listeners.splice(index, 1)
+    }
+  }
+
+  private notifyListeners(): void {
+    const settings = this.get()
+    this.listeners.forEach(callback => {
+      try {
+        callback(settings)
+      } catch (error) {
+        console.error('Settings listener error:', error)
+      }
+    })
+  }
+
+  /**
+   * A loaded copy - local or cloud - with its settings validated
+   */
+  private static fromStored(stored: StoredSettings): StoredSettings {
+    return {
+      version: SettingsManager.VERSION,
+      updatedAt: stored.updatedAt,
+      settings: SettingsManager.sanitize(stored.settings)
+    }
+  }
+
+  /**
+   * Validate every field, replacing bad values with the default
+   */
+  private static sanitize(data: any): PlayerSettings {
+    const source = data && typeof data === 'object' ? data : {}
+    const volume = (value: any, fallback: number) =>
+      typeof value === 'number' && isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback
+    const option = <T>(value: any, options: T[], fallback: T): T =>
+      options.includes(value) ? value : fallback
+
+    return {
+      musicVolume: volume(source.musicVolume, DEFAULT_SETTINGS.musicVolume),
+      sfxVolume: volume(source.sfxVolume, DEFAULT_SETTINGS.sfxVolume),
+      muted: source.muted === true,
+      controlScheme: option(source.controlScheme, SETTINGS_OPTIONS.controlScheme, DEFAULT_SETTINGS.controlScheme),
+      reducedMotion: source.reducedMotion === true,
+      ringPalette: option(source.ringPalette, SETTINGS_OPTIONS.ringPalette, DEFAULT_SETTINGS.ringPalette),
+      hudScale: option(source.hudScale, SETTINGS_OPTIONS.hudScale, DEFAULT_SETTINGS.hudScale),
+      language: option(source.language, SETTINGS_OPTIONS.language, DEFAULT_SETTINGS.language),
+      scoresPerPage: option(source.scoresPerPage, SETTINGS_OPTIONS.scoresPerPage, DEFAULT_SETTINGS.scoresPerPage),
+      instructionsDuration: option(
+        source.instructionsDuration,
+        SETTINGS_OPTIONS.instructionsDuration,
+        DEFAULT_SETTINGS.instructionsDuration
+      )
+    }
+  }
+
+  private loadFromStorage(): StoredSettings {
+    try {
+      // The audio-only settings are version 0 of the settings blob
+      const legacy = localStorage.getItem(SettingsManager.LEGACY_AUDIO_KEY)
+      if (legacy !== null && localStorage.getItem(SETTINGS_SCHEMA.key) === null) {
+        localStorage.setItem(SETTINGS_SCHEMA.key, legacy)
+      }
+
+      const stored = this.data.load()
+      if (stored) {
+        return SettingsManager.fromStored(stored)
+      }
+    } catch (error) {
+      console.warn('SettingsManager: Failed to load settings:', error)
+    }
+
+    return { version: SettingsManager.VERSION, updatedAt: 0, settings: { ...DEFAULT_SETTINGS } }
+  }
+
+  private saveToStorage(): void {
+    try {
+      this.data.save(this.stored)
+      localStorage.removeItem(SettingsManager.LEGACY_AUDIO_KEY)
+    } catch (error) {
+      console.warn('SettingsManager: Failed to save settings:', error)
+    }
+  }
+
+  /**
+   * Firestore for the signed-in user, null for guests or local-only mode
+   */
+  private getFirestore(user: User | null): Firestore | null {
+    if (!user || user.isGuest) return null
+
+    const app = AuthManager.getInstance().getFirebaseApp()
+    if (!app) return null
+
+    if (!this.firestore) {
+      this.firestore = getFirestore(app)
+    }
+    return this.firestore
+  }
+
+  /**
+   * On sign-in, keep whichever copy of the settings was changed last
+   */
+  private async handleAuthStateChange(user: User | null): Promise<void> {
+    const firestore = this.getFirestore(user)
+    if (!firestore || !user) return
+
+    try {
+      const snapshot = await getDoc(doc(firestore, 'users', user.id))
+      const remote = snapshot.exists() ? snapshot.data().settings : undefined
+      // The cloud copy is stored like a pre-envelope local one
+      const cloud = remote ? SettingsManager.fromStored(PersistedData.migrate(SETTINGS_SCHEMA, remote)) : undefined
+
+      if (cloud && cloud.updatedAt > this.stored.updatedAt) {
+        this.stored = cloud
+        this.saveToStorage()
+        this.notifyListeners()
+        console.log('SettingsManager: Loaded settings from Firestore')
+      } else if (!cloud || this.stored.updatedAt > cloud.updatedAt) {
+        await this.saveToCloud()
+      }
+    } catch (error) {
+      console.warn('SettingsManager: Failed to load settings from Firestore:', error)
+    }
+  }
+
+  private scheduleCloudSave(): void {
+    if (!this.getFirestore(AuthManager.getInstance().getCurrentUser())) return
+
+    window.clearTimeout(this.cloudSaveTimer)
+    this.cloudSaveTimer = window.setTimeout(() => {
+      this.saveToCloud().catch(error => {
+        console.warn('SettingsManager: Failed to save settings to Firestore:', error)
+      })
+    }, SettingsManager.CLOUD_SAVE_DELAY)
+  }
+
+  private async saveToCloud(): Promise<void> {
+    const user = AuthManager.getInstance().getCurrentUser()
+    const firestore = this.getFirestore(user)
+    if (!firestore || !user) return
+
+    await setDoc(doc(firestore, 'users', user.id), { settings: this.stored }, { merge: true })
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * SkyCycle - Time of day and weather as a function of distance
+ *
+ * The sky moves through day, sunset, night and sunrise as the plane flies,
+ * blending each palette into the next. Weather is rolled per stretch of the
+ * course from the seeded weather stream, so the same seed always has the
+ * same rain and snow - which matters because weather changes cloud density.
+ * Holds no Phaser state; the Atmosphere object renders it.
+ */
+
+import { skyPalettes, weatherColors } from '../ui/DesignTokens'
+import { RandomService } from './RandomService'
+
+export type TimeOfDay = keyof typeof skyPalettes
+
+export type WeatherType = 'clear' | 'rain' | 'snow'
+
+/**
+ * Sky colors at a point in the cycle (0xRRGGBB)
+ */
+export interface SkyColors {
+  top: number
+  bottom: number
+  scenery: number // Tint for the parallax layers
+}
+
+export interface WeatherConfig {
+  weight: number // Relative chance per stretch
+  hazeAlpha: number // Opacity of the haze over the course (lower visibility)
+  cloudSpacingScale: number // Multiplies the gap between clouds (< 1 is denser)
+  particleColor?: number
+}
+
+export const WEATHER_CONFIGS: Record<WeatherType, WeatherConfig> = {
+  clear: { weight: 0.6, hazeAlpha: 0, cloudSpacingScale: 1 },
+  rain: { weight: 0.25, hazeAlpha: 0.2, cloudSpacingScale: 0.8, particleColor: parseColor(weatherColors.rain) },
+  snow: { weight: 0.15, hazeAlpha: 0.35, cloudSpacingScale: 1.15, particleColor: parseColor(weatherColors.snow) }
+}
+
+const DAY_ORDER: TimeOfDay[] = ['day', 'sunset', 'night', 'sunrise']
+
+export class SkyCycle {
+  public static readonly DAY_LENGTH = 16000 // World distance (px) of a full day
+  public static readonly TRANSITION = 0.3 // Share of each phase spent blending into the next
+  public static readonly WEATHER_STRETCH = 3000 // World distance (px) per weather roll
+
+  // Rolled lazily but always in course order; the opening stretch is clear
+  private weather: WeatherType[] = ['clear']
+
+  /**
+   * Phase of the day at a world x position
+   */
+  public getTimeOfDay(x: number): TimeOfDay {
+    return DAY_ORDER[this.getPhase(x).index]
+  }
+
+  /**
+   * Sky colors at a world x position, blended between phases
+   */
+  public getSkyColors(x: number): SkyColors {
+    const { index, blend } = this.getPhase(x)
+    const from = skyPalettes[DAY_ORDER[index]]
+    const to = skyPalettes[DAY_ORDER[(index + 1) % DAY_ORDER.length]]
+
+    return {
+      top: lerpColor(parseColor(from.top), parseColor(to.top), blend),
+      bottom: lerpColor(parseColor(from.bottom), parseColor(to.bottom), blend),
+      scenery: lerpColor(parseColor(from.scenery), parseColor(to.scenery), blend)
+    }
+  }
+
+  /**
+   * Weather over the stretch containing a world x position
+   */
+  public getWeather(x: number): WeatherType {
+    const stretch = Math.max(0, Math.floor(x / SkyCycle.WEATHER_STRETCH))
+
+    while (this.weather.length <= stretch) {
+      this.weather.push(SkyCycle.rollWeather())
+    }
+
+    return this.weather[stretch]
+  }
+
+  public getWeatherConfig(x: number): WeatherConfig {
+    return WEATHER_CONFIGS[this.getWeather(x)]
+  }
+
+  public getCloudSpacingScale(x: number): number {
+    return this.getWeatherConfig(x).cloudSpacingScale
+  }
+
+  /**
+   * Current phase index and how far it has blended into the next (0-1)
+   */
+  private getPhase(x: number): { index: number, blend: number } {
+    const phaseLength = SkyCycle.DAY_LENGTH / DAY_ORDER.length
+    const position = (Math.max(0, x) % SkyCycle.DAY_LENGTH) / phaseLength
+    const index = Math.floor(position)
+    const t = position - index
+    const holdEnd = 1 - SkyCycle.TRANSITION
+
+    return {
+      index,
+      blend: t <= holdEnd ? 0 : (t - holdEnd) / SkyCycle.TRANSITION
+    }
+  }
+
+  private static rollWeather(): WeatherType {
+    const types = Object.keys(WEATHER_CONFIGS) as WeatherType[]
+    const totalWeight = types.reduce((sum, type) => sum + WEATHER_CONFIGS[type].weight, 0)
+
+    let rand = RandomService.getInstance().stream('weather').next() * totalWeight
+    for (const type of types) {
+      rand -= WEATHER_CONFIGS[type].weight
+      if (rand < 0) return type
+    }
+    return types[types.length - 1]
+  }
+}
+
+/**
+ * '#RRGGBB' design token to 0xRRGGBB
+ */
+function parseColor(hex: string): number {
+  return parseInt(hex.replace('#', ''), 16)
+}
+
+function lerpColor(from: number, to: number, t: number): number {
+  const channel = (shift: number) => {
+    const a = (from >> shift) & 0xFF
+    const b = (to >> shift) & 0xFF
+    return Math.round(a + (b - a) * t) << shift
+  }
+  return channel(16) | channel(8) | channel(0)
+}
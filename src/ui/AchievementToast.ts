@@ -0,0 +1,97 @@
+/**
+ * AchievementToast - Unlock notifications shown during a run
+ *
+ * Provides:
+ * - A banner sliding in below the HUD for each unlocked achievement
+ * - A queue so several unlocks at once are shown one after another
+ * - Fade-only animation with reduced motion
+ */
+
+import { colors, typography } from './DesignTokens'
+import { AudioManager } from '../systems/AudioManager'
+import { SettingsManager } from '../systems/SettingsManager'
+import { t } from '../systems/Localization'
+import type { AchievementDefinition } from '../systems/Achievements'
+
+export class AchievementToast {
+  private static readonly Y = 120
+  private static readonly HOLD = 2200 // ms on screen
+
+  private scene: Phaser.Scene
+  private queue: AchievementDefinition[] = []
+  private showing: boolean = false
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene
+  }
+
+  /**
+   * Queue a toast for an unlocked achievement
+   */
+  public show(achievement: AchievementDefinition): void {
+    this.queue.push(achievement)
+    if (!this.showing) {
+      this.showNext()
+    }
+  }
+
+  private showNext(): void {
+    const achievement = this.queue.shift()
+    if (!achievement || !this.scene.sys.isActive()) {
+      this.showing = false
+      return
+    }
+    this.showing = true
+
+    const { width } = this.scene.cameras.main
+    const reducedMotion = SettingsManager.getInstance().get().reducedMotion
+    const toast = this.createToast(achievement, width / 2, reducedMotion ? AchievementToast.Y : AchievementToast.Y - 30)
+    toast.setAlpha(0)
+
+    AudioManager.getInstance().playSfx('personalBest')
+
+    this.scene.tweens.add({
+      targets: toast,
+      alpha: 1,
+      y: AchievementToast.Y,
+      duration: 300,
+      ease: 'Power2',
+      hold: AchievementToast.HOLD,
+      yoyo: true,
+      onComplete: () => {
+        toast.destroy()
+        this.showNext()
+      }
+    })
+  }
+
+  private createToast(achievement: AchievementDefinition, x: number, y: number): Phaser.GameObjects.Container {
+    const container = this.scene.add.container(x, y)
+    container.setScrollFactor(0)
+    container.setDepth(1100)
+
+    const heading = this.scene.add.text(0, -10, t('achievements.unlocked'), {
+      fontFamily: typography.primary,
+      fontSize: '10px',
+      color: colors.accent
+    })
+    heading.setOrigin(0.5)
+
+    const name = this.scene.add.text(0, 10, t(achievement.name), {
+      fontFamily: typography.primary,
+      fontSize: '14px',
+      color: colors.white
+    })
+    name.setOrigin(0.5)
+
+    const boxWidth = Math.max(heading.width, name.width) + 40
+    const background = this.scene.add.graphics()
+    background.fillStyle(0x000000, 0.75)
+    background.lineStyle(2, parseInt(colors.accent.replace('#', ''), 16), 1)
+    background.fillRoundedRect(-boxWidth / 2, -26, boxWidth, 52, 8)
+    background.strokeRoundedRect(-boxWidth / 2, -26, boxWidth, 52, 8)
+
+    container.add([background, heading, name])
+    return container
+  }
+}
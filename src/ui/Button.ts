@@ -9,6 +9,7 @@
  */
 
 import { colors, typography } from './DesignTokens'
+import { AudioManager } from '../systems/AudioManager'
 
 export interface ButtonConfig {
   x: number
@@ -144,6 +145,7 @@ export class Button {
     this.container.setInteractive()
     
     // Click handler
+    this.container.on('pointerdown', () => AudioManager.getInstance().playSfx('click'))
     this.container.on('pointerdown', onClick)
     
     // Hover effects
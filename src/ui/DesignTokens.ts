@@ -13,6 +13,32 @@ export const colors = {
   black: '#000000'
 } as const
 
+/**
+ * Sky palettes for the time-of-day cycle - day is the regular sky
+ * `scenery` tints the parallax layers so they darken with the sky
+ */
+export const skyPalettes = {
+  day: { top: colors.skyTop, bottom: colors.skyBottom, scenery: '#FFFFFF' },
+  sunset: { top: '#FF8C61', bottom: '#FFD6A5', scenery: '#F2C6A8' },
+  night: { top: '#0B1D3A', bottom: '#2E4A7D', scenery: '#5C6C9C' },
+  sunrise: { top: '#F7A8C4', bottom: '#FFE8B8', scenery: '#EBD3CC' }
+} as const
+
+export const weatherColors = {
+  rain: '#A8C4E0',
+  snow: '#FFFFFF',
+  fog: '#C8D3DD'
+} as const
+
+/**
+ * Ring colours per palette - the colour-blind one (from Okabe-Ito) tints the
+ * ring sprites so the three types differ in brightness as well as hue
+ */
+export const ringPalettes = {
+  standard: { bronze: '#CD7F32', silver: '#C0C0C0', gold: '#FFD700' },
+  colorBlind: { bronze: '#D55E00', silver: '#56B4E9', gold: '#F0E442' }
+} as const
+
 export const typography = {
   primary: '"Press Start 2P", monospace',
   fallback: 'monospace'
@@ -31,6 +57,9 @@ export const radius = {
 } as const
 
 export type Colors = typeof colors
+export type SkyPalettes = typeof skyPalettes
+export type WeatherColors = typeof weatherColors
+export type RingPalettes = typeof ringPalettes
 export type Typography = typeof typography
 export type Spacing = typeof spacing
 export type Radius = typeof radius 
\ No newline at end of file
@@ -0,0 +1,95 @@
+/**
+ * GameHud - In-run score, distance, power-up and combo readouts
+ *
+ * The score follows `scoreChanged` on the run's GameEventBus; distance,
+ * power-up timers and the combo change every frame and are refreshed from
+ * update().
+ */
+
+import { colors } from './DesignTokens'
+import { t } from '../systems/Localization'
+import { POWER_UP_CONFIGS } from '../objects/PowerUp'
+import type { GameEventBus } from '../systems/GameEvents'
+import type { PowerUpEffects } from '../systems/PowerUpEffects'
+import type { ComboTracker } from '../systems/ComboTracker'
+
+export class GameHud {
+  private scene: Phaser.Scene
+  private hudScale: number
+  private scoreText: Phaser.GameObjects.Text
+  private distanceText: Phaser.GameObjects.Text
+  private powerUpText: Phaser.GameObjects.Text
+  private comboText: Phaser.GameObjects.Text
+  private running: boolean = true
+  
+  constructor(scene: Phaser.Scene, events: GameEventBus, hudScale: number) {
+    this.scene = scene
+    this.hudScale = hudScale
+    
+    const textStyle = {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '16px',
+      color: colors.primary
+    }
+    
+    this.scoreText = this.createText(20, this.getLineY(0), `${t('hud.score')}: 0`, textStyle)
+    this.distanceText = this.createText(20, this.getLineY(1), `${t('hud.distance')}: 0m`, textStyle)
+    
+    // Active power-up timers
+    this.powerUpText = this.createText(20, this.getLineY(2), '', { ...textStyle, fontSize: '12px', color: colors.accent })
+    
+    // Current combo and multiplier
+    this.comboText = this.createText(scene.cameras.main.width - 70, this.getLineY(0), '', textStyle)
+    this.comboText.setOrigin(1, 0)
+    
+    events.on('scoreChanged', ({ score }) => {
+      if (this.scoreText.active) {
+        this.scoreText.setText(`${t('hud.score')}: ${score}`)
+      }
+    })
+    
+    // Effects end with the run
+    events.on('runEnded', () => {
+      this.running = false
+      this.powerUpText.setText('')
+      this.comboText.setText('')
+    })
+  }
+  
+  /**
+   * Refresh the per-frame readouts
+   */
+  public update(distance: number, powerUpEffects: PowerUpEffects, comboTracker: ComboTracker): void {
+    if (!this.running) return
+    
+    if (this.distanceText.active) {
+      this.distanceText.setText(`${t('hud.distance')}: ${Math.floor(distance)}m`)
+    }
+    
+    if (this.powerUpText.active) {
+      const timers = powerUpEffects.getActive()
+        .map(effect => `${t(POWER_UP_CONFIGS[effect.type].label)} ${(effect.remaining / 1000).toFixed(1)}s`)
+      this.powerUpText.setText(timers.join('  '))
+    }
+    
+    if (this.comboText.active) {
+      const combo = comboTracker.getCombo()
+      this.comboText.setText(combo > 1 ? `${t('hud.combo')} ${combo} x${comboTracker.getMultiplier()}` : '')
+    }
+  }
+  
+  /**
+   * Y position of a HUD line, spaced for the player's HUD scale
+   */
+  private getLineY(line: number): number {
+    return 20 + line * 30 * this.hudScale
+  }
+  
+  private createText(x: number, y: number, text: string, style: Phaser.Types.GameObjects.Text.TextStyle): Phaser.GameObjects.Text {
+    const hudText = this.scene.add.text(x, y, text, style)
+    hudText.setScrollFactor(0)
+    hudText.setDepth(1000)
+    hudText.setScale(this.hudScale)
+    return hudText
+  }
+}
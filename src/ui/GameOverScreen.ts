@@ -0,0 +1,390 @@
+/**
+ * GameOverScreen - Results and navigation shown when a run ends
+ *
+ * Appears once the run's score has been saved (`scoreSaved` on the
+ * GameEventBus) with the final score, personal rank, top scores and the
+ * HOME / RESTART / GHOST buttons. Navigation is handed back to the scene.
+ */
+
+import { colors, typography } from './DesignTokens'
+import { AudioManager } from '../systems/AudioManager'
+import { ScoreManager } from '../systems/ScoreManager'
+import { AuthManager } from '../systems/AuthManager'
+import { DailyChallenge } from '../systems/DailyChallenge'
+import { DifficultyProfiles } from '../systems/DifficultyProfile'
+import { t } from '../systems/Localization'
+import type { GameScore } from '../systems/ScoreManager'
+import type { GameEventBus, RunStats } from '../systems/GameEvents'
+
+export interface GameOverConfig {
+  gameMode: string
+  challengeDay?: string
+  reducedMotion: boolean
+  onHome: () => void
+  onRestart: () => void // Another run, or today's board once challenge attempts run out
+  onGhost: (seed: number, difficulty: string) => void // Race the best run's ghost on its course and difficulty
+}
+
+export class GameOverScreen {
+  private scene: Phaser.Scene
+  private config: GameOverConfig
+  
+  constructor(scene: Phaser.Scene, events: GameEventBus, config: GameOverConfig) {
+    this.scene = scene
+    this.config = config
+    
+    events.on('scoreSaved', ({ score, stats, isPersonalBest }) => this.show(score, stats, isPersonalBest))
+  }
+  
+  /**
+   * Display game over screen with final score
+   */
+  private show(savedScore: GameScore, stats: RunStats, isNewPersonalBest: boolean): void {
+    const { width, height } = this.scene.cameras.main
+    const finalScore = savedScore.score
+    const authManager = AuthManager.getInstance()
+    const currentUser = authManager.getCurrentUser()
+    
+    // Background overlay
+    const gameOverBg = this.scene.add.graphics()
+    gameOverBg.fillStyle(0x000000, 0.7)
+    gameOverBg.fillRect(0, 0, width, height)
+    gameOverBg.setScrollFactor(0)
+    
+    // Game over text
+    const title = this.config.gameMode === 'challenge' ? t('gameOver.challengeTitle') : t('gameOver.title')
+    const gameOverText = this.scene.add.text(width / 2, height / 2 - 120, title, {
+      fontFamily: typography.primary,
+      fontSize: '24px',
+      color: colors.primary,
+      align: 'center'
+    })
+    gameOverText.setOrigin(0.5)
+    gameOverText.setScrollFactor(0)
+    
+    // Personal best indicator
+    if (isNewPersonalBest) {
+      AudioManager.getInstance().playSfx('personalBest')
+      const newBestText = this.scene.add.text(width / 2, height / 2 - 90, t('gameOver.newBest'), {
+        fontFamily: typography.primary,
+        fontSize: '14px',
+        color: colors.accent,
+        align: 'center'
+      })
+      newBestText.setOrigin(0.5)
+      newBestText.setScrollFactor(0)
+      
+      // Flashing effect for new best
+      if (!this.config.reducedMotion) {
+        this.scene.tweens.add({
+          targets: newBestText,
+          alpha: 0.3,
+          duration: 600,
+          yoyo: true,
+          repeat: 3
+        })
+      }
+    }
+    
+    // Score display with ranking
+    const scoreText = this.scene.add.text(width / 2, height / 2 - 60, `${t('gameOver.finalScore')}: ${finalScore}`, {
+      fontFamily: typography.primary,
+      fontSize: '16px',
+      color: colors.accent,
+      align: 'center'
+    })
+    scoreText.setOrigin(0.5)
+    scoreText.setScrollFactor(0)
+    
+    // Ranking display
+    if (savedScore.rank) {
+      const rankText = this.scene.add.text(width / 2, height / 2 - 35, `${t('gameOver.rank')}: #${savedScore.rank}`, {
+        fontFamily: typography.primary,
+        fontSize: '12px',
+        color: colors.white,
+        align: 'center'
+      })
+      rankText.setOrigin(0.5)
+      rankText.setScrollFactor(0)
+    }
+    
+    // Distance display
+    const distanceText = this.scene.add.text(width / 2, height / 2 - 10, `${t('gameOver.distance')}: ${stats.distance}m`, {
+      fontFamily: typography.primary,
+      fontSize: '16px',
+      color: colors.accent,
+      align: 'center'
+    })
+    distanceText.setOrigin(0.5)
+    distanceText.setScrollFactor(0)
+    
+    // Best combo of the run
+    const comboText = this.scene.add.text(width / 2, height / 2 + 12, `${t('gameOver.combo')}: ${savedScore.maxCombo || 0}`, {
+      fontFamily: typography.primary,
+      fontSize: '12px',
+      color: colors.white,
+      align: 'center'
+    })
+    comboText.setOrigin(0.5)
+    comboText.setScrollFactor(0)
+    
+    // Course seed so the run can be reported or replayed
+    if (savedScore.seed !== undefined) {
+      const seedText = this.scene.add.text(width - 10, height - 10, `${t('gameOver.seed')} ${savedScore.seed}`, {
+        fontFamily: typography.primary,
+        fontSize: '8px',
+        color: colors.white,
+        align: 'right'
+      })
+      seedText.setOrigin(1, 1)
+      seedText.setScrollFactor(0)
+      seedText.setAlpha(0.6)
+    }
+    
+    // Authentication-aware messaging and buttons
+    this.createAuthAwareUI(width, height, currentUser)
+    
+    // Show top 3 personal scores with current game highlighted
+    this.showTopPersonalScores(width, height, savedScore)
+    
+    // Navigation buttons
+    this.createGameOverButtons(width, height, currentUser)
+  }
+  
+  /**
+   * Create authentication-aware UI elements
+   */
+  private createAuthAwareUI(_width: number, _height: number, _currentUser: any): void {
+    // UI elements removed - no status message needed on game over screen
+  }
+  
+  /**
+   * Create game over navigation buttons
+   * TEMPORARY: Authentication button temporarily disabled for frontend
+   */
+  private createGameOverButtons(width: number, height: number, _currentUser: any): void {
+    const buttonY = height / 2 + 160  // Increased from 100 to 160 for more space
+    const buttonSpacing = 130
+    
+    // Normal runs can race the best run's ghost on its own course and difficulty,
+    // as long as that difficulty still exists (custom profiles can be deleted)
+    const best = this.config.gameMode === 'normal' ? ScoreManager.getInstance().getBestReplay('normal') : null
+    const ghostDifficulty = best?.replay.difficulty || 'normal'
+    const bestReplay = best && DifficultyProfiles.get(ghostDifficulty).id === ghostDifficulty ? best : null
+    
+    // Calculate proper center positioning for button pair
+    // Each button is 100px wide, with 130px spacing between centers
+    // Total spread: 130px, so each button is 65px from the pair's center
+    // A third GHOST button shifts the pair left to keep the row centred
+    const halfSpacing = buttonSpacing / 2
+    const buttonPairCenter = bestReplay ? width / 2 - halfSpacing : width / 2
+    
+    // Challenge runs show the attempts left; once used up RESTART opens today's board
+    const canRetry = this.config.gameMode !== 'challenge' || DailyChallenge.canAttempt(this.config.challengeDay)
+    if (this.config.gameMode === 'challenge') {
+      const attemptsLeft = DailyChallenge.getAttemptsRemaining(this.config.challengeDay)
+      const attemptsText = this.scene.add.text(width / 2, buttonY - 40, `${t('gameOver.attempts')}: ${attemptsLeft}/${DailyChallenge.MAX_ATTEMPTS}`, {
+        fontFamily: typography.primary,
+        fontSize: '10px',
+        color: colors.white,
+        align: 'center'
+      })
+      attemptsText.setOrigin(0.5)
+      attemptsText.setScrollFactor(0)
+    }
+    
+    // HOME button (always visible) - positioned left of center
+    const homeButton = this.createGameOverButton(
+      buttonPairCenter - halfSpacing,
+      buttonY,
+      t('pause.home'),
+      colors.primary,
+      () => this.config.onHome()
+    )
+    
+    // RESTART button (always visible) - positioned right of center
+    const restartButton = this.createGameOverButton(
+      buttonPairCenter + halfSpacing,
+      buttonY,
+      canRetry ? t('pause.restart') : t('gameOver.board'),
+      colors.accent,
+      () => this.config.onRestart()
+    )
+    
+    const buttons = [homeButton, restartButton]
+    
+    // GHOST button - replay the best run's course with its ghost
+    if (bestReplay) {
+      buttons.push(this.createGameOverButton(
+        buttonPairCenter + halfSpacing + buttonSpacing,
+        buttonY,
+        t('gameOver.ghost'),
+        '#666666',
+        () => this.config.onGhost(bestReplay.replay.seed, ghostDifficulty)
+      ))
+    }
+    
+    // TEMPORARY: Authentication button temporarily disabled for frontend
+    // TODO: Uncomment the following block to restore authentication/scores navigation
+    /*
+    // Authentication-aware third button
+    if (!currentUser || currentUser.isGuest) {
+      // LOGIN button for guests
+      const authButtonText = 'LOGIN'
+      this.createGameOverButton(
+        width / 2 + buttonSpacing,
+        buttonY,
+        authButtonText,
+        '#4CAF50',
+        () => this.config.onHome()
+      )
+    } else {
+      // VIEW SCORES button for authenticated users
+      this.createGameOverButton(
+        width / 2 + buttonSpacing,
+        buttonY,
+        'SCORES',
+        '#666666',
+        () => this.scene.scene.start('ScoresScene')
+      )
+    }
+    */
+    
+    // Add helper text
+    const helpText = this.scene.add.text(width / 2, height / 2 + 200, t('gameOver.help'), {
+      fontFamily: typography.primary,
+      fontSize: '9px',
+      color: colors.white,
+      align: 'center'
+    })
+    helpText.setOrigin(0.5)
+    helpText.setScrollFactor(0)
+    helpText.setAlpha(0.7)
+    
+    // Flashing effect for buttons
+    if (!this.config.reducedMotion) {
+      this.scene.tweens.add({
+        targets: buttons,
+        alpha: 0.8,
+        duration: 1000,
+        yoyo: true,
+        repeat: -1
+      })
+    }
+  }
+  
+  /**
+   * Create a styled game over button
+   */
+  private createGameOverButton(x: number, y: number, text: string, color: string, onClick: () => void): Phaser.GameObjects.Container {
+    const buttonContainer = this.scene.add.container(x, y)
+    
+    // Button background
+    const bg = this.scene.add.graphics()
+    bg.fillStyle(parseInt(color.replace('#', ''), 16), 0.9)
+    bg.lineStyle(2, parseInt(colors.white.replace('#', ''), 16), 1)
+    bg.fillRoundedRect(-50, -20, 100, 40, 8)
+    bg.strokeRoundedRect(-50, -20, 100, 40, 8)
+    
+    // Button text
+    const buttonText = this.scene.add.text(0, 0, text, {
+      fontFamily: typography.primary,
+      fontSize: '12px',
+      color: colors.white,
+      align: 'center',
+      stroke: '#000000',
+      strokeThickness: 2
+    })
+    buttonText.setOrigin(0.5, 0.5)
+    
+    buttonContainer.add([bg, buttonText])
+    buttonContainer.setSize(100, 40)
+    buttonContainer.setInteractive()
+    buttonContainer.setScrollFactor(0)
+    
+    // Hover effects
+    buttonContainer.on('pointerover', () => {
+      buttonContainer.setScale(1.1)
+    })
+    
+    buttonContainer.on('pointerout', () => {
+      buttonContainer.setScale(1.0)
+    })
+    
+    // Click handler
+    buttonContainer.on('pointerdown', () => AudioManager.getInstance().playSfx('click'))
+    buttonContainer.on('pointerdown', onClick)
+    
+    return buttonContainer
+  }
+  
+  /**
+   * Show top 3 personal scores plus current game's score on game over screen
+   */
+  private showTopPersonalScores(width: number, height: number, currentScore: GameScore): void {
+    // Challenge runs are ranked against today's challenge board only
+    const allScores = this.config.gameMode === 'challenge' && this.config.challengeDay
+      ? ScoreManager.getInstance().getChallengeScores(this.config.challengeDay)
+      : ScoreManager.getInstance().getScoresForMode('normal')
+    const topScores = allScores.slice(0, 3)
+    
+    if (allScores.length > 0) {
+      const topScoresText = this.scene.add.text(width / 2, height / 2 + 35, `${t('gameOver.topScores')}:`, {
+        fontFamily: typography.primary,
+        fontSize: '10px',
+        color: colors.white,
+        align: 'center'
+      })
+      topScoresText.setOrigin(0.5)
+      topScoresText.setScrollFactor(0)
+      
+      // Display top 3 scores
+      topScores.forEach((score, index) => {
+        const isCurrentGame = score.timestamp === currentScore.timestamp
+        const textColor = isCurrentGame ? colors.accent : '#CCCCCC'  // Highlight current game
+        
+        const scoreEntry = this.scene.add.text(
+          width / 2, 
+          height / 2 + 50 + (index * 12), 
+          `${index + 1}. ${score.score} ${t('gameOver.points')} (${score.distance}m)${isCurrentGame ? ` ← ${t('gameOver.latest')}` : ''}`, 
+          {
+            fontFamily: typography.primary,
+            fontSize: '9px',
+            color: textColor,
+            align: 'center'
+          }
+        )
+        scoreEntry.setOrigin(0.5)
+        scoreEntry.setScrollFactor(0)
+      })
+      
+      // If current game is not in top 3, show it separately
+      const currentGameRank = allScores.findIndex(s => s.timestamp === currentScore.timestamp) + 1
+      if (currentGameRank > 3) {
+        const currentGameEntry = this.scene.add.text(
+          width / 2, 
+          height / 2 + 50 + (3 * 12) + 6, // Extra spacing
+          `${currentGameRank}. ${currentScore.score} ${t('gameOver.points')} (${currentScore.distance}m) ← ${t('gameOver.latest')}`, 
+          {
+            fontFamily: typography.primary,
+            fontSize: '9px',
+            color: colors.accent,  // Highlighted color for current game
+            align: 'center'
+          }
+        )
+        currentGameEntry.setOrigin(0.5)
+        currentGameEntry.setScrollFactor(0)
+      }
+    } else {
+      // Show "No previous scores" if this is the first game
+      const noScoresText = this.scene.add.text(width / 2, height / 2 + 50, t('gameOver.firstGame'), {
+        fontFamily: typography.primary,
+        fontSize: '9px',
+        color: colors.white,
+        align: 'center'
+      })
+      noScoresText.setOrigin(0.5)
+      noScoresText.setScrollFactor(0)
+    }
+  }
+}
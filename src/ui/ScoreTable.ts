@@ -3,6 +3,7 @@
  */
 
 import { colors, typography } from './DesignTokens'
+import { t } from '../systems/Localization'
 import type { GameScore } from '../systems/ScoreManager'
 
 export interface ScoreTableConfig {
@@ -121,21 +122,26 @@ export class ScoreTable {
     }
     
     if (showRank) {
-      const rankHeader = this.container.scene.add.text(-150, y, 'Rank', headerStyle)
+      const rankHeader = this.container.scene.add.text(-160, y, t('table.rank'), headerStyle)
       rankHeader.setOrigin(0.5, 0.5)
       this.container.add(rankHeader)
       this.headerTexts.push(rankHeader)
     }
     
-    const scoreHeader = this.container.scene.add.text(showRank ? -20 : -60, y, 'Score', headerStyle)
+    const scoreHeader = this.container.scene.add.text(showRank ? -85 : -100, y, t('hud.score'), headerStyle)
     scoreHeader.setOrigin(0.5, 0.5)
     this.container.add(scoreHeader)
     this.headerTexts.push(scoreHeader)
     
-    const distanceHeader = this.container.scene.add.text(showRank ? 150 : 60, y, 'Distance', headerStyle)
+    const distanceHeader = this.container.scene.add.text(showRank ? 25 : 10, y, t('hud.distance'), headerStyle)
     distanceHeader.setOrigin(0.5, 0.5)
     this.container.add(distanceHeader)
     this.headerTexts.push(distanceHeader)
+    
+    const comboHeader = this.container.scene.add.text(showRank ? 155 : 120, y, t('table.combo'), headerStyle)
+    comboHeader.setOrigin(0.5, 0.5)
+    this.container.add(comboHeader)
+    this.headerTexts.push(comboHeader)
   }
   
   private createScoreRow(score: GameScore, y: number, globalRank: number, showRank: boolean, latestScoreTimestamp?: number): void {
@@ -159,22 +165,29 @@ export class ScoreTable {
     }
     
     if (showRank) {
-      const rankText = this.container.scene.add.text(-150, y, `${globalRank}`, rowStyle)
+      const rankText = this.container.scene.add.text(-160, y, `${globalRank}`, rowStyle)
       rankText.setOrigin(0.5, 0.5)
       this.container.add(rankText)
       this.scoreTexts.push(rankText)
     }
     
-    const scoreText = this.container.scene.add.text(showRank ? -20 : -60, y, score.score.toString(), rowStyle)
+    const scoreText = this.container.scene.add.text(showRank ? -85 : -100, y, score.score.toString(), rowStyle)
     scoreText.setOrigin(0.5, 0.5)
     this.container.add(scoreText)
     this.scoreTexts.push(scoreText)
     
     const distanceDisplay = `${score.distance}m${isLatestScore ? ' ← Latest' : ''}`
-    const distanceText = this.container.scene.add.text(showRank ? 150 : 60, y, distanceDisplay, rowStyle)
+    const distanceText = this.container.scene.add.text(showRank ? 25 : 10, y, distanceDisplay, rowStyle)
     distanceText.setOrigin(0.5, 0.5)
     this.container.add(distanceText)
     this.scoreTexts.push(distanceText)
+    
+    // Older scores were saved before combos existed
+    const comboDisplay = score.maxCombo ? `x${score.maxCombo}` : '-'
+    const comboText = this.container.scene.add.text(showRank ? 155 : 120, y, comboDisplay, rowStyle)
+    comboText.setOrigin(0.5, 0.5)
+    this.container.add(comboText)
+    this.scoreTexts.push(comboText)
   }
   
   private getTableHeight(): number {